@@ -3,20 +3,38 @@
 declare namespace Cloudflare {
   interface GlobalProps {
     mainModule: typeof import("./src/server");
-    durableNamespaces: "ChatAgentV2";
+    durableNamespaces: "ChatAgentV2" | "SessionDirectory" | "QuotaCounter";
   }
   interface Env {
     HOST: string;
     BIGMODEL_API_KEY: string;
+    OPENAI_API_KEY?: string;
     CHAT_ENABLE_THINKING?: string;
     CHAT_MODEL_THINKING?: string;
     CHAT_MODEL_STREAM?: string;
+    CHAT_MODEL_PROVIDER?: string;
     CHAT_MODEL_ID?: string;
+    CHAT_MODEL_PROVIDERS?: string;
     CHAT_MODEL_MAX_TOKENS?: string;
+    CHAT_MODEL_PRICES?: string;
+    CHAT_CONTEXT_TOKEN_BUDGET?: string;
     CHAT_TOOL_TIMEOUT_MS?: string;
     CHAT_TOOL_MAX_ATTEMPTS?: string;
     AGENT_IDLE_TIMEOUT_SECONDS?: string;
+    MCP_ALLOW_LOCALHOST?: string;
+    AUTH_SECRET?: string;
+    AUTH_API_KEYS?: string;
+    AUTH_USERS?: string;
+    AUTH_SESSION_TTL_SECONDS?: string;
+    QUOTA_MESSAGES_PER_MINUTE?: string;
+    QUOTA_TOKENS_PER_DAY?: string;
+    QUOTA_TOOL_CALLS_PER_HOUR?: string;
+    ATTACHMENTS?: R2Bucket;
     ChatAgentV2: DurableObjectNamespace<import("./src/demos/chat/chat-agent").ChatAgentV2>;
+    SessionDirectory: DurableObjectNamespace<
+      import("./src/demos/chat/session-directory").SessionDirectory
+    >;
+    QuotaCounter: DurableObjectNamespace<import("./src/demos/chat/quota-counter").QuotaCounter>;
   }
 }
 interface Env extends Cloudflare.Env {}
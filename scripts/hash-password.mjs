@@ -0,0 +1,32 @@
+import { webcrypto } from "node:crypto";
+
+// Mirrors hashPassword in src/shared/auth.ts; keep the two encodings in sync.
+const ITERATIONS = 100_000;
+
+function toBase64Url(bytes) {
+  return Buffer.from(bytes).toString("base64url");
+}
+
+const [username, password] = process.argv.slice(2);
+if (!username || !password) {
+  console.error("Usage: npm run auth:hash-password -- <username> <password>");
+  process.exit(1);
+}
+
+const salt = webcrypto.getRandomValues(new Uint8Array(16));
+const key = await webcrypto.subtle.importKey(
+  "raw",
+  new TextEncoder().encode(password),
+  "PBKDF2",
+  false,
+  ["deriveBits"]
+);
+const bits = await webcrypto.subtle.deriveBits(
+  { name: "PBKDF2", hash: "SHA-256", salt, iterations: ITERATIONS },
+  key,
+  256
+);
+
+console.log(
+  `${username}:pbkdf2$${ITERATIONS}$${toBase64Url(salt)}$${toBase64Url(new Uint8Array(bits))}`
+);
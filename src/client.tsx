@@ -4,8 +4,15 @@ import {
   ChatPane,
   McpPane,
   MobileTabBar,
+  ResourcesPanel,
+  SessionLifecyclePanel,
+  SessionSettingsPanel,
+  ShareLinksPanel,
   TopBar,
   WorkspaceSidebar,
+  LoginScreen,
+  MessageSearchPanel,
+  getResourceKey,
   type WorkspaceSection
 } from "./components/layout";
 import { PoweredByAgents, ThemeProvider, type ConnectionStatus } from "./components/AgentsUiCompat";
@@ -13,20 +20,22 @@ import { ToastProvider, useToast } from "./hooks/useToast";
 import { I18nProvider, useI18n } from "./hooks/useI18n";
 import { useResponsive } from "./hooks/useResponsive";
 import { Tabs } from "./components/ui";
+import { PromptArgumentsDialog } from "./components/chat";
 import { useAgent } from "agents/react";
 import { useAgentChat } from "@cloudflare/ai-chat/react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { createRoot } from "react-dom/client";
 import { Badge } from "@cloudflare/kumo";
-import { PlugIcon, ChatCircleIcon } from "@phosphor-icons/react";
+import { PlugIcon, ChatCircleIcon, PaperclipIcon, XIcon } from "@phosphor-icons/react";
 import type { UIMessage } from "ai";
 import type { MCPServersState } from "agents";
-import type { CommandSuggestionItem } from "./types/command";
+import type { CommandPromptRef, CommandSuggestionItem } from "./types/command";
 import { extractMessageSources } from "./types/message-sources";
 import { getMessageText } from "./utils/message-text";
 import { nanoid } from "nanoid";
 import { trackChatEvent } from "./features/chat/services/trackChatEvent";
 import {
+  clearSessionMeta,
   loadCurrentSessionId,
   loadSessions,
   saveCurrentSessionId,
@@ -46,18 +55,67 @@ import {
   isDeleteMessageResult,
   isEditMessageResult,
   isForkSessionResult,
-  isRegenerateMessageResult,
-  isToggleServerResult
+  isSessionSettingsResult,
+  isToggleServerResult,
+  type CustomMcpServerInput,
+  type EffectiveSessionSettings,
+  type McpResourceSummary,
+  type ChatHistoryPage,
+  type ContextSummary,
+  type MessageBranch,
+  type MessageSearchResult,
+  type ModelOption,
+  type ResourceAttachment,
+  type SessionLifecycle,
+  type SessionLifecycleMode,
+  type QuotaSnapshot,
+  type ShareLink,
+  type ShareScope,
+  type SessionSettings,
+  type SessionSettingsPatch,
+  type AuthStatus,
+  type AuthUser
 } from "./features/chat/services/apiContracts";
+import { fetchAuthStatus, signIn, signOut } from "./features/chat/services/authSession";
+import { setApiShareToken } from "./features/chat/services/apiClient";
+import {
+  readShareLinkFromSearch,
+  SHARE_LINK_QUERY_PARAM
+} from "./features/chat/services/shareLinks";
 import { getNextSessionAfterDelete } from "./features/chat/services/sessionSelection";
+import {
+  buildBranchPositions,
+  readMessageBranchesFromState
+} from "./features/chat/services/messageBranches";
+import {
+  downloadTextFile,
+  inlineExportCharts,
+  type ExportFormat
+} from "./features/chat/services/conversationExport";
+import { renderG2ChartSvg, renderMermaidSvg } from "./components/ChartRenderer";
+import { openMcpOAuthPopup } from "./features/chat/services/mcpOAuthPopup";
 import { buildCommandSuggestions } from "./features/chat/services/commandSuggestions";
+import { buildPromptConversation } from "./features/chat/services/mcpPrompts";
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  getAttachmentRejection,
+  isImageMediaType,
+  resolveAttachmentMediaType,
+  toFileParts,
+  type ComposerAttachment
+} from "./features/chat/services/composerAttachments";
 import { useChatTelemetry } from "./features/chat/hooks/useChatTelemetry";
 import { useEventLog } from "./features/chat/hooks/useEventLog";
 import { ApprovalContext } from "./features/chat/context/ApprovalContext";
 import { buildObservabilitySnapshot } from "./features/chat/services/observability";
+import {
+  HISTORY_PAGE_SIZE,
+  prependHistoryPage,
+  splitLatestHistoryPage
+} from "./features/chat/services/historyPages";
 import {
   createChatTransport,
-  type ChatHistoryItem,
   type ChatSessionSummary,
   type ConnectionPermissions,
   type PreconfiguredServer
@@ -68,6 +126,7 @@ import "./styles.css";
 
 type Tab = "chat" | "mcp";
 const DEFAULT_APPROVAL_REJECTION_REASON = "Rejected in chat message card";
+const SESSION_INDEX_PAGE_SIZE = 50;
 
 function readPreconfiguredServersFromState(
   state: unknown
@@ -81,6 +140,50 @@ function readPreconfiguredServersFromState(
   return servers;
 }
 
+function readSessionSettingsFromState(state: unknown): SessionSettings | null {
+  if (!state || typeof state !== "object") return null;
+  const settings = (state as { settings?: unknown }).settings;
+  if (!settings || typeof settings !== "object") return null;
+  return settings as SessionSettings;
+}
+
+function readSessionLifecycleFromState(state: unknown): SessionLifecycle | null {
+  if (!state || typeof state !== "object") return null;
+  const lifecycle = (state as { lifecycle?: { mode?: unknown } }).lifecycle;
+  if (!lifecycle || (lifecycle.mode !== "persistent" && lifecycle.mode !== "ephemeral")) {
+    return null;
+  }
+  return lifecycle as SessionLifecycle;
+}
+
+/** Pages loaded above the live history as the user scrolls up. */
+interface OlderHistory {
+  messages: UIMessage[];
+  /** Messages the agent has archived; they can be read but no longer edited. */
+  archivedIds: ReadonlySet<string>;
+  cursor: string | null;
+}
+
+const EMPTY_OLDER_HISTORY: OlderHistory = { messages: [], archivedIds: new Set(), cursor: null };
+
+const EMPTY_HISTORY_PAGE: ChatHistoryPage = { messages: [], nextCursor: null, stateVersion: 0 };
+
+/** Undefined when the state carries no summary field; null once the agent has cleared it. */
+function readContextSummaryFromState(state: unknown): ContextSummary | null | undefined {
+  if (!state || typeof state !== "object" || !("contextSummary" in state)) return undefined;
+  const summary = (state as { contextSummary?: Partial<ContextSummary> | null }).contextSummary;
+  if (!summary || typeof summary.boundaryMessageId !== "string" || typeof summary.text !== "string") {
+    return null;
+  }
+  return summary as ContextSummary;
+}
+
+function releaseAttachmentPreviews(attachments: ComposerAttachment[]) {
+  for (const item of attachments) {
+    if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+  }
+}
+
 function readPendingApprovalsFromState(state: unknown): RuntimeApprovalItem[] | null {
   if (!state || typeof state !== "object") return null;
   const candidate = state as {
@@ -110,16 +213,19 @@ function readPendingApprovalsFromState(state: unknown): RuntimeApprovalItem[] |
     .filter((item) => item.status === "pending");
 }
 
-function isReadonlyModeQueryEnabled(): boolean {
-  if (typeof window === "undefined") return false;
-  return new URLSearchParams(window.location.search).get("mode") === "view";
-}
-
-function buildHistorySignature(history: ChatHistoryItem[]): string {
-  return history
-    .map((item) => `${item.id ?? ""}|${item.role}|${item.content ?? ""}`)
-    .join("\u001f");
-}
+// Pages opened from a share link are pinned to the shared session and send its token.
+const activeShareLink =
+  typeof window === "undefined" ? null : readShareLinkFromSearch(window.location.search);
+setApiShareToken(activeShareLink?.token ?? null);
+
+const DEFAULT_PERMISSIONS: ConnectionPermissions = activeShareLink
+  ? {
+      canEdit: false,
+      readonly: true,
+      canComment: activeShareLink.scope === "comment",
+      shareScope: activeShareLink.scope
+    }
+  : { canEdit: true, readonly: false, canComment: true };
 
 function mergeSessionsWithServer(
   localSessions: SessionMeta[],
@@ -160,11 +266,40 @@ function mergeSessionsWithServer(
       health: remote.health,
       mismatchCount: 0,
       lastSyncedAt: nowIso,
-      source: "server"
+      source: "server",
+      parentSessionId: remote.parentSessionId ?? local.parentSessionId,
+      forkMessageId: remote.forkMessageId ?? local.forkMessageId
     };
   });
 }
 
+function appendIndexedSessions(
+  mergedSessions: SessionMeta[],
+  indexedSessions: ChatSessionSummary[],
+  nowIso: string
+): SessionMeta[] {
+  const knownIds = new Set(mergedSessions.map((session) => session.id));
+  const additions: SessionMeta[] = indexedSessions
+    .filter((item) => !knownIds.has(item.sessionId))
+    .map((item) => ({
+      id: item.sessionId,
+      title: item.title,
+      lastMessage: item.lastMessage,
+      timestamp: item.updatedAt,
+      messageCount: item.messageCount,
+      health: item.health,
+      mismatchCount: 0,
+      lastSyncedAt: nowIso,
+      source: "server",
+      parentSessionId: item.parentSessionId,
+      forkMessageId: item.forkMessageId
+    }));
+  if (additions.length === 0) return mergedSessions;
+  return [...mergedSessions, ...additions].sort(
+    (a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp)
+  );
+}
+
 interface RuntimeApprovalItem {
   id: string;
   toolName: string;
@@ -173,13 +308,19 @@ interface RuntimeApprovalItem {
   createdAt: string;
 }
 
-function App() {
+interface AppProps {
+  user: AuthUser | null;
+  onSignOut: () => void;
+}
+
+function App({ user, onSignOut }: AppProps) {
   const { addToast } = useToast();
   const { t, lang, setLang } = useI18n();
 
   // Session state
   const [sessions, setSessions] = useState<SessionMeta[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string>(() => {
+    if (activeShareLink) return activeShareLink.sessionId;
     const saved = loadCurrentSessionId();
     if (saved) return saved;
     const id = nanoid(8);
@@ -190,11 +331,7 @@ function App() {
   const [activeTab, setActiveTab] = useState<Tab>("chat");
   const [workspaceSection, setWorkspaceSection] = useState<WorkspaceSection>("chats");
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>("connecting");
-  const readonlyMode = useMemo(() => isReadonlyModeQueryEnabled(), []);
-  const [permissions, setPermissions] = useState<ConnectionPermissions>({
-    canEdit: !readonlyMode,
-    readonly: readonlyMode
-  });
+  const [permissions, setPermissions] = useState<ConnectionPermissions>(DEFAULT_PERMISSIONS);
   const [mcpState, setMcpState] = useState<MCPServersState>({
     prompts: [],
     resources: [],
@@ -208,6 +345,33 @@ function App() {
   >({});
   const [pendingApprovals, setPendingApprovals] = useState<RuntimeApprovalItem[]>([]);
   const [approvingApprovalId, setApprovingApprovalId] = useState<string | null>(null);
+  const [sessionSettings, setSessionSettings] = useState<SessionSettings>({});
+  const [effectiveSettings, setEffectiveSettings] = useState<EffectiveSessionSettings | null>(
+    null
+  );
+  const [modelOptions, setModelOptions] = useState<ModelOption[]>([]);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [sessionLifecycle, setSessionLifecycle] = useState<SessionLifecycle>({
+    mode: "persistent"
+  });
+  const [savingLifecycle, setSavingLifecycle] = useState(false);
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+  const [savingShareLink, setSavingShareLink] = useState(false);
+  const [contextSummary, setContextSummary] = useState<ContextSummary | null>(null);
+  const [quotas, setQuotas] = useState<QuotaSnapshot | null>(null);
+  const [olderHistory, setOlderHistory] = useState<OlderHistory>(EMPTY_OLDER_HISTORY);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  const [messageBranches, setMessageBranches] = useState<MessageBranch[]>([]);
+  const branchPositions = useMemo(() => buildBranchPositions(messageBranches), [messageBranches]);
+  // Set once the newest history page of a session is shown, so a search result can be located.
+  const [hydratedSessionId, setHydratedSessionId] = useState<string | null>(null);
+  const [searchFocus, setSearchFocus] = useState<{ sessionId: string; messageId: string } | null>(
+    null
+  );
+  const [pendingResources, setPendingResources] = useState<ResourceAttachment[]>([]);
+  const [composerAttachments, setComposerAttachments] = useState<ComposerAttachment[]>([]);
+  const [activePrompt, setActivePrompt] = useState<CommandPromptRef | null>(null);
+  const [runningPrompt, setRunningPrompt] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const { addEvent: addEventLog } = useEventLog();
 
@@ -246,20 +410,30 @@ function App() {
   const degradeUntilRef = useRef(0);
   const isHydratingRef = useRef(false);
   const isResumingRef = useRef(false);
-  const loadHistoryRef = useRef<() => Promise<ChatHistoryItem[]>>(async () => []);
+  const loadHistoryRef = useRef<() => Promise<ChatHistoryPage>>(async () => EMPTY_HISTORY_PAGE);
   const hydrateCooldownRef = useRef<{ sessionId: string; at: number } | null>(null);
-  const lastHydratedSignatureRef = useRef<{ sessionId: string; signature: string } | null>(null);
+  const lastHydratedEtagRef = useRef<{ sessionId: string; etag: string } | null>(null);
 
   // Save current session ID when changed
   useEffect(() => {
-    saveCurrentSessionId(currentSessionId);
+    // A shared session is not the visitor's own; keep their last session for the next visit.
+    if (!activeShareLink) saveCurrentSessionId(currentSessionId);
+    setPendingResources([]);
+    setShareLinks([]);
+    setQuotas(null);
+    setContextSummary(null);
+    setOlderHistory(EMPTY_OLDER_HISTORY);
+    setComposerAttachments((current) => {
+      releaseAttachmentPreviews(current);
+      return [];
+    });
   }, [currentSessionId]);
 
   // Agent connection
   const agent = useAgent({
     agent: "chat-agent-v2",
     name: currentSessionId,
-    query: readonlyMode ? { mode: "view" } : undefined,
+    query: activeShareLink ? { [SHARE_LINK_QUERY_PARAM]: activeShareLink.token } : undefined,
     onIdentity: useCallback(
       (resolvedSessionId: string) => {
         const normalized = resolvedSessionId.trim();
@@ -345,6 +519,22 @@ function App() {
       if (approvals) {
         setPendingApprovals(approvals);
       }
+      const settings = readSessionSettingsFromState(nextState);
+      if (settings) {
+        setSessionSettings(settings);
+      }
+      const lifecycle = readSessionLifecycleFromState(nextState);
+      if (lifecycle) {
+        setSessionLifecycle(lifecycle);
+      }
+      const summary = readContextSummaryFromState(nextState);
+      if (summary !== undefined) {
+        setContextSummary(summary);
+      }
+      const branches = readMessageBranchesFromState(nextState);
+      if (branches !== undefined) {
+        setMessageBranches(branches);
+      }
     }, []),
     onOpen: useCallback(() => {
       setConnectionStatus("connected");
@@ -378,7 +568,7 @@ function App() {
   });
 
   // useAgentChat hook for AIChatAgent integration
-  const { messages, sendMessage, status, stop, setMessages } = useAgentChat({
+  const { messages, sendMessage, regenerate, status, stop, setMessages } = useAgentChat({
     agent,
     resume: true,
     onToolCall: async ({ toolCall }) => {
@@ -410,6 +600,26 @@ function App() {
     [setMessages]
   );
 
+  /** Show the typing indicator and reset the live feed until the reply after `fromIndex` arrives. */
+  const startAssistantTurn = useCallback(
+    (fromIndex: number) => {
+      setAwaitingFirstAssistant(true);
+      setAwaitingAssistantFromIndex(fromIndex);
+      setLiveProgress([
+        {
+          id: nanoid(10),
+          timestamp: new Date().toISOString(),
+          phase: "context",
+          message: t("live_feed_sent"),
+          status: "start",
+          severity: "low",
+          groupKey: "context"
+        }
+      ]);
+    },
+    [t]
+  );
+
   useEffect(() => {
     isResumingRef.current = status !== "ready";
   }, [status]);
@@ -418,10 +628,9 @@ function App() {
     () =>
       createChatTransport({
         agent,
-        sessionId: currentSessionId,
-        readonlyMode
+        sessionId: currentSessionId
       }),
-    [agent, currentSessionId, readonlyMode]
+    [agent, currentSessionId]
   );
 
   const loadPermissions = useCallback(async () => {
@@ -429,18 +638,81 @@ function App() {
       const next = await chatTransport.getPermissions();
       setPermissions({
         canEdit: Boolean(next.canEdit),
-        readonly: Boolean(next.readonly)
+        readonly: Boolean(next.readonly),
+        canComment: Boolean(next.canComment ?? next.canEdit),
+        ...(next.shareScope ? { shareScope: next.shareScope } : {})
       });
     } catch (error) {
       console.error("Failed to load connection permissions:", error);
-      setPermissions({ canEdit: !readonlyMode, readonly: readonlyMode });
+      setPermissions(DEFAULT_PERMISSIONS);
+    }
+  }, [chatTransport]);
+
+  const loadSessionSettings = useCallback(async () => {
+    try {
+      const [result, models] = await Promise.all([
+        chatTransport.getSettings(),
+        chatTransport.listModels()
+      ]);
+      if (isSessionSettingsResult(result)) {
+        setSessionSettings(result.settings);
+        setEffectiveSettings(result.effective);
+      }
+      setModelOptions(models.models);
+    } catch (error) {
+      console.error("Failed to load session settings:", error);
     }
-  }, [chatTransport, readonlyMode]);
+  }, [chatTransport]);
 
-  const loadHistory = useCallback(async (): Promise<ChatHistoryItem[]> => {
-    return await chatTransport.getHistory();
+  const loadHistory = useCallback(async (): Promise<ChatHistoryPage> => {
+    return await chatTransport.getHistoryPage(null, HISTORY_PAGE_SIZE);
   }, [chatTransport]);
 
+  const applyLatestHistoryPage = useCallback(
+    (page: ChatHistoryPage) => {
+      const { live, archived } = splitLatestHistoryPage(page);
+      setChatMessages(live);
+      setOlderHistory({
+        messages: archived,
+        archivedIds: new Set(archived.map((message) => message.id)),
+        cursor: page.nextCursor
+      });
+    },
+    [setChatMessages]
+  );
+
+  const handleLoadOlderMessages = useCallback(async () => {
+    const cursor = olderHistory.cursor;
+    if (!cursor || loadingOlderMessages) return;
+    setLoadingOlderMessages(true);
+    try {
+      const page = await chatTransport.getHistoryPage(cursor, HISTORY_PAGE_SIZE);
+      const shownIds = new Set(chatMessages.map((message) => message.id));
+      setOlderHistory((current) =>
+        current.cursor !== cursor
+          ? current
+          : {
+              messages: prependHistoryPage(current.messages, page, shownIds),
+              archivedIds: new Set([
+                ...current.archivedIds,
+                ...page.messages.filter((message) => message.archived).map((message) => message.id)
+              ]),
+              cursor: page.nextCursor
+            }
+      );
+    } catch (error) {
+      console.error("Failed to load older messages:", error);
+      addToast(
+        t("history_load_older_failed", {
+          reason: error instanceof Error ? error.message : "Unknown error"
+        }),
+        "error"
+      );
+    } finally {
+      setLoadingOlderMessages(false);
+    }
+  }, [addToast, chatMessages, chatTransport, loadingOlderMessages, olderHistory.cursor, t]);
+
   const syncSessions = useCallback(
     async (reason = "manual") => {
       if (syncSessionsInFlightRef.current) {
@@ -449,16 +721,23 @@ function App() {
       }
 
       const run = async () => {
+        // Share links only grant access to one session, not the visitor's session index.
+        if (activeShareLink) return;
         const currentLocal = loadSessions();
-        if (currentLocal.length === 0) {
-          setSessions([]);
-          return;
-        }
-        const ids = Array.from(new Set(currentLocal.map((session) => session.id)));
         try {
-          const remote = await chatTransport.getSessions(ids);
+          const indexPage = await chatTransport.listSessions(null, SESSION_INDEX_PAGE_SIZE);
+          const indexedIds = new Set(indexPage.sessions.map((item) => item.sessionId));
+          // Local sessions beyond the first index page (or never indexed) are looked up by id.
+          const unindexedIds = Array.from(
+            new Set(currentLocal.map((session) => session.id).filter((id) => !indexedIds.has(id)))
+          );
+          const probed = unindexedIds.length > 0 ? await chatTransport.getSessions(unindexedIds) : [];
           const nowIso = new Date().toISOString();
-          const merged = mergeSessionsWithServer(currentLocal, remote, nowIso);
+          const merged = appendIndexedSessions(
+            mergeSessionsWithServer(currentLocal, [...indexPage.sessions, ...probed], nowIso),
+            indexPage.sessions,
+            nowIso
+          );
           saveSessions(merged);
           setSessions(merged);
           trackChatEvent("sessions_sync", { reason, count: merged.length, source: "server" });
@@ -555,25 +834,16 @@ function App() {
       isHydratingRef.current = true;
 
       try {
-        const history = await loadHistoryRef.current();
+        const page = await loadHistoryRef.current();
         if (cancelled) return;
-        const normalizedHistory = Array.isArray(history) ? history : [];
-        const signature = buildHistorySignature(normalizedHistory);
-        const last = lastHydratedSignatureRef.current;
-        if (last && last.sessionId === currentSessionId && last.signature === signature) {
+        const last = lastHydratedEtagRef.current;
+        if (page.etag && last && last.sessionId === currentSessionId && last.etag === page.etag) {
           return;
         }
 
-        const hydrated = normalizedHistory.map((item, index) => ({
-          id: item.id ?? `history-${currentSessionId}-${index}`,
-          role:
-            item.role === "user" || item.role === "assistant" || item.role === "system"
-              ? item.role
-              : "assistant",
-          parts: [{ type: "text", text: item.content ?? "" }]
-        }));
-        setChatMessages(hydrated as UIMessage[]);
-        lastHydratedSignatureRef.current = { sessionId: currentSessionId, signature };
+        applyLatestHistoryPage(page);
+        lastHydratedEtagRef.current = { sessionId: currentSessionId, etag: page.etag ?? "" };
+        setHydratedSessionId(currentSessionId);
       } catch (error) {
         if (cancelled) return;
         console.error("Failed to hydrate chat history:", error);
@@ -587,12 +857,39 @@ function App() {
     return () => {
       cancelled = true;
     };
-  }, [connectionStatus, currentSessionId, setChatMessages]);
+  }, [applyLatestHistoryPage, connectionStatus, currentSessionId]);
+
+  const loadQuotas = useCallback(async () => {
+    try {
+      setQuotas(await chatTransport.getQuotas());
+    } catch (error) {
+      console.error("Failed to load usage quotas:", error);
+    }
+  }, [chatTransport]);
+
+  // Refresh remaining budget on connect and after every reply.
+  useEffect(() => {
+    if (connectionStatus !== "connected" || status !== "ready") return;
+    void loadQuotas();
+  }, [connectionStatus, loadQuotas, status]);
+
+  const loadShareLinks = useCallback(async () => {
+    // Share links are managed by the owner; visitors cannot list them.
+    if (activeShareLink) return;
+    try {
+      setShareLinks(await chatTransport.listShareLinks());
+    } catch (error) {
+      console.error("Failed to load share links:", error);
+      setShareLinks([]);
+    }
+  }, [chatTransport]);
 
   useEffect(() => {
     if (connectionStatus !== "connected") return;
     void loadPermissions();
-  }, [connectionStatus, loadPermissions]);
+    void loadSessionSettings();
+    void loadShareLinks();
+  }, [connectionStatus, loadPermissions, loadSessionSettings, loadShareLinks]);
 
   useEffect(() => {
     enqueueSessionSync("session_switch");
@@ -667,6 +964,12 @@ function App() {
   // Create new session
   const handleNewSession = useCallback(() => {
     const newId = nanoid(8);
+    if (activeShareLink) {
+      // The share token only opens the shared session; leave the link to work on others.
+      saveCurrentSessionId(newId);
+      window.location.assign(window.location.pathname);
+      return;
+    }
     stop();
     setChatMessages([]);
     updateSessionMeta(newId, {
@@ -678,24 +981,31 @@ function App() {
     setSessions(loadSessions());
     setCurrentSessionId(newId);
     setConnectionStatus("connecting");
-    setPermissions({ canEdit: !readonlyMode, readonly: readonlyMode });
+    setPermissions(DEFAULT_PERMISSIONS);
     setIsLoading(true);
     setPreconfiguredServers({});
     setPendingApprovals([]);
     setAwaitingFirstAssistant(false);
     setAwaitingAssistantFromIndex(null);
     setLiveProgress([]);
-  }, [readonlyMode, setChatMessages, stop, t]);
+  }, [setChatMessages, stop, t]);
 
   // Switch session
   const handleSelectSession = useCallback(
     (sessionId: string) => {
       if (sessionId === currentSessionId) return;
+      if (activeShareLink) {
+        saveCurrentSessionId(sessionId);
+        window.location.assign(window.location.pathname);
+        return;
+      }
       stop();
       setChatMessages([]);
+      setHydratedSessionId(null);
+      setMessageBranches([]);
       setCurrentSessionId(sessionId);
       setConnectionStatus("connecting");
-      setPermissions({ canEdit: !readonlyMode, readonly: readonlyMode });
+      setPermissions(DEFAULT_PERMISSIONS);
       setIsLoading(true);
       setPreconfiguredServers({});
       setPendingApprovals([]);
@@ -703,7 +1013,7 @@ function App() {
       setAwaitingAssistantFromIndex(null);
       setLiveProgress([]);
     },
-    [currentSessionId, readonlyMode, setChatMessages, stop]
+    [currentSessionId, setChatMessages, stop]
   );
 
   // Delete session
@@ -758,6 +1068,89 @@ function App() {
     ]
   );
 
+  const handleSearchMessages = useCallback(
+    async (query: string) => await chatTransport.searchMessages(query),
+    [chatTransport]
+  );
+
+  const handleOpenMessage = useCallback(
+    (sessionId: string, messageId: string) => {
+      setSearchFocus({ sessionId, messageId });
+      setActiveTab("chat");
+      handleSelectSession(sessionId);
+      if (mobile) {
+        setSidebarOpen(false);
+      }
+    },
+    [handleSelectSession, mobile]
+  );
+
+  const handleOpenSearchResult = useCallback(
+    (result: MessageSearchResult) => handleOpenMessage(result.sessionId, result.messageId),
+    [handleOpenMessage]
+  );
+
+  const handleSearchFocusHandled = useCallback(() => setSearchFocus(null), []);
+
+  // Walk back through older pages until the searched message is loaded.
+  const searchFocusReady =
+    searchFocus !== null &&
+    searchFocus.sessionId === currentSessionId &&
+    hydratedSessionId === currentSessionId;
+  useEffect(() => {
+    if (!searchFocus || !searchFocusReady) return;
+    const { messageId } = searchFocus;
+    const loaded =
+      chatMessages.some((message) => message.id === messageId) ||
+      olderHistory.messages.some((message) => message.id === messageId);
+    if (loaded || loadingOlderMessages) return;
+    if (olderHistory.cursor) {
+      void handleLoadOlderMessages();
+      return;
+    }
+    addToast(t("search_message_missing"), "info");
+    setSearchFocus(null);
+  }, [
+    addToast,
+    chatMessages,
+    handleLoadOlderMessages,
+    loadingOlderMessages,
+    olderHistory,
+    searchFocus,
+    searchFocusReady,
+    t
+  ]);
+
+  const handleExportSession = useCallback(
+    async (sessionId: string, format: ExportFormat) => {
+      try {
+        const exported = await chatTransport.exportSession(sessionId, format);
+        let content = exported.content;
+        if (format === "html") {
+          const inlined = await inlineExportCharts(content, {
+            mermaid: renderMermaidSvg,
+            g2: (code) => renderG2ChartSvg(code)
+          });
+          content = inlined.html;
+          if (inlined.failed > 0) {
+            addToast(t("session_export_charts_failed", { count: String(inlined.failed) }), "info");
+          }
+        }
+        downloadTextFile(exported.filename, content, exported.contentType);
+        addToast(t("session_exported"), "success");
+      } catch (error) {
+        console.error("Failed to export session:", error);
+        addToast(
+          t("session_export_failed", {
+            reason: error instanceof Error ? error.message : "Unknown error"
+          }),
+          "error"
+        );
+      }
+    },
+    [addToast, chatTransport, t]
+  );
+
   const handleDeleteMessage = useCallback(
     async (messageId: UIMessage["id"]) => {
       if (!permissions.canEdit) {
@@ -820,11 +1213,12 @@ function App() {
   );
 
   const handleEditMessage = useCallback(
-    async (messageId: UIMessage["id"], content: string) => {
+    async (messageId: UIMessage["id"], content: string, options?: { resend?: boolean }) => {
       if (!permissions.canEdit) {
         addToast(t("readonly_action_blocked"), "info");
         return;
       }
+      const resend = Boolean(options?.resend) && !isStreaming;
       try {
         const resolved = await chatTransport.editMessage(String(messageId), content);
         if (!isEditMessageResult(resolved)) {
@@ -838,19 +1232,25 @@ function App() {
           return;
         }
 
-        const nextMessages = chatMessages.map((message) => {
-          if (message.id !== messageId || message.role !== "user" || !Array.isArray(message.parts)) {
-            return message;
-          }
-          const nextParts = message.parts.map((part) => {
-            if (part.type !== "text") return part;
-            return { ...part, text: content };
-          });
-          return { ...message, parts: nextParts };
-        });
+        // The edit is a new version of the message; the replies to the old one leave the path.
+        const page = await loadHistory();
+        applyLatestHistoryPage(page);
+        if (!resend || !resolved.messageId) {
+          addToast(t("message_edit_success"), "success");
+          return;
+        }
 
-        setChatMessages(nextMessages);
-        addToast(t("message_edit_success"), "success");
+        // Answer the edited message through the regular chat stream, like a newly sent one.
+        const { live } = splitLatestHistoryPage(page);
+        startAssistantTurn(live.length);
+        addEventLog({
+          level: "info",
+          source: "client",
+          type: "chat_edit_resend",
+          message: "Edited message resent.",
+          data: { sessionId: currentSessionId, messageId: resolved.messageId }
+        });
+        await regenerate({ messageId: resolved.messageId });
       } catch (error) {
         console.error("Failed to edit message:", error);
         addToast(
@@ -861,49 +1261,70 @@ function App() {
         );
       }
     },
-    [addToast, chatMessages, chatTransport, permissions.canEdit, setChatMessages, t]
+    [
+      addEventLog,
+      addToast,
+      applyLatestHistoryPage,
+      chatTransport,
+      currentSessionId,
+      isStreaming,
+      loadHistory,
+      permissions.canEdit,
+      regenerate,
+      startAssistantTurn,
+      t
+    ]
   );
 
-  const handleRegenerateMessage = useCallback(
+  const handleSwitchBranch = useCallback(
     async (messageId: UIMessage["id"]) => {
       if (!permissions.canEdit) {
         addToast(t("readonly_action_blocked"), "info");
         return;
       }
-      trackChatEvent("message_regenerate", { messageId });
       try {
-        const result = await chatTransport.regenerateMessage(String(messageId));
-        if (!isRegenerateMessageResult(result)) {
-          throw new Error("Invalid regenerateFrom response");
-        }
+        const result = await chatTransport.switchBranch(String(messageId));
         if (!result.success) {
-          throw new Error(result.error || "Regenerate failed");
+          throw new Error(result.error || "Switch branch failed");
         }
+        if (result.switched) {
+          applyLatestHistoryPage(await loadHistory());
+        }
+      } catch (error) {
+        console.error("Failed to switch branch:", error);
+        addToast(
+          t("branch_switch_failed", {
+            reason: error instanceof Error ? error.message : "Unknown error"
+          }),
+          "error"
+        );
+      }
+    },
+    [addToast, applyLatestHistoryPage, chatTransport, loadHistory, permissions.canEdit, t]
+  );
 
-        const history = await loadHistory();
-        if (Array.isArray(history)) {
-          setChatMessages(
-            history.map((item, index) => ({
-              id: item.id ?? `history-${index}-${Date.now()}`,
-              role:
-                item.role === "user" || item.role === "assistant" || item.role === "system"
-                  ? item.role
-                  : "assistant",
-              parts: [{ type: "text", text: item.content ?? "" }]
-            })) as UIMessage[]
-          );
-        } else if (result.response !== undefined) {
-          setChatMessages((prev) => [
-            ...prev,
-            {
-              id: nanoid(),
-              role: "assistant",
-              parts: [{ type: "text", text: result.response }]
-            } as UIMessage
-          ]);
+  const handleRegenerateMessage = useCallback(
+    async (messageId: UIMessage["id"]) => {
+      if (!permissions.canEdit) {
+        addToast(t("readonly_action_blocked"), "info");
+        return;
+      }
+      if (isStreaming) return;
+      trackChatEvent("message_regenerate", { messageId });
+      try {
+        // Replies answer the closest user message at or before the chosen one.
+        const index = chatMessages.findIndex((message) => message.id === messageId);
+        const anchor = chatMessages
+          .slice(0, index + 1)
+          .reverse()
+          .find((message) => message.role === "user");
+        if (index < 0 || !anchor) {
+          throw new Error("No user message found for regeneration");
         }
 
-        addToast(t("message_regenerate_success"), "success");
+        // Streams through the regular chat pipeline; the old reply stays as another branch.
+        startAssistantTurn(chatMessages.indexOf(anchor) + 1);
+        await regenerate({ messageId: anchor.id });
       } catch (error) {
         console.error("Failed to regenerate message:", error);
         addToast(
@@ -914,14 +1335,7 @@ function App() {
         );
       }
     },
-    [
-      addToast,
-      chatTransport,
-      loadHistory,
-      permissions.canEdit,
-      setChatMessages,
-      t
-    ]
+    [addToast, chatMessages, isStreaming, permissions.canEdit, regenerate, startAssistantTurn, t]
   );
 
   const handleForkSession = useCallback(
@@ -943,13 +1357,15 @@ function App() {
           title: t("session_fork_title"),
           lastMessage: "",
           timestamp: new Date().toISOString(),
-          messageCount: 0
+          messageCount: 0,
+          parentSessionId: currentSessionId,
+          forkMessageId: String(messageId)
         });
         setSessions(loadSessions());
         enqueueSessionSync("fork_session");
         setCurrentSessionId(result.newSessionId);
         setConnectionStatus("connecting");
-        setPermissions({ canEdit: !readonlyMode, readonly: readonlyMode });
+        setPermissions(DEFAULT_PERMISSIONS);
         setIsLoading(true);
         setPreconfiguredServers({});
         setPendingApprovals([]);
@@ -964,7 +1380,85 @@ function App() {
         );
       }
     },
-    [addToast, chatTransport, permissions.canEdit, readonlyMode, enqueueSessionSync, t]
+    [addToast, chatTransport, currentSessionId, permissions.canEdit, enqueueSessionSync, t]
+  );
+
+  const refreshPreconfiguredServers = useCallback(async () => {
+    try {
+      setPreconfiguredServers(await chatTransport.getPreconfiguredServers());
+    } catch (error) {
+      console.error("Failed to refresh MCP servers:", error);
+    }
+  }, [chatTransport]);
+
+  const completeServerOAuth = useCallback(
+    async (name: string, authUrl: string) => {
+      const outcome = await openMcpOAuthPopup(authUrl);
+      addEventLog({
+        level: outcome.status === "success" ? "success" : "info",
+        source: "client",
+        type: "mcp_oauth_" + outcome.status,
+        message: `OAuth for ${name} finished with status ${outcome.status}.`
+      });
+      if (outcome.status === "success") {
+        addToast(t("mcp_oauth_success", { name }), "success");
+      } else if (outcome.status === "error") {
+        addToast(t("mcp_oauth_failed", { name, reason: outcome.error }), "error");
+      } else if (outcome.status === "blocked") {
+        addToast(t("mcp_oauth_popup_blocked", { name }), "info");
+      } else {
+        addToast(t("mcp_oauth_cancelled", { name }), "info");
+      }
+      await refreshPreconfiguredServers();
+    },
+    [addEventLog, addToast, refreshPreconfiguredServers, t]
+  );
+
+  const handleAuthorizeServer = useCallback(
+    async (name: string) => {
+      if (!permissions.canEdit) {
+        addToast(t("readonly_action_blocked"), "info");
+        return;
+      }
+      setTogglingServer(name);
+      try {
+        const entry = preconfiguredServers[name];
+        let authUrl = entry?.authExpired ? undefined : entry?.authUrl;
+        if (!authUrl) {
+          const result = await chatTransport.reauthorizeServer(name);
+          if (!result.success) {
+            throw new Error(result.error || "Unknown error");
+          }
+          authUrl = result.authUrl;
+        }
+        if (authUrl) {
+          await completeServerOAuth(name, authUrl);
+        } else {
+          // Tokens were still accepted, so the server reconnected without a consent screen.
+          addToast(t("mcp_oauth_success", { name }), "success");
+          await refreshPreconfiguredServers();
+        }
+      } catch (error) {
+        addToast(
+          t("mcp_oauth_failed", {
+            name,
+            reason: error instanceof Error ? error.message : "Unknown error"
+          }),
+          "error"
+        );
+      } finally {
+        setTogglingServer(null);
+      }
+    },
+    [
+      addToast,
+      chatTransport,
+      completeServerOAuth,
+      permissions.canEdit,
+      preconfiguredServers,
+      refreshPreconfiguredServers,
+      t
+    ]
   );
 
   const handleToggleServer = useCallback(
@@ -980,7 +1474,9 @@ function App() {
         if (!isToggleServerResult(result)) {
           throw new Error("Invalid toggleServer response");
         }
-        if (result.success) {
+        if (result.success && result.authUrl) {
+          await completeServerOAuth(name, result.authUrl);
+        } else if (result.success) {
           addEventLog({
             level: "success",
             source: "client",
@@ -1026,7 +1522,275 @@ function App() {
         setTogglingServer(null);
       }
     },
-    [addEventLog, addToast, chatTransport, permissions.canEdit, t]
+    [addEventLog, addToast, chatTransport, completeServerOAuth, permissions.canEdit, t]
+  );
+
+  const handleSaveCustomServer = useCallback(
+    async (input: CustomMcpServerInput): Promise<boolean> => {
+      if (!permissions.canEdit) {
+        addToast(t("readonly_action_blocked"), "info");
+        return false;
+      }
+      trackChatEvent("mcp_custom_save", { name: input.name, transport: input.transport });
+      try {
+        const result = await chatTransport.saveCustomServer(input);
+        if (!result.success) {
+          throw new Error(result.error || "Unknown error");
+        }
+        if (result.authUrl) {
+          addToast(t("mcp_custom_saved", { name: input.name }), "success");
+          void completeServerOAuth(input.name, result.authUrl);
+        } else if (result.activationError) {
+          addToast(
+            t("mcp_custom_saved_inactive", { name: input.name, reason: result.activationError }),
+            "info"
+          );
+        } else {
+          addToast(t("mcp_custom_saved", { name: input.name }), "success");
+        }
+        return true;
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : "Unknown error";
+        addEventLog({
+          level: "error",
+          source: "client",
+          type: "mcp_custom_save_failed",
+          message: reason
+        });
+        addToast(t("mcp_custom_save_failed", { reason }), "error");
+        return false;
+      }
+    },
+    [addEventLog, addToast, chatTransport, completeServerOAuth, permissions.canEdit, t]
+  );
+
+  const handleTestCustomServer = useCallback(
+    async (input: CustomMcpServerInput) => await chatTransport.testCustomServer(input),
+    [chatTransport]
+  );
+
+  const resourceSummaries = useMemo<McpResourceSummary[]>(
+    () =>
+      mcpState.resources.map((resource) => ({
+        uri: resource.uri,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType,
+        serverId: resource.serverId,
+        serverName: mcpState.servers[resource.serverId]?.name
+      })),
+    [mcpState.resources, mcpState.servers]
+  );
+
+  const pendingResourceKeys = useMemo(
+    () => new Set(pendingResources.map((resource) => getResourceKey(resource))),
+    [pendingResources]
+  );
+
+  const handlePreviewResource = useCallback(
+    async (resource: McpResourceSummary) =>
+      await chatTransport.readResource(resource.serverId, resource.uri),
+    [chatTransport]
+  );
+
+  const handleAttachResource = useCallback(
+    async (resource: McpResourceSummary) => {
+      const name = resource.name || resource.uri;
+      if (!permissions.canEdit) {
+        addToast(t("readonly_action_blocked"), "info");
+        return;
+      }
+      try {
+        const result = await chatTransport.readResource(resource.serverId, resource.uri);
+        if (!result.success) {
+          throw new Error(result.error || "Unknown error");
+        }
+        const attachment: ResourceAttachment = {
+          serverId: resource.serverId,
+          serverName: resource.serverName,
+          uri: resource.uri,
+          name,
+          mimeType: resource.mimeType,
+          text: result.contents.map((content) => content.text).join("\n\n"),
+          truncated: result.contents.some((content) => content.truncated)
+        };
+        setPendingResources((current) =>
+          current.some((item) => getResourceKey(item) === getResourceKey(attachment))
+            ? current
+            : [...current, attachment]
+        );
+        addToast(t("resources_attach_success", { name }), "success");
+      } catch (error) {
+        addToast(
+          t("resources_attach_failed", {
+            name,
+            reason: error instanceof Error ? error.message : "Unknown error"
+          }),
+          "error"
+        );
+      }
+    },
+    [addToast, chatTransport, permissions.canEdit, t]
+  );
+
+  const handleRemoveCustomServer = useCallback(
+    async (name: string) => {
+      if (!permissions.canEdit) {
+        addToast(t("readonly_action_blocked"), "info");
+        return;
+      }
+      try {
+        const result = await chatTransport.removeCustomServer(name);
+        if (!result.success) {
+          throw new Error(result.error || "Unknown error");
+        }
+        addToast(t("mcp_custom_removed", { name }), "success");
+      } catch (error) {
+        addToast(
+          t("mcp_custom_remove_failed", {
+            reason: error instanceof Error ? error.message : "Unknown error"
+          }),
+          "error"
+        );
+      }
+    },
+    [addToast, chatTransport, permissions.canEdit, t]
+  );
+
+  const handleSaveSettings = useCallback(
+    async (patch: SessionSettingsPatch) => {
+      if (!permissions.canEdit) {
+        addToast(t("readonly_action_blocked"), "info");
+        return;
+      }
+      setSavingSettings(true);
+      try {
+        const result = await chatTransport.updateSettings(patch);
+        if (!isSessionSettingsResult(result)) {
+          throw new Error("Invalid updateSettings response");
+        }
+        if (!result.success) {
+          throw new Error(result.error || "Unknown error");
+        }
+        setSessionSettings(result.settings);
+        setEffectiveSettings(result.effective);
+        addToast(t("session_settings_saved"), "success");
+      } catch (error) {
+        console.error("Failed to update session settings:", error);
+        addToast(
+          t("session_settings_save_failed", {
+            reason: error instanceof Error ? error.message : "Unknown error"
+          }),
+          "error"
+        );
+      } finally {
+        setSavingSettings(false);
+      }
+    },
+    [addToast, chatTransport, permissions.canEdit, t]
+  );
+
+  const handleChangeLifecycleMode = useCallback(
+    async (mode: SessionLifecycleMode) => {
+      if (!permissions.canEdit) {
+        addToast(t("readonly_action_blocked"), "info");
+        return;
+      }
+      setSavingLifecycle(true);
+      try {
+        const result = await chatTransport.updateLifecycle({ mode });
+        if (!result?.success) {
+          throw new Error(result?.error || "Unknown error");
+        }
+        setSessionLifecycle((current) => ({
+          ...current,
+          mode: result.lifecycle.mode,
+          idleTimeoutAt: result.lifecycle.expiresAt ?? result.lifecycle.hibernatesAt ?? undefined
+        }));
+        addToast(t("session_lifecycle_saved"), "success");
+      } catch (error) {
+        console.error("Failed to update session lifecycle:", error);
+        addToast(
+          t("session_lifecycle_save_failed", {
+            reason: error instanceof Error ? error.message : "Unknown error"
+          }),
+          "error"
+        );
+      } finally {
+        setSavingLifecycle(false);
+      }
+    },
+    [addToast, chatTransport, permissions.canEdit, t]
+  );
+
+  const handleCopyShareLink = useCallback(
+    async (link: ShareLink, message: "share_copied" | "share_created" = "share_copied") => {
+      if (!link.url || !navigator.clipboard?.writeText) return;
+      try {
+        await navigator.clipboard.writeText(link.url);
+        addToast(t(message), "success");
+      } catch (error) {
+        console.error("Failed to copy share link:", error);
+      }
+    },
+    [addToast, t]
+  );
+
+  const handleCreateShareLink = useCallback(
+    async (scope: ShareScope, expiresInSeconds: number) => {
+      if (!permissions.canEdit) {
+        addToast(t("readonly_action_blocked"), "info");
+        return;
+      }
+      setSavingShareLink(true);
+      try {
+        const link = await chatTransport.createShareLink(scope, expiresInSeconds);
+        setShareLinks((current) => [link, ...current.filter((item) => item.id !== link.id)]);
+        await handleCopyShareLink(link, "share_created");
+      } catch (error) {
+        console.error("Failed to create share link:", error);
+        addToast(
+          t("share_create_failed", {
+            reason: error instanceof Error ? error.message : "Unknown error"
+          }),
+          "error"
+        );
+      } finally {
+        setSavingShareLink(false);
+      }
+    },
+    [addToast, chatTransport, handleCopyShareLink, permissions.canEdit, t]
+  );
+
+  const handleRevokeShareLink = useCallback(
+    async (shareId: string) => {
+      if (!permissions.canEdit) {
+        addToast(t("readonly_action_blocked"), "info");
+        return;
+      }
+      setSavingShareLink(true);
+      try {
+        await chatTransport.revokeShareLink(shareId);
+        const revokedAt = new Date().toISOString();
+        setShareLinks((current) =>
+          current.map((link) =>
+            link.id === shareId ? { ...link, revokedAt, token: undefined, url: undefined } : link
+          )
+        );
+        addToast(t("share_revoked"), "success");
+      } catch (error) {
+        console.error("Failed to revoke share link:", error);
+        addToast(
+          t("share_revoke_failed", {
+            reason: error instanceof Error ? error.message : "Unknown error"
+          }),
+          "error"
+        );
+      } finally {
+        setSavingShareLink(false);
+      }
+    },
+    [addToast, chatTransport, permissions.canEdit, t]
   );
 
   const handleApproveToolCall = useCallback(
@@ -1123,10 +1887,99 @@ function App() {
     [addEventLog, addToast, chatTransport, pendingApprovals, t]
   );
 
+  const updateComposerAttachment = useCallback(
+    (localId: string, patch: Partial<ComposerAttachment>) => {
+      setComposerAttachments((current) =>
+        current.map((item) => (item.localId === localId ? { ...item, ...patch } : item))
+      );
+    },
+    []
+  );
+
+  const handleAttachFiles = useCallback(
+    (files: File[]) => {
+      if (!permissions.canComment) {
+        addToast(t("readonly_action_blocked"), "info");
+        return;
+      }
+      const room = MAX_ATTACHMENTS_PER_MESSAGE - composerAttachments.length;
+      if (files.length > room) {
+        addToast(
+          t("attachment_limit_reached", { count: String(MAX_ATTACHMENTS_PER_MESSAGE) }),
+          "info"
+        );
+      }
+      for (const file of files.slice(0, Math.max(room, 0))) {
+        const rejection = getAttachmentRejection(file);
+        if (rejection) {
+          addToast(
+            rejection === "too_large"
+              ? t("attachment_rejected_size", {
+                  name: file.name,
+                  limit: String(MAX_ATTACHMENT_BYTES / (1024 * 1024))
+                })
+              : t("attachment_rejected_type", { name: file.name }),
+            "error"
+          );
+          continue;
+        }
+        const mediaType = resolveAttachmentMediaType(file);
+        const localId = nanoid(10);
+        setComposerAttachments((current) => [
+          ...current,
+          {
+            localId,
+            filename: file.name,
+            mediaType,
+            size: file.size,
+            previewUrl: isImageMediaType(mediaType) ? URL.createObjectURL(file) : undefined,
+            status: "uploading"
+          }
+        ]);
+        const upload =
+          file.type === mediaType ? file : new File([file], file.name, { type: mediaType });
+        chatTransport.uploadAttachment(upload).then(
+          (attachment) => updateComposerAttachment(localId, { status: "ready", attachment }),
+          (error: unknown) => {
+            const reason = error instanceof Error ? error.message : "Unknown error";
+            updateComposerAttachment(localId, { status: "error", error: reason });
+            addToast(t("attachment_upload_failed", { name: file.name, reason }), "error");
+          }
+        );
+      }
+    },
+    [
+      addToast,
+      chatTransport,
+      composerAttachments.length,
+      permissions.canComment,
+      t,
+      updateComposerAttachment
+    ]
+  );
+
+  const handleRemoveAttachment = useCallback((localId: string) => {
+    setComposerAttachments((current) => {
+      releaseAttachmentPreviews(current.filter((item) => item.localId === localId));
+      return current.filter((item) => item.localId !== localId);
+    });
+  }, []);
+
+  const currentModelVision = useMemo(() => {
+    const model = modelOptions.find((option) => option.ref === effectiveSettings?.model);
+    return model ? model.capabilities.vision : true;
+  }, [effectiveSettings?.model, modelOptions]);
+
+  const showVisionNotice =
+    !currentModelVision &&
+    composerAttachments.some((item) => isImageMediaType(item.mediaType));
+
   const handleSend = useCallback(() => {
     const text = input.trim();
-    if (!text || isStreaming) return;
-    if (!permissions.canEdit) {
+    const fileParts = toFileParts(composerAttachments);
+    const uploading = composerAttachments.some((item) => item.status === "uploading");
+    if ((!text && fileParts.length === 0) || uploading || isStreaming) return;
+    if (!permissions.canComment) {
       addToast(t("readonly_action_blocked"), "info");
       return;
     }
@@ -1159,8 +2012,7 @@ function App() {
     }
 
     setInput("");
-    setAwaitingFirstAssistant(true);
-    setAwaitingAssistantFromIndex(chatMessages.length);
+    startAssistantTurn(chatMessages.length);
     addEventLog({
       level: "info",
       source: "client",
@@ -1171,19 +2023,19 @@ function App() {
         length: text.length
       }
     });
-    setLiveProgress([
-      {
-        id: nanoid(10),
-        timestamp: new Date().toISOString(),
-        phase: "context",
-        message: t("live_feed_sent"),
-        status: "start",
-        severity: "low",
-        groupKey: "context"
-      }
-    ]);
-    sendMessage({ role: "user", parts: [{ type: "text", text }] });
+    sendMessage({
+      role: "user",
+      parts: [
+        ...fileParts,
+        ...pendingResources.map((resource) => ({ type: "data-resource" as const, data: resource })),
+        ...(text ? [{ type: "text" as const, text }] : [])
+      ]
+    });
+    setPendingResources([]);
+    releaseAttachmentPreviews(composerAttachments);
+    setComposerAttachments([]);
   }, [
+    composerAttachments,
     addEventLog,
     addToast,
     handleNewSession,
@@ -1191,14 +2043,83 @@ function App() {
     input,
     isStreaming,
     currentSessionId,
+    pendingResources,
     sendMessage,
     sessions,
     chatMessages.length,
+    startAssistantTurn,
     stop,
-    permissions.canEdit,
+    permissions.canComment,
     t
   ]);
 
+  const handleRunPrompt = useCallback(
+    async (prompt: CommandPromptRef, args: Record<string, string>) => {
+      if (isStreaming) return;
+      if (!permissions.canEdit) {
+        addToast(t("readonly_action_blocked"), "info");
+        return;
+      }
+      setRunningPrompt(true);
+      try {
+        const result = await chatTransport.getPrompt(prompt.serverId, prompt.name, args);
+        if (!result.success) {
+          throw new Error(result.error || "Unknown error");
+        }
+        const { history, followUp } = buildPromptConversation(result.messages, () => nanoid(12));
+        if (history.length > 0) {
+          setMessages((current) => [...current, ...history]);
+        }
+        if (followUp) {
+          setAwaitingFirstAssistant(true);
+          setAwaitingAssistantFromIndex(chatMessages.length + history.length);
+          sendMessage(followUp);
+        }
+        addEventLog({
+          level: "info",
+          source: "client",
+          type: "mcp_prompt_run",
+          message: `MCP prompt ${prompt.name} expanded.`,
+          data: { serverId: prompt.serverId, messageCount: result.messages.length }
+        });
+        setActivePrompt(null);
+      } catch (error) {
+        addToast(
+          t("prompt_run_failed", {
+            name: prompt.name,
+            reason: error instanceof Error ? error.message : "Unknown error"
+          }),
+          "error"
+        );
+      } finally {
+        setRunningPrompt(false);
+      }
+    },
+    [
+      addEventLog,
+      addToast,
+      chatMessages.length,
+      chatTransport,
+      isStreaming,
+      permissions.canEdit,
+      sendMessage,
+      setMessages,
+      t
+    ]
+  );
+
+  const handlePromptSelect = useCallback(
+    (suggestion: CommandSuggestionItem) => {
+      if (!suggestion.prompt) return;
+      if (suggestion.prompt.arguments.length === 0) {
+        void handleRunPrompt(suggestion.prompt, {});
+        return;
+      }
+      setActivePrompt(suggestion.prompt);
+    },
+    [handleRunPrompt]
+  );
+
   const handleStop = useCallback(() => {
     stop();
     setAwaitingFirstAssistant(false);
@@ -1242,9 +2163,10 @@ function App() {
       buildCommandSuggestions({
         tools: mcpState.tools,
         sessions,
+        prompts: mcpState.prompts,
         t
       }),
-    [mcpState.tools, sessions, t]
+    [mcpState.prompts, mcpState.tools, sessions, t]
   );
 
   const phaseLabels: Record<ProgressPhase, string> = {
@@ -1312,6 +2234,8 @@ function App() {
           }
         }}
         onDeleteSession={handleDeleteSession}
+        onExportSession={handleExportSession}
+        onOpenForkPoint={handleOpenMessage}
         formatTime={formatTime}
         toolsCount={mcpState.tools.length}
         resourcesCount={mcpState.resources.length}
@@ -1322,6 +2246,61 @@ function App() {
           telemetry,
           telemetrySummary
         }}
+        resourcesPanel={
+          <ResourcesPanel
+            resources={resourceSummaries}
+            attachedKeys={pendingResourceKeys}
+            canAttach={permissions.canComment}
+            onPreview={handlePreviewResource}
+            onAttach={handleAttachResource}
+            t={t}
+          />
+        }
+        sessionSettings={
+          <SessionSettingsPanel
+            models={modelOptions}
+            settings={sessionSettings}
+            effective={effectiveSettings}
+            canEdit={permissions.canEdit}
+            saving={savingSettings}
+            onSave={(patch) => void handleSaveSettings(patch)}
+            t={t}
+          />
+        }
+        sessionLifecycle={
+          <SessionLifecyclePanel
+            lifecycle={sessionLifecycle}
+            canEdit={permissions.canEdit}
+            saving={savingLifecycle}
+            onChangeMode={(mode) => void handleChangeLifecycleMode(mode)}
+            t={t}
+          />
+        }
+        sessionSearch={
+          activeShareLink ? undefined : (
+            <MessageSearchPanel
+              onSearch={handleSearchMessages}
+              onOpenResult={handleOpenSearchResult}
+              formatTime={formatTime}
+              t={t}
+            />
+          )
+        }
+        sessionSharing={
+          activeShareLink ? undefined : (
+            <ShareLinksPanel
+              links={shareLinks}
+              canManage={permissions.canEdit}
+              busy={savingShareLink}
+              onCreate={(scope, expiresInSeconds) =>
+                void handleCreateShareLink(scope, expiresInSeconds)
+              }
+              onCopy={(link) => void handleCopyShareLink(link)}
+              onRevoke={(shareId) => void handleRevokeShareLink(shareId)}
+              t={t}
+            />
+          )
+        }
         lang={lang}
         setLang={setLang}
         t={t}
@@ -1333,6 +2312,8 @@ function App() {
           onToggleSidebar={() => setSidebarOpen(!sidebarOpen)}
           onNewSession={handleNewSession}
           connectionStatus={connectionStatus}
+          userId={user?.userId}
+          onSignOut={onSignOut}
           t={t}
         />
 
@@ -1374,11 +2355,23 @@ function App() {
               <ApprovalContext.Provider value={approvalContextValue}>
                 <ChatPane
                   messages={chatMessages}
+                  olderMessages={olderHistory.messages}
+                  archivedMessageIds={olderHistory.archivedIds}
+                  hasOlderMessages={Boolean(olderHistory.cursor)}
+                  loadingOlderMessages={loadingOlderMessages}
+                  onLoadOlderMessages={() => void handleLoadOlderMessages()}
+                  focusMessageId={searchFocusReady ? searchFocus?.messageId : null}
+                  branchPositions={branchPositions}
+                  onSwitchBranch={(messageId) => void handleSwitchBranch(messageId)}
+                  onFocusMessageHandled={handleSearchFocusHandled}
                   isStreaming={isStreaming}
                   isConnected={isConnected}
                   canEdit={permissions.canEdit}
                   isReadonly={permissions.readonly}
+                  canComment={permissions.canComment}
                   activeToolsCount={activeToolsCount}
+                  contextSummary={contextSummary}
+                  quotas={quotas}
                   mcpConnectedServers={connectedServerCount}
                   mcpTotalServers={totalServerCount}
                   awaitingFirstAssistant={awaitingFirstAssistant}
@@ -1387,6 +2380,52 @@ function App() {
                   input={input}
                   setInput={setInput}
                   commandSuggestions={commandSuggestions}
+                  onPromptSelect={handlePromptSelect}
+                  composerAddons={
+                    pendingResources.length > 0 || showVisionNotice ? (
+                      <>
+                        {showVisionNotice ? (
+                          <p className="px-1 text-xs text-kumo-subtle" role="note">
+                            {t("chat_input_vision_unsupported")}
+                          </p>
+                        ) : null}
+                        {pendingResources.length > 0 ? (
+                          <div
+                            className="flex flex-wrap items-center gap-1.5"
+                            aria-label={t("resources_attachments_label")}
+                          >
+                            {pendingResources.map((resource) => (
+                              <span
+                                key={getResourceKey(resource)}
+                                title={resource.uri}
+                                className="inline-flex max-w-full items-center gap-1 rounded-full border border-kumo-line bg-kumo-control/60 px-2 py-0.5 text-xs text-kumo-default"
+                              >
+                                <PaperclipIcon size={12} />
+                                <span className="truncate">{resource.name}</span>
+                                <button
+                                  type="button"
+                                  className="rounded-full p-0.5 text-kumo-subtle hover:bg-kumo-control"
+                                  aria-label={t("resources_attachment_remove", { name: resource.name })}
+                                  onClick={() =>
+                                    setPendingResources((current) =>
+                                      current.filter(
+                                        (item) => getResourceKey(item) !== getResourceKey(resource)
+                                      )
+                                    )
+                                  }
+                                >
+                                  <XIcon size={10} />
+                                </button>
+                              </span>
+                            ))}
+                          </div>
+                        ) : null}
+                      </>
+                    ) : undefined
+                  }
+                  attachments={composerAttachments}
+                  onAttachFiles={handleAttachFiles}
+                  onRemoveAttachment={handleRemoveAttachment}
                   onSend={handleSend}
                   onStop={handleStop}
                   onRetryConnection={() => {
@@ -1407,6 +2446,10 @@ function App() {
                 preconfiguredServerList={preconfiguredServerList}
                 togglingServer={togglingServer}
                 onToggleServer={handleToggleServer}
+                onAuthorizeServer={(name) => void handleAuthorizeServer(name)}
+                onSaveCustomServer={handleSaveCustomServer}
+                onTestCustomServer={handleTestCustomServer}
+                onRemoveCustomServer={(name) => void handleRemoveCustomServer(name)}
                 canEdit={permissions.canEdit}
                 mcpTools={mcpState.tools}
                 t={t}
@@ -1422,6 +2465,16 @@ function App() {
         </footer>
       </div>
 
+      <PromptArgumentsDialog
+        prompt={activePrompt}
+        running={runningPrompt}
+        onClose={() => setActivePrompt(null)}
+        onRun={(args) => {
+          if (activePrompt) void handleRunPrompt(activePrompt, args);
+        }}
+        t={t}
+      />
+
       {mobile && (
         <MobileTabBar
           value={activeTab}
@@ -1433,11 +2486,70 @@ function App() {
   );
 }
 
+/** Shows the sign-in screen when the deployment requires an identity. */
+function AuthGate() {
+  const { t } = useI18n();
+  const { addToast } = useToast();
+  const [status, setStatus] = useState<AuthStatus | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAuthStatus()
+      .then((next) => {
+        if (!cancelled) setStatus(next);
+      })
+      .catch(() => {
+        // Without an answer, assume an open deployment; protected routes still answer 401.
+        if (!cancelled) setStatus({ enabled: false, user: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const handleSignOut = useCallback(async () => {
+    try {
+      await signOut();
+      // The next user on this browser must not inherit the previous user's session list.
+      clearSessionMeta();
+      setStatus({ enabled: true, user: null });
+    } catch (error) {
+      addToast(
+        t("auth_sign_out_failed", {
+          reason: error instanceof Error ? error.message : "Unknown error"
+        }),
+        "error"
+      );
+    }
+  }, [addToast, t]);
+
+  if (!status) return null;
+  // Share links carry their own access, so visitors need not sign in.
+  if (status.enabled && !status.user && !activeShareLink) {
+    return (
+      <LoginScreen
+        onSignIn={async (credentials) => {
+          const user = await signIn(credentials);
+          setStatus({ enabled: true, user });
+        }}
+        t={t}
+      />
+    );
+  }
+  return (
+    <App
+      key={status.user?.userId ?? "anonymous"}
+      user={status.user}
+      onSignOut={() => void handleSignOut()}
+    />
+  );
+}
+
 createRoot(document.getElementById("root")!).render(
   <ThemeProvider>
     <I18nProvider>
       <ToastProvider>
-        <App />
+        <AuthGate />
         <Toaster />
         <ModalHost />
       </ToastProvider>
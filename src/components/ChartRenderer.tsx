@@ -313,6 +313,37 @@ function normalizeG2Spec(value: unknown): unknown {
   return normalizeColorScaleRange(output);
 }
 
+function applyG2Spec(chart: G2ChartInstance, spec: G2ChartRendererProps["spec"]): void {
+  const normalizedSpec = normalizeG2Spec(spec) as G2ChartRendererProps["spec"];
+  const specType = typeof normalizedSpec.type === "string" ? normalizedSpec.type : "";
+  const hasCompositionChildren =
+    (Array.isArray(normalizedSpec.children) && normalizedSpec.children.length > 0) ||
+    (Array.isArray(normalizedSpec.marks) && normalizedSpec.marks.length > 0);
+  const shouldUseOptions = hasCompositionChildren || COMPOSITION_TYPES.has(specType);
+
+  if (shouldUseOptions) {
+    chart.options(normalizedSpec as Record<string, unknown>);
+    return;
+  }
+
+  if (SIMPLE_MARK_TYPES.has(specType)) {
+    chart.mark(specType as "interval" | "line" | "point" | "area" | "cell" | "rect");
+  }
+
+  if (normalizedSpec.data) {
+    chart.data(normalizedSpec.data);
+  }
+
+  if (normalizedSpec.encode) {
+    chart.encode(normalizedSpec.encode as Record<string, string | number>);
+  }
+
+  if (normalizedSpec.axis) chart.axis(normalizedSpec.axis as Record<string, unknown>);
+  if (normalizedSpec.legend) chart.legend(normalizedSpec.legend as Record<string, unknown>);
+  if (normalizedSpec.scale) chart.scale(normalizedSpec.scale as Record<string, unknown>);
+  if (normalizedSpec.style) chart.style(normalizedSpec.style as Record<string, unknown>);
+}
+
 export function G2ChartRenderer({ spec }: G2ChartRendererProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [error, setError] = useState<string | null>(null);
@@ -356,34 +387,7 @@ export function G2ChartRenderer({ spec }: G2ChartRendererProps) {
           height: 300
         }) as unknown as G2ChartInstance;
 
-        const normalizedSpec = normalizeG2Spec(spec) as G2ChartRendererProps["spec"];
-        const specType = typeof normalizedSpec.type === "string" ? normalizedSpec.type : "";
-        const hasCompositionChildren =
-          (Array.isArray(normalizedSpec.children) && normalizedSpec.children.length > 0) ||
-          (Array.isArray(normalizedSpec.marks) && normalizedSpec.marks.length > 0);
-        const shouldUseOptions = hasCompositionChildren || COMPOSITION_TYPES.has(specType);
-
-        if (shouldUseOptions) {
-          chart.options(normalizedSpec as Record<string, unknown>);
-        } else {
-          if (SIMPLE_MARK_TYPES.has(specType)) {
-            chart.mark(specType as "interval" | "line" | "point" | "area" | "cell" | "rect");
-          }
-
-          if (normalizedSpec.data) {
-            chart.data(normalizedSpec.data);
-          }
-
-          if (normalizedSpec.encode) {
-            chart.encode(normalizedSpec.encode as Record<string, string | number>);
-          }
-
-          if (normalizedSpec.axis) chart.axis(normalizedSpec.axis as Record<string, unknown>);
-          if (normalizedSpec.legend) chart.legend(normalizedSpec.legend as Record<string, unknown>);
-          if (normalizedSpec.scale) chart.scale(normalizedSpec.scale as Record<string, unknown>);
-          if (normalizedSpec.style) chart.style(normalizedSpec.style as Record<string, unknown>);
-        }
-
+        applyG2Spec(chart, spec);
         await chart.render();
         if (!mounted) {
           safeDestroy();
@@ -438,6 +442,51 @@ export function G2ChartRenderer({ spec }: G2ChartRendererProps) {
   );
 }
 
+// ============ Static Rendering (exports) ============
+
+/** Render a Mermaid diagram to standalone SVG markup, always in the light theme. */
+export async function renderMermaidSvg(code: string): Promise<string> {
+  const mermaid = (await import("mermaid")).default;
+  mermaid.initialize({ startOnLoad: false, theme: "default", securityLevel: "strict" });
+  const renderId = `mermaid-export-${Math.random().toString(36).slice(2)}`;
+  const { svg } = await mermaid.render(renderId, code.trim());
+  return svg;
+}
+
+/**
+ * Render a G2 spec off-screen and return it as SVG markup. G2 draws to a canvas here, so
+ * the SVG wraps the rendered bitmap; it still opens anywhere without scripts.
+ */
+export async function renderG2ChartSvg(code: string, width = 720, height = 300): Promise<string> {
+  const spec = parseG2SpecFromCode(code);
+  if (!spec) {
+    throw new Error("Invalid G2 spec");
+  }
+  const container = document.createElement("div");
+  container.style.cssText = `position:fixed;left:-10000px;top:0;width:${width}px;height:${height}px;`;
+  document.body.appendChild(container);
+  let chart: G2ChartInstance | null = null;
+  try {
+    const { Chart } = await import("@antv/g2");
+    chart = new Chart({ container, width, height }) as unknown as G2ChartInstance;
+    applyG2Spec(chart, spec as G2ChartRendererProps["spec"]);
+    await chart.render();
+    const canvas = container.querySelector("canvas");
+    if (!canvas) {
+      throw new Error("G2 chart did not render a canvas");
+    }
+    const image = canvas.toDataURL("image/png");
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"><image href="${image}" width="${width}" height="${height}"/></svg>`;
+  } finally {
+    try {
+      chart?.destroy();
+    } catch {
+      // The container is removed next either way.
+    }
+    container.remove();
+  }
+}
+
 // ============ Chart Config Detector ============
 
 interface ChartContent {
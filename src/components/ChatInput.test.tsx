@@ -130,6 +130,82 @@ describe("ChatInput", () => {
     const clearButton = screen.queryByLabelText("Clear input");
     expect(clearButton).not.toBeInTheDocument();
   });
+
+  it("hands prompt suggestions to onPromptSelect and strips the command token", () => {
+    const onChange = vi.fn();
+    const onPromptSelect = vi.fn();
+    const suggestion = {
+      id: "prompt-srv-review",
+      trigger: "/" as const,
+      label: "review",
+      value: "review",
+      section: "prompts" as const,
+      prompt: { serverId: "srv", name: "review", arguments: [] }
+    };
+    render(
+      <ChatInput
+        {...defaultProps}
+        value="/rev"
+        onChange={onChange}
+        onPromptSelect={onPromptSelect}
+        commandSuggestions={[suggestion]}
+      />
+    );
+
+    const input = screen.getByRole("textbox") as HTMLTextAreaElement;
+    input.setSelectionRange(4, 4);
+    fireEvent.select(input);
+    fireEvent.keyDown(input, { key: "Enter", code: "Enter" });
+
+    expect(onPromptSelect).toHaveBeenCalledWith(suggestion);
+    expect(onChange).toHaveBeenCalledWith("");
+    expect(defaultProps.onSubmit).not.toHaveBeenCalled();
+  });
+
+  it("submits attachment-only messages once uploads finish", () => {
+    const onSubmit = vi.fn();
+    const attachment = {
+      localId: "1",
+      filename: "cat.png",
+      mediaType: "image/png",
+      size: 2048
+    };
+    const { rerender } = render(
+      <ChatInput
+        {...defaultProps}
+        onSubmit={onSubmit}
+        onAttachFiles={vi.fn()}
+        attachments={[{ ...attachment, status: "uploading" }]}
+      />
+    );
+
+    expect(screen.getByRole("button", { name: "Send" })).toBeDisabled();
+    expect(screen.getByText("cat.png")).toBeInTheDocument();
+
+    rerender(
+      <ChatInput
+        {...defaultProps}
+        onSubmit={onSubmit}
+        onAttachFiles={vi.fn()}
+        attachments={[{ ...attachment, status: "ready" }]}
+      />
+    );
+    fireEvent.keyDown(screen.getByRole("textbox"), { key: "Enter", code: "Enter" });
+
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+  });
+
+  it("forwards pasted and picked files", () => {
+    const onAttachFiles = vi.fn();
+    render(<ChatInput {...defaultProps} onAttachFiles={onAttachFiles} />);
+    const file = new File(["hi"], "notes.md", { type: "text/markdown" });
+
+    fireEvent.paste(screen.getByRole("textbox"), { clipboardData: { files: [file] } });
+    fireEvent.change(screen.getByTestId("chat-input-file"), { target: { files: [file] } });
+
+    expect(onAttachFiles).toHaveBeenCalledTimes(2);
+    expect(onAttachFiles).toHaveBeenLastCalledWith([file]);
+  });
 });
 
 describe("SimpleChatInput", () => {
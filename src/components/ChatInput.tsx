@@ -1,10 +1,21 @@
 import { useState, useCallback, useRef, useEffect, memo, useMemo } from "react";
 import { Button, Text } from "@cloudflare/kumo";
-import { PaperPlaneTiltIcon, StopIcon, XCircleIcon, TextAUnderlineIcon } from "@phosphor-icons/react";
+import {
+  PaperPlaneTiltIcon,
+  PaperclipIcon,
+  StopIcon,
+  XCircleIcon,
+  TextAUnderlineIcon
+} from "@phosphor-icons/react";
 import { useI18n } from "../hooks/useI18n";
 import { useCommandInput } from "../hooks/useCommandInput";
 import type { CommandSuggestionItem } from "../types/command";
 import { ChatActionBar } from "./chat/ChatActionBar";
+import { ComposerAttachmentList } from "./chat/ComposerAttachmentList";
+import {
+  ATTACHMENT_ACCEPT,
+  type ComposerAttachment
+} from "../features/chat/services/composerAttachments";
 
 interface ChatInputProps {
   value: string;
@@ -21,6 +32,12 @@ interface ChatInputProps {
   maxRows?: number;
   minRows?: number;
   commandSuggestions?: CommandSuggestionItem[];
+  /** Called instead of inserting text when a `/` prompt suggestion is chosen. */
+  onPromptSelect?: (suggestion: CommandSuggestionItem) => void;
+  attachments?: ComposerAttachment[];
+  /** Enables the file picker, paste and drag-and-drop; files are validated by the caller. */
+  onAttachFiles?: (files: File[]) => void;
+  onRemoveAttachment?: (localId: string) => void;
 }
 
 export const ChatInput = memo(function ChatInput({
@@ -37,11 +54,17 @@ export const ChatInput = memo(function ChatInput({
   multiline = true,
   maxRows = 8,
   minRows = 1,
-  commandSuggestions = []
+  commandSuggestions = [],
+  onPromptSelect,
+  attachments = [],
+  onAttachFiles,
+  onRemoveAttachment
 }: ChatInputProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const isComposingRef = useRef(false);
   const [isFocused, setIsFocused] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
   const [caretIndex, setCaretIndex] = useState(0);
   const { t } = useI18n();
 
@@ -70,6 +93,7 @@ export const ChatInput = memo(function ChatInput({
     moveSelection,
     getActiveSuggestion,
     applySuggestion,
+    removeToken,
     hasOpenMenu
   } = useCommandInput({
     input: value,
@@ -81,17 +105,44 @@ export const ChatInput = memo(function ChatInput({
     setActiveIndex(0);
   }, [setActiveIndex, filteredSuggestions.length]);
 
+  const hasReadyAttachments = attachments.some((item) => item.status === "ready");
+  const isUploading = attachments.some((item) => item.status === "uploading");
+  const canAttach = Boolean(onAttachFiles) && isConnected && !isReadOnly;
+
   const handleSubmit = useCallback(() => {
-    if (!value.trim() || isStreaming || !isConnected || isReadOnly || isComposingRef.current) return;
+    if (
+      (!value.trim() && !hasReadyAttachments) ||
+      isUploading ||
+      isStreaming ||
+      !isConnected ||
+      isReadOnly ||
+      isComposingRef.current
+    ) {
+      return;
+    }
     onSubmit();
-  }, [value, isStreaming, isConnected, isReadOnly, onSubmit]);
+  }, [value, hasReadyAttachments, isUploading, isStreaming, isConnected, isReadOnly, onSubmit]);
+
+  const attachFiles = useCallback(
+    (files: FileList | null | undefined) => {
+      const list = Array.from(files ?? []);
+      if (!canAttach || list.length === 0) return false;
+      onAttachFiles?.(list);
+      return true;
+    },
+    [canAttach, onAttachFiles]
+  );
 
   const handleSuggestionSelect = useCallback(
     (suggestion: CommandSuggestionItem) => {
-      const result = applySuggestion(suggestion);
+      const runsPrompt = Boolean(suggestion.prompt && onPromptSelect);
+      const result = runsPrompt ? removeToken() : applySuggestion(suggestion);
       if (!result) {
         return;
       }
+      if (runsPrompt) {
+        onPromptSelect?.(suggestion);
+      }
 
       onChange(result.nextInput);
       queueMicrotask(() => {
@@ -102,7 +153,7 @@ export const ChatInput = memo(function ChatInput({
         }
       });
     },
-    [applySuggestion, onChange]
+    [applySuggestion, onChange, onPromptSelect, removeToken]
   );
 
   const handleKeyDown = useCallback(
@@ -156,8 +207,9 @@ export const ChatInput = memo(function ChatInput({
 
   const charCount = value.length;
   const isOverLimit = charCount > maxLength;
-  const isEmpty = !value.trim();
-  const canSubmit = !isEmpty && !isStreaming && isConnected && !isReadOnly && !isOverLimit;
+  const isEmpty = !value.trim() && !hasReadyAttachments;
+  const canSubmit =
+    !isEmpty && !isUploading && !isStreaming && isConnected && !isReadOnly && !isOverLimit;
   const helperTextId = "chat-input-helper-text";
 
   const getPlaceholder = () => {
@@ -171,11 +223,12 @@ export const ChatInput = memo(function ChatInput({
     const sectionTitles: Record<CommandSuggestionItem["section"], string> = {
       tools: t("chat_input_section_tools"),
       sessions: t("chat_input_section_sessions"),
-      actions: t("chat_input_section_actions")
+      actions: t("chat_input_section_actions"),
+      prompts: t("chat_input_section_prompts")
     };
 
     const groups: Array<{ section: string; items: CommandSuggestionItem[] }> = [];
-    for (const section of ["tools", "sessions", "actions"] as const) {
+    for (const section of ["tools", "sessions", "actions", "prompts"] as const) {
       const items = filteredSuggestions.filter((item) => item.section === section);
       if (items.length > 0) {
         groups.push({ section: sectionTitles[section], items });
@@ -192,9 +245,34 @@ export const ChatInput = memo(function ChatInput({
         transition-all duration-200
         ${isFocused ? "ring-2 ring-kumo-accent/70 border-kumo-accent" : "border-kumo-line"}
         ${!isConnected ? "opacity-75" : ""}
+        ${isDragging ? "border-dashed border-kumo-accent" : ""}
       `}
       aria-busy={isStreaming}
+      onDragOver={(e) => {
+        if (!canAttach || !e.dataTransfer.types.includes("Files")) return;
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setIsDragging(false);
+        }
+      }}
+      onDrop={(e) => {
+        setIsDragging(false);
+        if (attachFiles(e.dataTransfer.files)) {
+          e.preventDefault();
+        }
+      }}
     >
+      {isDragging ? (
+        <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center rounded-2xl bg-kumo-base/80">
+          <Text size="sm">{t("chat_input_drop_files")}</Text>
+        </div>
+      ) : null}
+
+      <ComposerAttachmentList attachments={attachments} onRemove={onRemoveAttachment} t={t} />
+
       <div className="flex items-end gap-2 px-2.5 pb-2 pt-2.5">
         {multiline && (
           <div
@@ -205,6 +283,33 @@ export const ChatInput = memo(function ChatInput({
           </div>
         )}
 
+        {onAttachFiles ? (
+          <>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!canAttach}
+              className="shrink-0 rounded-lg p-2.5 text-kumo-subtle transition-colors hover:bg-kumo-control hover:text-kumo-default disabled:cursor-not-allowed disabled:opacity-50"
+              title={t("chat_input_attach")}
+              aria-label={t("chat_input_attach")}
+            >
+              <PaperclipIcon size={18} />
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              className="hidden"
+              data-testid="chat-input-file"
+              onChange={(e) => {
+                attachFiles(e.target.files);
+                e.target.value = "";
+              }}
+            />
+          </>
+        ) : null}
+
         <textarea
           ref={textareaRef}
           value={value}
@@ -214,6 +319,11 @@ export const ChatInput = memo(function ChatInput({
           }}
           onClick={(e) => setCaretIndex((e.target as HTMLTextAreaElement).selectionStart ?? 0)}
           onKeyDown={handleKeyDown}
+          onPaste={(e) => {
+            if (attachFiles(e.clipboardData?.files)) {
+              e.preventDefault();
+            }
+          }}
           onCompositionStart={() => {
             isComposingRef.current = true;
           }}
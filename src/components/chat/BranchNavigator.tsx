@@ -0,0 +1,46 @@
+import { CaretLeftIcon, CaretRightIcon } from "@phosphor-icons/react";
+import type { BranchPosition } from "../../features/chat/services/messageBranches";
+
+interface BranchNavigatorProps {
+  position: BranchPosition;
+  disabled?: boolean;
+  onSwitch: (messageId: string) => void;
+  t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
+}
+
+const buttonClassName =
+  "rounded p-0.5 text-kumo-subtle transition-colors hover:bg-kumo-control hover:text-kumo-default disabled:cursor-not-allowed disabled:opacity-40";
+
+/** "‹ 2/3 ›" switcher between the versions of a message left by edits and regenerations. */
+export function BranchNavigator({ position, disabled = false, onSwitch, t }: BranchNavigatorProps) {
+  const { previousId, nextId } = position;
+  return (
+    <div
+      className="inline-flex items-center gap-0.5 text-xs text-kumo-subtle"
+      role="group"
+      aria-label={t("branch_label")}
+    >
+      <button
+        type="button"
+        className={buttonClassName}
+        disabled={disabled || !previousId}
+        onClick={() => previousId && onSwitch(previousId)}
+        aria-label={t("branch_previous")}
+      >
+        <CaretLeftIcon size={12} />
+      </button>
+      <span className="min-w-8 text-center tabular-nums">
+        {t("branch_position", { index: String(position.index), count: String(position.count) })}
+      </span>
+      <button
+        type="button"
+        className={buttonClassName}
+        disabled={disabled || !nextId}
+        onClick={() => nextId && onSwitch(nextId)}
+        aria-label={t("branch_next")}
+      >
+        <CaretRightIcon size={12} />
+      </button>
+    </div>
+  );
+}
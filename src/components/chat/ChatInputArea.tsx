@@ -3,6 +3,7 @@ import { Button } from "@cloudflare/kumo";
 import { ChatInput } from "../ChatInput";
 import type { CommandSuggestionItem } from "../../types/command";
 import { useI18n } from "../../hooks/useI18n";
+import type { ComposerAttachment } from "../../features/chat/services/composerAttachments";
 
 interface ChatInputAreaProps {
   value: string;
@@ -14,6 +15,10 @@ interface ChatInputAreaProps {
   isReadOnly?: boolean;
   placeholder: string;
   commandSuggestions: CommandSuggestionItem[];
+  onPromptSelect?: (suggestion: CommandSuggestionItem) => void;
+  attachments?: ComposerAttachment[];
+  onAttachFiles?: (files: File[]) => void;
+  onRemoveAttachment?: (localId: string) => void;
   topAddons?: ReactNode;
   bottomAddons?: ReactNode;
 }
@@ -28,6 +33,10 @@ export function ChatInputArea({
   isReadOnly = false,
   placeholder,
   commandSuggestions,
+  onPromptSelect,
+  attachments,
+  onAttachFiles,
+  onRemoveAttachment,
   topAddons,
   bottomAddons
 }: ChatInputAreaProps) {
@@ -61,6 +70,10 @@ export function ChatInputArea({
         onSubmit={onSubmit}
         onStop={onStop}
         commandSuggestions={commandSuggestions}
+        onPromptSelect={onPromptSelect}
+        attachments={attachments}
+        onAttachFiles={onAttachFiles}
+        onRemoveAttachment={onRemoveAttachment}
         isStreaming={isStreaming}
         isConnected={isConnected}
         isReadOnly={isReadOnly}
@@ -8,12 +8,15 @@ const t = (key: string) => {
     message_actions_edit_message: "Edit message",
     message_actions_cancel: "Cancel",
     message_actions_save: "Save",
+    message_actions_save_resend: "Save & resend",
     message_actions_edit: "Edit",
     message_actions_copy_message: "Copy message",
     message_actions_delete_message: "Delete message",
     message_actions_fork_message: "Fork session from message",
     chat_sources_title: "Sources",
-    chat_sources_empty: "No snippets available"
+    chat_sources_empty: "No snippets available",
+    branch_previous: "Previous version",
+    branch_next: "Next version"
   };
 
   return map[key] ?? key;
@@ -60,10 +63,40 @@ describe("ChatMessageItem", () => {
     fireEvent.click(screen.getByText("Save"));
 
     await waitFor(() => {
-      expect(onEdit).toHaveBeenCalledWith("msg-user", "hello world");
+      expect(onEdit).toHaveBeenCalledWith("msg-user", "hello world", { resend: false });
     });
   });
 
+  it("resends an edited message for a fresh reply", async () => {
+    const onEdit = vi.fn().mockResolvedValue(undefined);
+
+    render(
+      <ChatMessageItem
+        message={createUserMessage("hello")}
+        isStreaming={false}
+        canEdit={true}
+        isLastMessage={false}
+        onDelete={vi.fn()}
+        onEdit={onEdit}
+        onRegenerate={vi.fn()}
+        onFork={vi.fn()}
+        getMessageText={() => "hello"}
+        t={t as never}
+      />
+    );
+
+    fireEvent.click(screen.getByLabelText("Edit message"));
+    fireEvent.change(within(screen.getByRole("dialog")).getByRole("textbox"), {
+      target: { value: "hello again" }
+    });
+    fireEvent.click(screen.getByText("Save & resend"));
+
+    await waitFor(() => {
+      expect(onEdit).toHaveBeenCalledWith("msg-user", "hello again", { resend: true });
+    });
+    await waitFor(() => expect(screen.queryByRole("dialog")).toBeNull());
+  });
+
   it("renders docs variant in full width", () => {
     render(
       <ChatMessageItem
@@ -88,4 +121,75 @@ describe("ChatMessageItem", () => {
 
     expect(screen.getByText("hello")).toBeInTheDocument();
   });
+
+  it("renders attached images and documents without an empty bubble", () => {
+    const { container } = render(
+      <ChatMessageItem
+        message={
+          {
+            id: "msg-files",
+            role: "user",
+            parts: [
+              {
+                type: "file",
+                mediaType: "image/png",
+                filename: "cat.png",
+                url: "/api/chat/attachments/a1?sessionId=s1"
+              },
+              {
+                type: "file",
+                mediaType: "text/markdown",
+                filename: "notes.md",
+                url: "/api/chat/attachments/a2?sessionId=s1"
+              }
+            ]
+          } as UIMessage
+        }
+        isStreaming={false}
+        canEdit={true}
+        isLastMessage={false}
+        onDelete={vi.fn()}
+        onEdit={vi.fn()}
+        onRegenerate={vi.fn()}
+        onFork={vi.fn()}
+        getMessageText={() => ""}
+        t={t as never}
+      />
+    );
+
+    expect(screen.getByAltText("cat.png")).toHaveAttribute(
+      "src",
+      "/api/chat/attachments/a1?sessionId=s1"
+    );
+    expect(screen.getByText("notes.md").closest("a")).toHaveAttribute(
+      "href",
+      "/api/chat/attachments/a2?sessionId=s1"
+    );
+    expect(container.querySelector(".bg-kumo-accent")).toBeNull();
+  });
+
+  it("switches between message versions", () => {
+    const onSwitchBranch = vi.fn();
+
+    render(
+      <ChatMessageItem
+        message={createUserMessage("hello")}
+        isStreaming={false}
+        canEdit={true}
+        isLastMessage={false}
+        branch={{ index: 2, count: 2, previousId: "msg-old" }}
+        onSwitchBranch={onSwitchBranch}
+        onDelete={vi.fn()}
+        onEdit={vi.fn()}
+        onRegenerate={vi.fn()}
+        onFork={vi.fn()}
+        getMessageText={() => "hello"}
+        t={t as never}
+      />
+    );
+
+    expect(screen.getByLabelText("Next version")).toBeDisabled();
+    fireEvent.click(screen.getByLabelText("Previous version"));
+    expect(onSwitchBranch).toHaveBeenCalledWith("msg-old");
+  });
 });
@@ -1,14 +1,20 @@
 import { memo, useMemo, useState } from "react";
 import { Button, Text } from "@cloudflare/kumo";
+import { FileTextIcon, PaperclipIcon } from "@phosphor-icons/react";
 import type { UIMessage } from "ai";
 import { Dialog } from "../ui";
 import { MessageActions } from "../MessageActions";
 import { MessageSources } from "../MessageSources";
+import { MessageUsageFooter } from "./MessageUsageFooter";
+import { BranchNavigator } from "./BranchNavigator";
 import { MarkdownRenderer } from "../MarkdownRenderer";
 import { ToolCallCard, extractToolCalls } from "../ToolCallCard";
+import { withShareTokenUrl } from "../../features/chat/services/apiClient";
 import { trackChatEvent } from "../../features/chat/services/trackChatEvent";
 import { extractMessageSources } from "../../types/message-sources";
 import { useApprovalContext } from "../../features/chat/context/ApprovalContext";
+import type { ResourceAttachment } from "../../features/chat/services/apiContracts";
+import type { BranchPosition } from "../../features/chat/services/messageBranches";
 
 const RENDERABLE_BLOCK_PATTERN = /```[\s\S]*?```/;
 
@@ -24,9 +30,17 @@ interface ChatMessageItemProps {
     streamCursor: boolean;
   };
   onDelete: (messageId: UIMessage["id"]) => void;
-  onEdit: (messageId: UIMessage["id"], content: string) => Promise<void>;
+  /** With `resend`, the edited message is sent again and gets a fresh reply. */
+  onEdit: (
+    messageId: UIMessage["id"],
+    content: string,
+    options?: { resend?: boolean }
+  ) => Promise<void>;
   onRegenerate: (messageId: UIMessage["id"]) => Promise<void>;
   onFork: (messageId: UIMessage["id"]) => Promise<void>;
+  /** Set when the message has other versions from edits or regenerations. */
+  branch?: BranchPosition | null;
+  onSwitchBranch?: (messageId: UIMessage["id"]) => void;
   getMessageText: (message: UIMessage) => string;
   t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
 }
@@ -42,6 +56,8 @@ function ChatMessageItemInner({
   onEdit,
   onRegenerate,
   onFork,
+  branch = null,
+  onSwitchBranch,
   getMessageText,
   t
 }: ChatMessageItemProps) {
@@ -71,6 +87,20 @@ function ChatMessageItemInner({
         : [],
     [message.parts]
   );
+  const attachedResources = useMemo(
+    () =>
+      (Array.isArray(message.parts) ? message.parts : []).flatMap((part) =>
+        part.type === "data-resource" ? [part.data as ResourceAttachment] : []
+      ),
+    [message.parts]
+  );
+  const attachedFiles = useMemo(
+    () =>
+      (Array.isArray(message.parts) ? message.parts : []).flatMap((part) =>
+        part.type === "file" ? [{ ...part, url: withShareTokenUrl(part.url) }] : []
+      ),
+    [message.parts]
+  );
   const sourceGroups = useMemo(() => extractMessageSources(message.parts), [message.parts]);
   const citations = useMemo(
     () =>
@@ -84,15 +114,15 @@ function ChatMessageItemInner({
   );
   const hasErrorLikeContent = !isUser && /(处理请求时出错|error|failed)/i.test(text);
 
-  const saveEdit = async () => {
+  const saveEdit = async (resend: boolean) => {
     if (!draft.trim() || draft === text) {
       setIsEditing(false);
       return;
     }
     setSaving(true);
     try {
-      await onEdit(message.id, draft.trim());
-      trackChatEvent("message_edit_confirm", { messageId: message.id });
+      await onEdit(message.id, draft.trim(), { resend });
+      trackChatEvent("message_edit_confirm", { messageId: message.id, resend });
       setIsEditing(false);
     } finally {
       setSaving(false);
@@ -129,30 +159,81 @@ function ChatMessageItemInner({
         </div>
       )}
 
-      <div
-        className={`${bubbleWidthClass} rounded-2xl px-4 py-2.5 shadow-[var(--app-shadow-soft)] ${
-          variant === "docs"
-            ? "bg-kumo-surface/95 text-kumo-default ring ring-kumo-line"
-            : isUser
-              ? "bg-kumo-accent text-[var(--app-text-on-accent)]"
-              : "bg-kumo-surface/95 text-kumo-default ring ring-kumo-line"
-        }`}
-      >
-        {isUser ? (
-          <span className="block whitespace-pre-wrap">
-            <Text size="sm">{text}</Text>
-          </span>
-        ) : (
-          <MarkdownRenderer
-            content={text}
-            isStreaming={isStreaming && isLastMessage}
-            enableAlerts={markdownPrefs?.enableAlerts ?? true}
-            enableFootnotes={markdownPrefs?.enableFootnotes ?? true}
-            streamCursor={markdownPrefs?.streamCursor ?? true}
-            citations={citations}
-          />
-        )}
-      </div>
+      {attachedResources.length > 0 && (
+        <div className="mb-1.5 flex max-w-[95%] flex-wrap justify-end gap-1.5 sm:max-w-[85%]">
+          {attachedResources.map((resource) => (
+            <span
+              key={`${resource.serverId}:${resource.uri}`}
+              title={resource.uri}
+              className="inline-flex max-w-full items-center gap-1 rounded-full border border-kumo-line bg-kumo-control/60 px-2 py-0.5 text-xs text-kumo-subtle"
+            >
+              <PaperclipIcon size={12} />
+              <span className="truncate">{resource.name || resource.uri}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {attachedFiles.length > 0 && (
+        <div className="mb-1.5 flex max-w-[95%] flex-wrap justify-end gap-1.5 sm:max-w-[85%]">
+          {attachedFiles.map((file, index) =>
+            file.mediaType.startsWith("image/") ? (
+              <a
+                key={`${file.url}-${index}`}
+                href={file.url}
+                target="_blank"
+                rel="noreferrer"
+                title={file.filename}
+                className="block overflow-hidden rounded-xl border border-kumo-line"
+              >
+                <img
+                  src={file.url}
+                  alt={file.filename ?? ""}
+                  loading="lazy"
+                  className="h-32 max-w-[16rem] object-cover"
+                />
+              </a>
+            ) : (
+              <a
+                key={`${file.url}-${index}`}
+                href={file.url}
+                title={file.filename}
+                className="inline-flex max-w-full items-center gap-1 rounded-full border border-kumo-line bg-kumo-control/60 px-2 py-0.5 text-xs text-kumo-subtle hover:text-kumo-default"
+              >
+                <FileTextIcon size={12} />
+                <span className="truncate">{file.filename || file.mediaType}</span>
+              </a>
+            )
+          )}
+        </div>
+      )}
+
+      {(!isUser || text || attachedFiles.length === 0) && (
+        <div
+          className={`${bubbleWidthClass} rounded-2xl px-4 py-2.5 shadow-[var(--app-shadow-soft)] ${
+            variant === "docs"
+              ? "bg-kumo-surface/95 text-kumo-default ring ring-kumo-line"
+              : isUser
+                ? "bg-kumo-accent text-[var(--app-text-on-accent)]"
+                : "bg-kumo-surface/95 text-kumo-default ring ring-kumo-line"
+          }`}
+        >
+          {isUser ? (
+            <span className="block whitespace-pre-wrap">
+              <Text size="sm">{text}</Text>
+            </span>
+          ) : (
+            <MarkdownRenderer
+              content={text}
+              isStreaming={isStreaming && isLastMessage}
+              enableAlerts={markdownPrefs?.enableAlerts ?? true}
+              enableFootnotes={markdownPrefs?.enableFootnotes ?? true}
+              streamCursor={markdownPrefs?.streamCursor ?? true}
+              citations={citations}
+            />
+          )}
+        </div>
+      )}
 
       {hasErrorLikeContent && (
         <div className="mt-2 rounded-lg border app-border-danger-soft app-bg-danger-soft p-2">
@@ -182,10 +263,21 @@ function ChatMessageItemInner({
             title={t("chat_sources_title")}
             emptyLabel={t("chat_sources_empty")}
           />
+          {!(isStreaming && isLastMessage) && (
+            <MessageUsageFooter metadata={message.metadata} t={t} />
+          )}
         </div>
       )}
 
-      <div className={`mt-1 ${actionsLayout === "stack" ? "w-full" : ""}`}>
+      <div className={`mt-1 flex items-center gap-2 ${actionsLayout === "stack" ? "w-full" : ""}`}>
+        {branch && onSwitchBranch && (
+          <BranchNavigator
+            position={branch}
+            disabled={isStreaming || !canEdit}
+            onSwitch={onSwitchBranch}
+            t={t}
+          />
+        )}
         <MessageActions
           content={text}
           showRegenerate={!isUser}
@@ -228,9 +320,22 @@ function ChatMessageItemInner({
             >
               {t("message_actions_cancel")}
             </Button>
-            <Button variant="primary" size="sm" onClick={saveEdit} disabled={saving}>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => void saveEdit(false)}
+              disabled={saving}
+            >
               {t("message_actions_save")}
             </Button>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={() => void saveEdit(true)}
+              disabled={saving || isStreaming}
+            >
+              {t("message_actions_save_resend")}
+            </Button>
           </div>
         }
       >
@@ -252,9 +357,14 @@ function areChatMessageItemPropsEqual(
   if (prevProps.message.id !== nextProps.message.id) return false;
   if (prevProps.message.role !== nextProps.message.role) return false;
   if (prevProps.message.parts !== nextProps.message.parts) return false;
+  if (prevProps.message.metadata !== nextProps.message.metadata) return false;
   if (prevProps.isStreaming !== nextProps.isStreaming) return false;
   if (prevProps.isLastMessage !== nextProps.isLastMessage) return false;
   if (prevProps.canEdit !== nextProps.canEdit) return false;
+  if (prevProps.branch?.index !== nextProps.branch?.index) return false;
+  if (prevProps.branch?.count !== nextProps.branch?.count) return false;
+  if (prevProps.branch?.previousId !== nextProps.branch?.previousId) return false;
+  if (prevProps.branch?.nextId !== nextProps.branch?.nextId) return false;
   if (prevProps.variant !== nextProps.variant) return false;
   if (prevProps.markdownPrefs?.enableAlerts !== nextProps.markdownPrefs?.enableAlerts) return false;
   if (prevProps.markdownPrefs?.enableFootnotes !== nextProps.markdownPrefs?.enableFootnotes) return false;
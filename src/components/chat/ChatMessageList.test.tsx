@@ -0,0 +1,94 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import { describe, expect, it, vi } from "vitest";
+import type { UIMessage } from "ai";
+import { ChatMessageList } from "./ChatMessageList";
+
+const t = (key: string, vars?: Record<string, string>) =>
+  vars?.count ? `${key}:${vars.count}` : key;
+
+function conversation(count: number): UIMessage[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `m${index}`,
+    role: index % 2 === 0 ? "user" : "assistant",
+    parts: [{ type: "text", text: `message ${index}` }]
+  })) as UIMessage[];
+}
+
+function renderList(props: Partial<Parameters<typeof ChatMessageList>[0]> = {}) {
+  return render(
+    <ChatMessageList
+      messages={conversation(3)}
+      isStreaming={false}
+      canEdit
+      activeToolsCount={0}
+      onDeleteMessage={vi.fn()}
+      onEditMessage={vi.fn()}
+      onRegenerateMessage={vi.fn()}
+      onForkMessage={vi.fn()}
+      getMessageText={(message) =>
+        message.parts.map((part) => (part as { text?: string }).text ?? "").join("")
+      }
+      t={t as never}
+      {...props}
+    />
+  );
+}
+
+describe("ChatMessageList", () => {
+  it("mounts only a window of a long conversation and keeps the last message", () => {
+    renderList({ messages: conversation(400) });
+    const mounted = screen.queryAllByText(/^message \d+$/);
+    expect(mounted.length).toBeGreaterThan(0);
+    expect(mounted.length).toBeLessThan(400);
+    expect(screen.getByText("message 399")).toBeTruthy();
+  });
+
+  it("offers older pages above the list and marks the summary boundary", () => {
+    const onLoadOlderMessages = vi.fn();
+    renderList({
+      hasOlderMessages: true,
+      onLoadOlderMessages,
+      contextSummary: {
+        text: "earlier",
+        boundaryMessageId: "m2",
+        coveredThroughMessageId: "m1",
+        summarizedCount: 6,
+        updatedAt: "2026-01-01T00:00:00.000Z"
+      }
+    });
+
+    // Unmeasured rows are hidden in jsdom, so query by text rather than by accessible name.
+    fireEvent.click(screen.getByText("chat_load_older"));
+    expect(onLoadOlderMessages).toHaveBeenCalledTimes(1);
+
+    const divider = screen.getByTestId("context-summary-divider");
+    const boundary = screen.getByText("message 2");
+    expect(
+      divider.compareDocumentPosition(boundary) & Node.DOCUMENT_POSITION_FOLLOWING
+    ).toBeTruthy();
+  });
+
+  it("reports a searched message once it is loaded", () => {
+    const onFocusMessageHandled = vi.fn();
+    const { rerender } = renderList({ focusMessageId: "m9", onFocusMessageHandled });
+    expect(onFocusMessageHandled).not.toHaveBeenCalled();
+
+    rerender(
+      <ChatMessageList
+        messages={conversation(12)}
+        isStreaming={false}
+        canEdit
+        activeToolsCount={0}
+        focusMessageId="m9"
+        onFocusMessageHandled={onFocusMessageHandled}
+        onDeleteMessage={vi.fn()}
+        onEditMessage={vi.fn()}
+        onRegenerateMessage={vi.fn()}
+        onForkMessage={vi.fn()}
+        getMessageText={() => ""}
+        t={t as never}
+      />
+    );
+    expect(onFocusMessageHandled).toHaveBeenCalledWith("m9");
+  });
+});
@@ -1,10 +1,17 @@
 import { Empty } from "@cloudflare/kumo";
-import { ChatCircleIcon } from "@phosphor-icons/react";
+import { ChatCircleIcon, SpinnerIcon } from "@phosphor-icons/react";
 import type { UIMessage } from "ai";
+import { useEffect, useRef, useState, type RefObject } from "react";
+import { Virtualizer, type VirtualizerHandle } from "virtua";
+import type { ContextSummary } from "../../features/chat/services/apiContracts";
+import type { BranchPosition } from "../../features/chat/services/messageBranches";
 import { ChatMessageItem } from "./ChatMessageItem";
+import { ContextSummaryDivider } from "./ContextSummaryDivider";
 
 interface ChatMessageListProps {
   messages: UIMessage[];
+  /** Scroll container the list is virtualized against. */
+  scrollRef?: RefObject<HTMLElement | null>;
   isStreaming: boolean;
   canEdit: boolean;
   variant?: "bubble" | "docs";
@@ -14,28 +21,97 @@ interface ChatMessageListProps {
     streamCursor: boolean;
   };
   activeToolsCount: number;
+  /** Rendered as a divider ahead of the first message the model still sees verbatim. */
+  contextSummary?: ContextSummary | null;
+  /** Archived messages are shown read-only. */
+  archivedMessageIds?: ReadonlySet<string>;
+  hasOlderMessages?: boolean;
+  loadingOlderMessages?: boolean;
+  onLoadOlderMessages?: () => void;
+  /** Scrolled into view and briefly highlighted once it is among `messages`. */
+  focusMessageId?: string | null;
+  onFocusMessageHandled?: (messageId: string) => void;
   onDeleteMessage: (messageId: UIMessage["id"]) => void;
-  onEditMessage: (messageId: UIMessage["id"], content: string) => Promise<void>;
+  onEditMessage: (
+    messageId: UIMessage["id"],
+    content: string,
+    options?: { resend?: boolean }
+  ) => Promise<void>;
   onRegenerateMessage: (messageId: UIMessage["id"]) => Promise<void>;
   onForkMessage: (messageId: UIMessage["id"]) => Promise<void>;
+  /** Version numbers of messages that have siblings from edits or regenerations. */
+  branchPositions?: ReadonlyMap<string, BranchPosition>;
+  onSwitchBranch?: (messageId: UIMessage["id"]) => void;
   getMessageText: (message: UIMessage) => string;
   t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
 }
 
+type ListRow = { kind: "older" } | { kind: "message"; message: UIMessage; index: number };
+
+/**
+ * Virtualized message list: only messages near the viewport are mounted, so markdown,
+ * charts and preview iframes of offscreen messages are torn down. The last message stays
+ * mounted so a streaming reply keeps its measured height.
+ */
 export function ChatMessageList({
   messages,
+  scrollRef,
   isStreaming,
   canEdit,
   variant = "bubble",
   markdownPrefs,
   activeToolsCount,
+  contextSummary,
+  archivedMessageIds,
+  hasOlderMessages = false,
+  loadingOlderMessages = false,
+  onLoadOlderMessages,
+  focusMessageId = null,
+  onFocusMessageHandled,
   onDeleteMessage,
   onEditMessage,
   onRegenerateMessage,
   onForkMessage,
+  branchPositions,
+  onSwitchBranch,
   getMessageText,
   t
 }: ChatMessageListProps) {
+  const virtualizerRef = useRef<VirtualizerHandle>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // Older pages are inserted at the top; let the virtualizer keep the viewport anchored to
+  // the end for that one update instead of jumping to the newly inserted messages.
+  const firstId = messages[0]?.id;
+  const [prepend, setPrepend] = useState({ firstId, shift: false });
+  if (prepend.firstId !== firstId) {
+    const previousFirstId = prepend.firstId;
+    setPrepend({
+      firstId,
+      shift: messages.some((message, index) => index > 0 && message.id === previousFirstId)
+    });
+  }
+  useEffect(() => {
+    if (prepend.shift) setPrepend((current) => ({ ...current, shift: false }));
+  }, [prepend.shift]);
+
+  const showOlderLoader = hasOlderMessages && Boolean(onLoadOlderMessages);
+  const focusIndex = focusMessageId
+    ? messages.findIndex((message) => message.id === focusMessageId)
+    : -1;
+  useEffect(() => {
+    if (!focusMessageId || focusIndex < 0) return;
+    virtualizerRef.current?.scrollToIndex(focusIndex + (showOlderLoader ? 1 : 0), {
+      align: "center"
+    });
+    setHighlightedId(focusMessageId);
+    onFocusMessageHandled?.(focusMessageId);
+  }, [focusIndex, focusMessageId, onFocusMessageHandled, showOlderLoader]);
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timer = window.setTimeout(() => setHighlightedId(null), 2400);
+    return () => window.clearTimeout(timer);
+  }, [highlightedId]);
+
   if (messages.length === 0) {
     return (
       <div className="flex h-full items-center justify-center">
@@ -52,25 +128,106 @@ export function ChatMessageList({
     );
   }
 
+  const rows: ListRow[] = [
+    ...(showOlderLoader ? [{ kind: "older" as const }] : []),
+    ...messages.map((message, index) => ({ kind: "message" as const, message, index }))
+  ];
+  // The loader stays mounted so its observer can fire as soon as it scrolls into view.
+  const keepMounted = showOlderLoader ? [0, rows.length - 1] : [rows.length - 1];
+
   return (
-    <div className="space-y-4 px-1 py-1 pb-4">
-      {messages.map((message, index) => (
-        <ChatMessageItem
-          key={message.id}
-          message={message}
-          isStreaming={isStreaming}
-          canEdit={canEdit}
-          isLastMessage={index === messages.length - 1}
-          variant={variant}
-          markdownPrefs={markdownPrefs}
-          onDelete={onDeleteMessage}
-          onEdit={onEditMessage}
-          onRegenerate={onRegenerateMessage}
-          onFork={onForkMessage}
-          getMessageText={getMessageText}
-          t={t}
-        />
-      ))}
+    <div className="px-1">
+      <Virtualizer
+        ref={virtualizerRef}
+        data={rows}
+        scrollRef={scrollRef}
+        shift={prepend.shift}
+        keepMounted={keepMounted}
+        bufferSize={600}
+      >
+        {(row, rowIndex) =>
+          row.kind === "older" ? (
+            <div key="older" className="pb-4 pt-1">
+              <OlderMessagesLoader
+                loading={loadingOlderMessages}
+                onLoad={() => onLoadOlderMessages?.()}
+                t={t}
+              />
+            </div>
+          ) : (
+            <div
+              key={row.message.id}
+              data-message-id={row.message.id}
+              className={`${rowIndex === 0 ? "pb-4 pt-1" : "pb-4"} ${
+                highlightedId === row.message.id
+                  ? "rounded-xl ring-2 ring-kumo-accent/60 transition-shadow"
+                  : ""
+              }`}
+            >
+              {contextSummary?.boundaryMessageId === row.message.id ? (
+                <div className="pb-4">
+                  <ContextSummaryDivider summary={contextSummary} t={t} />
+                </div>
+              ) : null}
+              <ChatMessageItem
+                message={row.message}
+                isStreaming={isStreaming}
+                canEdit={canEdit && !archivedMessageIds?.has(row.message.id)}
+                isLastMessage={row.index === messages.length - 1}
+                variant={variant}
+                markdownPrefs={markdownPrefs}
+                onDelete={onDeleteMessage}
+                onEdit={onEditMessage}
+                onRegenerate={onRegenerateMessage}
+                onFork={onForkMessage}
+                branch={branchPositions?.get(row.message.id) ?? null}
+                onSwitchBranch={onSwitchBranch}
+                getMessageText={getMessageText}
+                t={t}
+              />
+            </div>
+          )
+        }
+      </Virtualizer>
+    </div>
+  );
+}
+
+/** Loads the previous page once it scrolls into view; the button covers browsers without observers. */
+function OlderMessagesLoader({
+  loading,
+  onLoad,
+  t
+}: {
+  loading: boolean;
+  onLoad: () => void;
+  t: ChatMessageListProps["t"];
+}) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onLoadRef = useRef(onLoad);
+  onLoadRef.current = onLoad;
+
+  useEffect(() => {
+    const element = sentinelRef.current;
+    if (!element || loading || typeof IntersectionObserver === "undefined") return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) onLoadRef.current();
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [loading]);
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center">
+      <button
+        type="button"
+        className="inline-flex items-center gap-1.5 rounded-full px-3 py-1 text-xs text-kumo-subtle hover:bg-kumo-control hover:text-kumo-default disabled:opacity-60"
+        disabled={loading}
+        onClick={onLoad}
+      >
+        {loading ? <SpinnerIcon size={12} className="animate-spin" /> : null}
+        {loading ? t("chat_loading_older") : t("chat_load_older")}
+      </button>
     </div>
   );
 }
@@ -0,0 +1,64 @@
+import { FileTextIcon, SpinnerIcon, WarningCircleIcon, XIcon } from "@phosphor-icons/react";
+import type { ComposerAttachment } from "../../features/chat/services/composerAttachments";
+
+interface ComposerAttachmentListProps {
+  attachments: ComposerAttachment[];
+  onRemove?: (localId: string) => void;
+  t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
+}
+
+export function ComposerAttachmentList({ attachments, onRemove, t }: ComposerAttachmentListProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <ul className="flex flex-wrap gap-2 px-2.5 pt-2.5" aria-label={t("chat_input_attachments")}>
+      {attachments.map((item) => (
+        <li
+          key={item.localId}
+          title={item.error ?? item.filename}
+          className={`relative flex h-14 max-w-[12rem] items-center gap-2 rounded-xl border bg-kumo-control/60 pr-7 text-xs ${
+            item.status === "error" ? "border-[var(--app-color-danger)]" : "border-kumo-line"
+          }`}
+        >
+          {item.previewUrl ? (
+            <img
+              src={item.previewUrl}
+              alt={item.filename}
+              className="h-full w-14 shrink-0 rounded-l-xl object-cover"
+            />
+          ) : (
+            <FileTextIcon size={20} className="ml-2 shrink-0 text-kumo-subtle" />
+          )}
+          <span className="min-w-0">
+            <span className="block truncate text-kumo-default">{item.filename}</span>
+            <span className="flex items-center gap-1 text-kumo-subtle">
+              {item.status === "uploading" ? (
+                <>
+                  <SpinnerIcon size={10} className="animate-spin" />
+                  {t("chat_input_attachment_uploading")}
+                </>
+              ) : item.status === "error" ? (
+                <span className="app-text-danger inline-flex items-center gap-1">
+                  <WarningCircleIcon size={10} />
+                  {t("chat_input_attachment_failed")}
+                </span>
+              ) : (
+                `${Math.max(1, Math.round(item.size / 1024))} KB`
+              )}
+            </span>
+          </span>
+          {onRemove ? (
+            <button
+              type="button"
+              className="absolute right-1 top-1 rounded-full p-1 text-kumo-subtle hover:bg-kumo-control hover:text-kumo-default"
+              aria-label={t("chat_input_attachment_remove", { name: item.filename })}
+              onClick={() => onRemove(item.localId)}
+            >
+              <XIcon size={10} />
+            </button>
+          ) : null}
+        </li>
+      ))}
+    </ul>
+  );
+}
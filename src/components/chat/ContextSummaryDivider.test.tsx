@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { ContextSummaryDivider } from "./ContextSummaryDivider";
+
+const t = (key: string, vars?: Record<string, string>) =>
+  vars?.count ? `${key}:${vars.count}` : key;
+
+describe("ContextSummaryDivider", () => {
+  it("shows the folded message count and reveals the summary on demand", () => {
+    render(
+      <ContextSummaryDivider
+        summary={{ text: "User is planning a trip to Kyoto.", summarizedCount: 12 }}
+        t={t}
+      />
+    );
+
+    const toggle = screen.getByRole("button", { name: "context_summary_divider:12" });
+    expect(toggle.getAttribute("aria-expanded")).toBe("false");
+    expect(screen.queryByText("User is planning a trip to Kyoto.")).toBeNull();
+
+    fireEvent.click(toggle);
+    expect(toggle.getAttribute("aria-expanded")).toBe("true");
+    expect(screen.getByText("User is planning a trip to Kyoto.")).toBeTruthy();
+  });
+});
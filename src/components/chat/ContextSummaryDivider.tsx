@@ -0,0 +1,38 @@
+import { useState } from "react";
+import { CaretDownIcon, CaretRightIcon, ClockCounterClockwiseIcon } from "@phosphor-icons/react";
+import type { ContextSummary } from "../../features/chat/services/apiContracts";
+
+interface ContextSummaryDividerProps {
+  summary: Pick<ContextSummary, "text" | "summarizedCount">;
+  t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
+}
+
+/** Marks where the model stops seeing history verbatim and starts relying on the summary. */
+export function ContextSummaryDivider({ summary, t }: ContextSummaryDividerProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="flex flex-col items-center gap-2 py-1" data-testid="context-summary-divider">
+      <div className="flex w-full items-center gap-3 text-xs text-kumo-subtle">
+        <span className="h-px flex-1 bg-kumo-line" />
+        <button
+          type="button"
+          className="inline-flex items-center gap-1.5 rounded-full px-2 py-0.5 hover:bg-kumo-control hover:text-kumo-default"
+          aria-expanded={expanded}
+          onClick={() => setExpanded((current) => !current)}
+        >
+          <ClockCounterClockwiseIcon size={12} />
+          {t("context_summary_divider", { count: String(summary.summarizedCount) })}
+          {expanded ? <CaretDownIcon size={10} /> : <CaretRightIcon size={10} />}
+        </button>
+        <span className="h-px flex-1 bg-kumo-line" />
+      </div>
+      {expanded ? (
+        <div className="app-panel-soft w-full max-w-2xl rounded-xl p-3 text-xs ring ring-kumo-line">
+          <p className="mb-1 font-medium text-kumo-default">{t("context_summary_title")}</p>
+          <p className="whitespace-pre-wrap text-kumo-subtle">{summary.text}</p>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { MessageUsageFooter, readMessageUsage } from "./MessageUsageFooter";
+import type { MessageUsage } from "../../features/chat/services/apiContracts";
+
+const t = (key: string, vars?: Record<string, string>) =>
+  vars ? `${key}:${Object.values(vars).join("/")}` : key;
+
+const usage: MessageUsage = {
+  modelRef: "openai:o3",
+  inputTokens: 1200,
+  outputTokens: 300,
+  reasoningTokens: 100,
+  totalTokens: 1500,
+  latencyMs: 2450,
+  finishReason: "stop",
+  costUsd: 0.0044,
+  completedAt: "2026-01-01T12:00:00.000Z"
+};
+
+describe("MessageUsageFooter", () => {
+  it("summarizes tokens, latency and cost with model details on hover", () => {
+    render(<MessageUsageFooter metadata={{ usage }} t={t} />);
+
+    const footer = screen.getByLabelText("usage_label");
+    expect(footer.textContent).toContain("usage_reasoning:100");
+    expect(footer.textContent).toContain("usage_latency:2.5");
+    expect(footer.textContent).toContain("$0.0044");
+    expect(footer.getAttribute("title")).toBe("usage_detail:openai:o3/stop");
+  });
+
+  it("omits unpriced cost and renders nothing without usage", () => {
+    render(<MessageUsageFooter metadata={{ usage: { ...usage, costUsd: null } }} t={t} />);
+    expect(screen.getByLabelText("usage_label").textContent).not.toContain("$");
+
+    const { container } = render(<MessageUsageFooter metadata={{ finishReason: "stop" }} t={t} />);
+    expect(container.innerHTML).toBe("");
+    expect(readMessageUsage(undefined)).toBeNull();
+  });
+});
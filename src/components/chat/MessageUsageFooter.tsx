@@ -0,0 +1,55 @@
+import type { MessageUsage } from "../../features/chat/services/apiContracts";
+
+interface MessageUsageFooterProps {
+  metadata: unknown;
+  t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
+}
+
+const compactNumber = new Intl.NumberFormat(undefined, {
+  notation: "compact",
+  maximumFractionDigits: 1
+});
+
+const usd = new Intl.NumberFormat("en-US", {
+  style: "currency",
+  currency: "USD",
+  maximumSignificantDigits: 3
+});
+
+/** Usage the agent stored in an assistant message's metadata, if any. */
+export function readMessageUsage(metadata: unknown): MessageUsage | null {
+  if (!metadata || typeof metadata !== "object") return null;
+  const usage = (metadata as { usage?: unknown }).usage;
+  if (!usage || typeof usage !== "object") return null;
+  const candidate = usage as Partial<MessageUsage>;
+  return typeof candidate.modelRef === "string" && typeof candidate.totalTokens === "number"
+    ? (usage as MessageUsage)
+    : null;
+}
+
+/** One muted line of tokens, latency and cost under an assistant reply. */
+export function MessageUsageFooter({ metadata, t }: MessageUsageFooterProps) {
+  const usage = readMessageUsage(metadata);
+  if (!usage) return null;
+  const items = [
+    t("usage_tokens", {
+      input: compactNumber.format(usage.inputTokens),
+      output: compactNumber.format(usage.outputTokens)
+    }),
+    usage.reasoningTokens > 0
+      ? t("usage_reasoning", { reasoning: compactNumber.format(usage.reasoningTokens) })
+      : null,
+    t("usage_latency", { seconds: (usage.latencyMs / 1000).toFixed(1) }),
+    usage.costUsd === null ? null : usd.format(usage.costUsd)
+  ].filter((item): item is string => item !== null);
+
+  return (
+    <div
+      className="mt-1 text-[11px] text-kumo-subtle tabular-nums"
+      aria-label={t("usage_label")}
+      title={t("usage_detail", { model: usage.modelRef, reason: usage.finishReason })}
+    >
+      {items.join(" · ")}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useEffect, useState } from "react";
+import { Button, Text } from "@cloudflare/kumo";
+import { Dialog } from "../ui";
+import type { CommandPromptRef } from "../../types/command";
+
+interface PromptArgumentsDialogProps {
+  prompt: CommandPromptRef | null;
+  running: boolean;
+  onClose: () => void;
+  onRun: (args: Record<string, string>) => void;
+  t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
+}
+
+export function PromptArgumentsDialog({
+  prompt,
+  running,
+  onClose,
+  onRun,
+  t
+}: PromptArgumentsDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setValues({});
+  }, [prompt]);
+
+  const definitions = prompt?.arguments ?? [];
+  const canRun =
+    !running &&
+    definitions.every((definition) => !definition.required || values[definition.name]?.trim());
+
+  const submit = () => {
+    if (!canRun) return;
+    const args = Object.fromEntries(
+      Object.entries(values)
+        .map(([name, value]) => [name, value.trim()] as const)
+        .filter(([, value]) => value)
+    );
+    onRun(args);
+  };
+
+  return (
+    <Dialog
+      open={Boolean(prompt)}
+      onClose={onClose}
+      title={prompt ? t("prompt_dialog_title", { name: prompt.name }) : undefined}
+      footer={
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" size="sm" onClick={onClose}>
+            {t("prompt_dialog_cancel")}
+          </Button>
+          <Button variant="primary" size="sm" onClick={submit} disabled={!canRun}>
+            {running ? t("prompt_dialog_running") : t("prompt_dialog_run")}
+          </Button>
+        </div>
+      }
+    >
+      <form
+        className="space-y-3"
+        onSubmit={(event) => {
+          event.preventDefault();
+          submit();
+        }}
+      >
+        {prompt?.description ? (
+          <Text size="xs" variant="secondary">
+            {prompt.description}
+          </Text>
+        ) : null}
+        {definitions.map((definition) => (
+          <label key={definition.name} className="block space-y-1 text-xs text-kumo-subtle">
+            <span>
+              {definition.name}
+              {definition.required ? " *" : ""}
+            </span>
+            <input
+              className="w-full rounded-lg border border-kumo-line bg-kumo-base/80 p-2 text-sm text-kumo-default"
+              value={values[definition.name] ?? ""}
+              placeholder={definition.description}
+              required={definition.required}
+              disabled={running}
+              onChange={(event) =>
+                setValues((current) => ({ ...current, [definition.name]: event.target.value }))
+              }
+            />
+          </label>
+        ))}
+        {/* Lets Enter submit from any field. */}
+        <button type="submit" className="hidden" aria-hidden="true" tabIndex={-1} />
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { QuotaBadges, getTightestToolBudget } from "./QuotaBadges";
+import type { QuotaBudget } from "../../features/chat/services/apiContracts";
+
+const t = (key: string, vars?: Record<string, string>) =>
+  vars ? `${key}:${Object.values(vars).join("/")}` : key;
+
+const resetAt = "2026-01-01T00:01:00.000Z";
+
+function toolBudget(toolName: string, remaining: number): QuotaBudget {
+  return { kind: "toolCalls", toolName, limit: 10, used: 10 - remaining, remaining, resetAt };
+}
+
+describe("QuotaBadges", () => {
+  it("shows message, token and the tightest tool budget", () => {
+    render(
+      <QuotaBadges
+        quotas={{
+          subject: "user:ada",
+          messages: { kind: "messages", limit: 20, used: 5, remaining: 15, resetAt },
+          tokens: null,
+          toolCalls: [toolBudget("search", 7), toolBudget("fetch", 0)],
+          toolCallsPerHour: 10
+        }}
+        t={t}
+      />
+    );
+
+    expect(screen.getByText("quota_messages:15/20")).toBeTruthy();
+    expect(screen.getByText("quota_tool_calls:fetch/0/10")).toBeTruthy();
+    expect(screen.queryByText(/quota_tokens/)).toBeNull();
+  });
+
+  it("renders nothing without quotas", () => {
+    const { container } = render(<QuotaBadges quotas={null} t={t} />);
+    expect(container.innerHTML).toBe("");
+    expect(getTightestToolBudget([])).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { Badge } from "@cloudflare/kumo";
+import type { QuotaBudget, QuotaSnapshot } from "../../features/chat/services/apiContracts";
+
+interface QuotaBadgesProps {
+  quotas: QuotaSnapshot | null;
+  t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
+}
+
+const compactNumber = new Intl.NumberFormat(undefined, {
+  notation: "compact",
+  maximumFractionDigits: 1
+});
+
+function formatTime(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleTimeString();
+}
+
+/** The tool closest to its hourly limit; the others have at least as much left. */
+export function getTightestToolBudget(budgets: QuotaBudget[]): QuotaBudget | null {
+  return budgets.reduce<QuotaBudget | null>(
+    (tightest, budget) => (!tightest || budget.remaining < tightest.remaining ? budget : tightest),
+    null
+  );
+}
+
+/** Remaining usage budget for the chat header; renders nothing when quotas are off. */
+export function QuotaBadges({ quotas, t }: QuotaBadgesProps) {
+  if (!quotas) return null;
+  const tool = getTightestToolBudget(quotas.toolCalls);
+  const items = [
+    quotas.messages && {
+      budget: quotas.messages,
+      label: t("quota_messages", {
+        remaining: String(quotas.messages.remaining),
+        limit: String(quotas.messages.limit)
+      })
+    },
+    quotas.tokens && {
+      budget: quotas.tokens,
+      label: t("quota_tokens", { remaining: compactNumber.format(quotas.tokens.remaining) })
+    },
+    tool && {
+      budget: tool,
+      label: t("quota_tool_calls", {
+        tool: tool.toolName ?? "",
+        remaining: String(tool.remaining),
+        limit: String(tool.limit)
+      })
+    }
+  ].filter((item): item is { budget: QuotaBudget; label: string } => Boolean(item));
+
+  if (items.length === 0) return null;
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1.5" aria-label={t("quota_label")}>
+      {items.map(({ budget, label }) => (
+        <span
+          key={`${budget.kind}:${budget.toolName ?? ""}`}
+          title={t("quota_resets_at", { time: formatTime(budget.resetAt) })}
+        >
+          <Badge variant={budget.remaining === 0 ? "destructive" : "secondary"}>{label}</Badge>
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -3,5 +3,10 @@ export { ChatActionBar } from "./ChatActionBar";
 export { ChatSendButton } from "./ChatSendButton";
 export { ChatMessageItem } from "./ChatMessageItem";
 export { ChatMessageList } from "./ChatMessageList";
+export { BranchNavigator } from "./BranchNavigator";
+export { ContextSummaryDivider } from "./ContextSummaryDivider";
+export { QuotaBadges } from "./QuotaBadges";
+export { MessageUsageFooter } from "./MessageUsageFooter";
 export { BackToBottom } from "./BackToBottom";
 export { LoadingDots } from "./LoadingDots";
+export { PromptArgumentsDialog } from "./PromptArgumentsDialog";
@@ -1,10 +1,13 @@
-import { useRef, useState } from "react";
+import { useMemo, useRef, useState, type ReactNode } from "react";
 import { Badge, Button, Surface, Text } from "@cloudflare/kumo";
 import type { UIMessage } from "ai";
 import type { CommandSuggestionItem } from "../../types/command";
-import { ChatInputArea, ChatMessageList, BackToBottom, LoadingDots } from "../chat";
+import { ChatInputArea, ChatMessageList, BackToBottom, LoadingDots, QuotaBadges } from "../chat";
 import { useChatAutoScroll } from "../../features/chat/hooks/useChatAutoScroll";
 import { trackChatEvent } from "../../features/chat/services/trackChatEvent";
+import type { ComposerAttachment } from "../../features/chat/services/composerAttachments";
+import type { ContextSummary, QuotaSnapshot } from "../../features/chat/services/apiContracts";
+import type { BranchPosition } from "../../features/chat/services/messageBranches";
 
 interface ProgressEntry {
   id: string;
@@ -22,13 +25,28 @@ const DEFAULT_MARKDOWN_PREFS = {
   streamCursor: true
 } as const;
 
+const EMPTY_MESSAGES: UIMessage[] = [];
+
 interface ChatPaneProps {
   messages: UIMessage[];
+  /** Earlier pages loaded on scroll-up, rendered above `messages`. */
+  olderMessages?: UIMessage[];
+  archivedMessageIds?: ReadonlySet<string>;
+  hasOlderMessages?: boolean;
+  loadingOlderMessages?: boolean;
+  onLoadOlderMessages?: () => void;
+  /** A search result to scroll to once its message is loaded. */
+  focusMessageId?: string | null;
+  onFocusMessageHandled?: (messageId: string) => void;
   isStreaming: boolean;
   isConnected: boolean;
   canEdit: boolean;
   isReadonly: boolean;
+  /** Read-only sessions opened through a `comment` share link may still post messages. */
+  canComment?: boolean;
   activeToolsCount: number;
+  contextSummary?: ContextSummary | null;
+  quotas?: QuotaSnapshot | null;
   mcpConnectedServers: number;
   mcpTotalServers: number;
   awaitingFirstAssistant: boolean;
@@ -37,24 +55,46 @@ interface ChatPaneProps {
   input: string;
   setInput: (value: string) => void;
   commandSuggestions: CommandSuggestionItem[];
+  onPromptSelect?: (suggestion: CommandSuggestionItem) => void;
+  /** Rendered above the composer, e.g. resources queued for the next message. */
+  composerAddons?: ReactNode;
+  attachments?: ComposerAttachment[];
+  onAttachFiles?: (files: File[]) => void;
+  onRemoveAttachment?: (localId: string) => void;
   onSend: () => void;
   onStop: () => void;
   onRetryConnection: () => void;
   onDeleteMessage: (messageId: UIMessage["id"]) => void;
-  onEditMessage: (messageId: UIMessage["id"], content: string) => Promise<void>;
+  onEditMessage: (
+    messageId: UIMessage["id"],
+    content: string,
+    options?: { resend?: boolean }
+  ) => Promise<void>;
   onRegenerateMessage: (messageId: UIMessage["id"]) => Promise<void>;
   onForkMessage: (messageId: UIMessage["id"]) => Promise<void>;
+  branchPositions?: ReadonlyMap<string, BranchPosition>;
+  onSwitchBranch?: (messageId: UIMessage["id"]) => void;
   t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
   getMessageText: (message: UIMessage) => string;
 }
 
 export function ChatPane({
   messages,
+  olderMessages = EMPTY_MESSAGES,
+  archivedMessageIds,
+  hasOlderMessages,
+  loadingOlderMessages,
+  onLoadOlderMessages,
+  focusMessageId,
+  onFocusMessageHandled,
   isStreaming,
   isConnected,
   canEdit,
   isReadonly,
+  canComment = !isReadonly,
   activeToolsCount,
+  contextSummary,
+  quotas = null,
   mcpConnectedServers,
   mcpTotalServers,
   awaitingFirstAssistant,
@@ -63,6 +103,11 @@ export function ChatPane({
   input,
   setInput,
   commandSuggestions,
+  onPromptSelect,
+  composerAddons,
+  attachments,
+  onAttachFiles,
+  onRemoveAttachment,
   onSend,
   onStop,
   onRetryConnection,
@@ -70,6 +115,8 @@ export function ChatPane({
   onEditMessage,
   onRegenerateMessage,
   onForkMessage,
+  branchPositions,
+  onSwitchBranch,
   t,
   getMessageText
 }: ChatPaneProps) {
@@ -77,10 +124,17 @@ export function ChatPane({
   const onAccentTextClass = "text-white hover:text-white";
   const [messageVariant, setMessageVariant] = useState<"bubble" | "docs">("bubble");
   const markdownPrefs = DEFAULT_MARKDOWN_PREFS;
+  // Older pages do not count as new messages for auto-scroll.
   const { mode, unreadCount, showBackToBottom, onScroll, scrollToBottom } = useChatAutoScroll({
     scrollRef,
     messagesLength: messages.length
   });
+  const displayedMessages = useMemo(() => {
+    if (olderMessages.length === 0) return messages;
+    const liveIds = new Set(messages.map((message) => message.id));
+    return [...olderMessages.filter((message) => !liveIds.has(message.id)), ...messages];
+  }, [messages, olderMessages]);
+
   const formatProgressTime = (timestamp: string) => {
     const date = new Date(timestamp);
     if (Number.isNaN(date.getTime())) return "";
@@ -92,12 +146,17 @@ export function ChatPane({
       <div className="px-3 pt-3 sm:px-5">
         <Surface className="app-panel-soft rounded-xl p-3 ring ring-kumo-line">
           <div className="flex flex-wrap items-center justify-between gap-2">
-            <div className="flex items-center gap-2">
+            <div className="flex flex-wrap items-center gap-2">
               <Badge variant={isConnected ? "primary" : "secondary"}>
                 MCP {mcpConnectedServers}/{mcpTotalServers}
               </Badge>
               <Badge variant="secondary">{t("tabs_tools_count", { count: String(activeToolsCount) })}</Badge>
-              {isReadonly && <Badge variant="secondary">{t("readonly_badge")}</Badge>}
+              {isReadonly && (
+                <Badge variant="secondary">
+                  {canComment ? t("share_badge_comment") : t("readonly_badge")}
+                </Badge>
+              )}
+              <QuotaBadges quotas={quotas} t={t} />
             </div>
             <div className="flex items-center gap-2">
               {!isConnected && (
@@ -139,16 +198,26 @@ export function ChatPane({
           className="min-h-0 flex-1 overflow-y-auto overscroll-y-contain pr-1 [overflow-anchor:none]"
         >
           <ChatMessageList
-            messages={messages}
+            messages={displayedMessages}
+            scrollRef={scrollRef}
             isStreaming={isStreaming}
             canEdit={canEdit}
             variant={messageVariant}
             markdownPrefs={markdownPrefs}
             activeToolsCount={activeToolsCount}
+            contextSummary={contextSummary}
+            archivedMessageIds={archivedMessageIds}
+            hasOlderMessages={hasOlderMessages}
+            loadingOlderMessages={loadingOlderMessages}
+            onLoadOlderMessages={onLoadOlderMessages}
+            focusMessageId={focusMessageId}
+            onFocusMessageHandled={onFocusMessageHandled}
             onDeleteMessage={onDeleteMessage}
             onEditMessage={onEditMessage}
             onRegenerateMessage={onRegenerateMessage}
             onForkMessage={onForkMessage}
+            branchPositions={branchPositions}
+            onSwitchBranch={onSwitchBranch}
             getMessageText={getMessageText}
             t={t}
           />
@@ -217,9 +286,14 @@ export function ChatPane({
           onSubmit={onSend}
           onStop={onStop}
           commandSuggestions={commandSuggestions}
+          onPromptSelect={onPromptSelect}
+          attachments={attachments}
+          onAttachFiles={onAttachFiles}
+          onRemoveAttachment={onRemoveAttachment}
           isStreaming={isStreaming}
           isConnected={isConnected}
-          isReadOnly={isReadonly}
+          isReadOnly={!canComment}
+          topAddons={composerAddons}
           placeholder={
             activeToolsCount > 0 ? t("chat_placeholder_tools") : t("chat_placeholder_default")
           }
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { CustomMcpServerForm } from "./CustomMcpServerForm";
+
+const t = (key: string, vars?: Record<string, string>) => {
+  const map: Record<string, string> = {
+    mcp_custom_url: "Server URL",
+    mcp_custom_header_value: "Header value",
+    mcp_custom_header_saved: "Saved",
+    mcp_custom_save: "Save",
+    mcp_custom_test: "Test",
+    mcp_custom_test_ok: `Connected, ${vars?.count ?? ""} tools available`
+  };
+  return map[key] ?? key;
+};
+
+describe("CustomMcpServerForm", () => {
+  it("submits saved headers without their values", async () => {
+    const onSubmit = vi.fn(async () => true);
+    const onCancel = vi.fn();
+    render(
+      <CustomMcpServerForm
+        initial={{
+          name: "docs",
+          url: "https://mcp.example.com/mcp",
+          description: "",
+          transport: "sse",
+          custom: { auth: "headers", headerNames: ["Authorization"] }
+        }}
+        canEdit
+        onSubmit={onSubmit}
+        onTest={vi.fn()}
+        onCancel={onCancel}
+        t={t as never}
+      />
+    );
+
+    expect(screen.getByLabelText("Header value")).toHaveValue("");
+    expect(screen.getByLabelText("Header value")).toHaveAttribute("placeholder", "Saved");
+    fireEvent.click(screen.getByRole("button", { name: "Save" }));
+
+    await waitFor(() => expect(onCancel).toHaveBeenCalled());
+    expect(onSubmit).toHaveBeenCalledWith({
+      name: "docs",
+      url: "https://mcp.example.com/mcp",
+      description: "",
+      transport: "sse",
+      auth: { type: "headers", headers: [{ name: "Authorization" }] }
+    });
+  });
+
+  it("reports test results", async () => {
+    const onTest = vi.fn(async () => ({ success: true, toolCount: 3 }));
+    render(
+      <CustomMcpServerForm
+        canEdit
+        onSubmit={vi.fn()}
+        onTest={onTest}
+        onCancel={vi.fn()}
+        t={t as never}
+      />
+    );
+
+    fireEvent.change(screen.getAllByRole("textbox")[0], { target: { value: "docs" } });
+    fireEvent.change(screen.getByLabelText("Server URL"), {
+      target: { value: "https://mcp.example.com/mcp" }
+    });
+    fireEvent.click(screen.getByRole("button", { name: "Test" }));
+
+    expect(await screen.findByText("Connected, 3 tools available")).toBeInTheDocument();
+  });
+});
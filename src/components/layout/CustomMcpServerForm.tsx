@@ -0,0 +1,284 @@
+import { Button, Surface, Text } from "@cloudflare/kumo";
+import { PlusIcon, TrashIcon } from "@phosphor-icons/react";
+import { useState } from "react";
+import type {
+  CustomMcpServerInput,
+  McpTransportType,
+  TestCustomServerResult
+} from "../../features/chat/services/apiContracts";
+
+type AuthType = CustomMcpServerInput["auth"]["type"];
+
+export interface CustomMcpServerFormInitial {
+  name: string;
+  url: string;
+  description: string;
+  transport?: McpTransportType;
+  custom?: {
+    auth: AuthType;
+    headerNames: string[];
+  };
+}
+
+interface HeaderRow {
+  name: string;
+  value: string;
+  /** A value is already stored server-side; blank keeps it. */
+  saved: boolean;
+}
+
+interface CustomMcpServerFormProps {
+  initial?: CustomMcpServerFormInitial;
+  canEdit: boolean;
+  onSubmit: (input: CustomMcpServerInput) => Promise<boolean>;
+  onTest: (input: CustomMcpServerInput) => Promise<TestCustomServerResult>;
+  onCancel: () => void;
+  t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
+}
+
+const inputClassName =
+  "w-full rounded-lg border border-kumo-line bg-kumo-base/80 p-2 text-sm disabled:opacity-60";
+
+export function CustomMcpServerForm({
+  initial,
+  canEdit,
+  onSubmit,
+  onTest,
+  onCancel,
+  t
+}: CustomMcpServerFormProps) {
+  const editing = Boolean(initial);
+  const [name, setName] = useState(initial?.name ?? "");
+  const [url, setUrl] = useState(initial?.url ?? "");
+  const [description, setDescription] = useState(initial?.description ?? "");
+  const [transport, setTransport] = useState<McpTransportType>(
+    initial?.transport ?? "streamable-http"
+  );
+  const [authType, setAuthType] = useState<AuthType>(initial?.custom?.auth ?? "none");
+  const [headers, setHeaders] = useState<HeaderRow[]>(() => {
+    const saved = initial?.custom?.headerNames ?? [];
+    return saved.length > 0
+      ? saved.map((headerName) => ({ name: headerName, value: "", saved: true }))
+      : [{ name: "Authorization", value: "", saved: false }];
+  });
+  const [busy, setBusy] = useState<"saving" | "testing" | null>(null);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const disabled = !canEdit || busy !== null;
+  const canSubmit = name.trim().length > 0 && url.trim().length > 0;
+
+  const buildInput = (): CustomMcpServerInput => ({
+    name: name.trim(),
+    url: url.trim(),
+    description: description.trim(),
+    transport,
+    auth:
+      authType === "headers"
+        ? {
+            type: "headers",
+            headers: headers
+              .filter((header) => header.name.trim())
+              .map((header) => ({
+                name: header.name.trim(),
+                ...(header.value ? { value: header.value } : {})
+              }))
+          }
+        : { type: authType }
+  });
+
+  const updateHeader = (index: number, patch: Partial<HeaderRow>) =>
+    setHeaders((current) =>
+      current.map((header, itemIndex) => (itemIndex === index ? { ...header, ...patch } : header))
+    );
+
+  const handleTest = async () => {
+    setBusy("testing");
+    setTestResult(null);
+    try {
+      const result = await onTest(buildInput());
+      if (!result.success) {
+        setTestResult({
+          ok: false,
+          message: t("mcp_custom_test_failed", { reason: result.error || "Unknown error" })
+        });
+      } else if (result.requiresAuth) {
+        setTestResult({ ok: true, message: t("mcp_custom_test_requires_auth") });
+      } else {
+        setTestResult({
+          ok: true,
+          message: t("mcp_custom_test_ok", { count: String(result.toolCount ?? 0) })
+        });
+      }
+    } catch (error) {
+      setTestResult({
+        ok: false,
+        message: t("mcp_custom_test_failed", {
+          reason: error instanceof Error ? error.message : "Unknown error"
+        })
+      });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Surface className="app-panel-soft rounded-2xl p-4 ring ring-kumo-line">
+      <form
+        className="space-y-3"
+        onSubmit={async (event) => {
+          event.preventDefault();
+          if (disabled || !canSubmit) return;
+          setBusy("saving");
+          try {
+            const saved = await onSubmit(buildInput());
+            if (saved) onCancel();
+          } finally {
+            setBusy(null);
+          }
+        }}
+      >
+        <Text size="sm" bold>
+          {editing ? t("mcp_custom_edit_title", { name }) : t("mcp_custom_add_title")}
+        </Text>
+
+        <div className="grid gap-2 sm:grid-cols-2">
+          <label className="block space-y-1 text-xs text-kumo-subtle">
+            <span>{t("mcp_custom_name")}</span>
+            <input
+              className={inputClassName}
+              value={name}
+              maxLength={40}
+              disabled={disabled || editing}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </label>
+          <label className="block space-y-1 text-xs text-kumo-subtle">
+            <span>{t("mcp_custom_transport")}</span>
+            <select
+              className={inputClassName}
+              value={transport}
+              disabled={disabled}
+              onChange={(event) => setTransport(event.target.value as McpTransportType)}
+            >
+              <option value="streamable-http">Streamable HTTP</option>
+              <option value="sse">SSE</option>
+            </select>
+          </label>
+        </div>
+
+        <label className="block space-y-1 text-xs text-kumo-subtle">
+          <span>{t("mcp_custom_url")}</span>
+          <input
+            type="url"
+            className={inputClassName}
+            value={url}
+            placeholder="https://example.com/mcp"
+            disabled={disabled}
+            onChange={(event) => setUrl(event.target.value)}
+          />
+        </label>
+
+        <label className="block space-y-1 text-xs text-kumo-subtle">
+          <span>{t("mcp_custom_description")}</span>
+          <input
+            className={inputClassName}
+            value={description}
+            maxLength={200}
+            disabled={disabled}
+            onChange={(event) => setDescription(event.target.value)}
+          />
+        </label>
+
+        <label className="block space-y-1 text-xs text-kumo-subtle">
+          <span>{t("mcp_custom_auth")}</span>
+          <select
+            className={inputClassName}
+            value={authType}
+            disabled={disabled}
+            onChange={(event) => setAuthType(event.target.value as AuthType)}
+          >
+            <option value="none">{t("mcp_custom_auth_none")}</option>
+            <option value="headers">{t("mcp_custom_auth_headers")}</option>
+            <option value="oauth">{t("mcp_custom_auth_oauth")}</option>
+          </select>
+        </label>
+
+        {authType === "headers" ? (
+          <div className="space-y-2">
+            {headers.map((header, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  className={inputClassName}
+                  value={header.name}
+                  placeholder={t("mcp_custom_header_name")}
+                  aria-label={t("mcp_custom_header_name")}
+                  disabled={disabled || header.saved}
+                  onChange={(event) => updateHeader(index, { name: event.target.value })}
+                />
+                <input
+                  type="password"
+                  autoComplete="off"
+                  className={inputClassName}
+                  value={header.value}
+                  placeholder={
+                    header.saved ? t("mcp_custom_header_saved") : t("mcp_custom_header_value")
+                  }
+                  aria-label={t("mcp_custom_header_value")}
+                  disabled={disabled}
+                  onChange={(event) => updateHeader(index, { value: event.target.value })}
+                />
+                <button
+                  type="button"
+                  className="rounded-md p-1.5 text-kumo-subtle hover:bg-kumo-control disabled:opacity-60"
+                  aria-label={t("mcp_custom_header_remove")}
+                  disabled={disabled || headers.length <= 1}
+                  onClick={() =>
+                    setHeaders((current) => current.filter((_, itemIndex) => itemIndex !== index))
+                  }
+                >
+                  <TrashIcon size={14} />
+                </button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              disabled={disabled || headers.length >= 10}
+              onClick={() =>
+                setHeaders((current) => [...current, { name: "", value: "", saved: false }])
+              }
+            >
+              <PlusIcon size={14} />
+              {t("mcp_custom_header_add")}
+            </Button>
+          </div>
+        ) : null}
+
+        {testResult ? (
+          <div className={testResult.ok ? "text-kumo-subtle" : "app-text-danger"} role="status">
+            <Text size="xs">{testResult.message}</Text>
+          </div>
+        ) : null}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button type="button" variant="secondary" size="sm" onClick={onCancel}>
+            {t("mcp_custom_cancel")}
+          </Button>
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            disabled={disabled || !canSubmit}
+            onClick={() => void handleTest()}
+          >
+            {busy === "testing" ? t("mcp_custom_testing") : t("mcp_custom_test")}
+          </Button>
+          <Button type="submit" variant="primary" size="sm" disabled={disabled || !canSubmit}>
+            {busy === "saving" ? t("mcp_custom_saving") : t("mcp_custom_save")}
+          </Button>
+        </div>
+      </form>
+    </Surface>
+  );
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { LoginScreen } from "./LoginScreen";
+
+const t = (key: string, vars?: Record<string, string>) =>
+  vars?.reason ? `${key}:${vars.reason}` : key;
+
+describe("LoginScreen", () => {
+  it("signs in with a username and password", async () => {
+    const onSignIn = vi.fn(async () => {});
+    render(<LoginScreen onSignIn={onSignIn} t={t} />);
+
+    const submit = screen.getByRole("button", { name: "auth_submit" });
+    expect((submit as HTMLButtonElement).disabled).toBe(true);
+
+    fireEvent.change(screen.getByLabelText("auth_username"), { target: { value: " ada " } });
+    fireEvent.change(screen.getByLabelText("auth_password"), { target: { value: "secret" } });
+    fireEvent.click(submit);
+
+    await waitFor(() =>
+      expect(onSignIn).toHaveBeenCalledWith({ username: "ada", password: "secret" })
+    );
+  });
+
+  it("switches to API keys and reports failures", async () => {
+    const onSignIn = vi.fn(async () => {
+      throw new Error("Invalid credentials");
+    });
+    render(<LoginScreen onSignIn={onSignIn} t={t} />);
+
+    fireEvent.click(screen.getByRole("button", { name: "auth_mode_api_key" }));
+    fireEvent.change(screen.getByLabelText("auth_api_key"), { target: { value: "key-a" } });
+    fireEvent.click(screen.getByRole("button", { name: "auth_submit" }));
+
+    expect((await screen.findByRole("alert")).textContent).toBe("auth_failed:Invalid credentials");
+    expect(onSignIn).toHaveBeenCalledWith({ apiKey: "key-a" });
+  });
+});
@@ -0,0 +1,135 @@
+import { Button, Surface, Text } from "@cloudflare/kumo";
+import { PlugsConnectedIcon } from "@phosphor-icons/react";
+import { useState } from "react";
+import type { LoginCredentials } from "../../features/chat/services/apiContracts";
+
+type LoginMode = "password" | "apiKey";
+
+interface LoginScreenProps {
+  onSignIn: (credentials: LoginCredentials) => Promise<void>;
+  t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
+}
+
+const inputClassName =
+  "w-full rounded-lg border border-kumo-line bg-kumo-base/80 p-2 text-sm disabled:opacity-60";
+
+export function LoginScreen({ onSignIn, t }: LoginScreenProps) {
+  const [mode, setMode] = useState<LoginMode>("password");
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [apiKey, setApiKey] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canSubmit =
+    mode === "password"
+      ? username.trim().length > 0 && password.length > 0
+      : apiKey.trim().length > 0;
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-kumo-base px-4">
+      <Surface className="app-panel-soft w-full max-w-sm rounded-2xl p-6 ring ring-kumo-line">
+        <form
+          className="space-y-4"
+          onSubmit={async (event) => {
+            event.preventDefault();
+            if (busy || !canSubmit) return;
+            setBusy(true);
+            setError(null);
+            try {
+              await onSignIn(
+                mode === "password"
+                  ? { username: username.trim(), password }
+                  : { apiKey: apiKey.trim() }
+              );
+            } catch (signInError) {
+              setError(
+                t("auth_failed", {
+                  reason: signInError instanceof Error ? signInError.message : "Unknown error"
+                })
+              );
+            } finally {
+              setBusy(false);
+            }
+          }}
+        >
+          <div className="flex items-center gap-2">
+            <PlugsConnectedIcon size={22} className="text-kumo-accent" weight="bold" />
+            <Text size="lg" bold>
+              {t("auth_title")}
+            </Text>
+          </div>
+          <Text size="sm" variant="secondary">
+            {t("auth_subtitle")}
+          </Text>
+
+          <div className="flex gap-2" role="group" aria-label={t("auth_mode_label")}>
+            {(["password", "apiKey"] as const).map((item) => (
+              <button
+                key={item}
+                type="button"
+                aria-pressed={mode === item}
+                className={`flex-1 rounded-lg border px-2.5 py-1.5 text-xs font-medium transition-colors ${
+                  mode === item
+                    ? "border-kumo-accent text-kumo-default"
+                    : "border-kumo-line text-kumo-subtle hover:bg-kumo-control"
+                }`}
+                onClick={() => setMode(item)}
+              >
+                {item === "password" ? t("auth_mode_password") : t("auth_mode_api_key")}
+              </button>
+            ))}
+          </div>
+
+          {mode === "password" ? (
+            <>
+              <label className="block space-y-1 text-xs text-kumo-subtle">
+                <span>{t("auth_username")}</span>
+                <input
+                  className={inputClassName}
+                  value={username}
+                  autoComplete="username"
+                  disabled={busy}
+                  onChange={(event) => setUsername(event.target.value)}
+                />
+              </label>
+              <label className="block space-y-1 text-xs text-kumo-subtle">
+                <span>{t("auth_password")}</span>
+                <input
+                  type="password"
+                  className={inputClassName}
+                  value={password}
+                  autoComplete="current-password"
+                  disabled={busy}
+                  onChange={(event) => setPassword(event.target.value)}
+                />
+              </label>
+            </>
+          ) : (
+            <label className="block space-y-1 text-xs text-kumo-subtle">
+              <span>{t("auth_api_key")}</span>
+              <input
+                type="password"
+                className={inputClassName}
+                value={apiKey}
+                autoComplete="off"
+                disabled={busy}
+                onChange={(event) => setApiKey(event.target.value)}
+              />
+            </label>
+          )}
+
+          {error ? (
+            <div className="app-text-danger" role="alert">
+              <Text size="xs">{error}</Text>
+            </div>
+          ) : null}
+
+          <Button type="submit" variant="primary" className="w-full" disabled={busy || !canSubmit}>
+            {busy ? t("auth_submitting") : t("auth_submit")}
+          </Button>
+        </form>
+      </Surface>
+    </div>
+  );
+}
@@ -13,7 +13,9 @@ const t = (key: string, vars?: Record<string, string>) => {
     mcp_status_inactive: "Inactive",
     mcp_toggle_server: `Toggle server ${vars?.name ?? ""}`,
     mcp_server: "Server",
-    mcp_raw_payload: "Raw payload"
+    mcp_raw_payload: "Raw payload",
+    mcp_oauth_required: "Authorization required",
+    mcp_oauth_authorize: "Authorize"
   };
   return map[key] ?? key;
 };
@@ -39,6 +41,10 @@ describe("McpPane", () => {
         ]}
         togglingServer={null}
         onToggleServer={onToggleServer}
+        onAuthorizeServer={vi.fn()}
+        onSaveCustomServer={vi.fn()}
+        onTestCustomServer={vi.fn()}
+        onRemoveCustomServer={vi.fn()}
         canEdit={false}
         mcpTools={[]}
         t={t as never}
@@ -50,5 +56,41 @@ describe("McpPane", () => {
     fireEvent.click(switchEl);
     expect(onToggleServer).not.toHaveBeenCalled();
   });
-});
 
+  it("offers authorization for servers waiting on OAuth", () => {
+    const onAuthorizeServer = vi.fn();
+    render(
+      <McpPane
+        isLoading={false}
+        preconfiguredServerList={[
+          [
+            "docs",
+            {
+              config: {
+                name: "docs",
+                url: "https://mcp.example.com/mcp",
+                description: "docs",
+                custom: { auth: "oauth", headerNames: [] }
+              },
+              connected: false,
+              authUrl: "https://auth.example.com/authorize"
+            }
+          ]
+        ]}
+        togglingServer={null}
+        onToggleServer={vi.fn()}
+        onAuthorizeServer={onAuthorizeServer}
+        onSaveCustomServer={vi.fn()}
+        onTestCustomServer={vi.fn()}
+        onRemoveCustomServer={vi.fn()}
+        canEdit
+        mcpTools={[]}
+        t={t as never}
+      />
+    );
+
+    expect(screen.getByText("Authorization required")).toBeInTheDocument();
+    fireEvent.click(screen.getByRole("button", { name: "Authorize" }));
+    expect(onAuthorizeServer).toHaveBeenCalledWith("docs");
+  });
+});
@@ -1,22 +1,30 @@
-import { Badge, Surface, Switch, Text } from "@cloudflare/kumo";
+import { Badge, Button, Surface, Switch, Text } from "@cloudflare/kumo";
 import {
   CheckCircleIcon,
   InfoIcon,
+  PencilSimpleIcon,
   PlugIcon,
+  PlusIcon,
   SpinnerIcon,
+  TrashIcon,
   WarningIcon,
   WrenchIcon
 } from "@phosphor-icons/react";
+import { useState } from "react";
 import { McpItemCard } from "../McpItemCard";
+import { confirm } from "../modal";
+import { CustomMcpServerForm, type CustomMcpServerFormInitial } from "./CustomMcpServerForm";
+import type {
+  CustomMcpServerInput,
+  TestCustomServerResult
+} from "../../features/chat/services/apiContracts";
 
 interface PreconfiguredServer {
-  config: {
-    name: string;
-    url: string;
-    description: string;
-  };
+  config: CustomMcpServerFormInitial;
   connected: boolean;
   error?: string;
+  authUrl?: string;
+  authExpired?: boolean;
 }
 
 interface McpPaneProps {
@@ -24,6 +32,10 @@ interface McpPaneProps {
   preconfiguredServerList: Array<[string, PreconfiguredServer]>;
   togglingServer: string | null;
   onToggleServer: (name: string) => void;
+  onAuthorizeServer: (name: string) => void;
+  onSaveCustomServer: (input: CustomMcpServerInput) => Promise<boolean>;
+  onTestCustomServer: (input: CustomMcpServerInput) => Promise<TestCustomServerResult>;
+  onRemoveCustomServer: (name: string) => void;
   canEdit: boolean;
   mcpTools: Array<{ name: string; serverId?: string; [key: string]: unknown }>;
   t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
@@ -34,10 +46,20 @@ export function McpPane({
   preconfiguredServerList,
   togglingServer,
   onToggleServer,
+  onAuthorizeServer,
+  onSaveCustomServer,
+  onTestCustomServer,
+  onRemoveCustomServer,
   canEdit,
   mcpTools,
   t
 }: McpPaneProps) {
+  // null: form closed, "": adding a new server, otherwise the name being edited.
+  const [formTarget, setFormTarget] = useState<string | null>(null);
+  const editingServer = formTarget
+    ? preconfiguredServerList.find(([name]) => name === formTarget)?.[1]
+    : undefined;
+
   return (
     <section className="h-full overflow-y-auto px-3 py-5 sm:px-5">
       <div className="mx-auto max-w-4xl space-y-8">
@@ -66,6 +88,32 @@ export function McpPane({
           </div>
         )}
 
+        {!isLoading && formTarget === null && (
+          <div className="flex justify-end">
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={!canEdit}
+              onClick={() => setFormTarget("")}
+            >
+              <PlusIcon size={14} />
+              {t("mcp_custom_add")}
+            </Button>
+          </div>
+        )}
+
+        {formTarget !== null && (
+          <CustomMcpServerForm
+            key={formTarget || "new"}
+            initial={editingServer?.config}
+            canEdit={canEdit}
+            onSubmit={onSaveCustomServer}
+            onTest={onTestCustomServer}
+            onCancel={() => setFormTarget(null)}
+            t={t}
+          />
+        )}
+
         {!isLoading && preconfiguredServerList.length > 0 && (
           <section>
             <div className="mb-3 flex items-center gap-2">
@@ -91,6 +139,14 @@ export function McpPane({
                         ) : (
                           <Badge variant="secondary">{t("mcp_status_inactive")}</Badge>
                         )}
+                        {server.config.custom ? (
+                          <Badge variant="secondary">{t("mcp_custom_badge")}</Badge>
+                        ) : null}
+                        {server.authExpired ? (
+                          <Badge variant="secondary">{t("mcp_oauth_expired")}</Badge>
+                        ) : server.authUrl ? (
+                          <Badge variant="secondary">{t("mcp_oauth_required")}</Badge>
+                        ) : null}
                       </div>
                       <span className="mt-1 block">
                         <Text size="xs" variant="secondary">
@@ -110,6 +166,47 @@ export function McpPane({
                       )}
                     </div>
                     <div className="flex items-center gap-2">
+                      {server.authUrl || server.authExpired ? (
+                        <Button
+                          variant="primary"
+                          size="sm"
+                          disabled={!canEdit || togglingServer === name}
+                          onClick={() => onAuthorizeServer(name)}
+                        >
+                          {server.authExpired ? t("mcp_oauth_reauthorize") : t("mcp_oauth_authorize")}
+                        </Button>
+                      ) : null}
+                      {server.config.custom ? (
+                        <>
+                          <button
+                            type="button"
+                            className="rounded-md p-1.5 text-kumo-subtle hover:bg-kumo-control disabled:opacity-60"
+                            aria-label={t("mcp_custom_edit", { name })}
+                            disabled={!canEdit}
+                            onClick={() => setFormTarget(name)}
+                          >
+                            <PencilSimpleIcon size={14} />
+                          </button>
+                          <button
+                            type="button"
+                            className="rounded-md p-1.5 text-kumo-subtle hover:bg-kumo-control disabled:opacity-60"
+                            aria-label={t("mcp_custom_remove", { name })}
+                            disabled={!canEdit}
+                            onClick={async () => {
+                              const confirmed = await confirm({
+                                title: t("mcp_custom_remove_confirm_title"),
+                                content: t("mcp_custom_remove_confirm_message", { name }),
+                                okText: t("mcp_custom_remove_confirm_ok"),
+                                cancelText: t("mcp_custom_cancel"),
+                                danger: true
+                              });
+                              if (confirmed) onRemoveCustomServer(name);
+                            }}
+                          >
+                            <TrashIcon size={14} />
+                          </button>
+                        </>
+                      ) : null}
                       {togglingServer === name ? (
                         <SpinnerIcon size={20} className="animate-spin text-kumo-accent" />
                       ) : (
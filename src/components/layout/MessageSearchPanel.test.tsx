@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { MessageSearchPanel, splitSnippet } from "./MessageSearchPanel";
+import type { MessageSearchResult } from "../../features/chat/services/apiContracts";
+
+const t = (key: string, vars?: Record<string, string>) =>
+  vars ? `${key}:${Object.values(vars).join(",")}` : key;
+
+const result: MessageSearchResult = {
+  sessionId: "s2",
+  sessionTitle: "Release planning",
+  messageId: "m7",
+  role: "assistant",
+  createdAt: "2026-01-02T09:00:00.000Z",
+  snippet: "…the deploy plan moves",
+  highlights: [
+    [5, 11],
+    [12, 16]
+  ],
+  rank: -2
+};
+
+describe("MessageSearchPanel", () => {
+  it("splits snippets into highlighted segments", () => {
+    expect(splitSnippet("abc def", [[4, 7]])).toEqual([
+      { text: "abc ", match: false },
+      { text: "def", match: true }
+    ]);
+    expect(splitSnippet("abc", [[2, 9]])).toEqual([{ text: "abc", match: false }]);
+  });
+
+  it("searches on submit, highlights matches and opens a result", async () => {
+    const onSearch = vi.fn().mockResolvedValue({
+      results: [result],
+      searchedSessions: 3,
+      failedSessionIds: [],
+      truncated: false
+    });
+    const onOpenResult = vi.fn();
+    render(
+      <MessageSearchPanel
+        onSearch={onSearch}
+        onOpenResult={onOpenResult}
+        formatTime={() => "9:00"}
+        t={t as never}
+      />
+    );
+
+    const input = screen.getByLabelText("search_placeholder");
+    fireEvent.change(input, { target: { value: "  deploy plan " } });
+    expect(onSearch).not.toHaveBeenCalled();
+    fireEvent.submit(input);
+
+    expect(await screen.findByText("Release planning")).toBeTruthy();
+    expect(onSearch).toHaveBeenCalledWith("deploy plan");
+    expect(Array.from(document.querySelectorAll("mark")).map((mark) => mark.textContent)).toEqual([
+      "deploy",
+      "plan"
+    ]);
+    fireEvent.click(screen.getByText("Release planning"));
+    expect(onOpenResult).toHaveBeenCalledWith(result);
+  });
+
+  it("reports empty and failed searches", async () => {
+    const onSearch = vi
+      .fn()
+      .mockResolvedValueOnce({
+        results: [],
+        searchedSessions: 200,
+        failedSessionIds: [],
+        truncated: true
+      })
+      .mockRejectedValueOnce(new Error("offline"));
+    render(
+      <MessageSearchPanel
+        onSearch={onSearch}
+        onOpenResult={vi.fn()}
+        formatTime={() => ""}
+        t={t as never}
+      />
+    );
+
+    const input = screen.getByLabelText("search_placeholder");
+    fireEvent.change(input, { target: { value: "nothing" } });
+    fireEvent.submit(input);
+    expect(await screen.findByText("search_no_results:nothing")).toBeTruthy();
+    expect(screen.getByText("search_partial:200")).toBeTruthy();
+
+    fireEvent.submit(input);
+    expect(await screen.findByText("search_failed:offline")).toBeTruthy();
+  });
+});
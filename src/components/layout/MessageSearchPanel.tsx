@@ -0,0 +1,163 @@
+import { Text } from "@cloudflare/kumo";
+import { MagnifyingGlassIcon, SpinnerIcon, XIcon } from "@phosphor-icons/react";
+import { useRef, useState } from "react";
+import type {
+  MessageSearchResponse,
+  MessageSearchResult
+} from "../../features/chat/services/apiContracts";
+
+interface MessageSearchPanelProps {
+  onSearch: (query: string) => Promise<MessageSearchResponse>;
+  onOpenResult: (result: MessageSearchResult) => void;
+  formatTime: (timestamp: string) => string;
+  t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
+}
+
+type SearchState =
+  | { status: "idle" }
+  | { status: "loading"; query: string }
+  | { status: "error"; query: string; reason: string }
+  | { status: "done"; query: string; response: MessageSearchResponse };
+
+/** Split a snippet into plain and highlighted segments; out-of-range offsets are ignored. */
+export function splitSnippet(
+  snippet: string,
+  highlights: Array<[number, number]>
+): Array<{ text: string; match: boolean }> {
+  const segments: Array<{ text: string; match: boolean }> = [];
+  let cursor = 0;
+  for (const [start, end] of highlights) {
+    if (start < cursor || end <= start || end > snippet.length) continue;
+    if (start > cursor) segments.push({ text: snippet.slice(cursor, start), match: false });
+    segments.push({ text: snippet.slice(start, end), match: true });
+    cursor = end;
+  }
+  if (cursor < snippet.length) segments.push({ text: snippet.slice(cursor), match: false });
+  return segments;
+}
+
+/** Searches every session on submit rather than per keystroke: each search wakes them all. */
+export function MessageSearchPanel({
+  onSearch,
+  onOpenResult,
+  formatTime,
+  t
+}: MessageSearchPanelProps) {
+  const [query, setQuery] = useState("");
+  const [state, setState] = useState<SearchState>({ status: "idle" });
+  const requestRef = useRef(0);
+
+  const runSearch = async (value: string) => {
+    const trimmed = value.trim();
+    const requestId = ++requestRef.current;
+    if (!trimmed) {
+      setState({ status: "idle" });
+      return;
+    }
+    setState({ status: "loading", query: trimmed });
+    try {
+      const response = await onSearch(trimmed);
+      if (requestRef.current === requestId) setState({ status: "done", query: trimmed, response });
+    } catch (error) {
+      if (requestRef.current !== requestId) return;
+      setState({
+        status: "error",
+        query: trimmed,
+        reason: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  };
+
+  const clear = () => {
+    requestRef.current += 1;
+    setQuery("");
+    setState({ status: "idle" });
+  };
+
+  return (
+    <div className="space-y-2">
+      <form
+        role="search"
+        className="flex items-center gap-1.5 rounded-lg border border-kumo-line bg-kumo-base/80 px-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void runSearch(query);
+        }}
+      >
+        <MagnifyingGlassIcon size={14} className="shrink-0 text-kumo-subtle" />
+        <input
+          type="search"
+          value={query}
+          maxLength={200}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Escape") clear();
+          }}
+          placeholder={t("search_placeholder")}
+          aria-label={t("search_placeholder")}
+          className="min-w-0 flex-1 bg-transparent py-1.5 text-sm outline-none"
+        />
+        {state.status === "loading" ? (
+          <SpinnerIcon size={14} className="shrink-0 animate-spin text-kumo-subtle" />
+        ) : query ? (
+          <button
+            type="button"
+            onClick={clear}
+            className="rounded p-0.5 text-kumo-subtle hover:text-kumo-default"
+            aria-label={t("search_clear")}
+          >
+            <XIcon size={12} />
+          </button>
+        ) : null}
+      </form>
+
+      {state.status === "error" && (
+        <Text size="xs" variant="secondary">
+          {t("search_failed", { reason: state.reason })}
+        </Text>
+      )}
+      {state.status === "done" && (
+        <div className="max-h-72 space-y-1 overflow-y-auto">
+          {state.response.results.length === 0 ? (
+            <Text size="xs" variant="secondary">
+              {t("search_no_results", { query: state.query })}
+            </Text>
+          ) : (
+            state.response.results.map((result) => (
+              <button
+                key={`${result.sessionId}:${result.messageId}`}
+                type="button"
+                onClick={() => onOpenResult(result)}
+                className="block w-full rounded-lg px-2 py-1.5 text-left transition-colors hover:bg-kumo-control"
+              >
+                <span className="flex items-center justify-between gap-2 text-[11px] text-kumo-subtle">
+                  <span className="truncate">{result.sessionTitle}</span>
+                  <span className="shrink-0">{formatTime(result.createdAt)}</span>
+                </span>
+                <span className="line-clamp-3 text-xs">
+                  {splitSnippet(result.snippet, result.highlights).map((segment, index) =>
+                    segment.match ? (
+                      <mark
+                        key={index}
+                        className="rounded bg-kumo-accent/20 px-0.5 text-kumo-default"
+                      >
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    )
+                  )}
+                </span>
+              </button>
+            ))
+          )}
+          {(state.response.truncated || state.response.failedSessionIds.length > 0) && (
+            <Text size="xs" variant="secondary">
+              {t("search_partial", { count: String(state.response.searchedSessions) })}
+            </Text>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { ResourcesPanel, getResourceKey } from "./ResourcesPanel";
+
+const t = (key: string, vars?: Record<string, string>) => {
+  const map: Record<string, string> = {
+    resources_empty: "No resources",
+    resources_preview: "Preview",
+    resources_hide_preview: "Hide preview",
+    resources_attach: "Attach",
+    resources_attached: "Attached",
+    resources_truncated: "Content truncated",
+    resources_preview_failed: `Failed: ${vars?.reason ?? ""}`
+  };
+  return map[key] ?? key;
+};
+
+const resources = [
+  { uri: "docs://guide", name: "Guide", serverId: "srv-1", serverName: "docs" },
+  { uri: "docs://faq", name: "FAQ", serverId: "srv-1", serverName: "docs" },
+  { uri: "file:///notes.md", name: "Notes", serverId: "srv-2" }
+];
+
+describe("ResourcesPanel", () => {
+  it("groups resources by server and previews content", async () => {
+    const onPreview = vi.fn(async () => ({
+      success: true,
+      contents: [{ uri: "docs://guide", text: "# Guide body", truncated: true }]
+    }));
+    render(
+      <ResourcesPanel
+        resources={resources}
+        attachedKeys={new Set()}
+        canAttach={true}
+        onPreview={onPreview}
+        onAttach={vi.fn(async () => undefined)}
+        t={t}
+      />
+    );
+
+    expect(screen.getByText("docs")).toBeTruthy();
+    expect(screen.getByText("srv-2")).toBeTruthy();
+
+    fireEvent.click(screen.getAllByRole("button", { name: "Preview" })[0]);
+
+    expect(await screen.findByText("# Guide body")).toBeTruthy();
+    expect(screen.getByText("Content truncated")).toBeTruthy();
+    expect(onPreview).toHaveBeenCalledWith(resources[0]);
+  });
+
+  it("disables attach for resources already queued", () => {
+    const onAttach = vi.fn(async () => undefined);
+    render(
+      <ResourcesPanel
+        resources={resources}
+        attachedKeys={new Set([getResourceKey(resources[0])])}
+        canAttach={true}
+        onPreview={vi.fn()}
+        onAttach={onAttach}
+        t={t}
+      />
+    );
+
+    expect((screen.getByRole("button", { name: "Attached" }) as HTMLButtonElement).disabled).toBe(
+      true
+    );
+    fireEvent.click(screen.getAllByRole("button", { name: "Attach" })[0]);
+    expect(onAttach).toHaveBeenCalledWith(resources[1]);
+  });
+
+  it("shows an empty state", () => {
+    render(
+      <ResourcesPanel
+        resources={[]}
+        attachedKeys={new Set()}
+        canAttach={true}
+        onPreview={vi.fn()}
+        onAttach={vi.fn()}
+        t={t}
+      />
+    );
+    expect(screen.getByText("No resources")).toBeTruthy();
+  });
+});
@@ -0,0 +1,186 @@
+import { Badge, Button, Text } from "@cloudflare/kumo";
+import { FileTextIcon, FolderOpenIcon, PaperclipIcon } from "@phosphor-icons/react";
+import { useMemo, useState } from "react";
+import type {
+  McpResourceSummary,
+  ReadResourceResult
+} from "../../features/chat/services/apiContracts";
+
+interface ResourcesPanelProps {
+  resources: McpResourceSummary[];
+  /** `serverId:uri` keys of resources already queued for the next message. */
+  attachedKeys: Set<string>;
+  canAttach: boolean;
+  onPreview: (resource: McpResourceSummary) => Promise<ReadResourceResult>;
+  onAttach: (resource: McpResourceSummary) => Promise<void>;
+  t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
+}
+
+type PreviewState =
+  | { status: "loading" }
+  | { status: "ready"; result: ReadResourceResult }
+  | { status: "error"; message: string };
+
+export function getResourceKey(resource: Pick<McpResourceSummary, "serverId" | "uri">): string {
+  return `${resource.serverId}:${resource.uri}`;
+}
+
+export function ResourcesPanel({
+  resources,
+  attachedKeys,
+  canAttach,
+  onPreview,
+  onAttach,
+  t
+}: ResourcesPanelProps) {
+  const [previews, setPreviews] = useState<Record<string, PreviewState>>({});
+  const [openKey, setOpenKey] = useState<string | null>(null);
+  const [attachingKey, setAttachingKey] = useState<string | null>(null);
+
+  const groups = useMemo(() => {
+    const byServer = new Map<string, McpResourceSummary[]>();
+    for (const resource of resources) {
+      const label = resource.serverName || resource.serverId;
+      byServer.set(label, [...(byServer.get(label) ?? []), resource]);
+    }
+    return Array.from(byServer.entries());
+  }, [resources]);
+
+  const togglePreview = async (resource: McpResourceSummary) => {
+    const key = getResourceKey(resource);
+    if (openKey === key) {
+      setOpenKey(null);
+      return;
+    }
+    setOpenKey(key);
+    if (previews[key]?.status === "ready") return;
+    setPreviews((current) => ({ ...current, [key]: { status: "loading" } }));
+    try {
+      const result = await onPreview(resource);
+      setPreviews((current) => ({
+        ...current,
+        [key]: result.success
+          ? { status: "ready", result }
+          : { status: "error", message: result.error || "Unknown error" }
+      }));
+    } catch (error) {
+      setPreviews((current) => ({
+        ...current,
+        [key]: {
+          status: "error",
+          message: error instanceof Error ? error.message : "Unknown error"
+        }
+      }));
+    }
+  };
+
+  if (resources.length === 0) {
+    return (
+      <div className="py-8 text-center text-kumo-subtle">
+        <FolderOpenIcon size={32} className="mx-auto mb-2 opacity-50" />
+        <Text size="xs">{t("resources_empty")}</Text>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {groups.map(([serverLabel, items]) => (
+        <div key={serverLabel} className="space-y-1.5">
+          <div className="flex items-center justify-between px-1">
+            <Text size="xs" variant="secondary">
+              {serverLabel}
+            </Text>
+            <Badge variant="secondary">{items.length}</Badge>
+          </div>
+          {items.map((resource) => {
+            const key = getResourceKey(resource);
+            const preview = openKey === key ? previews[key] : undefined;
+            const attached = attachedKeys.has(key);
+            return (
+              <div
+                key={key}
+                className="rounded-xl border border-kumo-line bg-kumo-control/50 p-2.5"
+              >
+                <div className="flex items-start gap-2">
+                  <FileTextIcon size={16} className="mt-0.5 shrink-0 text-kumo-subtle" />
+                  <div className="min-w-0 flex-1">
+                    <span className="block truncate">
+                      <Text size="sm" bold>
+                        {resource.name || resource.uri}
+                      </Text>
+                    </span>
+                    <span className="block truncate" title={resource.uri}>
+                      <Text size="xs" variant="secondary">
+                        {resource.uri}
+                      </Text>
+                    </span>
+                    {resource.description ? (
+                      <span className="mt-0.5 block">
+                        <Text size="xs" variant="secondary">
+                          {resource.description}
+                        </Text>
+                      </span>
+                    ) : null}
+                  </div>
+                </div>
+                <div className="mt-2 flex flex-wrap justify-end gap-1.5">
+                  <Button
+                    size="xs"
+                    variant="secondary"
+                    aria-expanded={openKey === key}
+                    onClick={() => void togglePreview(resource)}
+                  >
+                    {openKey === key ? t("resources_hide_preview") : t("resources_preview")}
+                  </Button>
+                  <Button
+                    size="xs"
+                    variant="primary"
+                    icon={<PaperclipIcon size={12} />}
+                    disabled={!canAttach || attached || attachingKey === key}
+                    onClick={async () => {
+                      setAttachingKey(key);
+                      try {
+                        await onAttach(resource);
+                      } finally {
+                        setAttachingKey(null);
+                      }
+                    }}
+                  >
+                    {attached ? t("resources_attached") : t("resources_attach")}
+                  </Button>
+                </div>
+                {preview ? (
+                  <div className="mt-2 rounded-lg border border-kumo-line bg-kumo-base/70 p-2">
+                    {preview.status === "loading" ? (
+                      <Text size="xs" variant="secondary">
+                        {t("resources_loading")}
+                      </Text>
+                    ) : preview.status === "error" ? (
+                      <div className="app-text-danger" role="status">
+                        <Text size="xs">
+                          {t("resources_preview_failed", { reason: preview.message })}
+                        </Text>
+                      </div>
+                    ) : (
+                      <>
+                        <pre className="max-h-60 overflow-auto whitespace-pre-wrap break-words text-xs text-kumo-default">
+                          {preview.result.contents.map((content) => content.text).join("\n\n")}
+                        </pre>
+                        {preview.result.contents.some((content) => content.truncated) ? (
+                          <Text size="xs" variant="secondary">
+                            {t("resources_truncated")}
+                          </Text>
+                        ) : null}
+                      </>
+                    )}
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
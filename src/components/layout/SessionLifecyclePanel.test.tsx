@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { SessionLifecyclePanel } from "./SessionLifecyclePanel";
+
+const t = (key: string, vars?: Record<string, string>) =>
+  vars?.time ? `${key}:${vars.time}` : key;
+
+describe("SessionLifecyclePanel", () => {
+  it("switches a persistent session to ephemeral", () => {
+    const onChangeMode = vi.fn();
+    render(
+      <SessionLifecyclePanel
+        lifecycle={{ mode: "persistent" }}
+        canEdit
+        saving={false}
+        onChangeMode={onChangeMode}
+        t={t}
+      />
+    );
+
+    expect(screen.getByText("session_lifecycle_persistent_desc")).toBeTruthy();
+    fireEvent.click(screen.getByRole("switch", { name: "session_lifecycle_ephemeral_toggle" }));
+    expect(onChangeMode).toHaveBeenCalledWith("ephemeral");
+  });
+
+  it("reports hibernation ahead of a pending timeout", () => {
+    render(
+      <SessionLifecyclePanel
+        lifecycle={{
+          mode: "persistent",
+          idleTimeoutAt: "not-a-date",
+          hibernatedAt: "also-not-a-date"
+        }}
+        canEdit={false}
+        saving={false}
+        onChangeMode={vi.fn()}
+        t={t}
+      />
+    );
+
+    expect(screen.getByRole("status").textContent).toBe(
+      "session_lifecycle_hibernated:also-not-a-date"
+    );
+    expect(
+      screen
+        .getByRole("switch", { name: "session_lifecycle_ephemeral_toggle" })
+        .hasAttribute("disabled")
+    ).toBe(true);
+  });
+});
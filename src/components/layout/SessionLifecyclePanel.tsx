@@ -0,0 +1,63 @@
+import { Switch, Text } from "@cloudflare/kumo";
+import type {
+  SessionLifecycle,
+  SessionLifecycleMode
+} from "../../features/chat/services/apiContracts";
+
+interface SessionLifecyclePanelProps {
+  lifecycle: SessionLifecycle;
+  canEdit: boolean;
+  saving: boolean;
+  onChangeMode: (mode: SessionLifecycleMode) => void;
+  t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
+}
+
+function formatTime(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+export function SessionLifecyclePanel({
+  lifecycle,
+  canEdit,
+  saving,
+  onChangeMode,
+  t
+}: SessionLifecyclePanelProps) {
+  const ephemeral = lifecycle.mode === "ephemeral";
+
+  let status: string | null = null;
+  if (lifecycle.hibernatedAt) {
+    status = t("session_lifecycle_hibernated", { time: formatTime(lifecycle.hibernatedAt) });
+  } else if (lifecycle.idleTimeoutAt) {
+    status = t(ephemeral ? "session_lifecycle_expires_at" : "session_lifecycle_hibernates_at", {
+      time: formatTime(lifecycle.idleTimeoutAt)
+    });
+  }
+
+  return (
+    <div className="rounded-xl border border-kumo-line bg-kumo-control/50 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <Text size="sm" bold>
+          {t("session_lifecycle_title")}
+        </Text>
+        <Switch
+          checked={ephemeral}
+          disabled={!canEdit || saving}
+          onCheckedChange={(checked) => onChangeMode(checked ? "ephemeral" : "persistent")}
+          aria-label={t("session_lifecycle_ephemeral_toggle")}
+        />
+      </div>
+      <Text size="xs" variant="secondary">
+        {ephemeral ? t("session_lifecycle_ephemeral_desc") : t("session_lifecycle_persistent_desc")}
+      </Text>
+      {status ? (
+        <div className="mt-1" role="status">
+          <Text size="xs" variant="secondary">
+            {status}
+          </Text>
+        </div>
+      ) : null}
+    </div>
+  );
+}
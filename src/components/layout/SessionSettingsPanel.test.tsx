@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { SessionSettingsPanel, buildSettingsPatch } from "./SessionSettingsPanel";
+
+const t = (key: string, vars?: Record<string, string>) => {
+  const map: Record<string, string> = {
+    session_settings_model: "Model",
+    session_settings_temperature: "Temperature",
+    session_settings_save: "Save",
+    session_settings_reset: "Reset",
+    session_settings_default_option: `Default (${vars?.value ?? ""})`,
+    session_settings_model_unavailable: `${vars?.name ?? ""} (not configured)`
+  };
+  return map[key] ?? key;
+};
+
+const effective = {
+  model: "glm:GLM-4.7",
+  temperature: 0.7,
+  maxSteps: 6,
+  thinking: "disabled" as const,
+  systemPromptAddendum: ""
+};
+
+const models = [
+  {
+    ref: "openai:o4-mini",
+    providerId: "openai",
+    providerLabel: "OpenAI",
+    modelId: "o4-mini",
+    label: "o4-mini",
+    capabilities: { tools: true, thinking: true, vision: true },
+    available: false
+  }
+];
+
+describe("buildSettingsPatch", () => {
+  it("sends only changed fields and clears emptied overrides", () => {
+    const patch = buildSettingsPatch(
+      { temperature: 0.2, maxSteps: 3 },
+      {
+        model: "",
+        temperature: "",
+        maxSteps: "3",
+        maxOutputTokens: "1024",
+        thinking: "enabled",
+        systemPromptAddendum: ""
+      }
+    );
+    expect(patch).toEqual({ temperature: null, maxOutputTokens: 1024, thinking: "enabled" });
+  });
+});
+
+describe("SessionSettingsPanel", () => {
+  it("saves edited fields", () => {
+    const onSave = vi.fn();
+    render(
+      <SessionSettingsPanel
+        models={models}
+        settings={{}}
+        effective={effective}
+        canEdit
+        saving={false}
+        onSave={onSave}
+        t={t as never}
+      />
+    );
+
+    expect(
+      screen.getByRole("option", { name: "OpenAI · o4-mini (not configured)" })
+    ).toBeDisabled();
+    fireEvent.change(screen.getByLabelText("Temperature"), { target: { value: "0.3" } });
+    fireEvent.click(screen.getByRole("button", { name: "Save" }));
+    expect(onSave).toHaveBeenCalledWith({ temperature: 0.3 });
+  });
+
+  it("disables editing without edit permission", () => {
+    render(
+      <SessionSettingsPanel
+        models={models}
+        settings={{ temperature: 0.3 }}
+        effective={effective}
+        canEdit={false}
+        saving={false}
+        onSave={vi.fn()}
+        t={t as never}
+      />
+    );
+
+    expect(screen.getByLabelText("Temperature")).toBeDisabled();
+    expect(screen.getByRole("button", { name: "Reset" })).toBeDisabled();
+  });
+});
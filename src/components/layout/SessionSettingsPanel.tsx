@@ -0,0 +1,245 @@
+import { Button, Text } from "@cloudflare/kumo";
+import { useEffect, useMemo, useState } from "react";
+import type {
+  EffectiveSessionSettings,
+  ModelOption,
+  SessionSettings,
+  SessionSettingsPatch
+} from "../../features/chat/services/apiContracts";
+
+interface SessionSettingsPanelProps {
+  models: ModelOption[];
+  settings: SessionSettings;
+  effective: EffectiveSessionSettings | null;
+  canEdit: boolean;
+  saving: boolean;
+  onSave: (patch: SessionSettingsPatch) => void;
+  t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
+}
+
+interface SettingsDraft {
+  model: string;
+  temperature: string;
+  maxSteps: string;
+  maxOutputTokens: string;
+  thinking: string;
+  systemPromptAddendum: string;
+}
+
+function toDraft(settings: SessionSettings): SettingsDraft {
+  return {
+    model: settings.model ?? "",
+    temperature: settings.temperature === undefined ? "" : String(settings.temperature),
+    maxSteps: settings.maxSteps === undefined ? "" : String(settings.maxSteps),
+    maxOutputTokens: settings.maxOutputTokens === undefined ? "" : String(settings.maxOutputTokens),
+    thinking: settings.thinking ?? "",
+    systemPromptAddendum: settings.systemPromptAddendum ?? ""
+  };
+}
+
+function parseNumber(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** Only send fields that changed; an emptied field clears the override. */
+export function buildSettingsPatch(
+  settings: SessionSettings,
+  draft: SettingsDraft
+): SessionSettingsPatch {
+  const patch: SessionSettingsPatch = {};
+  const model = draft.model.trim() || null;
+  if (model !== (settings.model ?? null)) patch.model = model;
+
+  const temperature = parseNumber(draft.temperature);
+  if (temperature !== (settings.temperature ?? null)) patch.temperature = temperature;
+
+  const maxSteps = parseNumber(draft.maxSteps);
+  if (maxSteps !== (settings.maxSteps ?? null)) patch.maxSteps = maxSteps;
+
+  const maxOutputTokens = parseNumber(draft.maxOutputTokens);
+  if (maxOutputTokens !== (settings.maxOutputTokens ?? null)) {
+    patch.maxOutputTokens = maxOutputTokens;
+  }
+
+  const thinking =
+    draft.thinking === "enabled" || draft.thinking === "disabled" ? draft.thinking : null;
+  if (thinking !== (settings.thinking ?? null)) patch.thinking = thinking;
+
+  const addendum = draft.systemPromptAddendum.trim() || null;
+  if (addendum !== (settings.systemPromptAddendum ?? null)) {
+    patch.systemPromptAddendum = addendum;
+  }
+  return patch;
+}
+
+const inputClassName =
+  "w-full rounded-lg border border-kumo-line bg-kumo-base/80 p-2 text-sm disabled:opacity-60";
+
+export function SessionSettingsPanel({
+  models,
+  settings,
+  effective,
+  canEdit,
+  saving,
+  onSave,
+  t
+}: SessionSettingsPanelProps) {
+  const [draft, setDraft] = useState<SettingsDraft>(() => toDraft(settings));
+
+  useEffect(() => {
+    setDraft(toDraft(settings));
+  }, [settings]);
+
+  const patch = useMemo(() => buildSettingsPatch(settings, draft), [settings, draft]);
+  const dirty = Object.keys(patch).length > 0;
+  const hasOverrides = Object.keys(settings).length > 0;
+  const disabled = !canEdit || saving;
+
+  const update = (field: keyof SettingsDraft) => (value: string) =>
+    setDraft((current) => ({ ...current, [field]: value }));
+
+  const clearAll: SessionSettingsPatch = Object.fromEntries(
+    Object.keys(settings).map((key) => [key, null])
+  );
+
+  return (
+    <div className="rounded-xl border border-kumo-line bg-kumo-control/50 p-3">
+      <Text size="sm" bold>
+        {t("session_settings_title")}
+      </Text>
+      <Text size="xs" variant="secondary">
+        {t("session_settings_desc")}
+      </Text>
+
+      <form
+        className="mt-2 space-y-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!disabled && dirty) onSave(patch);
+        }}
+      >
+        <label className="block space-y-1 text-xs text-kumo-subtle">
+          <span>{t("session_settings_model")}</span>
+          <select
+            className={inputClassName}
+            value={draft.model}
+            disabled={disabled}
+            onChange={(event) => update("model")(event.target.value)}
+          >
+            <option value="">
+              {t("session_settings_default_option", { value: effective?.model ?? "" })}
+            </option>
+            {models.map((model) => (
+              <option key={model.ref} value={model.ref} disabled={!model.available}>
+                {model.available
+                  ? `${model.providerLabel} · ${model.label}`
+                  : t("session_settings_model_unavailable", {
+                      name: `${model.providerLabel} · ${model.label}`
+                    })}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="grid grid-cols-3 gap-2">
+          <label className="block space-y-1 text-xs text-kumo-subtle">
+            <span>{t("session_settings_temperature")}</span>
+            <input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              className={inputClassName}
+              value={draft.temperature}
+              placeholder={effective ? String(effective.temperature) : ""}
+              disabled={disabled}
+              onChange={(event) => update("temperature")(event.target.value)}
+            />
+          </label>
+          <label className="block space-y-1 text-xs text-kumo-subtle">
+            <span>{t("session_settings_max_steps")}</span>
+            <input
+              type="number"
+              min={1}
+              max={20}
+              step={1}
+              className={inputClassName}
+              value={draft.maxSteps}
+              placeholder={effective ? String(effective.maxSteps) : ""}
+              disabled={disabled}
+              onChange={(event) => update("maxSteps")(event.target.value)}
+            />
+          </label>
+          <label className="block space-y-1 text-xs text-kumo-subtle">
+            <span>{t("session_settings_max_output_tokens")}</span>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              className={inputClassName}
+              value={draft.maxOutputTokens}
+              placeholder={effective?.maxOutputTokens ? String(effective.maxOutputTokens) : ""}
+              disabled={disabled}
+              onChange={(event) => update("maxOutputTokens")(event.target.value)}
+            />
+          </label>
+        </div>
+
+        <label className="block space-y-1 text-xs text-kumo-subtle">
+          <span>{t("session_settings_thinking")}</span>
+          <select
+            className={inputClassName}
+            value={draft.thinking}
+            disabled={disabled}
+            onChange={(event) => update("thinking")(event.target.value)}
+          >
+            <option value="">
+              {t("session_settings_default_option", {
+                value: effective
+                  ? t(
+                      effective.thinking === "enabled"
+                        ? "session_settings_thinking_enabled"
+                        : "session_settings_thinking_disabled"
+                    )
+                  : ""
+              })}
+            </option>
+            <option value="enabled">{t("session_settings_thinking_enabled")}</option>
+            <option value="disabled">{t("session_settings_thinking_disabled")}</option>
+          </select>
+        </label>
+
+        <label className="block space-y-1 text-xs text-kumo-subtle">
+          <span>{t("session_settings_addendum")}</span>
+          <textarea
+            rows={3}
+            maxLength={4000}
+            className={inputClassName}
+            value={draft.systemPromptAddendum}
+            placeholder={t("session_settings_addendum_placeholder")}
+            disabled={disabled}
+            onChange={(event) => update("systemPromptAddendum")(event.target.value)}
+          />
+        </label>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            disabled={disabled || !hasOverrides}
+            onClick={() => onSave(clearAll)}
+          >
+            {t("session_settings_reset")}
+          </Button>
+          <Button type="submit" variant="primary" size="sm" disabled={disabled || !dirty}>
+            {saving ? t("session_settings_saving") : t("session_settings_save")}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
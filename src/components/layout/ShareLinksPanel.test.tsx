@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { ShareLinksPanel, getActiveShareLinks } from "./ShareLinksPanel";
+import type { ShareLink } from "../../features/chat/services/apiContracts";
+
+const t = (key: string) => key;
+
+const active: ShareLink = {
+  id: "link-1",
+  scope: "comment",
+  createdAt: "2026-01-01T00:00:00.000Z",
+  expiresAt: "2999-01-01T00:00:00.000Z",
+  token: "token",
+  url: "https://chat.example/?share=token"
+};
+
+describe("ShareLinksPanel", () => {
+  it("creates links with the chosen scope and lifetime", () => {
+    const onCreate = vi.fn();
+    render(
+      <ShareLinksPanel
+        links={[]}
+        canManage
+        busy={false}
+        onCreate={onCreate}
+        onCopy={vi.fn()}
+        onRevoke={vi.fn()}
+        t={t}
+      />
+    );
+
+    expect(screen.getByText("share_empty")).toBeTruthy();
+    fireEvent.change(screen.getByLabelText("share_scope_label"), { target: { value: "comment" } });
+    fireEvent.change(screen.getByLabelText("share_expiry_label"), {
+      target: { value: String(24 * 60 * 60) }
+    });
+    fireEvent.click(screen.getByRole("button", { name: "share_create" }));
+    expect(onCreate).toHaveBeenCalledWith("comment", 24 * 60 * 60);
+  });
+
+  it("lists only active links and revokes them", () => {
+    const onRevoke = vi.fn();
+    const onCopy = vi.fn();
+    render(
+      <ShareLinksPanel
+        links={[
+          active,
+          { ...active, id: "link-2", revokedAt: "2026-01-02T00:00:00.000Z", token: undefined },
+          { ...active, id: "link-3", expiresAt: "2000-01-01T00:00:00.000Z" }
+        ]}
+        canManage
+        busy={false}
+        onCreate={vi.fn()}
+        onCopy={onCopy}
+        onRevoke={onRevoke}
+        t={t}
+      />
+    );
+
+    expect(screen.getAllByRole("button", { name: "share_revoke" })).toHaveLength(1);
+    fireEvent.click(screen.getByRole("button", { name: "share_copy" }));
+    expect(onCopy).toHaveBeenCalledWith(active);
+    fireEvent.click(screen.getByRole("button", { name: "share_revoke" }));
+    expect(onRevoke).toHaveBeenCalledWith("link-1");
+  });
+
+  it("treats unparseable expiry times as expired", () => {
+    expect(getActiveShareLinks([{ ...active, expiresAt: "soon" }])).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+import { Button, Text } from "@cloudflare/kumo";
+import { useState } from "react";
+import type { ShareLink, ShareScope } from "../../features/chat/services/apiContracts";
+
+interface ShareLinksPanelProps {
+  links: ShareLink[];
+  canManage: boolean;
+  busy: boolean;
+  onCreate: (scope: ShareScope, expiresInSeconds: number) => void;
+  onCopy: (link: ShareLink) => void;
+  onRevoke: (shareId: string) => void;
+  t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const EXPIRY_OPTIONS = [
+  { seconds: DAY_SECONDS, label: "share_expiry_day" },
+  { seconds: 7 * DAY_SECONDS, label: "share_expiry_week" },
+  { seconds: 30 * DAY_SECONDS, label: "share_expiry_month" }
+] as const;
+
+const inputClassName =
+  "w-full rounded-lg border border-kumo-line bg-kumo-base/80 p-2 text-sm disabled:opacity-60";
+
+function formatTime(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+/** Links that still open the session; revoked and expired ones are not worth listing. */
+export function getActiveShareLinks(links: ShareLink[], now = Date.now()): ShareLink[] {
+  return links.filter((link) => !link.revokedAt && Date.parse(link.expiresAt) > now);
+}
+
+export function ShareLinksPanel({
+  links,
+  canManage,
+  busy,
+  onCreate,
+  onCopy,
+  onRevoke,
+  t
+}: ShareLinksPanelProps) {
+  const [scope, setScope] = useState<ShareScope>("view");
+  const [expiresInSeconds, setExpiresInSeconds] = useState<number>(EXPIRY_OPTIONS[1].seconds);
+  const activeLinks = getActiveShareLinks(links);
+  const disabled = !canManage || busy;
+
+  return (
+    <div className="rounded-xl border border-kumo-line bg-kumo-control/50 p-3">
+      <Text size="sm" bold>
+        {t("share_title")}
+      </Text>
+      <Text size="xs" variant="secondary">
+        {t("share_desc")}
+      </Text>
+
+      <form
+        className="mt-2 space-y-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (!disabled) onCreate(scope, expiresInSeconds);
+        }}
+      >
+        <div className="grid grid-cols-2 gap-2">
+          <label className="block space-y-1 text-xs text-kumo-subtle">
+            <span>{t("share_scope_label")}</span>
+            <select
+              className={inputClassName}
+              value={scope}
+              disabled={disabled}
+              onChange={(event) => setScope(event.target.value === "comment" ? "comment" : "view")}
+            >
+              <option value="view">{t("share_scope_view")}</option>
+              <option value="comment">{t("share_scope_comment")}</option>
+            </select>
+          </label>
+          <label className="block space-y-1 text-xs text-kumo-subtle">
+            <span>{t("share_expiry_label")}</span>
+            <select
+              className={inputClassName}
+              value={expiresInSeconds}
+              disabled={disabled}
+              onChange={(event) => setExpiresInSeconds(Number(event.target.value))}
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.seconds} value={option.seconds}>
+                  {t(option.label)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <Button type="submit" size="sm" variant="primary" disabled={disabled}>
+          {t("share_create")}
+        </Button>
+      </form>
+
+      <ul className="mt-2 space-y-1.5">
+        {activeLinks.length === 0 ? (
+          <li>
+            <Text size="xs" variant="secondary">
+              {t("share_empty")}
+            </Text>
+          </li>
+        ) : (
+          activeLinks.map((link) => (
+            <li
+              key={link.id}
+              className="flex items-center justify-between gap-2 rounded-lg border border-kumo-line px-2 py-1.5"
+            >
+              <Text size="xs" variant="secondary">
+                {t("share_link_meta", {
+                  scope: t(link.scope === "comment" ? "share_scope_comment" : "share_scope_view"),
+                  time: formatTime(link.expiresAt)
+                })}
+              </Text>
+              <div className="flex shrink-0 gap-1">
+                <Button
+                  size="xs"
+                  variant="secondary"
+                  disabled={!link.url}
+                  onClick={() => onCopy(link)}
+                >
+                  {t("share_copy")}
+                </Button>
+                <Button
+                  size="xs"
+                  variant="secondary"
+                  disabled={disabled}
+                  onClick={() => onRevoke(link.id)}
+                >
+                  {t("share_revoke")}
+                </Button>
+              </div>
+            </li>
+          ))
+        )}
+      </ul>
+    </div>
+  );
+}
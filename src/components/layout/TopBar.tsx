@@ -1,5 +1,12 @@
 import { Text } from "@cloudflare/kumo";
-import { ListIcon, MoonIcon, PlusIcon, PlugsConnectedIcon, SunIcon } from "@phosphor-icons/react";
+import {
+  ListIcon,
+  MoonIcon,
+  PlusIcon,
+  PlugsConnectedIcon,
+  SignOutIcon,
+  SunIcon
+} from "@phosphor-icons/react";
 import { ConnectionIndicator, type ConnectionStatus, useThemeMode } from "../AgentsUiCompat";
 
 interface TopBarProps {
@@ -7,10 +14,21 @@ interface TopBarProps {
   onToggleSidebar: () => void;
   onNewSession: () => void;
   connectionStatus: ConnectionStatus;
+  /** Signed-in user; omitted when authentication is disabled. */
+  userId?: string;
+  onSignOut?: () => void;
   t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
 }
 
-export function TopBar({ mobile, onToggleSidebar, onNewSession, connectionStatus, t }: TopBarProps) {
+export function TopBar({
+  mobile,
+  onToggleSidebar,
+  onNewSession,
+  connectionStatus,
+  userId,
+  onSignOut,
+  t
+}: TopBarProps) {
   const { mode, setMode } = useThemeMode();
   const resolvedMode =
     mode === "system" ? (document.documentElement.getAttribute("data-mode") ?? "light") : mode;
@@ -65,6 +83,18 @@ export function TopBar({ mobile, onToggleSidebar, onNewSession, connectionStatus
           >
             {isDark ? <SunIcon size={18} /> : <MoonIcon size={18} />}
           </button>
+          {userId && onSignOut ? (
+            <button
+              type="button"
+              onClick={onSignOut}
+              className="inline-flex items-center gap-1.5 rounded-lg border border-kumo-line px-2.5 py-2 text-xs font-medium text-kumo-subtle transition-colors hover:bg-kumo-control focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-kumo-accent/40"
+              aria-label={t("auth_sign_out")}
+              title={t("auth_signed_in_as", { user: userId })}
+            >
+              <SignOutIcon size={16} />
+              <span className="hidden max-w-[8rem] truncate sm:inline">{userId}</span>
+            </button>
+          ) : null}
           <ConnectionIndicator
             status={connectionStatus}
             labels={{
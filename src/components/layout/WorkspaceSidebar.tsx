@@ -2,15 +2,23 @@ import { Badge, Button, Text } from "@cloudflare/kumo";
 import { useState } from "react";
 import {
   ChatCircleDotsIcon,
+  DownloadSimpleIcon,
   PlusIcon,
   TrashIcon,
   WrenchIcon,
   FolderOpenIcon,
   GearSixIcon,
+  GitForkIcon,
+  TreeStructureIcon,
   XIcon,
   GlobeHemisphereWestIcon
 } from "@phosphor-icons/react";
 import type { UiLang } from "../../i18n/ui";
+import {
+  EXPORT_FORMATS,
+  type ExportFormat
+} from "../../features/chat/services/conversationExport";
+import { buildSessionTree } from "../../features/chat/services/sessionTree";
 import { confirm } from "../modal";
 
 export type WorkspaceSection = "chats" | "tools" | "resources" | "settings";
@@ -21,6 +29,8 @@ interface SessionMeta {
   lastMessage: string;
   timestamp: string;
   messageCount: number;
+  parentSessionId?: string;
+  forkMessageId?: string;
 }
 
 interface WorkspaceSidebarProps {
@@ -34,6 +44,9 @@ interface WorkspaceSidebarProps {
   onNewSession: () => void;
   onSelectSession: (sessionId: string) => void;
   onDeleteSession: (sessionId: string) => Promise<void> | void;
+  onExportSession?: (sessionId: string, format: ExportFormat) => Promise<void> | void;
+  /** Opens a fork's parent session at the message it was forked from. */
+  onOpenForkPoint?: (sessionId: string, messageId: string) => void;
   formatTime: (timestamp: string) => string;
   toolsCount: number;
   resourcesCount: number;
@@ -52,6 +65,12 @@ interface WorkspaceSidebarProps {
     }>;
     telemetrySummary: { totalEvents: number; eventCounts: Record<string, number> };
   };
+  /** Rendered under the new chat button, e.g. the cross-session message search. */
+  sessionSearch?: React.ReactNode;
+  sessionSettings?: React.ReactNode;
+  sessionLifecycle?: React.ReactNode;
+  sessionSharing?: React.ReactNode;
+  resourcesPanel?: React.ReactNode;
   lang: UiLang;
   setLang: (lang: UiLang) => void;
   t: (key: import("../../i18n/ui").UiMessageKey, vars?: Record<string, string>) => string;
@@ -68,15 +87,30 @@ export function WorkspaceSidebar({
   onNewSession,
   onSelectSession,
   onDeleteSession,
+  onExportSession,
+  onOpenForkPoint,
   formatTime,
   toolsCount,
   resourcesCount,
   observability,
+  sessionSearch,
+  sessionSettings,
+  sessionLifecycle,
+  sessionSharing,
+  resourcesPanel,
   lang,
   setLang,
   t
 }: WorkspaceSidebarProps) {
   const [deletingSessionId, setDeletingSessionId] = useState<string | null>(null);
+  const [exportMenuSessionId, setExportMenuSessionId] = useState<string | null>(null);
+  const [exportingSessionId, setExportingSessionId] = useState<string | null>(null);
+  const [showForkTree, setShowForkTree] = useState(false);
+  const hasForks = sessions.some((session) => session.parentSessionId);
+  const sessionRows =
+    showForkTree && hasForks
+      ? buildSessionTree(sessions)
+      : sessions.map((session) => ({ session, depth: 0, parent: undefined }));
   const sections: Array<{
     id: WorkspaceSection;
     label: string;
@@ -175,6 +209,22 @@ export function WorkspaceSidebar({
             {t("session_new")}
           </Button>
         )}
+        {section === "chats" && sessionSearch}
+        {section === "chats" && hasForks && (
+          <button
+            type="button"
+            onClick={() => setShowForkTree((prev) => !prev)}
+            className={`flex w-full items-center gap-1.5 rounded-lg border px-2 py-1.5 text-xs transition-colors ${
+              showForkTree
+                ? "border-kumo-accent bg-kumo-accent/12 text-kumo-accent"
+                : "border-kumo-line text-kumo-subtle hover:bg-kumo-control"
+            }`}
+            aria-pressed={showForkTree}
+          >
+            <TreeStructureIcon size={14} />
+            {t("session_fork_tree")}
+          </button>
+        )}
       </div>
 
       {section === "chats" ? (
@@ -185,9 +235,10 @@ export function WorkspaceSidebar({
               <Text size="xs">{t("session_empty")}</Text>
             </div>
           ) : (
-            sessions.map((session) => (
+            sessionRows.map(({ session, depth, parent }) => (
               <div
                 key={session.id}
+                style={depth > 0 ? { marginLeft: `${Math.min(depth, 4) * 12}px` } : undefined}
                 onClick={() => onSelectSession(session.id)}
                 onKeyDown={(e) => {
                   if (e.key === "Enter" || e.key === " ") {
@@ -206,7 +257,14 @@ export function WorkspaceSidebar({
               >
                 <div className="flex items-start justify-between gap-2">
                   <div className="min-w-0 flex-1">
-                    <span className="block truncate">
+                    <span className="flex items-center gap-1 truncate">
+                      {session.parentSessionId && (
+                        <GitForkIcon
+                          size={12}
+                          className="shrink-0 text-kumo-subtle"
+                          aria-label={t("session_forked")}
+                        />
+                      )}
                       <Text size="sm" bold={currentSessionId === session.id}>
                         {session.title}
                       </Text>
@@ -226,7 +284,37 @@ export function WorkspaceSidebar({
                         </Badge>
                       )}
                     </div>
+                    {parent && session.forkMessageId && onOpenForkPoint && (
+                      <button
+                        type="button"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          if (session.forkMessageId) {
+                            onOpenForkPoint(parent.id, session.forkMessageId);
+                          }
+                        }}
+                        className="mt-1 block max-w-full truncate text-left text-[11px] text-kumo-subtle underline-offset-2 hover:text-kumo-default hover:underline"
+                      >
+                        {t("session_forked_from", { title: parent.title })}
+                      </button>
+                    )}
                   </div>
+                  {onExportSession && (
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setExportMenuSessionId((prev) => (prev === session.id ? null : session.id));
+                      }}
+                      className={`rounded p-1 text-kumo-subtle transition-all hover:bg-kumo-control hover:text-kumo-default group-hover:opacity-100 focus-visible:opacity-100 ${
+                        exportMenuSessionId === session.id ? "opacity-100" : "opacity-0"
+                      }`}
+                      aria-label={t("session_export")}
+                      aria-expanded={exportMenuSessionId === session.id}
+                    >
+                      <DownloadSimpleIcon size={14} />
+                    </button>
+                  )}
                   <button
                     type="button"
                     disabled={deletingSessionId === session.id}
@@ -255,12 +343,44 @@ export function WorkspaceSidebar({
                     <TrashIcon size={14} />
                   </button>
                 </div>
+                {onExportSession && exportMenuSessionId === session.id && (
+                  <div
+                    className="mt-2 flex items-center gap-1.5"
+                    role="group"
+                    aria-label={t("session_export")}
+                  >
+                    {EXPORT_FORMATS.map((format) => (
+                      <Button
+                        key={format}
+                        size="xs"
+                        variant="secondary"
+                        disabled={exportingSessionId === session.id}
+                        onClick={async (e) => {
+                          e.stopPropagation();
+                          setExportingSessionId(session.id);
+                          try {
+                            await onExportSession(session.id, format);
+                            setExportMenuSessionId(null);
+                          } finally {
+                            setExportingSessionId((prev) => (prev === session.id ? null : prev));
+                          }
+                        }}
+                      >
+                        {t(`session_export_${format}`)}
+                      </Button>
+                    ))}
+                  </div>
+                )}
               </div>
             ))
           )}
         </div>
       ) : section === "settings" ? (
         <div className="flex-1 space-y-2 overflow-y-auto p-2.5">
+          {sessionSettings}
+          {sessionLifecycle}
+          {sessionSharing}
+
           <div className="rounded-xl border border-kumo-line bg-kumo-control/50 p-3">
             <Text size="sm" bold>
               {t("lang_group")}
@@ -392,6 +512,8 @@ export function WorkspaceSidebar({
             </details>
           </div>
         </div>
+      ) : section === "resources" && resourcesPanel ? (
+        <div className="flex-1 overflow-y-auto p-2.5">{resourcesPanel}</div>
       ) : (
         <div className="flex-1 p-3">
           <div className="rounded-xl border border-kumo-line bg-kumo-control/50 p-3">
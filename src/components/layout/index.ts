@@ -2,4 +2,10 @@ export { WorkspaceSidebar, type WorkspaceSection } from "./WorkspaceSidebar";
 export { TopBar } from "./TopBar";
 export { ChatPane } from "./ChatPane";
 export { McpPane } from "./McpPane";
+export { SessionSettingsPanel } from "./SessionSettingsPanel";
+export { ResourcesPanel, getResourceKey } from "./ResourcesPanel";
 export { MobileTabBar } from "./MobileTabBar";
+export { SessionLifecyclePanel } from "./SessionLifecyclePanel";
+export { ShareLinksPanel } from "./ShareLinksPanel";
+export { LoginScreen } from "./LoginScreen";
+export { MessageSearchPanel } from "./MessageSearchPanel";
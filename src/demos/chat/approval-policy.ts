@@ -9,15 +9,3 @@ export function requiresApprovalPolicy(toolName: string, args: Record<string, un
   const serialized = JSON.stringify(args);
   return serialized.length > 8000;
 }
-
-export function buildApprovalSignature(
-  toolName: string,
-  serverId: string | undefined,
-  args: Record<string, unknown>
-): string {
-  return JSON.stringify({
-    toolName,
-    serverId: serverId ?? "",
-    args
-  });
-}
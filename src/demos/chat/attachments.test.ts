@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  buildAttachmentUrl,
+  classifyAttachment,
+  parseAttachmentUrl,
+  prepareAttachmentsForModel,
+  toDataUrl
+} from "./attachments";
+
+const encoder = new TextEncoder();
+
+const textOf = (part: object) => (part as { text?: string }).text ?? "";
+const urlOf = (part: object) => (part as { url?: string }).url ?? "";
+
+function filePart(id: string, mediaType: string, filename = id, sessionId = "s1") {
+  return { type: "file", mediaType, filename, url: buildAttachmentUrl(sessionId, id) };
+}
+
+describe("attachment urls", () => {
+  it("round-trips session and attachment ids", () => {
+    const url = buildAttachmentUrl("session_1", "abc-123");
+    expect(url).toBe("/api/chat/attachments/abc-123?sessionId=session_1");
+    expect(parseAttachmentUrl(url)).toEqual({ sessionId: "session_1", id: "abc-123" });
+  });
+
+  it("rejects foreign urls", () => {
+    expect(parseAttachmentUrl("https://example.com/cat.png")).toBeNull();
+    expect(parseAttachmentUrl("/api/chat/attachments/abc")).toBeNull();
+  });
+});
+
+describe("classifyAttachment", () => {
+  it("accepts images and text documents only", () => {
+    expect(classifyAttachment("image/png")).toBe("image");
+    expect(classifyAttachment("text/markdown; charset=utf-8")).toBe("document");
+    expect(classifyAttachment("application/json")).toBe("document");
+    expect(classifyAttachment("application/pdf")).toBeNull();
+  });
+});
+
+describe("prepareAttachmentsForModel", () => {
+  const load = vi.fn(async ({ id }: { id: string }) =>
+    id === "missing"
+      ? null
+      : {
+          bytes: id.startsWith("doc") ? encoder.encode("# Notes") : new Uint8Array([1, 2, 3]),
+          mediaType: id.startsWith("doc") ? "text/markdown" : "image/png"
+        }
+  );
+
+  it("inlines images for vision models and extracts document text", async () => {
+    const [message] = await prepareAttachmentsForModel(
+      [
+        {
+          role: "user",
+          parts: [
+            filePart("img", "image/png", "cat.png"),
+            filePart("doc", "text/markdown", "notes.md"),
+            { type: "text", text: "hi" }
+          ]
+        }
+      ],
+      { sessionId: "s1", vision: true, load }
+    );
+
+    expect(message.parts[0]).toMatchObject({
+      type: "file",
+      url: toDataUrl(new Uint8Array([1, 2, 3]), "image/png")
+    });
+    expect(message.parts[1]).toEqual({
+      type: "text",
+      text: 'Attached file "notes.md":\n<file>\n# Notes\n</file>'
+    });
+    expect(message.parts[2]).toEqual({ type: "text", text: "hi" });
+  });
+
+  it("describes images for text-only models without loading them", async () => {
+    load.mockClear();
+    const [message] = await prepareAttachmentsForModel(
+      [{ role: "user", parts: [filePart("img", "image/png", "cat.png")] }],
+      { sessionId: "s1", vision: false, load }
+    );
+
+    expect(load).not.toHaveBeenCalled();
+    expect(message.parts[0]).toMatchObject({ type: "text" });
+    expect(textOf(message.parts[0])).toContain("cannot read this file type");
+  });
+
+  it("spends the inline image budget on the newest messages", async () => {
+    const [older, newer] = await prepareAttachmentsForModel(
+      [
+        { role: "user", parts: [filePart("img-old", "image/png")] },
+        {
+          role: "user",
+          parts: [filePart("missing", "image/png"), filePart("img-new", "image/png")]
+        }
+      ],
+      { sessionId: "s1", vision: true, load, maxInlineImages: 1 }
+    );
+
+    expect(urlOf(newer.parts[1]).startsWith("data:image/png")).toBe(true);
+    expect(textOf(newer.parts[0])).toContain("no longer available");
+    expect(textOf(older.parts[0])).toContain("most recent images");
+  });
+
+  it("never loads files stored for another session", async () => {
+    load.mockClear();
+    const [message] = await prepareAttachmentsForModel(
+      [{ role: "user", parts: [filePart("doc-secret", "text/markdown", "secret.md", "s2")] }],
+      { sessionId: "s1", vision: true, load }
+    );
+
+    expect(load).not.toHaveBeenCalled();
+    expect(textOf(message.parts[0])).toContain("no longer available");
+  });
+});
@@ -0,0 +1,201 @@
+import { MAX_RESOURCE_TEXT_CHARS } from "./mcp-resources";
+
+/** Route that serves stored attachments; file part URLs point here. */
+export const ATTACHMENT_ROUTE = "/api/chat/attachments";
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+/** Most recent images sent inline to vision models; older ones are described as text. */
+export const MAX_INLINE_IMAGES = 4;
+
+export const IMAGE_MEDIA_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+const DOCUMENT_MEDIA_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/x-yaml",
+  "application/yaml"
+];
+
+export type AttachmentKind = "image" | "document";
+
+export interface StoredAttachment {
+  id: string;
+  url: string;
+  filename: string;
+  mediaType: string;
+  size: number;
+}
+
+export interface FileUIPartLike {
+  type: "file";
+  mediaType: string;
+  filename?: string;
+  url: string;
+}
+
+export interface LoadedAttachment {
+  bytes: Uint8Array;
+  mediaType: string;
+}
+
+export type AttachmentLoader = (ref: {
+  sessionId: string;
+  id: string;
+}) => Promise<LoadedAttachment | null>;
+
+/** Null for media types the composer may not upload. */
+export function classifyAttachment(mediaType: string): AttachmentKind | null {
+  const normalized = mediaType.split(";")[0].trim().toLowerCase();
+  if (IMAGE_MEDIA_TYPES.includes(normalized)) return "image";
+  if (normalized.startsWith("text/") || DOCUMENT_MEDIA_TYPES.includes(normalized)) {
+    return "document";
+  }
+  return null;
+}
+
+export function buildAttachmentKey(sessionId: string, id: string): string {
+  return `sessions/${sessionId}/${id}`;
+}
+
+export function buildAttachmentUrl(sessionId: string, id: string): string {
+  return `${ATTACHMENT_ROUTE}/${encodeURIComponent(id)}?sessionId=${encodeURIComponent(sessionId)}`;
+}
+
+export function parseAttachmentUrl(url: string): { sessionId: string; id: string } | null {
+  if (!url.startsWith(`${ATTACHMENT_ROUTE}/`)) return null;
+  const parsed = new URL(url, "http://attachments.local");
+  const id = decodeURIComponent(parsed.pathname.slice(ATTACHMENT_ROUTE.length + 1));
+  const sessionId = parsed.searchParams.get("sessionId");
+  if (!id || id.includes("/") || !sessionId) return null;
+  return { sessionId, id };
+}
+
+export function isFilePart(part: unknown): part is FileUIPartLike {
+  if (!part || typeof part !== "object") return false;
+  const candidate = part as Partial<FileUIPartLike>;
+  return (
+    candidate.type === "file" &&
+    typeof candidate.url === "string" &&
+    typeof candidate.mediaType === "string"
+  );
+}
+
+export function extractDocumentText(
+  bytes: Uint8Array,
+  maxChars = MAX_RESOURCE_TEXT_CHARS
+): { text: string; truncated: boolean } {
+  const text = new TextDecoder("utf-8", { fatal: false }).decode(bytes);
+  return { text: text.slice(0, maxChars), truncated: text.length > maxChars };
+}
+
+export function formatDocumentForModel(
+  filename: string,
+  extracted: { text: string; truncated: boolean }
+): string {
+  return [
+    `Attached file "${filename}":`,
+    "<file>",
+    extracted.text,
+    "</file>",
+    ...(extracted.truncated ? ["(File content was truncated.)"] : [])
+  ].join("\n");
+}
+
+/** Text stand-in for an attachment the model cannot receive as-is. */
+export function describeOmittedAttachment(
+  part: Pick<FileUIPartLike, "filename" | "mediaType">,
+  reason: "unsupported" | "unavailable" | "limit"
+): string {
+  const name = part.filename || "attachment";
+  const detail =
+    reason === "unsupported"
+      ? "the current model cannot read this file type"
+      : reason === "unavailable"
+        ? "the file is no longer available"
+        : "only the most recent images are sent to the model";
+  return `[Attached file "${name}" (${part.mediaType}) omitted: ${detail}.]`;
+}
+
+export function toDataUrl(bytes: Uint8Array, mediaType: string): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize));
+  }
+  return `data:${mediaType};base64,${btoa(binary)}`;
+}
+
+/**
+ * Replace stored file parts with something the model can consume: images become inline
+ * data URLs when the model has vision, documents become their extracted text, and
+ * everything else is described in a short text note. Only files stored for `sessionId`
+ * are loaded; a reference into another session's storage counts as unavailable.
+ */
+export async function prepareAttachmentsForModel<
+  M extends { role: string; parts: Array<{ type: string }> }
+>(
+  messages: M[],
+  options: {
+    sessionId: string;
+    vision: boolean;
+    load: AttachmentLoader;
+    maxInlineImages?: number;
+  }
+): Promise<M[]> {
+  let inlineBudget = options.maxInlineImages ?? MAX_INLINE_IMAGES;
+  const prepared: M[] = [];
+
+  // Walk newest-first so the inline image budget favours recent turns.
+  for (const message of [...messages].reverse()) {
+    if (!message.parts.some(isFilePart)) {
+      prepared.push(message);
+      continue;
+    }
+    const parts: Array<{ type: string; text?: string; url?: string }> = [];
+    for (const part of message.parts) {
+      if (!isFilePart(part)) {
+        parts.push(part);
+        continue;
+      }
+      if (part.url.startsWith("data:")) {
+        parts.push(
+          options.vision && classifyAttachment(part.mediaType) === "image"
+            ? part
+            : { type: "text", text: describeOmittedAttachment(part, "unsupported") }
+        );
+        continue;
+      }
+      const kind = classifyAttachment(part.mediaType);
+      const parsed = parseAttachmentUrl(part.url);
+      const ref = parsed?.sessionId === options.sessionId ? parsed : null;
+      if (!ref || !kind || (kind === "image" && !options.vision)) {
+        parts.push({
+          type: "text",
+          text: describeOmittedAttachment(part, ref ? "unsupported" : "unavailable")
+        });
+        continue;
+      }
+      if (kind === "image" && inlineBudget <= 0) {
+        parts.push({ type: "text", text: describeOmittedAttachment(part, "limit") });
+        continue;
+      }
+      const loaded = await options.load(ref);
+      if (!loaded) {
+        parts.push({ type: "text", text: describeOmittedAttachment(part, "unavailable") });
+        continue;
+      }
+      if (kind === "image") {
+        inlineBudget -= 1;
+        parts.push({ ...part, url: toDataUrl(loaded.bytes, loaded.mediaType) });
+      } else {
+        parts.push({
+          type: "text",
+          text: formatDocumentForModel(part.filename || ref.id, extractDocumentText(loaded.bytes))
+        });
+      }
+    }
+    prepared.push({ ...message, parts } as M);
+  }
+  return prepared.reverse();
+}
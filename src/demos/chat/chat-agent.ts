@@ -3,6 +3,7 @@ import {
   callable,
   getAgentByName,
   getCurrentAgent,
+  type AgentContext,
   type Connection,
   type ConnectionContext
 } from "agents";
@@ -12,40 +13,182 @@ import {
   convertToModelMessages,
   pruneMessages,
   tool,
+  jsonSchema,
   stepCountIs,
   createUIMessageStream,
   createUIMessageStreamResponse,
   type LanguageModel,
   type ModelMessage,
   type ToolSet,
+  type UIMessage,
   type UIMessageStreamWriter
 } from "ai";
 import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
-import { z } from "zod";
-import { MCP_SERVERS, getApiKey, type McpServerConfig } from "../../mcp-config";
 import {
+  MCP_SERVERS,
+  getApiKey,
+  type McpServerConfig,
+  type McpTransportType
+} from "../../mcp-config";
+import {
+  DEFAULT_SESSION_LIFECYCLE,
   cancelIdleSchedules,
+  describeLifecycle,
   destroyIfIdle,
   resolveIdleTimeoutSeconds,
-  scheduleIdleDestroy
+  scheduleIdleTimeout,
+  type SessionLifecycleMode,
+  type SessionLifecycleSnapshot,
+  type SessionLifecycleState
 } from "../../shared/agent-lifecycle";
+import { canAccessSession, createAuthenticatorFromEnv } from "../../shared/auth";
+import {
+  isShareScope,
+  issueShareToken,
+  normalizeShareTtlSeconds,
+  readShareToken,
+  verifyShareToken,
+  type ShareAccess,
+  type ShareScope
+} from "../../shared/share-links";
+import { screenSharedMessage, type ShareLinkRecord } from "./share-access";
 import {
   getMessageText,
   normalizeToolArguments as normalizeArgs,
   toFallbackModelMessages
 } from "./model-utils";
 import {
+  getContextTokenBudget,
+  getLocalMcpServersAllowed,
   getMaxOutputTokens,
-  getModelId,
+  getModelPrices,
   getModelStreamEnabled,
+  getQuotaLimits,
   getThinkingEnabled,
   getThinkingType,
   getToolMaxAttempts,
   getToolTimeoutMs
 } from "./runtime-config";
 import { buildSystemPrompt } from "./system-prompt";
+import {
+  MAX_SUMMARY_CHARS,
+  SUMMARY_SYSTEM_PROMPT,
+  buildSummaryPrompt,
+  buildSummaryTranscript,
+  estimateTokens,
+  planContextWindow,
+  resolveSummaryStart,
+  type ContextSummary
+} from "./context-window";
+import {
+  buildHistoryEtag,
+  decodeHistoryCursor,
+  normalizeHistoryLimit,
+  paginateHistory,
+  toIsoTimestamp,
+  type HistoryMessage,
+  type HistoryPage
+} from "./message-history";
 import { classifyRetryableError } from "./retry-policy";
-import { buildApprovalSignature, requiresApprovalPolicy } from "./approval-policy";
+import { requiresApprovalPolicy } from "./approval-policy";
+import { normalizeMcpInputSchema, validateToolArguments } from "./tool-schema";
+import { isAuthorizationError, renderOAuthCallbackPage } from "./mcp-oauth";
+import {
+  buildAttachmentKey,
+  buildAttachmentUrl,
+  isFilePart,
+  prepareAttachmentsForModel,
+  type AttachmentLoader,
+  type FileUIPartLike
+} from "./attachments";
+import {
+  findMissingPromptArguments,
+  renderPromptMessages,
+  type McpPromptArgument,
+  type RawPromptMessage,
+  type RenderedPromptMessage
+} from "./mcp-prompts";
+import {
+  convertResourceDataPart,
+  isResourcePart,
+  summarizeResourceContents,
+  type McpResourceContent
+} from "./mcp-resources";
+import { getSessionDirectory } from "./session-directory";
+import { getQuotaCounter } from "./quota-counter";
+import {
+  applyToolApprovalDecision,
+  createReplyTracker,
+  type ToolApprovalDecision
+} from "./tool-approval-resume";
+import {
+  buildMessageUsage,
+  readMessageUsage,
+  summarizeUsage,
+  type MessageUsage,
+  type ModelUsageLike,
+  type UsageRecord,
+  type UsageReport
+} from "./usage-accounting";
+import {
+  SEARCH_DEFAULT_LIMIT,
+  SEARCH_MAX_LIMIT,
+  buildFtsMatchQuery,
+  buildSearchSnippet,
+  extractSearchText,
+  matchesAllTerms,
+  toLikePattern,
+  tokenizeSearchQuery,
+  type MessageSearchHit
+} from "./message-search";
+import {
+  planForkHistory,
+  rebaseForkAttachments,
+  type SessionForkSnapshot,
+  type SessionLineage
+} from "./session-fork";
+import {
+  collectPathBranches,
+  findRegeneratedMessageId,
+  planBranchSwitch,
+  type MessageBranch,
+  type MessageTreeNode
+} from "./message-tree";
+import {
+  getQuotaLimit,
+  resolveQuotaSubject,
+  toQuotaViolation,
+  type QuotaKind,
+  type QuotaSnapshot,
+  type QuotaViolation
+} from "./usage-quota";
+import {
+  applySettingsPatch,
+  resolveSessionSettings,
+  type ChatSessionSettings,
+  type ChatSessionSettingsPatch,
+  type EffectiveSessionSettings
+} from "./session-settings";
+import {
+  customMcpServerSchema,
+  sessionLifecyclePatchSchema,
+  sessionSettingsPatchSchema,
+  type SessionLifecyclePatch
+} from "../../schema/api";
+import {
+  buildCustomServerTransport,
+  resolveCustomServerInput,
+  toCustomServerConfig,
+  type CustomMcpServerInput,
+  type CustomMcpServerRecord
+} from "./custom-mcp-servers";
+import {
+  buildProviderOptions,
+  getDefaultModelRef,
+  listModelOptions,
+  resolveModel,
+  type ModelOption
+} from "./model-registry";
 
 export interface McpServerConnectionState {
   preconfiguredServers: Record<
@@ -55,10 +198,41 @@ export interface McpServerConnectionState {
       serverId?: string;
       connected: boolean;
       error?: string;
+      /** Set while the server waits for the user to complete OAuth in a popup. */
+      authUrl?: string;
+      /** The server rejected its stored token; the user must authorize again. */
+      authExpired?: boolean;
     }
   >;
 }
 
+interface McpConnectOptions {
+  callbackHost?: string;
+  transport?: { type?: McpTransportType; headers?: HeadersInit };
+}
+
+interface ArchivedMessageRow {
+  seq: number;
+  id: string;
+  message: string;
+  created_at: string;
+}
+
+interface MessageTreeRow {
+  seq: number;
+  id: string;
+  parent_id: string | null;
+  selected_seq: number;
+}
+
+interface SearchIndexRow {
+  message_id: string;
+  role: string;
+  created_at: string;
+  content: string;
+  rank: number;
+}
+
 export interface ToolRunRecord {
   id: string;
   toolName: string;
@@ -95,8 +269,8 @@ export interface RetryStats {
 }
 
 export interface ToolApprovalRequest {
+  /** Matches the suspended tool call id so the approval part in the stream can be resolved. */
   id: string;
-  signature: string;
   toolName: string;
   serverId?: string;
   argsSnippet: string;
@@ -108,12 +282,21 @@ export interface ToolApprovalRequest {
 
 export interface ChatAgentState {
   mcp: McpServerConnectionState;
+  settings: ChatSessionSettings;
+  lifecycle: SessionLifecycleState;
+  /** Rolling summary of turns that no longer fit the prompt budget. */
+  contextSummary: ContextSummary | null;
+  /** Sibling versions of messages on the active path, from edits and regenerations. */
+  branches: MessageBranch[];
+  /** Set when the session was forked from another one. */
+  lineage: SessionLineage | null;
   runtime: {
     toolRuns: ToolRunRecord[];
     lastError?: string;
     events: AgentRuntimeEvent[];
     approvals: ToolApprovalRequest[];
-    approvedSignatures: Array<{ signature: string; expiresAt: string }>;
+    /** Approved tool calls that have not run yet; each approval is used up by its own call. */
+    approvedToolCalls: string[];
     retryStats: RetryStats;
     stateVersion: number;
   };
@@ -131,6 +314,26 @@ interface LiveProgressEvent {
 
 type ProgressEmitter = (event: LiveProgressEvent) => void;
 
+interface ModelRequest {
+  model: LanguageModel;
+  modelRef: string;
+  system: string;
+  messages: ModelMessage[];
+  temperature: number;
+  maxSteps: number;
+  maxOutputTokens?: number;
+  tools?: ToolSet;
+  providerOptions: ReturnType<typeof buildProviderOptions>;
+}
+
+interface ShareLinkRow {
+  id: string;
+  scope: string;
+  created_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
 /**
  * Unified Chat + MCP Agent
  *
@@ -148,18 +351,20 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     retry: { maxAttempts: 2, baseDelayMs: 150, maxDelayMs: 1500 }
   };
 
-  // Keep last 100 messages in SQLite storage
-  maxPersistedMessages = 100;
-
   initialState: ChatAgentState = {
     mcp: {
       preconfiguredServers: {}
     },
+    settings: {},
+    lifecycle: DEFAULT_SESSION_LIFECYCLE,
+    contextSummary: null,
+    branches: [],
+    lineage: null,
     runtime: {
       toolRuns: [],
       events: [],
       approvals: [],
-      approvedSignatures: [],
+      approvedToolCalls: [],
       retryStats: {
         tool: { attempts: 0, success: 0, exhausted: 0 },
         mcpConnection: { attempts: 0, success: 0, exhausted: 0 }
@@ -169,58 +374,106 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
   };
 
   private mcpInitPromise: Promise<void> | null = null;
+  /** Cached once known; owners are never replaced. */
+  private quotaOwnerId: string | null = null;
   private pendingSessionDeletion = false;
+  private searchIndexReady = false;
+  private messageTreeReady = false;
+  private messageTimesReady = false;
+  /** A REST regeneration waiting for the reply to `anchorId`; see `streamRegeneration`. */
+  private pendingRegeneration: { anchorId: string; sink: WritableStream<Uint8Array> } | null =
+    null;
+  private readonly replies = createReplyTracker();
+  /** Approval decisions waiting for the reply that asked for them to be persisted. */
+  private readonly pendingApprovalDecisions = new Map<string, ToolApprovalDecision>();
+
+  constructor(ctx: AgentContext, env: Env) {
+    super(ctx, env);
+    // Wraps the RPC and chat handlers installed by the base classes, so messages from
+    // share-link connections are screened before anything acts on them. The connections are
+    // not marked readonly: that would also block the state the agent writes while serving them.
+    const handleMessage = this.onMessage.bind(this);
+    this.onMessage = async (connection, message) => {
+      const share = this.getConnectionShare(connection);
+      if (!share) {
+        if (typeof message === "string") this.dropRegeneratedReplies(message);
+        return await handleMessage(connection, message);
+      }
+      if (typeof message !== "string") return;
+      const verdict = screenSharedMessage(
+        share.scope,
+        message,
+        Array.isArray(this.messages) ? this.messages : []
+      );
+      if (verdict.action === "reject") {
+        if (verdict.reply) connection.send(verdict.reply);
+        return;
+      }
+      return await handleMessage(connection, verdict.message);
+    };
+  }
 
   private isModelStreamEnabled(): boolean {
     return getModelStreamEnabled(this.runtimeEnv);
   }
 
-  private getThinkingType(): "enabled" | "disabled" {
-    return getThinkingType(this.runtimeEnv);
-  }
-
-  private getModelId(): string {
-    return getModelId(this.runtimeEnv);
-  }
-
-  private getMaxOutputTokens(): number | undefined {
-    return getMaxOutputTokens(this.runtimeEnv);
+  private getEffectiveSettings(): EffectiveSessionSettings {
+    return resolveSessionSettings(this.state.settings, {
+      model: getDefaultModelRef(this.runtimeEnv),
+      thinking: getThinkingType(this.runtimeEnv),
+      maxOutputTokens: getMaxOutputTokens(this.runtimeEnv)
+    });
   }
 
-  private async requestModelText(params: {
-    model: LanguageModel;
-    system: string;
-    messages: ModelMessage[];
-    temperature: number;
-    tools?: ToolSet;
-    abortSignal?: AbortSignal;
-  }): Promise<string> {
-    const maxOutputTokens = this.getMaxOutputTokens();
-    const callOptions = {
+  private buildModelCallOptions(params: ModelRequest & { abortSignal?: AbortSignal }) {
+    return {
       model: params.model,
       system: params.system,
       messages: params.messages,
       temperature: params.temperature,
       tools: params.tools,
-      stopWhen: stepCountIs(6),
+      stopWhen: stepCountIs(params.maxSteps),
       abortSignal: params.abortSignal,
-      ...(maxOutputTokens ? { maxOutputTokens } : {}),
-      providerOptions: {
-        glm: {
-          thinking: {
-            type: this.getThinkingType()
-          }
-        }
-      }
+      ...(params.maxOutputTokens ? { maxOutputTokens: params.maxOutputTokens } : {}),
+      providerOptions: params.providerOptions
     };
+  }
+
+  private async requestModelText(
+    params: ModelRequest & { abortSignal?: AbortSignal }
+  ): Promise<{ text: string; usage: MessageUsage }> {
+    const callOptions = this.buildModelCallOptions(params);
+    const startedAt = Date.now();
 
     if (this.isModelStreamEnabled()) {
       const result = streamText(callOptions);
-      return await result.text;
+      const text = await result.text;
+      const totalUsage = await result.totalUsage;
+      await this.recordTokenUsage(totalUsage);
+      return {
+        text,
+        usage: this.buildUsage(params.modelRef, totalUsage, await result.finishReason, startedAt)
+      };
     }
 
-    const { text } = await generateText(callOptions);
-    return text;
+    const { text, totalUsage, finishReason } = await generateText(callOptions);
+    await this.recordTokenUsage(totalUsage);
+    return { text, usage: this.buildUsage(params.modelRef, totalUsage, finishReason, startedAt) };
+  }
+
+  private buildUsage(
+    modelRef: string,
+    usage: ModelUsageLike | undefined,
+    finishReason: string | undefined,
+    startedAt: number
+  ): MessageUsage {
+    return buildMessageUsage({
+      modelRef,
+      usage,
+      finishReason,
+      latencyMs: Date.now() - startedAt,
+      prices: getModelPrices(this.runtimeEnv)
+    });
   }
 
   private get runtimeEnv(): Env {
@@ -228,7 +481,8 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
   }
 
   private isThinkingEnabled(): boolean {
-    return getThinkingEnabled(this.runtimeEnv);
+    const override = this.state.settings?.thinking;
+    return override ? override === "enabled" : getThinkingEnabled(this.runtimeEnv);
   }
 
   private appendRuntimeEvent(
@@ -276,13 +530,662 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     });
   }
 
+  private setServerEntry(
+    name: string,
+    entry: McpServerConnectionState["preconfiguredServers"][string] | undefined
+  ): void {
+    const { [name]: _previous, ...rest } = this.state.mcp.preconfiguredServers;
+    this.setState({
+      ...this.state,
+      mcp: {
+        preconfiguredServers: entry ? { ...rest, [name]: entry } : rest
+      },
+      runtime: {
+        ...this.state.runtime,
+        stateVersion: this.state.runtime.stateVersion + 1
+      }
+    });
+  }
+
+  private ensureCustomServerTable(): void {
+    this.sql`
+      create table if not exists custom_mcp_servers (
+        name text primary key,
+        record text not null,
+        updated_at text not null
+      )
+    `;
+  }
+
+  private loadCustomServerRecords(): CustomMcpServerRecord[] {
+    this.ensureCustomServerTable();
+    const rows = this.sql<{ record: string }>`
+      select record from custom_mcp_servers order by name
+    `;
+    return rows.flatMap((row) => {
+      try {
+        return [JSON.parse(row.record) as CustomMcpServerRecord];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  private getCustomServerRecord(name: string): CustomMcpServerRecord | undefined {
+    return this.loadCustomServerRecords().find((record) => record.name === name);
+  }
+
+  private saveCustomServerRecord(record: CustomMcpServerRecord): void {
+    this.ensureCustomServerTable();
+    const now = new Date().toISOString();
+    this.sql`
+      insert into custom_mcp_servers (name, record, updated_at)
+      values (${record.name}, ${JSON.stringify(record)}, ${now})
+      on conflict(name) do update set record = excluded.record, updated_at = excluded.updated_at
+    `;
+  }
+
+  private ensureMessageArchiveTable(): void {
+    this.sql`
+      create table if not exists chat_message_archive (
+        seq integer primary key autoincrement,
+        id text not null unique,
+        message text not null,
+        created_at text not null,
+        archived_at text not null
+      )
+    `;
+  }
+
+  /** When each message was first persisted; messages already stored date from its creation. */
+  private ensureMessageTimes(): void {
+    if (this.messageTimesReady) return;
+    const exists =
+      this.sql<{ name: string }>`
+        select name from sqlite_master where type = 'table' and name = 'chat_message_times'
+      `.length > 0;
+    if (!exists) {
+      this.sql`
+        create table chat_message_times (
+          id text primary key,
+          created_at text not null
+        )
+      `;
+      this.recordMessageTimes(Array.isArray(this.messages) ? this.messages : []);
+    }
+    this.messageTimesReady = true;
+  }
+
+  private recordMessageTimes(messages: UIMessage[]): void {
+    const now = new Date().toISOString();
+    for (const message of messages) {
+      this.sql`
+        insert into chat_message_times (id, created_at) values (${message.id}, ${now})
+        on conflict(id) do nothing
+      `;
+    }
+  }
+
+  private clearMessageTimes(): void {
+    this.ensureMessageTimes();
+    this.sql`delete from chat_message_times`;
+  }
+
+  /**
+   * Every version of every message, linked to its parent. Live history is the active path
+   * through this tree; edits and regenerations add siblings instead of replacing messages.
+   */
+  private ensureMessageTree(): void {
+    if (this.messageTreeReady) return;
+    const exists =
+      this.sql<{ name: string }>`
+        select name from sqlite_master where type = 'table' and name = 'chat_message_tree'
+      `.length > 0;
+    if (!exists) {
+      this.sql`
+        create table chat_message_tree (
+          seq integer primary key autoincrement,
+          id text not null unique,
+          parent_id text,
+          message text not null,
+          selected_seq integer not null default 0
+        )
+      `;
+      this.sql`create index chat_message_tree_parent_idx on chat_message_tree (parent_id)`;
+      // Sessions from before branching start out as a single path.
+      let parentId: string | null = null;
+      for (const message of [
+        ...this.readArchivedMessages(null, this.countArchivedMessages()),
+        ...this.listLiveHistory()
+      ]) {
+        const { createdAt: _createdAt, archived: _archived, ...stored } = message;
+        this.sql`
+          insert into chat_message_tree (id, parent_id, message, selected_seq)
+          values (${message.id}, ${parentId}, ${JSON.stringify(stored)}, 1)
+          on conflict(id) do nothing
+        `;
+        parentId = message.id;
+      }
+    }
+    this.messageTreeReady = true;
+  }
+
+  private readMessageTreeNodes(): MessageTreeNode[] {
+    this.ensureMessageTree();
+    return this.sql<MessageTreeRow>`
+      select seq, id, parent_id, selected_seq from chat_message_tree
+    `.map((row) => ({
+      id: row.id,
+      parentId: row.parent_id,
+      seq: Number(row.seq),
+      selectedSeq: Number(row.selected_seq)
+    }));
+  }
+
+  private nextSelectedSeq(): number {
+    return (
+      Number(
+        this.sql<{ seq: number | null }>`
+          select max(selected_seq) as seq from chat_message_tree
+        `[0]?.seq ?? 0
+      ) + 1
+    );
+  }
+
+  /** Record the active path in the tree; messages it has not seen become the selected child. */
+  private recordMessageTree(messages: UIMessage[]): void {
+    this.ensureMessageTree();
+    const selectedSeq = this.nextSelectedSeq();
+    let parentId = this.getLastArchivedMessageId();
+    for (const message of messages) {
+      this.sql`
+        insert into chat_message_tree (id, parent_id, message, selected_seq)
+        values (${message.id}, ${parentId}, ${JSON.stringify(message)}, ${selectedSeq})
+        on conflict(id) do update set parent_id = excluded.parent_id, message = excluded.message
+        where chat_message_tree.parent_id is not excluded.parent_id
+          or chat_message_tree.message <> excluded.message
+      `;
+      parentId = message.id;
+    }
+  }
+
+  private readTreeMessages(ids: string[]): UIMessage[] {
+    return ids.flatMap((id) => {
+      const row = this.sql<{ message: string }>`
+        select message from chat_message_tree where id = ${id}
+      `[0];
+      if (!row) return [];
+      try {
+        return [JSON.parse(row.message) as UIMessage];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  private clearMessageTree(): void {
+    this.ensureMessageTree();
+    this.sql`delete from chat_message_tree`;
+  }
+
+  /** Publish the sibling groups along the active path for branch navigation. */
+  private syncBranchState(): void {
+    const liveIds = (Array.isArray(this.messages) ? this.messages : []).map((m) => m.id);
+    const branches = collectPathBranches(this.readMessageTreeNodes(), liveIds);
+    if (JSON.stringify(branches) === JSON.stringify(this.state.branches ?? [])) return;
+    this.setState({
+      ...this.state,
+      branches,
+      runtime: {
+        ...this.state.runtime,
+        stateVersion: this.state.runtime.stateVersion + 1
+      }
+    });
+  }
+
+  /**
+   * A branch can replace the first live message, which is where the summary of archived
+   * turns ends. Move the boundary along so the summary keeps applying.
+   */
+  private rebaseContextSummary(): void {
+    const summary = this.state.contextSummary;
+    const first = Array.isArray(this.messages) ? this.messages[0] : undefined;
+    if (
+      summary &&
+      first &&
+      summary.boundaryMessageId !== first.id &&
+      summary.coveredThroughMessageId === this.getLastArchivedMessageId()
+    ) {
+      this.setContextSummary({ ...summary, boundaryMessageId: first.id });
+    }
+  }
+
+  /** Create the full-text index on first use, filled from the history stored so far. */
+  private ensureSearchIndex(): void {
+    if (this.searchIndexReady) return;
+    const exists =
+      this.sql<{ name: string }>`
+        select name from sqlite_master where type = 'table' and name = 'chat_message_search'
+      `.length > 0;
+    if (!exists) {
+      // Trigram tokens match substrings, which also covers text without spaces such as Chinese.
+      this.sql`
+        create virtual table chat_message_search using fts5(
+          message_id unindexed,
+          role unindexed,
+          created_at unindexed,
+          content,
+          tokenize = 'trigram'
+        )
+      `;
+      const history = [
+        ...this.readArchivedMessages(null, this.countArchivedMessages()),
+        ...this.listLiveHistory()
+      ];
+      for (const message of history) {
+        this.writeSearchRow(message);
+      }
+    }
+    this.searchIndexReady = true;
+  }
+
+  private writeSearchRow(message: HistoryMessage): void {
+    this.sql`delete from chat_message_search where message_id = ${message.id}`;
+    const content = extractSearchText(message.parts);
+    if (!content) return;
+    this.sql`
+      insert into chat_message_search (message_id, role, created_at, content)
+      values (${message.id}, ${message.role}, ${message.createdAt}, ${content})
+    `;
+  }
+
+  /**
+   * Index only what one persist changed: new messages and messages whose text was edited.
+   * Messages that left live history lose their rows unless they were archived.
+   */
+  private updateSearchIndex(
+    persisted: UIMessage[],
+    previous: ReadonlyMap<string, UIMessage>,
+    archivedIds: ReadonlySet<string>
+  ): void {
+    this.ensureSearchIndex();
+    const liveIds = new Set((Array.isArray(this.messages) ? this.messages : []).map((m) => m.id));
+    for (const messageId of previous.keys()) {
+      if (!liveIds.has(messageId) && !archivedIds.has(messageId)) {
+        this.deleteSearchRow(messageId);
+      }
+    }
+    for (const message of persisted) {
+      if (!liveIds.has(message.id)) continue;
+      const before = previous.get(message.id);
+      if (before && extractSearchText(before.parts) === extractSearchText(message.parts)) continue;
+      this.writeSearchRow({
+        ...message,
+        createdAt: this.readMessageTimestamp(message.id),
+        archived: false
+      });
+    }
+  }
+
+  private deleteSearchRow(messageId: string): void {
+    this.ensureSearchIndex();
+    this.sql`delete from chat_message_search where message_id = ${messageId}`;
+  }
+
+  private clearSearchIndex(): void {
+    this.ensureSearchIndex();
+    this.sql`delete from chat_message_search`;
+  }
+
+  private ensureUsageTable(): void {
+    this.sql`
+      create table if not exists chat_usage (
+        message_id text primary key,
+        model_ref text not null,
+        input_tokens integer not null,
+        output_tokens integer not null,
+        reasoning_tokens integer not null,
+        total_tokens integer not null,
+        latency_ms integer not null,
+        finish_reason text not null,
+        cost_usd real,
+        completed_at text not null
+      )
+    `;
+  }
+
+  /**
+   * Copy usage from assistant message metadata into the usage table. Rows outlive the
+   * messages they describe: deleting or regenerating a reply does not refund its tokens.
+   */
+  private recordMessageUsage(messages: UIMessage[]): void {
+    const usages = messages.flatMap((message) => {
+      const usage = message.role === "assistant" ? readMessageUsage(message.metadata) : null;
+      return usage ? [{ messageId: message.id, usage }] : [];
+    });
+    if (usages.length === 0) return;
+    this.ensureUsageTable();
+    for (const { messageId, usage } of usages) {
+      this.sql`
+        insert into chat_usage (
+          message_id, model_ref, input_tokens, output_tokens, reasoning_tokens,
+          total_tokens, latency_ms, finish_reason, cost_usd, completed_at
+        )
+        values (
+          ${messageId}, ${usage.modelRef}, ${usage.inputTokens}, ${usage.outputTokens},
+          ${usage.reasoningTokens}, ${usage.totalTokens}, ${usage.latencyMs},
+          ${usage.finishReason}, ${usage.costUsd}, ${usage.completedAt}
+        )
+        on conflict(message_id) do update set
+          model_ref = excluded.model_ref,
+          input_tokens = excluded.input_tokens,
+          output_tokens = excluded.output_tokens,
+          reasoning_tokens = excluded.reasoning_tokens,
+          total_tokens = excluded.total_tokens,
+          latency_ms = excluded.latency_ms,
+          finish_reason = excluded.finish_reason,
+          cost_usd = excluded.cost_usd,
+          completed_at = excluded.completed_at
+        where chat_usage.completed_at <> excluded.completed_at
+      `;
+    }
+  }
+
+  private ensureShareLinkTables(): void {
+    this.sql`
+      create table if not exists chat_share_links (
+        id text primary key,
+        scope text not null,
+        created_at text not null,
+        expires_at text not null,
+        revoked_at text
+      )
+    `;
+    this.sql`
+      create table if not exists chat_share_secret (
+        id integer primary key check (id = 1),
+        secret text not null
+      )
+    `;
+  }
+
+  /** Per-session signing key. It never leaves the agent, so only this session verifies its links. */
+  private getShareSecret(): string {
+    this.ensureShareLinkTables();
+    const existing = this.sql<{ secret: string }>`
+      select secret from chat_share_secret where id = 1
+    `[0]?.secret;
+    if (existing) return existing;
+    const secret = Array.from(crypto.getRandomValues(new Uint8Array(32)), (byte) =>
+      byte.toString(16).padStart(2, "0")
+    ).join("");
+    this.sql`insert into chat_share_secret (id, secret) values (1, ${secret})`;
+    return secret;
+  }
+
+  private getShareLinkRow(shareId: string): ShareLinkRow | null {
+    this.ensureShareLinkTables();
+    return this.sql<ShareLinkRow>`select * from chat_share_links where id = ${shareId}`[0] ?? null;
+  }
+
+  private async toShareLinkRecord(row: ShareLinkRow): Promise<ShareLinkRecord> {
+    const scope: ShareScope = isShareScope(row.scope) ? row.scope : "view";
+    const expiresAtMs = Date.parse(row.expires_at);
+    const active = !row.revoked_at && expiresAtMs > Date.now();
+    return {
+      id: row.id,
+      scope,
+      createdAt: row.created_at,
+      expiresAt: row.expires_at,
+      ...(row.revoked_at ? { revokedAt: row.revoked_at } : {}),
+      ...(active
+        ? {
+            token: await issueShareToken(this.getShareSecret(), {
+              shareId: row.id,
+              sessionId: this.name,
+              scope,
+              expiresAt: Math.floor(expiresAtMs / 1000)
+            })
+          }
+        : {})
+    };
+  }
+
+  private getConnectionShare(connection: Connection): ShareAccess | null {
+    const state = connection.state as { share?: ShareAccess } | null | undefined;
+    return state?.share ?? null;
+  }
+
+  /** Access granted by a share token, or null when it is forged, expired or revoked. */
+  async resolveShareToken(token: string): Promise<ShareAccess | null> {
+    const claims = await verifyShareToken(this.getShareSecret(), token);
+    if (!claims || claims.sessionId !== this.name) return null;
+    const row = this.getShareLinkRow(claims.shareId);
+    if (!row || row.revoked_at) return null;
+    return { shareId: claims.shareId, scope: claims.scope };
+  }
+
+  /**
+   * Move the first `count` live messages into the archive. Archived messages stay readable
+   * through the history API but are no longer loaded into memory or sent to the model.
+   */
+  private async archiveMessages(count: number): Promise<void> {
+    const messages = Array.isArray(this.messages) ? this.messages : [];
+    const archived = messages.slice(0, count);
+    if (archived.length === 0) return;
+    this.ensureMessageArchiveTable();
+    const createdAt = this.readMessageTimestamps();
+    const now = new Date().toISOString();
+    for (const message of archived) {
+      this.sql`
+        insert into chat_message_archive (id, message, created_at, archived_at)
+        values (${message.id}, ${JSON.stringify(message)}, ${createdAt.get(message.id) ?? now}, ${now})
+        on conflict(id) do nothing
+      `;
+    }
+
+    // AIChatAgent evicts its oldest rows past `maxPersistedMessages`, in the order it loads
+    // them, so exactly the archived messages leave its storage. Clients keep what they have.
+    const remaining = messages.slice(archived.length);
+    this.maxPersistedMessages = remaining.length;
+    try {
+      await super.persistMessages(
+        remaining,
+        [...this.getConnections()].map((connection) => connection.id)
+      );
+    } finally {
+      this.maxPersistedMessages = undefined;
+    }
+  }
+
+  /**
+   * Delete the stored rows of live messages that are not on `path`. AIChatAgent's
+   * `persistMessages` only upserts, so a shorter or different path would leave them behind
+   * and they would load again. Other versions stay in the message tree. Persist `path` right
+   * after, which reloads `this.messages`.
+   */
+  private dropMessagesOffPath(path: UIMessage[]): void {
+    const keep = new Set(path.map((message) => message.id));
+    const stored = this.sql<{ id: string }>`select id from cf_ai_chat_agent_messages`;
+    for (const { id } of stored) {
+      if (!keep.has(id)) this.sql`delete from cf_ai_chat_agent_messages where id = ${id}`;
+    }
+  }
+
+  /**
+   * The chat UI regenerates by re-sending the history up to an answered user message, which
+   * the library only upserts, so the replies it replaces are dropped before it does.
+   */
+  private dropRegeneratedReplies(raw: string): void {
+    let body: { messages?: unknown };
+    try {
+      const request = JSON.parse(raw) as { type?: unknown; init?: { body?: unknown } };
+      if (request.type !== "cf_agent_use_chat_request" || typeof request.init?.body !== "string") {
+        return;
+      }
+      body = JSON.parse(request.init.body) as typeof body;
+    } catch {
+      return;
+    }
+    const live = Array.isArray(this.messages) ? this.messages : [];
+    const anchorId = findRegeneratedMessageId(
+      Array.isArray(body.messages) ? body.messages : [],
+      live.map((message) => message.id)
+    );
+    if (!anchorId) return;
+    const anchorIndex = live.findIndex((message) => message.id === anchorId);
+    this.dropMessagesOffPath(live.slice(0, anchorIndex + 1));
+  }
+
+  private readMessageTimestamps(): Map<string, string> {
+    this.ensureMessageTimes();
+    return new Map(
+      this.sql<{ id: string; created_at: string }>`
+        select id, created_at from chat_message_times
+      `.map((row) => [row.id, toIsoTimestamp(row.created_at)])
+    );
+  }
+
+  private readMessageTimestamp(messageId: string): string {
+    this.ensureMessageTimes();
+    return toIsoTimestamp(
+      this.sql<{ created_at: string }>`
+        select created_at from chat_message_times where id = ${messageId}
+      `[0]?.created_at ?? new Date().toISOString()
+    );
+  }
+
+  /** Ids of every archived message, read once for callers that check many messages. */
+  private readArchivedMessageIds(): Set<string> {
+    this.ensureMessageArchiveTable();
+    return new Set(
+      this.sql<{ id: string }>`select id from chat_message_archive`.map((row) => row.id)
+    );
+  }
+
+  private getLastArchivedMessageId(): string | null {
+    this.ensureMessageArchiveTable();
+    return (
+      this.sql<{ id: string }>`
+        select id from chat_message_archive order by seq desc limit 1
+      `[0]?.id ?? null
+    );
+  }
+
+  private readArchivedMessages(beforeSeq: number | null, count: number): HistoryMessage[] {
+    this.ensureMessageArchiveTable();
+    const rows =
+      beforeSeq === null
+        ? this.sql<ArchivedMessageRow>`
+            select * from chat_message_archive order by seq desc limit ${count}
+          `
+        : this.sql<ArchivedMessageRow>`
+            select * from chat_message_archive
+            where seq < ${beforeSeq}
+            order by seq desc
+            limit ${count}
+          `;
+    return rows.reverse().flatMap((row) => {
+      try {
+        const message = JSON.parse(row.message) as UIMessage;
+        return [
+          {
+            id: message.id,
+            role: message.role,
+            parts: message.parts,
+            ...(message.metadata !== undefined ? { metadata: message.metadata } : {}),
+            createdAt: row.created_at,
+            archived: true
+          }
+        ];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  private readOldestArchivedMessages(count: number): UIMessage[] {
+    this.ensureMessageArchiveTable();
+    const rows = this.sql<{ message: string }>`
+      select message from chat_message_archive order by seq limit ${count}
+    `;
+    return rows.flatMap((row) => {
+      try {
+        return [JSON.parse(row.message) as UIMessage];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  private countArchivedMessages(): number {
+    this.ensureMessageArchiveTable();
+    return Number(
+      this.sql<{ cnt: number }>`select count(*) as cnt from chat_message_archive`[0]?.cnt ?? 0
+    );
+  }
+
+  private clearMessageArchive(): void {
+    this.ensureMessageArchiveTable();
+    this.sql`delete from chat_message_archive`;
+  }
+
+  private buildServerConnectOptions(config: McpServerConfig): McpConnectOptions {
+    const runtimeEnv = this.runtimeEnv;
+    const options: McpConnectOptions = {};
+    if (runtimeEnv.HOST) {
+      options.callbackHost = runtimeEnv.HOST;
+    }
+
+    if (config.custom) {
+      const record = this.getCustomServerRecord(config.name);
+      if (!record) {
+        throw new Error(`Custom server "${config.name}" has no stored configuration`);
+      }
+      options.transport = buildCustomServerTransport(record);
+      return options;
+    }
+
+    const apiKey = getApiKey(config, runtimeEnv);
+    if (apiKey) {
+      options.transport = {
+        type: "streamable-http",
+        headers: {
+          Authorization: `Bearer ${apiKey}`
+        }
+      };
+    }
+    return options;
+  }
+
+  private findServerNameById(serverId: string): string | undefined {
+    return Object.entries(this.state.mcp.preconfiguredServers).find(
+      ([, entry]) => entry.serverId === serverId
+    )?.[0];
+  }
+
+  /** Flag an OAuth server whose token was rejected so the UI can offer re-authorization. */
+  private markServerAuthExpired(serverId: string): void {
+    const name = this.findServerNameById(serverId);
+    const entry = name ? this.state.mcp.preconfiguredServers[name] : undefined;
+    if (!name || entry?.config.custom?.auth !== "oauth" || entry.authExpired) return;
+    this.setServerConnectionState(name, {
+      connected: false,
+      authExpired: true,
+      error: "Authorization expired. Re-authorize to continue."
+    });
+    this.appendRuntimeEvent({
+      level: "error",
+      source: "mcp",
+      type: "oauth_expired",
+      message: `MCP server ${name} authorization expired.`,
+      data: { serverId }
+    });
+  }
+
   private setServerConnectionState(
     name: string,
-    next: Partial<{
-      serverId?: string;
-      connected: boolean;
-      error?: string;
-    }>
+    next: Partial<Omit<McpServerConnectionState["preconfiguredServers"][string], "config">>
   ): void {
     const current = this.state.mcp.preconfiguredServers[name];
     if (!current) return;
@@ -331,34 +1234,35 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
         return now - new Date(item.resolvedAt).getTime() < 1000 * 60 * 60 * 24;
       })
       .slice(-120);
-    const approvedSignatures = this.state.runtime.approvedSignatures.filter(
-      (entry) => new Date(entry.expiresAt).getTime() > now
+    const keptIds = new Set(keptApprovals.map((item) => item.id));
+    const approvedToolCalls = (this.state.runtime.approvedToolCalls ?? []).filter((id) =>
+      keptIds.has(id)
     );
     this.setState({
       ...this.state,
       runtime: {
         ...this.state.runtime,
         approvals: keptApprovals,
-        approvedSignatures,
+        approvedToolCalls,
         stateVersion: this.state.runtime.stateVersion + 1
       }
     });
   }
 
-  private hasApprovedSignature(signature: string): boolean {
-    const now = Date.now();
-    const exists = this.state.runtime.approvedSignatures.some(
-      (entry) => entry.signature === signature && new Date(entry.expiresAt).getTime() > now
-    );
-    if (!exists) return false;
-    const remaining = this.state.runtime.approvedSignatures.filter(
-      (entry) => !(entry.signature === signature && new Date(entry.expiresAt).getTime() > now)
-    );
+  private isToolCallApproved(toolCallId: string): boolean {
+    return (this.state.runtime.approvedToolCalls ?? []).includes(toolCallId);
+  }
+
+  /** Use up the approval of `toolCallId`; false when it was never approved or already ran. */
+  private consumeToolCallApproval(toolCallId: string): boolean {
+    if (!this.isToolCallApproved(toolCallId)) return false;
     this.setState({
       ...this.state,
       runtime: {
         ...this.state.runtime,
-        approvedSignatures: remaining,
+        approvedToolCalls: (this.state.runtime.approvedToolCalls ?? []).filter(
+          (id) => id !== toolCallId
+        ),
         stateVersion: this.state.runtime.stateVersion + 1
       }
     });
@@ -366,20 +1270,17 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
   }
 
   private queueApproval(params: {
-    signature: string;
+    toolCallId: string;
     toolName: string;
     serverId?: string;
     argsSnippet: string;
   }): ToolApprovalRequest {
-    const existing = this.state.runtime.approvals.find(
-      (item) => item.signature === params.signature && item.status === "pending"
-    );
+    const existing = this.state.runtime.approvals.find((item) => item.id === params.toolCallId);
     if (existing) {
       return existing;
     }
     const nextApproval: ToolApprovalRequest = {
-      id: crypto.randomUUID(),
-      signature: params.signature,
+      id: params.toolCallId,
       toolName: params.toolName,
       serverId: params.serverId,
       argsSnippet: params.argsSnippet,
@@ -397,6 +1298,174 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     return nextApproval;
   }
 
+  /**
+   * Resolve the approval part of a suspended tool call in the persisted history and
+   * continue the turn through `saveMessages`, as a reply of its own. Everything needed
+   * lives in SQLite, so this also works after the Durable Object hibernated between the
+   * request and the decision.
+   */
+  private async resumeSuspendedToolCall(
+    toolCallId: string,
+    approved: boolean,
+    reason?: string
+  ): Promise<boolean> {
+    // The reply that asked for approval, or a newer one, may still be streaming.
+    await this.replies.idle();
+
+    const decision: ToolApprovalDecision = { approved, reason };
+    const updatedMessages = applyToolApprovalDecision(
+      Array.isArray(this.messages) ? this.messages : [],
+      toolCallId,
+      decision
+    );
+    if (!updatedMessages) {
+      // AIChatAgent stores the approval request while streaming and persists the finished
+      // reply after its last chunk; the decision is applied by the persist that lands it.
+      if (!this.hasStoredApprovalRequest(toolCallId)) return false;
+      this.pendingApprovalDecisions.set(toolCallId, decision);
+      return true;
+    }
+
+    try {
+      await this.saveMessages(updatedMessages);
+    } catch {
+      // The decision is saved; onError has already recorded why the continuation failed.
+    }
+    return true;
+  }
+
+  private hasStoredApprovalRequest(toolCallId: string): boolean {
+    const rows = this.sql<{ message: string }>`
+      select message from cf_ai_chat_agent_messages where message like ${`%${toolCallId}%`}
+    `;
+    return rows.some((row) => {
+      try {
+        const message = JSON.parse(row.message) as UIMessage;
+        return applyToolApprovalDecision([message], toolCallId, { approved: true }) !== null;
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  /** Continue turns whose approval was decided before their reply was persisted. */
+  private resumePendingApprovals(): void {
+    for (const [toolCallId, decision] of this.pendingApprovalDecisions) {
+      const updatedMessages = applyToolApprovalDecision(
+        Array.isArray(this.messages) ? this.messages : [],
+        toolCallId,
+        decision
+      );
+      if (!updatedMessages) continue;
+      this.pendingApprovalDecisions.delete(toolCallId);
+      void this.saveMessages(updatedMessages).catch(() => {
+        // onError has already recorded why the continuation failed.
+      });
+    }
+  }
+
+  /**
+   * Report this session's title, activity, and message count to the session directory.
+   * Failures are logged only; the directory is an index, not the source of truth.
+   */
+  private async syncSessionIndex(): Promise<void> {
+    if (this.pendingSessionDeletion) return;
+    const messages = Array.isArray(this.messages) ? this.messages : [];
+    const archivedCount = this.countArchivedMessages();
+    const firstUser =
+      this.readOldestArchivedMessages(4).find((message) => message.role === "user") ??
+      messages.find((message) => message.role === "user");
+    const last = messages[messages.length - 1];
+    const lineage = this.state.lineage;
+    try {
+      const directory = await getSessionDirectory(this.runtimeEnv);
+      await directory.upsertSession({
+        sessionId: this.name,
+        title: (firstUser ? this.getMessageText(firstUser) : "").slice(0, 30) || "New Chat",
+        lastMessage: (last ? this.getMessageText(last) : "").slice(0, 200),
+        messageCount: archivedCount + messages.length,
+        updatedAt: new Date().toISOString(),
+        ...(lineage
+          ? { parentSessionId: lineage.parentSessionId, forkMessageId: lineage.forkMessageId }
+          : {})
+      });
+    } catch (error) {
+      console.error("Error updating session index:", error);
+    }
+  }
+
+  /** Quotas are charged to the session's owner; sessions nobody owns are not limited. */
+  private async getQuotaSubject(): Promise<string | null> {
+    if (!this.quotaOwnerId) {
+      const directory = await getSessionDirectory(this.runtimeEnv);
+      this.quotaOwnerId = (await directory.getSession(this.name))?.ownerId ?? null;
+    }
+    return resolveQuotaSubject(this.quotaOwnerId);
+  }
+
+  /**
+   * Take `amount` from a quota and return the violation when it does not fit. Counter
+   * failures are logged and let the request through; quotas must not take chat down.
+   */
+  private async consumeQuota(
+    kind: QuotaKind,
+    options: { amount?: number; toolName?: string } = {}
+  ): Promise<QuotaViolation | null> {
+    const limit = getQuotaLimit(getQuotaLimits(this.runtimeEnv), kind);
+    if (limit === null) return null;
+    try {
+      const subject = await this.getQuotaSubject();
+      if (!subject) return null;
+      const counter = await getQuotaCounter(this.runtimeEnv, subject);
+      const { allowed, ...budget } = await counter.consume({ kind, limit, ...options });
+      if (allowed) return null;
+      const violation = toQuotaViolation(budget);
+      this.appendRuntimeEvent({
+        level: "error",
+        source: kind === "toolCalls" ? "tool" : "chat",
+        type: "quota_exceeded",
+        message: violation.message,
+        data: { code: violation.code, kind, ...(options.toolName ? { toolName: options.toolName } : {}) }
+      });
+      return violation;
+    } catch (error) {
+      console.error("Error checking usage quota:", error);
+      return null;
+    }
+  }
+
+  /** A new turn needs daily token budget left and costs one message. */
+  private async consumeTurnQuota(): Promise<QuotaViolation | null> {
+    return (await this.consumeQuota("tokens", { amount: 0 })) ?? (await this.consumeQuota("messages"));
+  }
+
+  private async recordTokenUsage(usage: { totalTokens?: number } | undefined): Promise<void> {
+    const amount = usage?.totalTokens ?? 0;
+    if (amount <= 0 || getQuotaLimits(this.runtimeEnv).tokensPerDay === null) return;
+    try {
+      const subject = await this.getQuotaSubject();
+      if (!subject) return;
+      const counter = await getQuotaCounter(this.runtimeEnv, subject);
+      await counter.record({ kind: "tokens", amount });
+    } catch (error) {
+      console.error("Error recording token usage:", error);
+    }
+  }
+
+  private async getQuotaSnapshot(): Promise<QuotaSnapshot | null> {
+    const limits = getQuotaLimits(this.runtimeEnv);
+    if (Object.values(limits).every((limit) => limit === null)) return null;
+    try {
+      const subject = await this.getQuotaSubject();
+      if (!subject) return null;
+      const counter = await getQuotaCounter(this.runtimeEnv, subject);
+      return { subject, ...(await counter.getSnapshot(limits)) };
+    } catch (error) {
+      console.error("Error reading usage quotas:", error);
+      return null;
+    }
+  }
+
   private getToolTimeoutMs(): number {
     return getToolTimeoutMs(this.runtimeEnv);
   }
@@ -513,15 +1582,52 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     return normalizeArgs(toolName, args);
   }
 
+  private loadAttachment: AttachmentLoader = async ({ sessionId, id }) => {
+    // A session only ever reads the files stored under its own id.
+    if (sessionId !== this.name) return null;
+    const object = await this.runtimeEnv.ATTACHMENTS?.get(buildAttachmentKey(sessionId, id));
+    if (!object) return null;
+    return {
+      bytes: new Uint8Array(await object.arrayBuffer()),
+      mediaType: object.httpMetadata?.contentType ?? "application/octet-stream"
+    };
+  };
+
+  /** Best effort: attachments outlive their session only until this runs. */
+  private async deleteStoredAttachments(): Promise<void> {
+    const bucket = this.runtimeEnv.ATTACHMENTS;
+    if (!bucket) return;
+    try {
+      const prefix = buildAttachmentKey(this.name, "");
+      let cursor: string | undefined;
+      do {
+        const listed = await bucket.list({ prefix, cursor });
+        if (listed.objects.length > 0) {
+          await bucket.delete(listed.objects.map((object: { key: string }) => object.key));
+        }
+        cursor = listed.truncated ? listed.cursor : undefined;
+      } while (cursor);
+    } catch (error) {
+      console.error("Error deleting session attachments:", error);
+    }
+  }
+
   private async convertMessagesWithFallback(
+    vision: boolean,
+    startIndex: number,
     emitProgress?: ProgressEmitter
   ): Promise<{ modelMessages: ModelMessage[]; source: "converted" | "fallback" }> {
-    const currentMessages = Array.isArray(this.messages) ? this.messages : [];
+    const currentMessages = await prepareAttachmentsForModel(
+      (Array.isArray(this.messages) ? this.messages : []).slice(startIndex),
+      { sessionId: this.name, vision, load: this.loadAttachment }
+    );
     try {
-      const converted = await convertToModelMessages(currentMessages);
+      const converted = await convertToModelMessages(currentMessages, {
+        convertDataPart: convertResourceDataPart
+      });
       return { modelMessages: converted, source: "converted" };
     } catch (error) {
-      const fallbackMessages = toFallbackModelMessages(currentMessages);
+      const fallbackMessages = toFallbackModelMessages(currentMessages, { vision });
 
       emitProgress?.({
         phase: "context",
@@ -557,12 +1663,57 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
       const shortName = rawName;
 
       const aliases = shortNameCounts.get(shortName) === 1 ? [shortName, item.name] : [item.name];
+      const inputSchema = normalizeMcpInputSchema(item.inputSchema);
       for (const alias of aliases) {
         if (tools[alias]) continue;
         tools[alias] = tool({
           description: item.description || `MCP tool ${rawName}`,
-          inputSchema: z.object({}).passthrough(),
-          execute: async (args: Record<string, unknown>) => {
+          // Arguments are validated inside execute so failures reach the model as tool output.
+          inputSchema: jsonSchema<Record<string, unknown>>(inputSchema),
+          // Suspends the run with an approval part; execution resumes via approveToolCall/rejectToolCall.
+          needsApproval: (args: Record<string, unknown>, { toolCallId }) => {
+            const normalizedArgs = this.normalizeToolArguments(rawName, args);
+            if (
+              !requiresApprovalPolicy(rawName, normalizedArgs) ||
+              this.isToolCallApproved(toolCallId)
+            ) {
+              return false;
+            }
+            const argsSnippet = JSON.stringify(normalizedArgs).slice(0, 320);
+            const approval = this.queueApproval({
+              toolCallId,
+              toolName: alias,
+              serverId,
+              argsSnippet
+            });
+            const now = new Date().toISOString();
+            this.upsertToolRun({
+              id: crypto.randomUUID(),
+              toolName: alias,
+              serverId,
+              status: "blocked",
+              startedAt: now,
+              finishedAt: now,
+              argsSnippet,
+              error: `Tool "${alias}" requires approval (id: ${approval.id}).`
+            });
+            this.appendRuntimeEvent({
+              level: "info",
+              source: "tool",
+              type: "tool_approval_required",
+              message: `Tool ${alias} pending approval`,
+              data: { toolName: alias, approvalId: approval.id }
+            });
+            emitProgress?.({
+              phase: "tool",
+              status: "info",
+              toolName: alias,
+              message: `Tool "${alias}" is waiting for approval`,
+              snippet: argsSnippet.slice(0, 240)
+            });
+            return true;
+          },
+          execute: async (args: Record<string, unknown>, { toolCallId }) => {
             const normalizedArgs = this.normalizeToolArguments(rawName, args);
             const runId = crypto.randomUUID();
             const runStart = new Date().toISOString();
@@ -604,37 +1755,70 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
                 this.updateLastError(error);
                 return { error };
               }
-              const approvalSignature = buildApprovalSignature(rawName, serverId, normalizedArgs);
-              if (requiresApprovalPolicy(rawName, normalizedArgs) && !this.hasApprovedSignature(approvalSignature)) {
-                const approval = this.queueApproval({
-                  signature: approvalSignature,
+              const validation = validateToolArguments(inputSchema, normalizedArgs);
+              if (!validation.valid) {
+                const error = `Invalid arguments for tool "${alias}".`;
+                this.upsertToolRun({
+                  ...baseRun,
+                  status: "error",
+                  finishedAt: new Date().toISOString(),
+                  error
+                });
+                this.appendRuntimeEvent({
+                  level: "error",
+                  source: "tool",
+                  type: "tool_validation_error",
+                  message: `Tool ${alias} rejected invalid arguments`,
+                  data: { toolName: alias, issues: validation.issues }
+                });
+                emitProgress?.({
+                  phase: "tool",
+                  status: "error",
                   toolName: alias,
-                  serverId,
-                  argsSnippet: JSON.stringify(normalizedArgs).slice(0, 320)
+                  message: `Tool "${alias}" received invalid arguments`,
+                  snippet: JSON.stringify(validation.issues).slice(0, 240)
                 });
-                const error = `Tool "${alias}" requires approval (id: ${approval.id}).`;
+                return {
+                  error,
+                  status: "invalid_arguments",
+                  issues: validation.issues,
+                  hint: "Fix the listed arguments to match the tool input schema and call the tool again."
+                };
+              }
+              if (
+                requiresApprovalPolicy(rawName, normalizedArgs) &&
+                !this.consumeToolCallApproval(toolCallId)
+              ) {
+                const error = `Tool "${alias}" was not approved for this call.`;
                 this.upsertToolRun({
                   ...baseRun,
                   status: "blocked",
                   finishedAt: new Date().toISOString(),
                   error
                 });
-                this.appendRuntimeEvent({
-                  level: "info",
-                  source: "tool",
-                  type: "tool_approval_required",
-                  message: `Tool ${alias} pending approval`,
-                  data: { toolName: alias, approvalId: approval.id }
+                return { error, status: "approval_required" };
+              }
+              const quotaViolation = await this.consumeQuota("toolCalls", { toolName: alias });
+              if (quotaViolation) {
+                this.upsertToolRun({
+                  ...baseRun,
+                  status: "error",
+                  finishedAt: new Date().toISOString(),
+                  error: quotaViolation.message
                 });
-                this.updateLastError(error);
                 emitProgress?.({
                   phase: "tool",
-                  status: "info",
+                  status: "error",
                   toolName: alias,
-                  message: `Tool "${alias}" is waiting for approval`,
-                  snippet: error
+                  message: `Tool "${alias}" is over its hourly quota`,
+                  snippet: quotaViolation.message
                 });
-                return { error, approvalId: approval.id, status: "pending_approval" };
+                return {
+                  error: quotaViolation.message,
+                  status: "quota_exceeded",
+                  retryAfterSeconds: quotaViolation.retryAfterSeconds,
+                  hint: "Do not call this tool again in this turn; answer with what you already have."
+                };
               }
               const result = await this.callMcpToolWithRetry({
                 name: rawName,
@@ -685,6 +1869,9 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
                 }
               });
               this.updateLastError(message);
+              if (serverId && isAuthorizationError(error)) {
+                this.markServerAuthExpired(serverId);
+              }
               emitProgress?.({
                 phase: "tool",
                 status: "error",
@@ -703,13 +1890,54 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     return { tools, toolList };
   }
 
-  onConnect(_connection: Connection, _ctx: ConnectionContext) {
-    cancelIdleSchedules(this as never);
+  /**
+   * The worker rejects unauthorized upgrades before they get here; this closes connections
+   * that reach the agent some other way, and claims a new session for the caller.
+   */
+  private async authorizeConnection(connection: Connection, request: Request): Promise<boolean> {
+    try {
+      const authenticator = createAuthenticatorFromEnv(this.runtimeEnv);
+      if (!authenticator.enabled) return true;
+      const identity = await authenticator.authenticate(request);
+      if (!identity) {
+        connection.close(4401, "Authentication required");
+        return false;
+      }
+      const directory = await getSessionDirectory(this.runtimeEnv);
+      const ownerId = await directory.claimSession(this.name, identity.userId);
+      this.quotaOwnerId = ownerId;
+      if (!canAccessSession(ownerId, identity)) {
+        connection.close(4403, "This session belongs to another user");
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error("Error authorizing connection:", error);
+      connection.close(1011, "Authorization failed");
+      return false;
+    }
   }
 
-  shouldConnectionBeReadonly(_connection: Connection, ctx: ConnectionContext): boolean {
-    const url = new URL(ctx.request.url);
-    return url.searchParams.get("mode") === "view";
+  async onConnect(connection: Connection, ctx: ConnectionContext) {
+    const shareToken = readShareToken(ctx.request);
+    if (shareToken) {
+      const share = await this.resolveShareToken(shareToken);
+      if (!share) {
+        connection.close(4403, "This share link is invalid, expired or revoked");
+        return;
+      }
+      connection.setState({ share });
+    } else if (!(await this.authorizeConnection(connection, ctx.request))) {
+      return;
+    }
+    cancelIdleSchedules(this as never);
+    const lifecycle = this.getLifecycle();
+    if (lifecycle.idleTimeoutAt || lifecycle.hibernatedAt) {
+      this.setLifecycle({ idleTimeoutAt: undefined, hibernatedAt: undefined });
+    }
+    if (lifecycle.hibernatedAt) {
+      void this.ensureMcpConnections();
+    }
   }
 
   onError(connectionOrError: Connection | unknown, maybeError?: unknown) {
@@ -743,35 +1971,248 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
       })();
       return;
     }
-    scheduleIdleDestroy(this as never, {
-      idleTimeoutSeconds: resolveIdleTimeoutSeconds(this.runtimeEnv.AGENT_IDLE_TIMEOUT_SECONDS)
+    this.scheduleIdleTimeout();
+  }
+
+  private getLifecycle(): SessionLifecycleState {
+    return this.state.lifecycle ?? DEFAULT_SESSION_LIFECYCLE;
+  }
+
+  private setLifecycle(patch: Partial<SessionLifecycleState>): void {
+    this.setState({
+      ...this.state,
+      lifecycle: { ...this.getLifecycle(), ...patch },
+      runtime: {
+        ...this.state.runtime,
+        stateVersion: this.state.runtime.stateVersion + 1
+      }
     });
   }
 
-  async onIdleTimeout() {
-    const destroyed = await destroyIfIdle(this as never);
-    if (destroyed) {
+  private setContextSummary(summary: ContextSummary | null): void {
+    this.setState({
+      ...this.state,
+      contextSummary: summary,
+      runtime: {
+        ...this.state.runtime,
+        stateVersion: this.state.runtime.stateVersion + 1
+      }
+    });
+  }
+
+  /**
+   * Keep the verbatim history within the context budget by folding the oldest turns into a
+   * rolling summary and archiving them. Returns the index of the first message to send
+   * verbatim.
+   */
+  private async manageContextWindow(
+    resolved: NonNullable<ReturnType<typeof resolveModel>>,
+    model: LanguageModel,
+    overheadTokens: number,
+    emitProgress?: ProgressEmitter
+  ): Promise<{ startIndex: number; summary: ContextSummary | null }> {
+    const messages = Array.isArray(this.messages) ? this.messages : [];
+    let summary = this.state.contextSummary ?? null;
+    const resolvedStart = resolveSummaryStart(messages, summary, this.getLastArchivedMessageId());
+    const startIndex = resolvedStart ?? 0;
+    if (summary && resolvedStart === null) {
+      summary = null;
+      this.setContextSummary(null);
       this.appendRuntimeEvent({
         level: "info",
-        source: "system",
-        type: "idle_destroy",
-        message: "Agent destroyed after idle timeout."
+        source: "chat",
+        type: "context_summary_reset",
+        message: "Conversation summary no longer matches history and was discarded."
+      });
+    }
+
+    const budgetTokens = Math.max(
+      1_000,
+      getContextTokenBudget(this.runtimeEnv) - overheadTokens - estimateTokens(summary?.text ?? "")
+    );
+    const plan = planContextWindow({ messages, startIndex, budgetTokens });
+    if (plan.action === "none") {
+      return { startIndex, summary };
+    }
+
+    emitProgress?.({
+      phase: "context",
+      status: "info",
+      message: `History exceeds ${budgetTokens} tokens; summarizing ${plan.foldUntil - startIndex} earlier messages.`
+    });
+
+    const foldedCount = plan.foldUntil - startIndex;
+    try {
+      const { text, usage } = await generateText({
+        model,
+        system: SUMMARY_SYSTEM_PROMPT,
+        prompt: buildSummaryPrompt(
+          summary?.text,
+          buildSummaryTranscript(messages.slice(startIndex, plan.foldUntil))
+        ),
+        maxOutputTokens: 2_048,
+        providerOptions: buildProviderOptions(resolved, { thinking: "disabled" })
+      });
+      await this.recordTokenUsage(usage);
+      const trimmed = text.trim();
+      if (!trimmed) {
+        throw new Error("Summary model returned an empty response.");
+      }
+      summary = {
+        text: trimmed.slice(0, MAX_SUMMARY_CHARS),
+        boundaryMessageId: messages[plan.foldUntil].id,
+        coveredThroughMessageId: messages[plan.foldUntil - 1].id,
+        summarizedCount: (summary?.summarizedCount ?? 0) + foldedCount,
+        updatedAt: new Date().toISOString()
+      };
+      this.setContextSummary(summary);
+      await this.archiveMessages(plan.foldUntil);
+      this.appendRuntimeEvent({
+        level: "success",
+        source: "chat",
+        type: "context_summarized",
+        message: `Summarized ${foldedCount} earlier messages to fit the context budget.`,
+        data: {
+          summarizedCount: summary.summarizedCount,
+          historyTokens: plan.historyTokens,
+          budgetTokens
+        }
+      });
+      return { startIndex: 0, summary };
+    } catch (error) {
+      // Nothing is folded without a summary to replace it; the model still sees every turn,
+      // and a request over the provider's limit fails visibly instead of forgetting them.
+      const message = error instanceof Error ? error.message : String(error);
+      this.appendRuntimeEvent({
+        level: "error",
+        source: "chat",
+        type: "context_summary_failed",
+        message: `Failed to summarize earlier messages: ${message}`,
+        data: { unsummarizedCount: foldedCount, historyTokens: plan.historyTokens, budgetTokens }
+      });
+      emitProgress?.({
+        phase: "context",
+        status: "error",
+        message: "Summarizing earlier messages failed; sending the full history instead."
       });
+      return { startIndex, summary };
+    }
+  }
+
+  private describeLifecycle(): SessionLifecycleSnapshot {
+    return describeLifecycle(
+      this.getLifecycle(),
+      resolveIdleTimeoutSeconds(this.runtimeEnv.AGENT_IDLE_TIMEOUT_SECONDS)
+    );
+  }
+
+  private scheduleIdleTimeout(): void {
+    cancelIdleSchedules(this as never);
+    const firesAt = scheduleIdleTimeout(this as never, {
+      idleTimeoutSeconds: this.describeLifecycle().idleTimeoutSeconds
+    });
+    if (firesAt) {
+      this.setLifecycle({ idleTimeoutAt: firesAt.toISOString() });
+    }
+  }
+
+  /**
+   * Drop live MCP connections so an idle persistent session holds nothing open.
+   * OAuth servers stay connected: removing them would discard their tokens.
+   */
+  private async releaseIdleResources(): Promise<void> {
+    for (const [name, entry] of Object.entries(this.state.mcp.preconfiguredServers)) {
+      if (!entry.serverId || entry.authUrl || entry.config.custom?.auth === "oauth") continue;
+      try {
+        await this.removeMcpServer(entry.serverId);
+      } catch (error) {
+        console.error(`Failed to release MCP server ${name}:`, error);
+      }
+      this.setServerConnectionState(name, { serverId: undefined, connected: false });
     }
+    this.mcpInitPromise = null;
+  }
+
+  async onIdleTimeout() {
+    if (this.pendingSessionDeletion || this.getLifecycle().mode === "ephemeral") {
+      const expiring = !this.pendingSessionDeletion;
+      if ([...this.getConnections()].length > 0) {
+        return;
+      }
+      if (expiring) {
+        try {
+          const directory = await getSessionDirectory(this.runtimeEnv);
+          await directory.removeSession(this.name);
+        } catch (error) {
+          console.error("Error removing expired session from index:", error);
+        }
+        await this.deleteStoredAttachments();
+      }
+      const destroyed = await destroyIfIdle(this as never);
+      if (destroyed) {
+        this.appendRuntimeEvent({
+          level: "info",
+          source: "system",
+          type: expiring ? "session_expired" : "idle_destroy",
+          message: expiring
+            ? "Ephemeral session expired after idle timeout."
+            : "Agent destroyed after idle timeout."
+        });
+      }
+      return;
+    }
+
+    if ([...this.getConnections()].length > 0) {
+      return;
+    }
+    await this.releaseIdleResources();
+    this.setLifecycle({ idleTimeoutAt: undefined, hibernatedAt: new Date().toISOString() });
+    this.appendRuntimeEvent({
+      level: "info",
+      source: "system",
+      type: "idle_hibernate",
+      message: "Idle session released its resources; history is kept."
+    });
   }
 
   async onStart() {
     this.mcp.configureOAuthCallback({
       customHandler: (result) => {
+        const serverName = result.serverId ? this.findServerNameById(result.serverId) : undefined;
         if (result.authSuccess) {
-          return new Response("<script>window.close();</script>", {
+          if (serverName) {
+            this.setServerConnectionState(serverName, {
+              connected: true,
+              authUrl: undefined,
+              authExpired: false,
+              error: undefined
+            });
+            this.appendRuntimeEvent({
+              level: "success",
+              source: "mcp",
+              type: "oauth_complete",
+              message: `MCP server ${serverName} authorized.`,
+              data: { serverId: result.serverId }
+            });
+          }
+          return new Response(renderOAuthCallbackPage({ success: true, serverName }), {
             headers: { "content-type": "text/html" },
             status: 200
           });
         }
         const error = result.authError || "Unknown OAuth error";
-        return new Response(`OAuth failed: ${error}`, {
-          headers: { "content-type": "text/plain" },
+        if (serverName) {
+          this.setServerConnectionState(serverName, { connected: false, error });
+        }
+        this.appendRuntimeEvent({
+          level: "error",
+          source: "mcp",
+          type: "oauth_failed",
+          message: `MCP OAuth failed${serverName ? ` for ${serverName}` : ""}.`,
+          data: { error }
+        });
+        return new Response(renderOAuthCallbackPage({ success: false, serverName, error }), {
+          headers: { "content-type": "text/html" },
           status: 400
         });
       }
@@ -784,6 +2225,13 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
         connected: false
       };
     }
+    for (const record of this.loadCustomServerRecords()) {
+      if (preconfiguredServers[record.name]) continue;
+      preconfiguredServers[record.name] = {
+        config: toCustomServerConfig(record),
+        connected: false
+      };
+    }
     this.setState({
       ...this.state,
       mcp: {
@@ -814,9 +2262,10 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     }
 
     this.mcpInitPromise = (async () => {
-      for (const config of MCP_SERVERS) {
-        if (config.active) {
-          await this.activateServer(config.name);
+      for (const entry of Object.values(this.state.mcp.preconfiguredServers)) {
+        // Servers waiting on the user's OAuth consent are left alone until the callback lands.
+        if (entry.config.active && !entry.authUrl && !entry.authExpired) {
+          await this.activateServer(entry.config.name);
         }
       }
     })();
@@ -828,6 +2277,29 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     }
   }
 
+  async persistMessages(messages: UIMessage[], excludeBroadcastIds: string[] = []) {
+    // Clients still hold archived messages and send them back with every request.
+    const previous = new Map(
+      (Array.isArray(this.messages) ? this.messages : []).map((message) => [message.id, message])
+    );
+    const archivedIds = this.readArchivedMessageIds();
+    const kept = messages.filter(
+      (message) => previous.has(message.id) || !archivedIds.has(message.id)
+    );
+    // Created before persisting, so messages this call drops are still recorded as a branch.
+    this.ensureMessageTree();
+    this.ensureMessageTimes();
+    await super.persistMessages(kept, excludeBroadcastIds);
+    this.recordMessageTimes(kept);
+    this.recordMessageTree(kept);
+    this.syncBranchState();
+    this.rebaseContextSummary();
+    this.recordMessageUsage(kept);
+    this.updateSearchIndex(kept, previous, archivedIds);
+    void this.syncSessionIndex();
+    this.resumePendingApprovals();
+  }
+
   /**
    * Main chat handler - called when user sends a message
    * AIChatAgent automatically handles message persistence
@@ -837,7 +2309,7 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
 
     const latestUserText = latestUserMessage ? this.getMessageText(latestUserMessage) : "";
 
-    if (!latestUserText.trim()) {
+    if (!latestUserText.trim() && !latestUserMessage?.parts.some(isFilePart)) {
       const emptyId = crypto.randomUUID();
       const emptyStream = createUIMessageStream({
         execute: ({ writer }) => {
@@ -846,10 +2318,31 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
           writer.write({ type: "text-end", id: emptyId });
         }
       });
-      return createUIMessageStreamResponse({ stream: emptyStream });
+      return this.replies.track(createUIMessageStreamResponse({ stream: emptyStream }));
     }
 
-    const textId = crypto.randomUUID();
+    // Continuations after a tool approval finish a turn that was already charged.
+    const lastMessage = this.messages[this.messages.length - 1];
+    const isNewTurn = lastMessage?.role === "user";
+    // `streamRegeneration` charges its turn before it starts, to answer with 429 instead.
+    const regeneration = isNewTurn ? this.takePendingRegeneration(lastMessage.id) : null;
+    const quotaViolation = isNewTurn && !regeneration ? await this.consumeTurnQuota() : null;
+    if (quotaViolation) {
+      // The refusal is an error, not a reply: a reply without parts is never stored, so it
+      // stays out of the history, the search index, exports and later prompts.
+      const quotaStream = createUIMessageStream({
+        execute: ({ writer }) => {
+          this.emitProgress(writer, {
+            phase: "error",
+            status: "error",
+            message: "Usage quota exceeded.",
+            snippet: quotaViolation.message
+          });
+          writer.write({ type: "error", errorText: quotaViolation.message });
+        }
+      });
+      return this.replies.track(createUIMessageStreamResponse({ stream: quotaStream }));
+    }
 
     const stream = createUIMessageStream({
       execute: async ({ writer }) => {
@@ -869,22 +2362,30 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
           });
         }, 1200);
 
-        writer.write({ type: "text-start", id: textId });
-        writer.write({
-          type: "text-delta",
-          id: textId,
-          // Send an invisible keepalive chunk so the client receives an early stream event.
-          delta: "\u200b"
-        });
         try {
-          const finalResponse = await this.generateAssistantResponse(
-            latestUserText,
-            true,
-            options?.abortSignal,
-            emitProgress
-          );
-          writer.write({ type: "text-delta", id: textId, delta: finalResponse });
-          writer.write({ type: "text-end", id: textId });
+          if (this.isModelStreamEnabled()) {
+            await this.streamAssistantResponse(
+              writer,
+              latestUserText,
+              options?.abortSignal,
+              emitProgress
+            );
+          } else {
+            const { text: finalResponse, usage } = await this.generateAssistantResponse(
+              latestUserText,
+              true,
+              options?.abortSignal,
+              emitProgress
+            );
+            const textId = crypto.randomUUID();
+            writer.write({ type: "text-start", id: textId });
+            writer.write({ type: "text-delta", id: textId, delta: finalResponse });
+            writer.write({ type: "text-end", id: textId });
+            writer.write({
+              type: "message-metadata",
+              messageMetadata: { usage }
+            });
+          }
         } catch (error) {
           const message = error instanceof Error ? error.message : "Unknown generation error";
           this.updateLastError(message);
@@ -901,29 +2402,52 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
             message: "Generation failed.",
             snippet: message.slice(0, 240)
           });
+          const errorTextId = crypto.randomUUID();
+          writer.write({ type: "text-start", id: errorTextId });
           writer.write({
             type: "text-delta",
-            id: textId,
+            id: errorTextId,
             delta: `抱歉，处理请求时出错：${message}`
           });
-          writer.write({ type: "text-end", id: textId });
+          writer.write({ type: "text-end", id: errorTextId });
         } finally {
           clearInterval(heartbeat);
         }
       }
     });
 
-    return createUIMessageStreamResponse({ stream });
+    return this.replies.track(
+      this.forwardToRegeneration(createUIMessageStreamResponse({ stream }), regeneration)
+    );
+  }
+
+  private takePendingRegeneration(anchorId: string): { sink: WritableStream<Uint8Array> } | null {
+    const pending = this.pendingRegeneration;
+    if (!pending || pending.anchorId !== anchorId) return null;
+    this.pendingRegeneration = null;
+    return pending;
+  }
+
+  /** Copy the reply stream to a waiting REST caller; the reply itself goes on regardless. */
+  private forwardToRegeneration(
+    response: Response,
+    regeneration: { sink: WritableStream<Uint8Array> } | null
+  ): Response {
+    if (!regeneration || !response.body) return response;
+    const [reply, copy] = response.body.tee();
+    void copy.pipeTo(regeneration.sink).catch(() => {
+      // The caller hung up; the reply is still persisted and shown to connected clients.
+    });
+    return new Response(reply, { status: response.status, headers: response.headers });
   }
 
   // ============ Chat Methods (callable for REST API) ============
 
-  private async generateAssistantResponse(
+  private async prepareModelRequest(
     message: string,
     userAlreadyInHistory: boolean,
-    abortSignal?: AbortSignal,
     emitProgress?: ProgressEmitter
-  ): Promise<string> {
+  ): Promise<ModelRequest> {
     emitProgress?.({
       phase: "context",
       status: "start",
@@ -936,22 +2460,45 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
       message: "Assistant response generation started."
     });
 
-    const { tools, toolList } = await this.buildAiTools(emitProgress);
-    const systemPrompt = buildSystemPrompt(toolList);
+    const settings = this.getEffectiveSettings();
+    const resolved = resolveModel(this.runtimeEnv, settings.model);
+    if (!resolved) {
+      throw new Error(`Unknown model "${settings.model}".`);
+    }
+    if (resolved.provider.apiKeyEnv && !resolved.apiKey) {
+      throw new Error(`Model provider "${resolved.provider.id}" requires ${resolved.provider.apiKeyEnv}.`);
+    }
+
+    const { tools, toolList } = resolved.model.capabilities.tools
+      ? await this.buildAiTools(emitProgress)
+      : { tools: {}, toolList: [] };
+
+    const provider = createOpenAICompatible({
+      name: resolved.provider.id,
+      apiKey: resolved.apiKey,
+      baseURL: resolved.provider.baseURL
+    });
+    const model = provider(resolved.model.id);
+
+    const overheadTokens = estimateTokens(
+      buildSystemPrompt(toolList, settings.systemPromptAddendum) + JSON.stringify(toolList)
+    );
+    const { startIndex, summary } = await this.manageContextWindow(
+      resolved,
+      model,
+      overheadTokens,
+      emitProgress
+    );
+    const systemPrompt = buildSystemPrompt(toolList, settings.systemPromptAddendum, summary?.text);
     emitProgress?.({
       phase: "context",
       status: "success",
-      message: "Context ready. Requesting draft answer from model."
-    });
-
-    // Create GLM provider
-    const glm = createOpenAICompatible({
-      name: "glm",
-      apiKey: this.runtimeEnv.BIGMODEL_API_KEY,
-      baseURL: "https://open.bigmodel.cn/api/coding/paas/v4"
+      message: `Context ready. Requesting draft answer from ${resolved.ref}.`
     });
 
     const { modelMessages: existingMessages, source } = await this.convertMessagesWithFallback(
+      resolved.model.capabilities.vision,
+      startIndex,
       emitProgress
     );
 
@@ -974,24 +2521,25 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
       message: `History prepared (${source}); messages: ${candidateMessages.length} -> ${messages.length}.`
     });
 
-    emitProgress?.({
-      phase: "model",
-      status: "start",
-      message: "Model is generating the response."
-    });
-    const finalResponse = await this.requestModelText({
-      model: glm(this.getModelId()),
+    return {
+      model,
+      modelRef: resolved.ref,
       system: systemPrompt,
       messages,
       tools,
-      temperature: 0.7,
-      abortSignal
-    });
+      temperature: settings.temperature,
+      maxSteps: settings.maxSteps,
+      maxOutputTokens: settings.maxOutputTokens,
+      providerOptions: buildProviderOptions(resolved, { thinking: settings.thinking })
+    };
+  }
+
+  private completeGeneration(responseText: string, emitProgress?: ProgressEmitter): void {
     emitProgress?.({
       phase: "thinking",
       status: "info",
       message: "Response generation completed.",
-      snippet: finalResponse.slice(0, 320)
+      snippet: responseText.slice(0, 320)
     });
 
     emitProgress?.({
@@ -1005,28 +2553,164 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
       type: "generate_success",
       message: "Assistant response generation completed."
     });
-    return finalResponse;
+  }
+
+  private async generateAssistantResponse(
+    message: string,
+    userAlreadyInHistory: boolean,
+    abortSignal?: AbortSignal,
+    emitProgress?: ProgressEmitter
+  ): Promise<{ text: string; usage: MessageUsage }> {
+    const request = await this.prepareModelRequest(message, userAlreadyInHistory, emitProgress);
+
+    emitProgress?.({
+      phase: "model",
+      status: "start",
+      message: "Model is generating the response."
+    });
+    const response = await this.requestModelText({ ...request, abortSignal });
+    this.completeGeneration(response.text, emitProgress);
+    return response;
+  }
+
+  /**
+   * Streams model output straight into the UI message stream so text, reasoning and
+   * tool parts reach the client as they are produced. The persisted assistant message is
+   * assembled by AIChatAgent from these same chunks, including the usage metadata
+   * written once the stream ends.
+   */
+  private async streamAssistantResponse(
+    writer: UIMessageStreamWriter,
+    message: string,
+    abortSignal?: AbortSignal,
+    emitProgress?: ProgressEmitter
+  ): Promise<void> {
+    const request = await this.prepareModelRequest(message, true, emitProgress);
+
+    emitProgress?.({
+      phase: "model",
+      status: "start",
+      message: "Model is streaming the response."
+    });
+    const startedAt = Date.now();
+    const result = streamText(this.buildModelCallOptions({ ...request, abortSignal }));
+
+    let streamedText = "";
+    let streamError: string | undefined;
+    for await (const chunk of result.toUIMessageStream({
+      sendReasoning: this.isThinkingEnabled(),
+      onError: (error) => (error instanceof Error ? error.message : String(error))
+    })) {
+      if (chunk.type === "error") {
+        streamError = chunk.errorText;
+        continue;
+      }
+      if (chunk.type === "text-delta") {
+        streamedText += chunk.delta;
+      }
+      writer.write(chunk);
+    }
+
+    // Aborted and failed streams still spent tokens on whatever was generated.
+    const totalUsage = await Promise.resolve(result.totalUsage).catch(() => undefined);
+    await this.recordTokenUsage(totalUsage);
+    const finishReason = await Promise.resolve(result.finishReason).catch(() =>
+      abortSignal?.aborted ? "aborted" : "error"
+    );
+    const usage = this.buildUsage(request.modelRef, totalUsage, finishReason, startedAt);
+    writer.write({
+      type: "message-metadata",
+      messageMetadata: { usage }
+    });
+    if (streamError !== undefined) {
+      throw new Error(streamError);
+    }
+    if (abortSignal?.aborted) {
+      this.appendRuntimeEvent({
+        level: "info",
+        source: "chat",
+        type: "generate_aborted",
+        message: "Assistant response generation stopped by client."
+      });
+      return;
+    }
+    this.completeGeneration(streamedText, emitProgress);
+  }
+
+  private async loadAttachmentParts(attachmentIds: string[]): Promise<FileUIPartLike[]> {
+    if (attachmentIds.length === 0) return [];
+    const bucket = this.runtimeEnv.ATTACHMENTS;
+    if (!bucket) {
+      throw new Error("Attachment storage is not configured.");
+    }
+    return await Promise.all(
+      attachmentIds.map(async (id) => {
+        const object = await bucket.head(buildAttachmentKey(this.name, id));
+        if (!object) {
+          throw new Error(`Attachment "${id}" not found.`);
+        }
+        return {
+          type: "file" as const,
+          mediaType: object.httpMetadata?.contentType ?? "application/octet-stream",
+          filename: object.customMetadata?.filename ?? id,
+          url: buildAttachmentUrl(this.name, id)
+        };
+      })
+    );
   }
 
   @callable({ description: "Send a chat message and get AI response with tool execution" })
-  async chat(message: string): Promise<string> {
-    const finalResponse = await this.generateAssistantResponse(message, false);
+  async chat(message: string, attachmentIds: string[] = []): Promise<string> {
+    const result = await this.chatWithinQuota(message, attachmentIds);
+    if (!result.success) {
+      throw new Error(result.quota.message);
+    }
+    return result.response;
+  }
 
-    // Persist messages to storage using proper ChatMessage format
+  /** `chat` for the REST route, which answers quota violations with 429 instead of failing. */
+  async chatWithinQuota(
+    message: string,
+    attachmentIds: string[] = []
+  ): Promise<{ success: true; response: string } | { success: false; quota: QuotaViolation }> {
+    const quota = await this.consumeTurnQuota();
+    if (quota) {
+      return { success: false, quota };
+    }
+    return { success: true, response: await this.generateChatReply(message, attachmentIds) };
+  }
+
+  private async generateChatReply(message: string, attachmentIds: string[]): Promise<string> {
     const timestamp = Date.now();
-    const currentMessages = Array.isArray(this.messages) ? this.messages : [];
+    const userMessage: UIMessage = {
+      id: `user-${timestamp}`,
+      role: "user",
+      parts: [
+        ...(await this.loadAttachmentParts(attachmentIds)),
+        ...(message ? [{ type: "text" as const, text: message }] : [])
+      ]
+    };
+    const priorMessages = Array.isArray(this.messages) ? this.messages : [];
+    // Attachments are resolved from history, so that turn has to be stored before generating.
+    const withAttachments = attachmentIds.length > 0;
+    if (withAttachments) {
+      await this.persistMessages([...priorMessages, userMessage]);
+    }
+    const { text: finalResponse, usage } = await this.generateAssistantResponse(
+      message,
+      withAttachments
+    );
+
+    // Persist messages to storage using proper ChatMessage format
     try {
       await this.persistMessages([
-        ...currentMessages,
-        {
-          id: `user-${timestamp}`,
-          role: "user",
-          parts: [{ type: "text", text: message }]
-        },
+        ...priorMessages,
+        userMessage,
         {
           id: `assistant-${timestamp}`,
           role: "assistant",
-          parts: [{ type: "text", text: finalResponse }]
+          parts: [{ type: "text", text: finalResponse }],
+          metadata: { usage }
         }
       ]);
     } catch (e) {
@@ -1046,6 +2730,100 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     }));
   }
 
+  private listLiveHistory(): HistoryMessage[] {
+    const createdAt = this.readMessageTimestamps();
+    return (Array.isArray(this.messages) ? this.messages : []).map((message) => ({
+      id: message.id,
+      role: message.role,
+      parts: message.parts,
+      ...(message.metadata !== undefined ? { metadata: message.metadata } : {}),
+      createdAt: createdAt.get(message.id) ?? new Date().toISOString(),
+      archived: false
+    }));
+  }
+
+  /** Every message, archived ones included, with approvals for export. Not exposed as RPC. */
+  getTranscript(): { messages: HistoryMessage[]; approvals: ToolApprovalRequest[] } {
+    return {
+      messages: [
+        ...this.readArchivedMessages(null, this.countArchivedMessages()),
+        ...this.listLiveHistory()
+      ],
+      approvals: this.state.runtime.approvals
+    };
+  }
+
+  /** Full-text search over this session's messages, archived ones included. Not exposed as RPC. */
+  searchMessages(query: string, limit = SEARCH_DEFAULT_LIMIT): MessageSearchHit[] {
+    const terms = tokenizeSearchQuery(query);
+    if (terms.length === 0) return [];
+    this.ensureSearchIndex();
+    const count = Math.min(Math.max(1, Math.floor(limit)), SEARCH_MAX_LIMIT);
+    const match = buildFtsMatchQuery(terms);
+    // Terms shorter than a trigram are checked below; fetch extra rows to leave room for that.
+    const candidates = match
+      ? this.sql<SearchIndexRow>`
+          select message_id, role, created_at, content, bm25(chat_message_search) as rank
+          from chat_message_search
+          where chat_message_search match ${match}
+          order by rank
+          limit ${count * 4}
+        `
+      : this.sql<SearchIndexRow>`
+          select message_id, role, created_at, content, 0 as rank
+          from chat_message_search
+          where content like ${toLikePattern(terms[0])} escape '!'
+          order by rowid desc
+          limit ${count * 4}
+        `;
+    return candidates
+      .filter((row) => matchesAllTerms(row.content, terms))
+      .slice(0, count)
+      .map((row) => ({
+        messageId: row.message_id,
+        role: row.role,
+        createdAt: row.created_at,
+        ...buildSearchSnippet(row.content, terms),
+        rank: Number(row.rank) || 0
+      }));
+  }
+
+  @callable({ description: "Get one page of chat history, newest first, with full message parts" })
+  getHistoryPage(options: { cursor?: string; limit?: number } = {}): {
+    success: boolean;
+    error?: string;
+    page?: HistoryPage;
+    etag?: string;
+    stateVersion: number;
+  } {
+    const stateVersion = this.state.runtime.stateVersion;
+    const cursor = decodeHistoryCursor(options.cursor);
+    if (options.cursor && !cursor) {
+      return { success: false, error: "Invalid history cursor", stateVersion };
+    }
+
+    const page = paginateHistory({
+      live: this.listLiveHistory(),
+      archive: {
+        findSeq: (messageId) => {
+          this.ensureMessageArchiveTable();
+          return (
+            this.sql<{ seq: number }>`
+              select seq from chat_message_archive where id = ${messageId}
+            `[0]?.seq ?? null
+          );
+        },
+        readBefore: (beforeSeq, count) => this.readArchivedMessages(beforeSeq, count)
+      },
+      cursor,
+      limit: normalizeHistoryLimit(options.limit)
+    });
+    if (!page) {
+      return { success: false, error: "History cursor no longer matches a message", stateVersion };
+    }
+    return { success: true, page, etag: buildHistoryEtag(stateVersion, page), stateVersion };
+  }
+
   @callable({ description: "Heartbeat probe for connection health checks" })
   heartbeat(): { success: true; serverTime: string } {
     return {
@@ -1057,7 +2835,14 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
   @callable({ description: "Clear chat history" })
   async clearChat(): Promise<{ success: boolean }> {
     try {
+      this.dropMessagesOffPath([]);
       await this.persistMessages([]);
+      this.clearMessageArchive();
+      this.clearMessageTimes();
+      this.clearMessageTree();
+      this.syncBranchState();
+      this.clearSearchIndex();
+      this.setContextSummary(null);
       return { success: true };
     } catch (e) {
       console.error("Error clearing messages:", e);
@@ -1073,19 +2858,36 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     error?: string;
   }> {
     try {
+      // Set before clearing history so the index sync does not re-register this session.
+      this.pendingSessionDeletion = true;
+      this.dropMessagesOffPath([]);
       await this.persistMessages([]);
       this.messages = [];
+      this.clearMessageArchive();
+      this.clearMessageTimes();
+      this.clearMessageTree();
+      this.clearSearchIndex();
+      await this.deleteStoredAttachments();
 
       this.setState({
         ...this.state,
+        contextSummary: null,
+        branches: [],
+        lineage: null,
         runtime: {
           ...this.initialState.runtime,
           stateVersion: this.state.runtime.stateVersion + 1
         }
       });
 
+      try {
+        const directory = await getSessionDirectory(this.runtimeEnv);
+        await directory.removeSession(this.name);
+      } catch (error) {
+        console.error("Error removing session from index:", error);
+      }
+
       const hasConnections = [...this.getConnections()].length > 0;
-      this.pendingSessionDeletion = true;
       if (!hasConnections) {
         cancelIdleSchedules(this as never);
         this.schedule(1, "onIdleTimeout" as never, {});
@@ -1098,6 +2900,7 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       console.error("Error deleting session:", error);
+      this.pendingSessionDeletion = false;
       return {
         success: false,
         destroyed: false,
@@ -1132,6 +2935,21 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
       this.messages = (Array.isArray(this.messages) ? this.messages : []).filter(
         (message) => message.id !== messageId
       );
+      // Later versions hang off the deleted message; attach them to its parent instead.
+      this.ensureMessageTree();
+      const parentId =
+        this.sql<{ parent_id: string | null }>`
+          select parent_id from chat_message_tree where id = ${messageId}
+        `[0]?.parent_id ?? null;
+      this.sql`update chat_message_tree set parent_id = ${parentId} where parent_id = ${messageId}`;
+      this.sql`delete from chat_message_tree where id = ${messageId}`;
+      this.ensureMessageTimes();
+      this.sql`delete from chat_message_times where id = ${messageId}`;
+      if (deleted) {
+        this.syncBranchState();
+        this.deleteSearchRow(messageId);
+        void this.syncSessionIndex();
+      }
 
       return { success: true, deleted };
     } catch (e) {
@@ -1141,11 +2959,15 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     }
   }
 
+  /**
+   * Edit a user message as a new sibling version. The original and the replies to it stay
+   * in the tree as another branch; the active path ends at the edited message.
+   */
   @callable({ description: "Edit an existing user message" })
   async editUserMessage(
     messageId: string,
     content: string
-  ): Promise<{ success: boolean; updated: boolean; error?: string }> {
+  ): Promise<{ success: boolean; updated: boolean; messageId?: string; error?: string }> {
     if (!messageId || !content.trim()) {
       return { success: false, updated: false, error: "Message ID and content are required" };
     }
@@ -1166,71 +2988,105 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
         return { success: true, updated: false };
       }
 
-      const nextMessages = currentMessages.map((message, index) => {
-        if (index !== targetIndex) {
-          return message;
-        }
-        return {
-          ...message,
-          parts: [{ type: "text" as const, text: content.trim() }]
-        };
-      });
+      // Attached files and resources stay with the message; only its text is replaced.
+      const edited: UIMessage = {
+        ...targetMessage,
+        id: crypto.randomUUID(),
+        parts: [
+          ...targetMessage.parts.filter((part) => isFilePart(part) || isResourcePart(part)),
+          { type: "text" as const, text: content.trim() }
+        ]
+      };
 
-      await this.persistMessages(nextMessages);
-      return { success: true, updated: true };
+      const path = [...currentMessages.slice(0, targetIndex), edited];
+      this.dropMessagesOffPath(path);
+      await this.persistMessages(path);
+      return { success: true, updated: true, messageId: edited.id };
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unknown error";
       return { success: false, updated: false, error: message };
     }
   }
 
-  @callable({ description: "Regenerate assistant response starting from a specific message" })
-  async regenerateFrom(
+  @callable({ description: "Make another version of a message part of the active conversation" })
+  async switchBranch(
     messageId: string
-  ): Promise<{ success: boolean; response?: string; error?: string }> {
+  ): Promise<{ success: boolean; switched: boolean; error?: string }> {
     if (!messageId) {
-      return { success: false, error: "Message ID is required" };
+      return { success: false, switched: false, error: "Message ID is required" };
     }
 
     try {
       const currentMessages = Array.isArray(this.messages) ? this.messages : [];
-      const index = currentMessages.findIndex((message) => message.id === messageId);
-      if (index < 0) {
-        return { success: false, error: "Message not found" };
+      if (currentMessages.some((message) => message.id === messageId)) {
+        return { success: true, switched: false };
+      }
+      const nodes = this.readMessageTreeNodes();
+      const plan = planBranchSwitch({
+        nodes,
+        liveIds: currentMessages.map((message) => message.id),
+        lastArchivedId: this.getLastArchivedMessageId(),
+        targetId: messageId
+      });
+      if (!plan.ok) {
+        return { success: false, switched: false, error: plan.error };
       }
 
-      let anchorIndex = index;
-      if (currentMessages[index].role !== "user") {
-        for (let i = index; i >= 0; i -= 1) {
-          if (currentMessages[i].role === "user") {
-            anchorIndex = i;
-            break;
-          }
-        }
+      // Mark the branch as selected so switching away and back returns to the same leaf.
+      const selectedSeq = this.nextSelectedSeq();
+      for (const id of plan.branchIds) {
+        this.sql`update chat_message_tree set selected_seq = ${selectedSeq} where id = ${id}`;
       }
+      const path = [
+        ...currentMessages.slice(0, plan.keepCount),
+        ...this.readTreeMessages(plan.branchIds)
+      ];
+      this.dropMessagesOffPath(path);
+      await this.persistMessages(path);
+      return { success: true, switched: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return { success: false, switched: false, error: message };
+    }
+  }
+
+  @callable({ description: "Regenerate assistant response starting from a specific message" })
+  async regenerateFrom(
+    messageId: string
+  ): Promise<{ success: boolean; response?: string; error?: string; quota?: QuotaViolation }> {
+    if (!messageId) {
+      return { success: false, error: "Message ID is required" };
+    }
 
-      const anchorMessage = currentMessages[anchorIndex];
-      if (!anchorMessage || anchorMessage.role !== "user") {
-        return { success: false, error: "No user message found for regeneration" };
+    try {
+      const anchor = this.findRegenerationAnchor(messageId);
+      if (!anchor.ok) {
+        return { success: false, error: anchor.error };
       }
+      const userText = this.getMessageText(anchor.message).trim();
 
-      const userText = this.getMessageText(anchorMessage).trim();
-      if (!userText) {
-        return { success: false, error: "User message content is empty" };
+      const quota = await this.consumeTurnQuota();
+      if (quota) {
+        return { success: false, error: quota.message, quota };
       }
 
-      const preservedMessages = currentMessages.slice(0, anchorIndex + 1);
+      const preservedMessages = anchor.preservedMessages;
+      this.dropMessagesOffPath(preservedMessages);
       await this.persistMessages(preservedMessages);
 
       // Regeneration can race with in-memory history updates after persistence.
       // If history does not currently end with a user message, inject the prompt again.
       const latestMessages = Array.isArray(this.messages) ? this.messages : [];
       const historyEndsWithUser = latestMessages[latestMessages.length - 1]?.role === "user";
-      const regenerated = await this.generateAssistantResponse(userText, historyEndsWithUser);
+      const { text: regenerated, usage } = await this.generateAssistantResponse(
+        userText,
+        historyEndsWithUser
+      );
       const assistantMessage = {
         id: `assistant-${Date.now()}`,
         role: "assistant" as const,
-        parts: [{ type: "text" as const, text: regenerated }]
+        parts: [{ type: "text" as const, text: regenerated }],
+        metadata: { usage }
       };
       await this.persistMessages([...preservedMessages, assistantMessage]);
 
@@ -1241,19 +3097,87 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     }
   }
 
-  @callable({ description: "Seed a session with specific history messages" })
-  async seedHistory(
-    messages: Array<{ id: string; role: "user" | "assistant" | "system"; parts: Array<{ type: "text"; text: string }> }>
-  ): Promise<{ success: boolean; error?: string }> {
-    try {
-      await this.persistMessages(messages);
-      return { success: true };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error";
-      return { success: false, error: message };
+  /**
+   * `regenerateFrom` through the regular chat pipeline, for the streaming REST route. The
+   * reply streams to connected clients as if sent from the UI, with progress events and tool
+   * cards, and a copy of its UI message stream is returned to the caller.
+   */
+  async streamRegeneration(
+    messageId: string
+  ): Promise<
+    | { success: true; stream: ReadableStream<Uint8Array> }
+    | { success: false; error: string; quota?: QuotaViolation }
+  > {
+    if (!messageId) {
+      return { success: false, error: "Message ID is required" };
+    }
+    const anchor = this.findRegenerationAnchor(messageId);
+    if (!anchor.ok) {
+      return { success: false, error: anchor.error };
+    }
+    if (this.pendingRegeneration) {
+      return { success: false, error: "Another regeneration is starting" };
     }
+    const quota = await this.consumeTurnQuota();
+    if (quota) {
+      return { success: false, error: quota.message, quota };
+    }
+
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    this.pendingRegeneration = { anchorId: anchor.message.id, sink: writable };
+    this.dropMessagesOffPath(anchor.preservedMessages);
+    void this.saveMessages(anchor.preservedMessages)
+      .catch((error) => console.error("Error regenerating message:", error))
+      .finally(() => {
+        // Still pending means the chat handler never picked it up; end the caller's stream.
+        if (this.pendingRegeneration?.sink !== writable) return;
+        this.pendingRegeneration = null;
+        void writable.close().catch(() => {});
+      });
+    return { success: true, stream: readable };
+  }
+
+  /** The user message a reply to `messageId` answers, and the history up to and including it. */
+  private findRegenerationAnchor(
+    messageId: string
+  ):
+    | { ok: true; message: UIMessage; preservedMessages: UIMessage[] }
+    | { ok: false; error: string } {
+    const currentMessages = Array.isArray(this.messages) ? this.messages : [];
+    const index = currentMessages.findIndex((message) => message.id === messageId);
+    if (index < 0) {
+      return { ok: false, error: "Message not found" };
+    }
+
+    let anchorIndex = index;
+    if (currentMessages[index].role !== "user") {
+      for (let i = index; i >= 0; i -= 1) {
+        if (currentMessages[i].role === "user") {
+          anchorIndex = i;
+          break;
+        }
+      }
+    }
+
+    const anchorMessage = currentMessages[anchorIndex];
+    if (!anchorMessage || anchorMessage.role !== "user") {
+      return { ok: false, error: "No user message found for regeneration" };
+    }
+    if (!this.getMessageText(anchorMessage).trim() && !anchorMessage.parts.some(isFilePart)) {
+      return { ok: false, error: "User message content is empty" };
+    }
+    return {
+      ok: true,
+      message: anchorMessage,
+      preservedMessages: currentMessages.slice(0, anchorIndex + 1)
+    };
   }
 
+  /**
+   * Fork this session into a new one ending at `messageId`. The fork gets the full history
+   * through that message, including tool calls, sources and usage metadata, along with
+   * its attachments, settings, custom MCP servers and the servers connected right now.
+   */
   @callable({ description: "Fork current session into a new session from a specific message" })
   async forkSession(
     messageId: string
@@ -1262,40 +3186,272 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
       return { success: false, error: "Message ID is required" };
     }
 
-    try {
-      const currentMessages = Array.isArray(this.messages) ? this.messages : [];
-      const index = currentMessages.findIndex((message) => message.id === messageId);
-      if (index < 0) {
-        return { success: false, error: "Message not found" };
+    try {
+      const history = planForkHistory({
+        archived: this.readOldestArchivedMessages(this.countArchivedMessages()),
+        live: Array.isArray(this.messages) ? this.messages : [],
+        contextSummary: this.state.contextSummary ?? null,
+        forkMessageId: messageId
+      });
+      if (!history) {
+        return { success: false, error: "Message not found" };
+      }
+
+      // Forks belong to whoever owns the session they were forked from.
+      const directory = await getSessionDirectory(this.runtimeEnv);
+      const parent = await directory.getSession(this.name);
+      const newSessionId = crypto.randomUUID();
+      const rebased = rebaseForkAttachments(history.messages, this.name, newSessionId);
+      await this.copyAttachmentsTo(newSessionId, rebased.attachmentIds);
+      const snapshot: SessionForkSnapshot = {
+        ...history,
+        messages: rebased.messages,
+        lineage: {
+          parentSessionId: this.name,
+          forkMessageId: messageId,
+          forkedAt: new Date().toISOString()
+        },
+        ownerId: parent?.ownerId ?? null,
+        settings: this.state.settings ?? {},
+        customServers: this.loadCustomServerRecords(),
+        activeServers: Object.entries(this.state.mcp.preconfiguredServers)
+          .filter(([, entry]) => entry.connected)
+          .map(([name]) => name)
+      };
+
+      const targetAgent = await getAgentByName(this.runtimeEnv.ChatAgentV2, newSessionId);
+      const result = await targetAgent.receiveFork(snapshot);
+      if (!result.success) {
+        return { success: false, error: result.error || "Failed to seed forked session" };
+      }
+      return { success: true, newSessionId };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return { success: false, error: message };
+    }
+  }
+
+  /**
+   * Set up a new session from its parent's fork snapshot; see `forkSession`. The session is
+   * registered under its owner before any history lands, so no one else can claim it first.
+   */
+  async receiveFork(snapshot: SessionForkSnapshot): Promise<{ success: boolean; error?: string }> {
+    const messages = Array.isArray(this.messages) ? this.messages : [];
+    if (messages.length > 0 || this.countArchivedMessages() > 0) {
+      return { success: false, error: "Session already has history" };
+    }
+
+    try {
+      const directory = await getSessionDirectory(this.runtimeEnv);
+      const entry = await directory.upsertSession({
+        sessionId: this.name,
+        parentSessionId: snapshot.lineage.parentSessionId,
+        forkMessageId: snapshot.lineage.forkMessageId,
+        ...(snapshot.ownerId ? { ownerId: snapshot.ownerId } : {})
+      });
+      if ((entry?.ownerId ?? null) !== snapshot.ownerId) {
+        return { success: false, error: "Forked session is owned by someone else" };
+      }
+      this.quotaOwnerId = snapshot.ownerId;
+
+      const preconfiguredServers = { ...this.state.mcp.preconfiguredServers };
+      for (const record of snapshot.customServers) {
+        if (MCP_SERVERS.some((config) => config.name === record.name)) continue;
+        this.saveCustomServerRecord(record);
+        preconfiguredServers[record.name] = {
+          config: toCustomServerConfig(record),
+          connected: false
+        };
+      }
+      this.setState({
+        ...this.state,
+        settings: snapshot.settings,
+        lineage: snapshot.lineage,
+        mcp: { preconfiguredServers },
+        runtime: {
+          ...this.state.runtime,
+          stateVersion: this.state.runtime.stateVersion + 1
+        }
+      });
+
+      await this.persistMessages(snapshot.messages);
+      if (snapshot.archivedCount > 0) {
+        await this.archiveMessages(snapshot.archivedCount);
+        this.setState({ ...this.state, contextSummary: snapshot.contextSummary });
+      }
+
+      for (const name of snapshot.activeServers) {
+        const entry = this.state.mcp.preconfiguredServers[name];
+        if (entry && !entry.connected) {
+          await this.activateServer(name);
+        }
+      }
+      this.appendRuntimeEvent({
+        level: "info",
+        source: "system",
+        type: "session_forked",
+        message: "Session forked from another session.",
+        data: { ...snapshot.lineage, messageCount: snapshot.messages.length }
+      });
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      return { success: false, error: message };
+    }
+  }
+
+  /** Best effort, like `deleteStoredAttachments`: a missing copy only breaks that file. */
+  private async copyAttachmentsTo(sessionId: string, attachmentIds: string[]): Promise<void> {
+    const bucket = this.runtimeEnv.ATTACHMENTS;
+    if (!bucket) return;
+    for (const id of attachmentIds) {
+      try {
+        const object = await bucket.get(buildAttachmentKey(this.name, id));
+        if (!object) continue;
+        await bucket.put(buildAttachmentKey(sessionId, id), await object.arrayBuffer(), {
+          httpMetadata: object.httpMetadata,
+          customMetadata: { ...object.customMetadata, sessionId }
+        });
+      } catch (error) {
+        console.error(`Error copying attachment ${id} to forked session:`, error);
+      }
+    }
+  }
+
+  // ============ Model Selection (callable methods) ============
+
+  @callable({ description: "List models available to this session" })
+  listModels(): { models: ModelOption[]; selected: string } {
+    return {
+      models: listModelOptions(this.runtimeEnv),
+      selected: this.getEffectiveSettings().model
+    };
+  }
+
+  @callable({ description: "Select the model used by this session" })
+  setModel(modelRef: string): {
+    success: boolean;
+    model?: string;
+    error?: string;
+    stateVersion: number;
+  } {
+    const result = this.updateSettings({ model: modelRef });
+    return {
+      success: result.success,
+      model: result.success ? result.effective.model : undefined,
+      error: result.error,
+      stateVersion: result.stateVersion
+    };
+  }
+
+  @callable({ description: "Get per-session model and generation settings" })
+  getSettings(): {
+    settings: ChatSessionSettings;
+    effective: EffectiveSessionSettings;
+    stateVersion: number;
+  } {
+    return {
+      settings: this.state.settings ?? {},
+      effective: this.getEffectiveSettings(),
+      stateVersion: this.state.runtime.stateVersion
+    };
+  }
+
+  @callable({ description: "Update per-session model and generation settings" })
+  updateSettings(patch: ChatSessionSettingsPatch): {
+    success: boolean;
+    error?: string;
+    settings: ChatSessionSettings;
+    effective: EffectiveSessionSettings;
+    stateVersion: number;
+  } {
+    const current = this.state.settings ?? {};
+    const reject = (error: string) => ({
+      success: false,
+      error,
+      settings: current,
+      effective: this.getEffectiveSettings(),
+      stateVersion: this.state.runtime.stateVersion
+    });
+
+    const parsed = sessionSettingsPatchSchema.safeParse(patch);
+    if (!parsed.success) {
+      return reject(parsed.error.issues.map((issue) => issue.message).join("; "));
+    }
+    if (parsed.data.model) {
+      const resolved = resolveModel(this.runtimeEnv, parsed.data.model);
+      if (!resolved) {
+        return reject(`Unknown model "${parsed.data.model}"`);
       }
+      if (resolved.provider.apiKeyEnv && !resolved.apiKey) {
+        return reject(`Model provider "${resolved.provider.id}" is not configured`);
+      }
+    }
 
-      const forkedHistory = currentMessages.slice(0, index + 1);
-      const newSessionId = crypto.randomUUID().slice(0, 8);
-      const targetAgent = (await getAgentByName(this.runtimeEnv.ChatAgentV2, newSessionId)) as {
-        seedHistory: (
-          messages: Array<{
-            id: string;
-            role: "user" | "assistant" | "system";
-            parts: Array<{ type: "text"; text: string }>;
-          }>
-        ) => Promise<{ success: boolean; error?: string }>;
-      };
-      const result = await targetAgent.seedHistory(
-        forkedHistory as Array<{
-          id: string;
-          role: "user" | "assistant" | "system";
-          parts: Array<{ type: "text"; text: string }>;
-        }>
-      );
-      if (!result?.success) {
-        return { success: false, error: result?.error || "Failed to seed forked session" };
+    const settings = applySettingsPatch(current, parsed.data);
+    this.setState({
+      ...this.state,
+      settings,
+      runtime: {
+        ...this.state.runtime,
+        stateVersion: this.state.runtime.stateVersion + 1
       }
+    });
+    this.appendRuntimeEvent({
+      level: "info",
+      source: "chat",
+      type: "settings_updated",
+      message: "Session settings updated.",
+      data: { fields: Object.keys(parsed.data) }
+    });
+    return {
+      success: true,
+      settings,
+      effective: this.getEffectiveSettings(),
+      stateVersion: this.state.runtime.stateVersion
+    };
+  }
 
-      return { success: true, newSessionId };
-    } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error";
-      return { success: false, error: message };
+  @callable({ description: "Switch the session between persistent and ephemeral lifecycle" })
+  updateLifecycle(patch: SessionLifecyclePatch): {
+    success: boolean;
+    error?: string;
+    lifecycle: SessionLifecycleSnapshot;
+    stateVersion: number;
+  } {
+    const parsed = sessionLifecyclePatchSchema.safeParse(patch);
+    if (!parsed.success) {
+      return {
+        success: false,
+        error: parsed.error.issues.map((issue) => issue.message).join("; "),
+        lifecycle: this.describeLifecycle(),
+        stateVersion: this.state.runtime.stateVersion
+      };
     }
+
+    const { mode, idleTimeoutSeconds } = parsed.data;
+    const current = this.getLifecycle();
+    const nextMode: SessionLifecycleMode = mode ?? current.mode;
+    this.setLifecycle({
+      mode: nextMode,
+      ...(idleTimeoutSeconds !== undefined
+        ? { idleTimeoutSeconds: idleTimeoutSeconds ?? undefined }
+        : {})
+    });
+    // Re-arm the idle callback under the new policy; a no-op while clients are connected.
+    this.scheduleIdleTimeout();
+    this.appendRuntimeEvent({
+      level: "info",
+      source: "system",
+      type: "lifecycle_updated",
+      message: `Session lifecycle set to ${nextMode}.`,
+      data: { mode: nextMode, idleTimeoutSeconds: this.describeLifecycle().idleTimeoutSeconds }
+    });
+    return {
+      success: true,
+      lifecycle: this.describeLifecycle(),
+      stateVersion: this.state.runtime.stateVersion
+    };
   }
 
   // ============ MCP Server Management (callable methods) ============
@@ -1308,7 +3464,7 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
   @callable({ description: "Activate a pre-configured MCP server" })
   async activateServer(
     name: string
-  ): Promise<{ success: boolean; error?: string; stateVersion: number }> {
+  ): Promise<{ success: boolean; error?: string; authUrl?: string; stateVersion: number }> {
     const serverEntry = this.state.mcp.preconfiguredServers[name];
     if (!serverEntry) {
       return {
@@ -1319,28 +3475,9 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     }
 
     const config = serverEntry.config;
-    const runtimeEnv = this.runtimeEnv;
-    const apiKey = getApiKey(config, runtimeEnv);
 
     try {
-      const options: {
-        callbackHost?: string;
-        transport?: { type?: "streamable-http"; headers?: HeadersInit };
-      } = {};
-
-      if (runtimeEnv.HOST) {
-        options.callbackHost = runtimeEnv.HOST;
-      }
-
-      if (apiKey) {
-        options.transport = {
-          type: "streamable-http",
-          headers: {
-            Authorization: `Bearer ${apiKey}`
-          }
-        };
-      }
-
+      const options = this.buildServerConnectOptions(config);
       const result = await this.retry(
         async () => {
           this.updateRetryStats("mcpConnection", (stats) => ({
@@ -1358,9 +3495,31 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
         ...stats,
         success: stats.success + 1
       }));
+      if ("authUrl" in result && result.authUrl) {
+        this.setServerConnectionState(name, {
+          serverId: result.id,
+          connected: false,
+          authUrl: result.authUrl,
+          error: undefined
+        });
+        this.appendRuntimeEvent({
+          level: "info",
+          source: "mcp",
+          type: "oauth_required",
+          message: `MCP server ${name} is waiting for authorization.`,
+          data: { serverId: result.id }
+        });
+        return {
+          success: true,
+          authUrl: result.authUrl,
+          stateVersion: this.state.runtime.stateVersion
+        };
+      }
       this.setServerConnectionState(name, {
         serverId: result.id,
         connected: true,
+        authUrl: undefined,
+        authExpired: false,
         error: undefined
       });
       this.appendRuntimeEvent({
@@ -1451,10 +3610,52 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     }
   }
 
-  @callable({ description: "Toggle a pre-configured MCP server on/off" })
-  async toggleServer(
+  @callable({ description: "Restart OAuth for an MCP server whose authorization lapsed" })
+  async reauthorizeServer(
     name: string
-  ): Promise<{ success: boolean; active?: boolean; error?: string; stateVersion: number }> {
+  ): Promise<{ success: boolean; error?: string; authUrl?: string; stateVersion: number }> {
+    const serverEntry = this.state.mcp.preconfiguredServers[name];
+    if (!serverEntry) {
+      return {
+        success: false,
+        error: `Server "${name}" not found`,
+        stateVersion: this.state.runtime.stateVersion
+      };
+    }
+    if (serverEntry.authUrl && !serverEntry.authExpired) {
+      // An authorization is already pending; reuse its URL rather than starting over.
+      return {
+        success: true,
+        authUrl: serverEntry.authUrl,
+        stateVersion: this.state.runtime.stateVersion
+      };
+    }
+
+    if (serverEntry.serverId) {
+      try {
+        // Dropping the connection also discards the rejected token.
+        await this.removeMcpServer(serverEntry.serverId);
+      } catch (error) {
+        console.error(`Failed to reset MCP server ${name} before re-auth:`, error);
+      }
+    }
+    this.setServerConnectionState(name, {
+      serverId: undefined,
+      connected: false,
+      authUrl: undefined,
+      authExpired: false
+    });
+    return await this.activateServer(name);
+  }
+
+  @callable({ description: "Toggle a pre-configured MCP server on/off" })
+  async toggleServer(name: string): Promise<{
+    success: boolean;
+    active?: boolean;
+    error?: string;
+    authUrl?: string;
+    stateVersion: number;
+  }> {
     const serverEntry = this.state.mcp.preconfiguredServers[name];
     if (!serverEntry) {
       return {
@@ -1469,7 +3670,158 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
       return { ...result, active: false };
     } else {
       const result = await this.activateServer(name);
-      return { ...result, active: result.success };
+      return { ...result, active: result.success && !result.authUrl };
+    }
+  }
+
+  private parseCustomServerInput(
+    input: CustomMcpServerInput
+  ): { ok: true; record: CustomMcpServerRecord; previous?: CustomMcpServerRecord } | {
+    ok: false;
+    error: string;
+  } {
+    const parsed = customMcpServerSchema.safeParse(input);
+    if (!parsed.success) {
+      return { ok: false, error: parsed.error.issues.map((issue) => issue.message).join("; ") };
+    }
+    if (MCP_SERVERS.some((config) => config.name === parsed.data.name)) {
+      return { ok: false, error: `"${parsed.data.name}" is reserved by a built-in server` };
+    }
+    const previous = this.getCustomServerRecord(parsed.data.name);
+    const resolved = resolveCustomServerInput(parsed.data, previous, {
+      allowLocalhost: getLocalMcpServersAllowed(this.runtimeEnv)
+    });
+    return resolved.ok ? { ...resolved, previous } : resolved;
+  }
+
+  @callable({ description: "Add or update a user-defined MCP server" })
+  async addCustomServer(input: CustomMcpServerInput): Promise<{
+    success: boolean;
+    error?: string;
+    server?: McpServerConfig;
+    active?: boolean;
+    activationError?: string;
+    authUrl?: string;
+    stateVersion: number;
+  }> {
+    const resolved = this.parseCustomServerInput(input);
+    if (!resolved.ok) {
+      return {
+        success: false,
+        error: resolved.error,
+        stateVersion: this.state.runtime.stateVersion
+      };
+    }
+
+    const { record, previous } = resolved;
+    if (this.state.mcp.preconfiguredServers[record.name]?.serverId) {
+      await this.deactivateServer(record.name);
+    }
+    this.saveCustomServerRecord(record);
+    this.setServerEntry(record.name, {
+      config: toCustomServerConfig(record),
+      connected: false
+    });
+    this.appendRuntimeEvent({
+      level: "info",
+      source: "mcp",
+      type: previous ? "custom_server_updated" : "custom_server_added",
+      message: `Custom MCP server ${record.name} ${previous ? "updated" : "added"}.`,
+      data: { name: record.name, url: record.url, transport: record.transport, auth: record.auth.type }
+    });
+
+    const activation = record.active ? await this.activateServer(record.name) : undefined;
+    const entry = this.state.mcp.preconfiguredServers[record.name];
+    return {
+      success: true,
+      server: entry?.config,
+      active: entry?.connected ?? false,
+      ...(activation && !activation.success ? { activationError: activation.error } : {}),
+      ...(activation?.authUrl ? { authUrl: activation.authUrl } : {}),
+      stateVersion: this.state.runtime.stateVersion
+    };
+  }
+
+  @callable({ description: "Remove a user-defined MCP server" })
+  async removeCustomServer(
+    name: string
+  ): Promise<{ success: boolean; error?: string; stateVersion: number }> {
+    const entry = this.state.mcp.preconfiguredServers[name];
+    if (!entry?.config.custom) {
+      return {
+        success: false,
+        error: `Custom server "${name}" not found`,
+        stateVersion: this.state.runtime.stateVersion
+      };
+    }
+
+    if (entry.serverId) {
+      try {
+        await this.removeMcpServer(entry.serverId);
+      } catch (error) {
+        console.error(`Failed to disconnect custom server ${name}:`, error);
+      }
+    }
+    this.ensureCustomServerTable();
+    this.sql`delete from custom_mcp_servers where name = ${name}`;
+    this.setServerEntry(name, undefined);
+    this.appendRuntimeEvent({
+      level: "info",
+      source: "mcp",
+      type: "custom_server_removed",
+      message: `Custom MCP server ${name} removed.`
+    });
+    return { success: true, stateVersion: this.state.runtime.stateVersion };
+  }
+
+  @callable({ description: "Test a user-defined MCP server without saving it" })
+  async testCustomServer(input: CustomMcpServerInput): Promise<{
+    success: boolean;
+    error?: string;
+    toolCount?: number;
+    requiresAuth?: boolean;
+  }> {
+    const resolved = this.parseCustomServerInput(input);
+    if (!resolved.ok) {
+      return { success: false, error: resolved.error };
+    }
+
+    const { record } = resolved;
+    const timeoutMs = this.getToolTimeoutMs();
+    const connecting = this.addMcpServer(
+      `${record.name}-test-${crypto.randomUUID().slice(0, 8)}`,
+      record.url,
+      {
+        ...(this.runtimeEnv.HOST ? { callbackHost: this.runtimeEnv.HOST } : {}),
+        transport: buildCustomServerTransport(record)
+      }
+    );
+    // Whatever happens, the probe connection must not outlive the test.
+    const cleanup = connecting.then(
+      (result) => this.removeMcpServer(result.id).catch(() => undefined),
+      () => undefined
+    );
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const result = await Promise.race([
+        connecting,
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(() => {
+            reject(new Error(`Connection timeout after ${timeoutMs}ms`));
+          }, timeoutMs);
+        })
+      ]);
+      const requiresAuth = "authUrl" in result && Boolean(result.authUrl);
+      const toolCount = this.mcp
+        .listTools()
+        .filter((item) => item.serverId === result.id).length;
+      await cleanup;
+      return requiresAuth ? { success: true, requiresAuth } : { success: true, toolCount };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      clearTimeout(timeout);
     }
   }
 
@@ -1493,6 +3845,157 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     }
   }
 
+  @callable({ description: "Get resources exposed by connected MCP servers" })
+  async getAvailableResources(): Promise<
+    Array<{
+      uri: string;
+      name: string;
+      description?: string;
+      mimeType?: string;
+      serverId: string;
+      serverName?: string;
+    }>
+  > {
+    try {
+      await this.ensureMcpConnections();
+      if (!this.mcp) {
+        return [];
+      }
+      return this.mcp.listResources().map((resource) => ({
+        uri: resource.uri,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType,
+        serverId: resource.serverId,
+        serverName: this.findServerNameById(resource.serverId)
+      }));
+    } catch (error) {
+      console.error("Failed to get MCP resources:", error);
+      this.updateLastError(error instanceof Error ? error.message : String(error));
+      return [];
+    }
+  }
+
+  @callable({ description: "Read an MCP resource for preview or attachment" })
+  async readResource(
+    serverId: string,
+    uri: string
+  ): Promise<{ success: boolean; contents: McpResourceContent[]; error?: string }> {
+    if (!serverId || !uri) {
+      return { success: false, contents: [], error: "serverId and uri are required" };
+    }
+
+    try {
+      await this.ensureMcpConnections();
+      const known = this.mcp
+        .listResources()
+        .some((resource) => resource.serverId === serverId && resource.uri === uri);
+      if (!known) {
+        return { success: false, contents: [], error: "Resource not found" };
+      }
+      const result = await this.mcp.readResource(
+        { serverId, uri },
+        { timeout: this.getToolTimeoutMs() }
+      );
+      return { success: true, contents: summarizeResourceContents(result.contents) };
+    } catch (error) {
+      if (isAuthorizationError(error)) {
+        this.markServerAuthExpired(serverId);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, contents: [], error: message };
+    }
+  }
+
+  @callable({ description: "Get prompts exposed by connected MCP servers" })
+  async getAvailablePrompts(): Promise<
+    Array<{
+      name: string;
+      description?: string;
+      arguments: McpPromptArgument[];
+      serverId: string;
+      serverName?: string;
+    }>
+  > {
+    try {
+      await this.ensureMcpConnections();
+      if (!this.mcp) {
+        return [];
+      }
+      return this.mcp.listPrompts().map((prompt) => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: (prompt.arguments ?? []).map((argument: McpPromptArgument) => ({
+          name: argument.name,
+          description: argument.description,
+          required: argument.required
+        })),
+        serverId: prompt.serverId,
+        serverName: this.findServerNameById(prompt.serverId)
+      }));
+    } catch (error) {
+      console.error("Failed to get MCP prompts:", error);
+      this.updateLastError(error instanceof Error ? error.message : String(error));
+      return [];
+    }
+  }
+
+  @callable({ description: "Render an MCP prompt into chat messages" })
+  async getPrompt(
+    serverId: string,
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<{
+    success: boolean;
+    messages: RenderedPromptMessage[];
+    description?: string;
+    error?: string;
+  }> {
+    if (!serverId || !name) {
+      return { success: false, messages: [], error: "serverId and name are required" };
+    }
+
+    try {
+      await this.ensureMcpConnections();
+      const prompt = this.mcp
+        .listPrompts()
+        .find((item) => item.serverId === serverId && item.name === name);
+      if (!prompt) {
+        return { success: false, messages: [], error: "Prompt not found" };
+      }
+      const missing = findMissingPromptArguments(prompt.arguments, args);
+      if (missing.length > 0) {
+        return {
+          success: false,
+          messages: [],
+          error: `Missing required arguments: ${missing.join(", ")}`
+        };
+      }
+      const result = await this.mcp.getPrompt(
+        { serverId, name, arguments: args },
+        { timeout: this.getToolTimeoutMs() }
+      );
+      this.appendRuntimeEvent({
+        level: "info",
+        source: "mcp",
+        type: "prompt_rendered",
+        message: `MCP prompt ${name} rendered.`,
+        data: { serverId, name, messageCount: result.messages.length }
+      });
+      return {
+        success: true,
+        messages: renderPromptMessages(result.messages as RawPromptMessage[]),
+        description: result.description
+      };
+    } catch (error) {
+      if (isAuthorizationError(error)) {
+        this.markServerAuthExpired(serverId);
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, messages: [], error: message };
+    }
+  }
+
   @callable({ description: "List tool approval requests" })
   listToolApprovals(): ToolApprovalRequest[] {
     this.pruneApprovalState();
@@ -1500,9 +4003,9 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
   }
 
   @callable({ description: "Approve pending tool call request" })
-  approveToolCall(
+  async approveToolCall(
     approvalId: string
-  ): { success: boolean; error?: string; stateVersion: number } {
+  ): Promise<{ success: boolean; error?: string; resumed?: boolean; stateVersion: number }> {
     const target = this.state.runtime.approvals.find((item) => item.id === approvalId);
     if (!target || target.status !== "pending") {
       return {
@@ -1520,13 +4023,9 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
         approvals: this.state.runtime.approvals.map((item) =>
           item.id === approvalId ? { ...item, status: "approved", resolvedAt } : item
         ),
-        approvedSignatures: [
-          ...this.state.runtime.approvedSignatures,
-          {
-            signature: target.signature,
-            expiresAt: new Date(Date.now() + 10 * 60 * 1000).toISOString()
-          }
-        ].slice(-200),
+        approvedToolCalls: [...(this.state.runtime.approvedToolCalls ?? []), approvalId].slice(
+          -200
+        ),
         stateVersion: this.state.runtime.stateVersion + 1
       }
     });
@@ -1537,14 +4036,15 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
       message: `Tool approval granted for ${target.toolName}`,
       data: { approvalId }
     });
-    return { success: true, stateVersion: this.state.runtime.stateVersion };
+    const resumed = await this.resumeSuspendedToolCall(approvalId, true);
+    return { success: true, resumed, stateVersion: this.state.runtime.stateVersion };
   }
 
   @callable({ description: "Reject pending tool call request" })
-  rejectToolCall(
+  async rejectToolCall(
     approvalId: string,
     reason?: string
-  ): { success: boolean; error?: string; stateVersion: number } {
+  ): Promise<{ success: boolean; error?: string; resumed?: boolean; stateVersion: number }> {
     const target = this.state.runtime.approvals.find((item) => item.id === approvalId);
     if (!target || target.status !== "pending") {
       return {
@@ -1574,7 +4074,12 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
       message: `Tool approval rejected for ${target.toolName}`,
       data: { approvalId, reason: reason || "Rejected by operator" }
     });
-    return { success: true, stateVersion: this.state.runtime.stateVersion };
+    const resumed = await this.resumeSuspendedToolCall(
+      approvalId,
+      false,
+      reason || "Rejected by operator"
+    );
+    return { success: true, resumed, stateVersion: this.state.runtime.stateVersion };
   }
 
   @callable({ description: "Get runtime observability snapshot" })
@@ -1584,10 +4089,16 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
     events: AgentRuntimeEvent[];
     approvals: ToolApprovalRequest[];
     retryStats: RetryStats;
+    lifecycle: SessionLifecycleSnapshot;
+    contextSummary: ContextSummary | null;
+    quotas: QuotaSnapshot | null;
     stateVersion: number;
   }> {
     this.pruneApprovalState();
     return {
+      lifecycle: this.describeLifecycle(),
+      quotas: await this.getQuotaSnapshot(),
+      contextSummary: this.state.contextSummary ?? null,
       toolRuns: this.state.runtime.toolRuns,
       lastError: this.state.runtime.lastError,
       events: this.state.runtime.events,
@@ -1598,12 +4109,145 @@ export class ChatAgentV2 extends AIChatAgent<Env, ChatAgentState> {
   }
 
   @callable({ description: "Get current connection permissions" })
-  getPermissions(): { canEdit: boolean; readonly: boolean } {
+  getPermissions(): {
+    canEdit: boolean;
+    readonly: boolean;
+    canComment: boolean;
+    shareScope?: ShareScope;
+  } {
     const { connection } = getCurrentAgent();
     if (!connection) {
-      return { canEdit: false, readonly: true };
+      return { canEdit: false, readonly: true, canComment: false };
+    }
+    const share = this.getConnectionShare(connection);
+    if (share) {
+      return {
+        canEdit: false,
+        readonly: true,
+        canComment: share.scope === "comment",
+        shareScope: share.scope
+      };
     }
     const readonly = this.isConnectionReadonly(connection);
-    return { canEdit: !readonly, readonly };
+    return { canEdit: !readonly, readonly, canComment: !readonly };
+  }
+
+  @callable({ description: "Get token usage and cost per assistant message with session totals" })
+  getUsage(
+    filter: { model?: string; from?: string; to?: string; limit?: number } = {}
+  ): UsageReport {
+    const toIso = (value?: string) => {
+      const time = value ? Date.parse(value) : Number.NaN;
+      return Number.isNaN(time) ? null : new Date(time).toISOString();
+    };
+    const model = filter.model?.trim() || null;
+    const from = toIso(filter.from);
+    const to = toIso(filter.to);
+    const limit = Math.min(Math.max(Math.floor(filter.limit ?? 100), 1), 500);
+    this.ensureUsageTable();
+    const rows = this.sql<{
+      message_id: string;
+      model_ref: string;
+      input_tokens: number;
+      output_tokens: number;
+      reasoning_tokens: number;
+      total_tokens: number;
+      latency_ms: number;
+      finish_reason: string;
+      cost_usd: number | null;
+      completed_at: string;
+    }>`
+      select * from chat_usage
+      where (${model} is null or model_ref = ${model})
+        and (${from} is null or completed_at >= ${from})
+        and (${to} is null or completed_at <= ${to})
+      order by completed_at desc
+    `;
+    const records: UsageRecord[] = rows.map((row) => ({
+      messageId: row.message_id,
+      modelRef: row.model_ref,
+      inputTokens: Number(row.input_tokens) || 0,
+      outputTokens: Number(row.output_tokens) || 0,
+      reasoningTokens: Number(row.reasoning_tokens) || 0,
+      totalTokens: Number(row.total_tokens) || 0,
+      latencyMs: Number(row.latency_ms) || 0,
+      finishReason: row.finish_reason,
+      costUsd: row.cost_usd === null ? null : Number(row.cost_usd),
+      completedAt: row.completed_at
+    }));
+    const report = summarizeUsage(records);
+    return { ...report, records: report.records.slice(0, limit) };
+  }
+
+  // ============ Share Links (callable methods) ============
+
+  @callable({ description: "Create a signed, expiring share link for this session" })
+  async createShareLink(options: { scope: ShareScope; expiresInSeconds?: number }): Promise<{
+    success: boolean;
+    error?: string;
+    link?: ShareLinkRecord;
+  }> {
+    if (!isShareScope(options?.scope)) {
+      return { success: false, error: 'scope must be "view" or "comment"' };
+    }
+    const now = Date.now();
+    const expiresAt = Math.floor(now / 1000) + normalizeShareTtlSeconds(options.expiresInSeconds);
+    const id = crypto.randomUUID();
+    this.ensureShareLinkTables();
+    this.sql`
+      insert into chat_share_links (id, scope, created_at, expires_at)
+      values (
+        ${id},
+        ${options.scope},
+        ${new Date(now).toISOString()},
+        ${new Date(expiresAt * 1000).toISOString()}
+      )
+    `;
+    this.appendRuntimeEvent({
+      level: "info",
+      source: "system",
+      type: "share_link_created",
+      message: `Created a ${options.scope} share link.`,
+      data: { shareId: id, scope: options.scope }
+    });
+    const row = this.getShareLinkRow(id);
+    return row
+      ? { success: true, link: await this.toShareLinkRecord(row) }
+      : { success: false, error: "Failed to create share link" };
+  }
+
+  @callable({ description: "List this session's share links, newest first" })
+  async listShareLinks(): Promise<ShareLinkRecord[]> {
+    this.ensureShareLinkTables();
+    const rows = this.sql<ShareLinkRow>`
+      select * from chat_share_links order by created_at desc, id desc
+    `;
+    return await Promise.all(rows.map((row) => this.toShareLinkRecord(row)));
+  }
+
+  @callable({ description: "Revoke a share link and disconnect anyone using it" })
+  revokeShareLink(shareId: string): { success: boolean; error?: string; revoked: boolean } {
+    const row = shareId ? this.getShareLinkRow(shareId) : null;
+    if (!row) {
+      return { success: false, error: "Share link not found", revoked: false };
+    }
+    if (!row.revoked_at) {
+      this.sql`
+        update chat_share_links set revoked_at = ${new Date().toISOString()} where id = ${shareId}
+      `;
+      this.appendRuntimeEvent({
+        level: "info",
+        source: "system",
+        type: "share_link_revoked",
+        message: "Revoked a share link.",
+        data: { shareId }
+      });
+    }
+    for (const connection of this.getConnections()) {
+      if (this.getConnectionShare(connection)?.shareId === shareId) {
+        connection.close(4403, "This share link has been revoked");
+      }
+    }
+    return { success: true, revoked: true };
   }
 }
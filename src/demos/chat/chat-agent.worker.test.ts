@@ -0,0 +1,244 @@
+import { SELF, env, runInDurableObject } from "cloudflare:test";
+import { __DO_NOT_USE_WILL_BREAK__agentContext as agentContext } from "agents";
+import type { UIMessage } from "ai";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ChatAgentV2 } from "./chat-agent";
+
+/** Answers every model call with `reply`; MCP servers and anything else are unreachable. */
+function mockUpstream(reply: string) {
+  return vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+    const url = input instanceof Request ? input.url : String(input);
+    if (!url.endsWith("/chat/completions")) {
+      return new Response("unavailable", { status: 503 });
+    }
+    const chunk = (delta: object, finishReason: string | null) =>
+      `data: ${JSON.stringify({
+        id: "completion",
+        object: "chat.completion.chunk",
+        created: 0,
+        model: "mock",
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+        ...(finishReason
+          ? { usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } }
+          : {})
+      })}\n\n`;
+    return new Response(
+      chunk({ role: "assistant", content: reply }, null) + chunk({}, "stop") + "data: [DONE]\n\n",
+      { headers: { "content-type": "text/event-stream" } }
+    );
+  });
+}
+
+function agentStub(sessionId: string) {
+  return env.ChatAgentV2.get(env.ChatAgentV2.idFromName(sessionId));
+}
+
+async function createShareToken(sessionId: string, scope: "view" | "comment") {
+  const result = await runInDurableObject(agentStub(sessionId), (agent: ChatAgentV2) =>
+    agent.createShareLink({ scope })
+  );
+  if (!result.link?.token) throw new Error(result.error ?? "No share token was issued");
+  return result.link.token;
+}
+
+async function connect(sessionId: string, shareToken: string) {
+  const response = await SELF.fetch(
+    `https://chat.example/agents/chat-agent-v2/${sessionId}?share=${encodeURIComponent(shareToken)}`,
+    { headers: { Upgrade: "websocket" } }
+  );
+  if (!response.webSocket) throw new Error(`WebSocket upgrade failed with ${response.status}`);
+  response.webSocket.accept();
+  return response.webSocket;
+}
+
+/**
+ * Run `fn` as a call from the session's only connection, the way the RPC and chat
+ * handlers run for messages it sends.
+ */
+function asConnection<T>(sessionId: string, fn: (agent: ChatAgentV2) => Promise<T> | T) {
+  return runInDurableObject(agentStub(sessionId), (agent: ChatAgentV2) => {
+    const [connection] = [...agent.getConnections()];
+    if (!connection) throw new Error("The session has no connection");
+    return agentContext.run({ agent, connection, request: undefined, email: undefined }, () =>
+      fn(agent)
+    );
+  });
+}
+
+function userMessage(id: string, text: string): UIMessage {
+  return { id, role: "user", parts: [{ type: "text", text }] };
+}
+
+function assistantMessage(id: string, text: string): UIMessage {
+  return { id, role: "assistant", parts: [{ type: "text", text }] };
+}
+
+/** The session's messages once there are `count`; replies are persisted after they stream. */
+function waitForMessages(sessionId: string, count: number) {
+  return runInDurableObject(agentStub(sessionId), async (agent: ChatAgentV2) => {
+    for (let attempt = 0; attempt < 100 && agent.messages.length < count; attempt += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return agent.messages;
+  });
+}
+
+/** Ids of the rows AIChatAgent loads the conversation from, in load order. */
+function storedMessageIds(agent: ChatAgentV2) {
+  return agent.sql<{ id: string }>`
+    select id from cf_ai_chat_agent_messages order by created_at, rowid
+  `.map((row) => row.id);
+}
+
+const CONVERSATION = [
+  userMessage("u1", "First question"),
+  assistantMessage("a1", "First answer"),
+  userMessage("u2", "Second question"),
+  assistantMessage("a2", "Second answer")
+];
+
+describe("share link connections", () => {
+  let upstream: ReturnType<typeof mockUpstream>;
+
+  beforeEach(() => {
+    upstream = mockUpstream("Noted.");
+  });
+
+  afterEach(() => {
+    upstream.mockRestore();
+  });
+
+  it.each(["view", "comment"] as const)("serve the read callables to %s links", async (scope) => {
+    const sessionId = `share-${scope}`;
+    // Connecting to a hibernated session wakes it, which writes state for the guest.
+    await runInDurableObject(agentStub(sessionId), (agent: ChatAgentV2) => agent.onIdleTimeout());
+    const socket = await connect(sessionId, await createShareToken(sessionId, scope));
+
+    const results = await asConnection(sessionId, async (agent) => ({
+      permissions: agent.getPermissions(),
+      approvals: agent.listToolApprovals(),
+      snapshot: await agent.getRuntimeSnapshot(),
+      tools: await agent.getAvailableTools(),
+      resources: await agent.getAvailableResources(),
+      prompts: await agent.getAvailablePrompts()
+    }));
+
+    expect(results.permissions).toEqual({
+      canEdit: false,
+      readonly: true,
+      canComment: scope === "comment",
+      shareScope: scope
+    });
+    expect(results.approvals).toEqual([]);
+    expect(results.snapshot.lifecycle.hibernatedAt).toBeUndefined();
+    expect(results.snapshot.lastError ?? "").not.toContain("readonly");
+    socket.close();
+  });
+
+  it("store a comment and its reply", async () => {
+    const sessionId = "share-comment-chat";
+    const socket = await connect(sessionId, await createShareToken(sessionId, "comment"));
+
+    await asConnection(sessionId, (agent) =>
+      agent.saveMessages([...agent.messages, userMessage("guest-1", "Looks good to me")])
+    );
+    const messages = await waitForMessages(sessionId, 2);
+
+    expect(messages.map((message) => message.role)).toEqual(["user", "assistant"]);
+    expect(messages[0].id).toBe("guest-1");
+    expect(JSON.stringify(messages[1].parts)).toContain("Noted.");
+    socket.close();
+  });
+});
+
+describe("message history", () => {
+  let upstream: ReturnType<typeof mockUpstream>;
+
+  beforeEach(() => {
+    upstream = mockUpstream("Rephrased answer.");
+  });
+
+  afterEach(() => {
+    upstream.mockRestore();
+  });
+
+  it("stores only the edited path after an edit", async () => {
+    const result = await runInDurableObject(agentStub("edit"), async (agent: ChatAgentV2) => {
+      await agent.persistMessages(CONVERSATION);
+      const edit = await agent.editUserMessage("u2", "Second question, rephrased");
+      return { edit, stored: storedMessageIds(agent), live: agent.messages.map((m) => m.id) };
+    });
+
+    expect(result.edit.updated).toBe(true);
+    expect(result.stored).toEqual(["u1", "a1", result.edit.messageId]);
+    expect(result.live).toEqual(result.stored);
+  });
+
+  it("stores only the selected branch after switching", async () => {
+    const result = await runInDurableObject(agentStub("switch"), async (agent: ChatAgentV2) => {
+      await agent.persistMessages(CONVERSATION);
+      const edit = await agent.editUserMessage("u2", "Second question, rephrased");
+      await agent.persistMessages([
+        ...agent.messages,
+        assistantMessage("a2-edited", "Answer to the rephrased question")
+      ]);
+      const back = await agent.switchBranch("u2");
+      const storedBack = storedMessageIds(agent);
+      const forth = await agent.switchBranch(edit.messageId ?? "");
+      return { edit, back, storedBack, forth, stored: storedMessageIds(agent) };
+    });
+
+    expect(result.back.switched).toBe(true);
+    expect(result.storedBack).toEqual(["u1", "a1", "u2", "a2"]);
+    expect(result.forth.switched).toBe(true);
+    expect(result.stored).toEqual(["u1", "a1", result.edit.messageId, "a2-edited"]);
+  });
+
+  it("answers an edited and resent message on the edited path only", async () => {
+    const sessionId = "edit-resend";
+    const edit = await runInDurableObject(agentStub(sessionId), async (agent: ChatAgentV2) => {
+      await agent.persistMessages(CONVERSATION);
+      const result = await agent.editUserMessage("u2", "Second question, rephrased");
+      // The client reloads the history and regenerates from the edited message.
+      await agent.saveMessages(agent.messages);
+      return result;
+    });
+    const messages = await waitForMessages(sessionId, 4);
+    const stored = await runInDurableObject(agentStub(sessionId), storedMessageIds);
+
+    expect(messages.map((message) => message.role)).toEqual([
+      "user",
+      "assistant",
+      "user",
+      "assistant"
+    ]);
+    expect(messages[2]).toMatchObject({
+      id: edit.messageId,
+      parts: [{ type: "text", text: "Second question, rephrased" }]
+    });
+    expect(JSON.stringify(messages[3].parts)).toContain("Rephrased answer.");
+    expect(stored).toEqual(messages.map((message) => message.id));
+  });
+
+  it("replaces a regenerated reply on the path and keeps it as another version", async () => {
+    const sessionId = "regenerate";
+    await runInDurableObject(agentStub(sessionId), async (agent: ChatAgentV2) => {
+      await agent.persistMessages(CONVERSATION);
+      const regeneration = await agent.streamRegeneration("a2");
+      if (!regeneration.success) throw new Error(regeneration.error);
+      // The SSE route forwards this copy of the reply stream.
+      await new Response(regeneration.stream).text();
+    });
+    const messages = await waitForMessages(sessionId, 4);
+    const { stored, branches } = await runInDurableObject(
+      agentStub(sessionId),
+      (agent: ChatAgentV2) => ({ stored: storedMessageIds(agent), branches: agent.state.branches })
+    );
+
+    const reply = messages[3];
+    expect(reply.id).not.toBe("a2");
+    expect(JSON.stringify(reply.parts)).toContain("Rephrased answer.");
+    expect(stored).toEqual(["u1", "a1", "u2", reply.id]);
+    expect(branches).toEqual([{ parentId: "u2", messageIds: ["a2", reply.id] }]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSummaryTranscript,
+  estimateMessageTokens,
+  estimateTokens,
+  planContextWindow,
+  resolveSummaryStart
+} from "./context-window";
+
+function turn(id: string, role: "user" | "assistant", text: string) {
+  return { id, role, parts: [{ type: "text", text }] };
+}
+
+/** Alternating user/assistant turns of roughly `tokens` tokens each. */
+function conversation(count: number, tokens = 100) {
+  return Array.from({ length: count }, (_, index) =>
+    turn(`m${index}`, index % 2 === 0 ? "user" : "assistant", "x".repeat(tokens * 4))
+  );
+}
+
+describe("estimateTokens", () => {
+  it("counts CJK characters individually", () => {
+    expect(estimateTokens("abcdefgh")).toBe(2);
+    expect(estimateTokens("你好世界")).toBe(4);
+    expect(estimateTokens("")).toBe(0);
+  });
+
+  it("charges images and tool payloads", () => {
+    const tokens = estimateMessageTokens({
+      role: "user",
+      parts: [
+        { type: "file", mediaType: "image/png", url: "/api/chat/attachments/a?sessionId=s" },
+        { type: "tool-search", input: { q: "abcd" }, output: null } as never
+      ]
+    });
+    expect(tokens).toBeGreaterThan(1_000);
+  });
+});
+
+describe("planContextWindow", () => {
+  it("does nothing while history fits the budget", () => {
+    const plan = planContextWindow({
+      messages: conversation(6),
+      startIndex: 0,
+      budgetTokens: 1_000
+    });
+    expect(plan).toMatchObject({ action: "none", startIndex: 0 });
+  });
+
+  it("folds older turns so the tail fits half the budget and starts on a user turn", () => {
+    const messages = conversation(20);
+    const plan = planContextWindow({ messages, startIndex: 0, budgetTokens: 1_000 });
+
+    expect(plan.action).toBe("summarize");
+    if (plan.action !== "summarize") return;
+    expect(messages[plan.foldUntil].role).toBe("user");
+    const tail = messages
+      .slice(plan.foldUntil)
+      .reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+    expect(tail).toBeLessThanOrEqual(500);
+  });
+
+  it("always keeps the most recent messages verbatim", () => {
+    const messages = conversation(8, 1_000);
+    const plan = planContextWindow({ messages, startIndex: 0, budgetTokens: 1_000 });
+
+    expect(plan).toMatchObject({ action: "summarize", foldUntil: 4 });
+  });
+
+  it("never moves the boundary backwards", () => {
+    const messages = conversation(6, 1_000);
+    const plan = planContextWindow({ messages, startIndex: 4, budgetTokens: 100 });
+    expect(plan).toMatchObject({ action: "none", startIndex: 4 });
+  });
+});
+
+describe("resolveSummaryStart", () => {
+  const messages = conversation(6);
+  const summary = {
+    text: "earlier",
+    boundaryMessageId: "m4",
+    coveredThroughMessageId: "m3",
+    summarizedCount: 4,
+    updatedAt: "2026-01-01T00:00:00.000Z"
+  };
+
+  it("starts after the summarized messages", () => {
+    expect(resolveSummaryStart(messages, summary)).toBe(4);
+    expect(resolveSummaryStart(messages, null)).toBe(0);
+  });
+
+  it("invalidates the summary when history before the boundary changed", () => {
+    const edited = messages.filter((message) => message.id !== "m3");
+    expect(resolveSummaryStart(edited, summary)).toBeNull();
+    expect(resolveSummaryStart(messages.slice(0, 3), summary)).toBeNull();
+  });
+
+  it("accepts a boundary at the start of history once covered messages are archived", () => {
+    const live = messages.slice(4);
+    expect(resolveSummaryStart(live, summary, "m3")).toBe(0);
+    expect(resolveSummaryStart(live, summary, "m2")).toBeNull();
+    expect(resolveSummaryStart(live, summary)).toBeNull();
+  });
+});
+
+describe("buildSummaryTranscript", () => {
+  it("labels speakers and notes attachments and tool calls", () => {
+    const transcript = buildSummaryTranscript([
+      {
+        role: "user",
+        parts: [
+          { type: "file", mediaType: "text/csv", filename: "q3.csv", url: "/x" },
+          { type: "text", text: "summarize this" }
+        ]
+      },
+      {
+        role: "assistant",
+        parts: [{ type: "tool-webSearchPrime" }, { type: "text", text: "done" }]
+      },
+      { role: "assistant", parts: [{ type: "step-start" }] }
+    ]);
+
+    expect(transcript).toBe(
+      "User: [attached file: q3.csv]\nsummarize this\n\nAssistant: [called tool webSearchPrime]\ndone"
+    );
+  });
+});
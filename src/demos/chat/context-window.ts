@@ -0,0 +1,173 @@
+import { isFilePart } from "./attachments";
+import { isResourcePart } from "./mcp-resources";
+import type { ChatMessageLike, MessagePartLike } from "./model-utils";
+
+/** Rough cost of one image part; real costs vary widely between providers. */
+export const IMAGE_TOKEN_ESTIMATE = 1_000;
+
+/** Messages always sent verbatim, however large they are. */
+export const MIN_RECENT_MESSAGES = 4;
+
+/** Share of the budget the verbatim tail is cut to, so summaries do not re-run every turn. */
+export const SUMMARY_TARGET_RATIO = 0.5;
+
+export const MAX_SUMMARY_CHARS = 6_000;
+
+const MAX_TRANSCRIPT_MESSAGE_CHARS = 4_000;
+
+export interface ContextSummary {
+  text: string;
+  /** First message still sent to the model verbatim. */
+  boundaryMessageId: string;
+  /** Last message folded into the summary; lets edits before the boundary invalidate it. */
+  coveredThroughMessageId: string;
+  summarizedCount: number;
+  updatedAt: string;
+}
+
+interface IdentifiedMessage extends ChatMessageLike {
+  id: string;
+}
+
+export type ContextPlan =
+  | { action: "none"; startIndex: number; historyTokens: number }
+  | { action: "summarize"; startIndex: number; foldUntil: number; historyTokens: number };
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/g;
+
+/** Cheap token estimate: ~4 characters per token for Latin text, one per CJK character. */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+function estimatePartTokens(part: MessagePartLike): number {
+  if (isResourcePart(part)) return estimateTokens(part.data.text);
+  if (isFilePart(part)) {
+    return part.mediaType.startsWith("image/") ? IMAGE_TOKEN_ESTIMATE : IMAGE_TOKEN_ESTIMATE / 2;
+  }
+  if (typeof part.text === "string") return estimateTokens(part.text);
+  if (part.type.startsWith("tool-") || part.type === "dynamic-tool") {
+    const { input, output } = part as { input?: unknown; output?: unknown };
+    return (
+      estimateTokens(JSON.stringify(input ?? null)) + estimateTokens(JSON.stringify(output ?? null))
+    );
+  }
+  return 0;
+}
+
+export function estimateMessageTokens(message: ChatMessageLike): number {
+  // Per-message framing overhead charged by chat templates.
+  return 4 + message.parts.reduce((total, part) => total + estimatePartTokens(part), 0);
+}
+
+/**
+ * Index of the first message after the summary, or null when the summary no longer lines up
+ * with history (its boundary was deleted, or a covered message was edited away). Once covered
+ * messages are archived the boundary opens the live history, and `archivedThroughId` names
+ * the message just before it.
+ */
+export function resolveSummaryStart(
+  messages: IdentifiedMessage[],
+  summary: ContextSummary | null | undefined,
+  archivedThroughId?: string | null
+): number | null {
+  if (!summary) return 0;
+  const index = messages.findIndex((message) => message.id === summary.boundaryMessageId);
+  if (index < 0) return null;
+  const previousId = index > 0 ? messages[index - 1].id : archivedThroughId;
+  return previousId === summary.coveredThroughMessageId ? index : null;
+}
+
+/**
+ * Decide whether the verbatim history past `startIndex` still fits `budgetTokens`. When it
+ * does not, pick a later boundary at a user turn so that the kept tail fits the target share
+ * of the budget; everything between the two indexes should be folded into the summary.
+ */
+export function planContextWindow(params: {
+  messages: ChatMessageLike[];
+  startIndex: number;
+  budgetTokens: number;
+}): ContextPlan {
+  const { messages, startIndex, budgetTokens } = params;
+  const costs = messages.map(estimateMessageTokens);
+  const historyTokens = costs.slice(startIndex).reduce((total, cost) => total + cost, 0);
+  if (historyTokens <= budgetTokens) {
+    return { action: "none", startIndex, historyTokens };
+  }
+
+  const target = budgetTokens * SUMMARY_TARGET_RATIO;
+  const latestStart = Math.max(startIndex, messages.length - MIN_RECENT_MESSAGES);
+  let boundary = latestStart;
+  let tailTokens = costs.slice(latestStart).reduce((total, cost) => total + cost, 0);
+  while (boundary > startIndex && tailTokens + costs[boundary - 1] <= target) {
+    boundary -= 1;
+    tailTokens += costs[boundary];
+  }
+  // The verbatim tail has to open on a user turn; move forward, never back into the summary.
+  while (boundary < latestStart && messages[boundary].role !== "user") {
+    boundary += 1;
+  }
+  if (messages[boundary]?.role !== "user") {
+    const previousUser = messages
+      .slice(startIndex + 1, boundary)
+      .map((message) => message.role)
+      .lastIndexOf("user");
+    boundary = previousUser < 0 ? startIndex : startIndex + 1 + previousUser;
+  }
+
+  if (boundary <= startIndex) {
+    return { action: "none", startIndex, historyTokens };
+  }
+  return { action: "summarize", startIndex, foldUntil: boundary, historyTokens };
+}
+
+function describePart(part: MessagePartLike): string | null {
+  if (isResourcePart(part)) return `[attached resource: ${part.data.name || part.data.uri}]`;
+  if (isFilePart(part)) return `[attached file: ${part.filename || part.mediaType}]`;
+  if (part.type === "text" && typeof part.text === "string") return part.text;
+  if (part.type.startsWith("tool-")) return `[called tool ${part.type.slice("tool-".length)}]`;
+  return null;
+}
+
+/** Plain-text transcript of the messages being folded; long turns are clipped. */
+export function buildSummaryTranscript(messages: ChatMessageLike[]): string {
+  return messages
+    .map((message) => {
+      const body = message.parts
+        .map(describePart)
+        .filter((text): text is string => Boolean(text?.trim()))
+        .join("\n")
+        .trim();
+      if (!body) return null;
+      const clipped =
+        body.length > MAX_TRANSCRIPT_MESSAGE_CHARS
+          ? `${body.slice(0, MAX_TRANSCRIPT_MESSAGE_CHARS)} [...]`
+          : body;
+      const speaker =
+        message.role === "assistant" ? "Assistant" : message.role === "user" ? "User" : "System";
+      return `${speaker}: ${clipped}`;
+    })
+    .filter((line): line is string => line !== null)
+    .join("\n\n");
+}
+
+export const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant.
+Merge the previous summary with the new transcript into one updated summary.
+Keep facts, decisions, names, numbers, user preferences, open questions and unfinished tasks.
+Drop greetings, filler and superseded details. Write in the conversation's language.
+Respond with the summary only, at most ${Math.floor(MAX_SUMMARY_CHARS / 6)} words.`;
+
+export function buildSummaryPrompt(
+  previousSummary: string | undefined,
+  transcript: string
+): string {
+  return [
+    "Previous summary:",
+    previousSummary?.trim() || "(none)",
+    "",
+    "New transcript to fold in:",
+    transcript
+  ].join("\n");
+}
@@ -0,0 +1,192 @@
+import type { ReactNode } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import Markdown, { type Components, type ExtraProps } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import {
+  describeToolCallStatus,
+  formatExportValue,
+  getRoleLabel,
+  toSafeExportUrl,
+  type ConversationExport,
+  type ExportedMessage
+} from "./conversation-export";
+
+/** Marks chart sources; the web client swaps each one for the rendered SVG before saving. */
+export const EXPORT_CHART_ATTRIBUTE = "data-chart";
+
+type Element = NonNullable<ExtraProps["node"]>;
+type ElementContent = Element["children"][number];
+
+const MERMAID_START =
+  /^(flowchart|graph|sequenceDiagram|classDiagram|stateDiagram|erDiagram|journey|gantt|pie|mindmap|timeline|gitGraph)\b/i;
+
+function textContent(nodes: ElementContent[]): string {
+  return nodes
+    .map((node) =>
+      node.type === "text" ? node.value : node.type === "element" ? textContent(node.children) : ""
+    )
+    .join("");
+}
+
+/** The chart kind of a fenced code block, matching what the chat view renders as a chart. */
+export function detectChartKind(language: string, code: string): "mermaid" | "g2" | null {
+  if (language === "g2") return "g2";
+  if (language === "mermaid" || language === "mmd") return "mermaid";
+  return !language && MERMAID_START.test(code.trim()) ? "mermaid" : null;
+}
+
+function readCodeBlock(node: Element | undefined): { language: string; code: string } | null {
+  const code = node?.children.find(
+    (child): child is Element => child.type === "element" && child.tagName === "code"
+  );
+  if (!code) return null;
+  const classNames = Array.isArray(code.properties.className) ? code.properties.className : [];
+  const language = classNames
+    .map(String)
+    .find((name) => name.startsWith("language-"))
+    ?.slice("language-".length)
+    .toLowerCase();
+  return { language: language ?? "", code: textContent(code.children).replace(/\n$/, "") };
+}
+
+const markdownComponents: Components = {
+  pre({ node, children }) {
+    const block = readCodeBlock(node);
+    const kind = block && detectChartKind(block.language, block.code);
+    if (!block || !kind) return <pre>{children}</pre>;
+    return (
+      <figure className="chart" {...{ [EXPORT_CHART_ATTRIBUTE]: kind }}>
+        <pre>
+          <code>{block.code}</code>
+        </pre>
+      </figure>
+    );
+  }
+};
+
+const STYLES = `
+:root { color-scheme: light; --line: #e4e4e7; --muted: #71717a; --accent: #f6821f; }
+* { box-sizing: border-box; }
+body { margin: 0 auto; max-width: 860px; padding: 32px 20px 64px; font: 15px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; color: #18181b; background: #fafafa; }
+header { margin-bottom: 24px; }
+h1 { margin: 0 0 4px; font-size: 24px; }
+.meta, .message > h2 small, .tool summary small { color: var(--muted); font-size: 12px; font-weight: normal; }
+.message { margin: 0 0 16px; padding: 16px 20px; background: #fff; border: 1px solid var(--line); border-radius: 12px; }
+.message.user { background: #fff7ed; border-color: #fed7aa; }
+.message > h2 { margin: 0 0 8px; font-size: 14px; text-transform: uppercase; letter-spacing: 0.04em; }
+.reasoning, .tool { margin: 8px 0; border: 1px solid var(--line); border-radius: 8px; padding: 6px 10px; background: #f4f4f5; }
+.tool.rejected { border-color: #fecaca; }
+summary { cursor: pointer; font-size: 13px; font-weight: 600; }
+pre { overflow-x: auto; padding: 10px 12px; background: #f4f4f5; border-radius: 8px; font-size: 13px; white-space: pre-wrap; word-break: break-word; }
+code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
+table { border-collapse: collapse; } th, td { border: 1px solid var(--line); padding: 4px 8px; }
+figure.chart { margin: 12px 0; } figure.chart svg { max-width: 100%; height: auto; }
+.sources { margin-top: 12px; padding-top: 8px; border-top: 1px dashed var(--line); font-size: 13px; }
+.sources blockquote { margin: 2px 0 6px; color: var(--muted); }
+a { color: #c2410c; }
+`;
+
+function ToolCalls({ message }: { message: ExportedMessage }) {
+  return (
+    <>
+      {message.toolCalls.map((call, index) => (
+        <details
+          key={call.toolCallId ?? index}
+          className={`tool${call.approval?.status === "rejected" ? " rejected" : ""}`}
+        >
+          <summary>
+            {call.toolName} <small>{describeToolCallStatus(call)}</small>
+          </summary>
+          {call.approval?.reason ? <p>{call.approval.reason}</p> : null}
+          {call.input !== undefined ? <pre>{formatExportValue(call.input)}</pre> : null}
+          {call.output !== undefined ? <pre>{formatExportValue(call.output)}</pre> : null}
+          {call.errorText ? <pre>{call.errorText}</pre> : null}
+        </details>
+      ))}
+    </>
+  );
+}
+
+function Message({ message }: { message: ExportedMessage }) {
+  let body: ReactNode = null;
+  if (message.text) {
+    body =
+      message.role === "user" ? (
+        <p style={{ whiteSpace: "pre-wrap" }}>{message.text}</p>
+      ) : (
+        <Markdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+          {message.text}
+        </Markdown>
+      );
+  }
+  return (
+    <article className={`message ${message.role}`} id={`message-${message.id}`}>
+      <h2>
+        {getRoleLabel(message.role)} {message.createdAt ? <small>{message.createdAt}</small> : null}
+      </h2>
+      {message.attachments.length > 0 ? (
+        <ul>
+          {message.attachments.map((attachment) => (
+            <li key={attachment.url}>
+              <a href={toSafeExportUrl(attachment.url)}>
+                {attachment.filename ?? attachment.mediaType}
+              </a>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {message.reasoning ? (
+        <details className="reasoning">
+          <summary>Reasoning</summary>
+          <p style={{ whiteSpace: "pre-wrap" }}>{message.reasoning}</p>
+        </details>
+      ) : null}
+      <ToolCalls message={message} />
+      {body}
+      {message.citations.length > 0 ? (
+        <ol className="sources">
+          {message.citations.map((citation, index) => (
+            <li key={`${citation.title}-${index}`}>
+              {toSafeExportUrl(citation.url) ? (
+                <a href={toSafeExportUrl(citation.url)}>{citation.title}</a>
+              ) : (
+                citation.title
+              )}
+              {citation.excerpts.map((excerpt) => (
+                <blockquote key={excerpt}>{excerpt}</blockquote>
+              ))}
+            </li>
+          ))}
+        </ol>
+      ) : null}
+    </article>
+  );
+}
+
+/** A single-file HTML page with inline styles and no scripts. */
+export function renderHtmlExport(doc: ConversationExport): string {
+  const markup = renderToStaticMarkup(
+    <html lang="en">
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>{doc.title}</title>
+        <style dangerouslySetInnerHTML={{ __html: STYLES }} />
+      </head>
+      <body>
+        <header>
+          <h1>{doc.title}</h1>
+          <div className="meta">
+            Session {doc.sessionId} · exported {doc.exportedAt}
+          </div>
+        </header>
+        <main>
+          {doc.messages.map((message) => (
+            <Message key={message.id} message={message} />
+          ))}
+        </main>
+      </body>
+    </html>
+  );
+  return `<!doctype html>\n${markup}\n`;
+}
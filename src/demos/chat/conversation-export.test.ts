@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildContentDisposition,
+  buildConversationExport,
+  buildExportFilename,
+  renderJsonExport,
+  renderMarkdownExport,
+  type ExportSourceMessage
+} from "./conversation-export";
+import { detectChartKind, renderHtmlExport } from "./conversation-export-html";
+
+const NOW = Date.UTC(2026, 0, 2, 9);
+
+const messages: ExportSourceMessage[] = [
+  {
+    id: "u1",
+    role: "user",
+    createdAt: "2026-01-02T08:59:00.000Z",
+    parts: [
+      {
+        type: "file",
+        mediaType: "image/png",
+        filename: "plot.png",
+        url: "/api/chat/attachments/a1"
+      },
+      { type: "text", text: "Chart the <b>results</b>" }
+    ]
+  },
+  {
+    id: "a1",
+    role: "assistant",
+    parts: [
+      { type: "reasoning", text: "Need the data first." },
+      {
+        type: "tool-search",
+        toolCallId: "call-1",
+        state: "output-available",
+        input: { query: "results" },
+        output: { rows: 3 }
+      },
+      {
+        type: "dynamic-tool",
+        toolName: "delete_file",
+        toolCallId: "call-2",
+        state: "output-denied",
+        input: { path: "/tmp/x" },
+        approval: { id: "call-2", approved: false }
+      },
+      {
+        type: "data-sources",
+        data: [{ title: "Report", url: "https://example.com/r", chunks: [{ text: "Q1 up 4%" }] }]
+      },
+      { type: "source-url", url: "javascript:alert(1)", title: "Bad link" },
+      {
+        type: "text",
+        text: "Here:\n\n```mermaid\ngraph TD; A-->B\n```\n\n```ts\nconst a = 1;\n```"
+      }
+    ],
+    metadata: { usage: { totalTokens: 42 } }
+  }
+];
+
+function buildDoc() {
+  return buildConversationExport({
+    sessionId: "s1",
+    title: "Quarterly results",
+    messages,
+    approvals: [
+      {
+        id: "call-2",
+        status: "rejected",
+        reason: "Not allowed",
+        resolvedAt: "2026-01-02T09:00:00Z"
+      }
+    ],
+    now: NOW
+  });
+}
+
+describe("conversation export", () => {
+  it("collects text, reasoning, tool calls with approvals, citations and attachments", () => {
+    const [user, assistant] = buildDoc().messages;
+    expect(user.attachments).toEqual([
+      { filename: "plot.png", mediaType: "image/png", url: "/api/chat/attachments/a1" }
+    ]);
+    expect(assistant.reasoning).toBe("Need the data first.");
+    expect(assistant.toolCalls).toEqual([
+      {
+        toolCallId: "call-1",
+        toolName: "search",
+        state: "output-available",
+        input: { query: "results" },
+        output: { rows: 3 }
+      },
+      expect.objectContaining({
+        toolName: "delete_file",
+        approval: expect.objectContaining({ status: "rejected", reason: "Not allowed" })
+      })
+    ]);
+    expect(assistant.citations.map((citation) => citation.title)).toEqual(["Report", "Bad link"]);
+    expect(assistant.metadata).toEqual({ usage: { totalTokens: 42 } });
+  });
+
+  it("renders markdown with fenced tool payloads and numbered sources", () => {
+    const markdown = renderMarkdownExport(buildDoc());
+    expect(markdown).toContain("# Quarterly results");
+    expect(markdown).toContain("### Tool `delete_file` (output-denied, approval rejected)");
+    expect(markdown).toContain('```json\n{\n  "query": "results"\n}\n```');
+    expect(markdown).toContain("1. [Report](https://example.com/r) - Q1 up 4%");
+    expect(markdown).toContain("> Need the data first.");
+    expect(markdown).toContain("2. Bad link");
+  });
+
+  it("renders JSON that round-trips the export document", () => {
+    expect(JSON.parse(renderJsonExport(buildDoc()))).toEqual(buildDoc());
+  });
+
+  it("renders self-contained HTML with chart sources marked for inlining", () => {
+    const html = renderHtmlExport(buildDoc());
+    expect(html.startsWith("<!doctype html>")).toBe(true);
+    expect(html).not.toContain("<script");
+    expect(html).toContain("Chart the &lt;b&gt;results&lt;/b&gt;");
+    expect(html).toMatch(
+      /<figure class="chart" data-chart="mermaid"><pre><code>graph TD; A--&gt;B<\/code>/
+    );
+    expect(html).toContain('<code class="language-ts">');
+    expect(html).not.toContain("javascript:");
+    expect(html).toContain('<a href="https://example.com/r">Report</a>');
+  });
+
+  it("detects the same chart blocks as the chat view", () => {
+    expect(detectChartKind("g2", "{}")).toBe("g2");
+    expect(detectChartKind("", "sequenceDiagram\nA->>B: hi")).toBe("mermaid");
+    expect(detectChartKind("text", "graph TD")).toBeNull();
+  });
+
+  it("names downloads after the session title", () => {
+    expect(buildExportFilename("Quarterly results!", "md", NOW)).toBe(
+      "quarterly-results-2026-01-02.md"
+    );
+    expect(buildExportFilename("季度结果", "html", NOW)).toBe("季度结果-2026-01-02.html");
+    expect(buildExportFilename("???", "json", NOW)).toBe("conversation-2026-01-02.json");
+    expect(buildContentDisposition("季度.md")).toBe(
+      `attachment; filename="__.md"; filename*=UTF-8''${encodeURIComponent("季度.md")}`
+    );
+  });
+});
@@ -0,0 +1,308 @@
+import { extractMessageSources } from "../../types/message-sources";
+
+export const EXPORT_FORMATS = ["md", "json", "html"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  html: "text/html; charset=utf-8"
+};
+
+export type ExportedApprovalStatus = "pending" | "approved" | "rejected";
+
+export interface ExportedToolCall {
+  toolCallId?: string;
+  toolName: string;
+  state: string;
+  input?: unknown;
+  output?: unknown;
+  errorText?: string;
+  approval?: {
+    id: string;
+    status: ExportedApprovalStatus;
+    reason?: string;
+    resolvedAt?: string;
+  };
+}
+
+export interface ExportedCitation {
+  title: string;
+  url?: string;
+  excerpts: string[];
+}
+
+export interface ExportedAttachment {
+  filename?: string;
+  mediaType: string;
+  url: string;
+}
+
+export interface ExportedMessage {
+  id: string;
+  role: string;
+  createdAt?: string;
+  text: string;
+  reasoning?: string;
+  toolCalls: ExportedToolCall[];
+  citations: ExportedCitation[];
+  attachments: ExportedAttachment[];
+  metadata?: unknown;
+}
+
+export interface ConversationExport {
+  version: 1;
+  sessionId: string;
+  title: string;
+  exportedAt: string;
+  messages: ExportedMessage[];
+}
+
+/** A stored message as read from live history or the archive. */
+export interface ExportSourceMessage {
+  id: string;
+  role: string;
+  parts: unknown[];
+  metadata?: unknown;
+  createdAt?: string;
+}
+
+/** The agent's record of an approval, kept after the tool part itself has moved on. */
+export interface ExportSourceApproval {
+  id: string;
+  status: ExportedApprovalStatus;
+  reason?: string;
+  resolvedAt?: string;
+}
+
+interface RawPart {
+  type?: unknown;
+  text?: unknown;
+  toolName?: unknown;
+  toolCallId?: unknown;
+  state?: unknown;
+  input?: unknown;
+  output?: unknown;
+  errorText?: unknown;
+  approval?: { id?: unknown; approved?: unknown; reason?: unknown };
+  url?: unknown;
+  title?: unknown;
+  filename?: unknown;
+  mediaType?: unknown;
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/** Tool results that suspended for approval carry the approval id in their output. */
+function readOutputApprovalId(output: unknown): string | undefined {
+  if (!output || typeof output !== "object") return undefined;
+  return asString((output as { approvalId?: unknown }).approvalId);
+}
+
+function toToolCall(
+  part: RawPart,
+  approvals: Map<string, ExportSourceApproval>
+): ExportedToolCall | null {
+  const type = asString(part.type) ?? "";
+  const toolName =
+    type === "dynamic-tool"
+      ? asString(part.toolName)
+      : type.startsWith("tool-")
+        ? type.slice(5)
+        : "";
+  if (!toolName) return null;
+
+  const toolCallId = asString(part.toolCallId);
+  const approvalId =
+    asString(part.approval?.id) ?? readOutputApprovalId(part.output) ?? toolCallId ?? "";
+  const recorded = approvals.get(approvalId);
+  const approved = part.approval?.approved;
+  const approval =
+    recorded ??
+    (part.approval
+      ? {
+          id: approvalId,
+          status: (approved === true
+            ? "approved"
+            : approved === false
+              ? "rejected"
+              : "pending") as ExportedApprovalStatus,
+          ...(asString(part.approval.reason) ? { reason: asString(part.approval.reason) } : {})
+        }
+      : undefined);
+
+  return {
+    ...(toolCallId ? { toolCallId } : {}),
+    toolName,
+    state: asString(part.state) ?? "unknown",
+    ...(part.input !== undefined ? { input: part.input } : {}),
+    ...(part.output !== undefined ? { output: part.output } : {}),
+    ...(asString(part.errorText) ? { errorText: asString(part.errorText) } : {}),
+    ...(approval ? { approval } : {})
+  };
+}
+
+function toCitations(parts: RawPart[]): ExportedCitation[] {
+  const citations: ExportedCitation[] = extractMessageSources(parts).map((group) => ({
+    title: group.title,
+    ...(group.url ? { url: group.url } : {}),
+    excerpts: group.chunks.map((chunk) => chunk.preview)
+  }));
+  for (const part of parts) {
+    if (part.type !== "source-url" && part.type !== "source-document") continue;
+    const url = asString(part.url);
+    const title = asString(part.title) ?? asString(part.filename) ?? url ?? "Source";
+    if (citations.some((citation) => citation.title === title && citation.url === url)) continue;
+    citations.push({ title, ...(url ? { url } : {}), excerpts: [] });
+  }
+  return citations;
+}
+
+export function buildConversationExport(params: {
+  sessionId: string;
+  title: string;
+  messages: ExportSourceMessage[];
+  approvals?: ExportSourceApproval[];
+  now?: number;
+}): ConversationExport {
+  const approvals = new Map((params.approvals ?? []).map((approval) => [approval.id, approval]));
+  return {
+    version: 1,
+    sessionId: params.sessionId,
+    title: params.title,
+    exportedAt: new Date(params.now ?? Date.now()).toISOString(),
+    messages: params.messages.map((message) => {
+      const parts = (Array.isArray(message.parts) ? message.parts : []).filter(
+        (part): part is RawPart => Boolean(part) && typeof part === "object"
+      );
+      const textOf = (type: string) =>
+        parts
+          .filter((part) => part.type === type && typeof part.text === "string")
+          .map((part) => (part.text as string).trim())
+          .filter(Boolean)
+          .join("\n\n");
+      const reasoning = textOf("reasoning");
+      return {
+        id: message.id,
+        role: message.role,
+        ...(message.createdAt ? { createdAt: message.createdAt } : {}),
+        text: textOf("text"),
+        ...(reasoning ? { reasoning } : {}),
+        toolCalls: parts.flatMap((part) => toToolCall(part, approvals) ?? []),
+        citations: toCitations(parts),
+        attachments: parts.flatMap((part) =>
+          part.type === "file" && asString(part.url)
+            ? [
+                {
+                  ...(asString(part.filename) ? { filename: asString(part.filename) } : {}),
+                  mediaType: asString(part.mediaType) ?? "application/octet-stream",
+                  url: part.url as string
+                }
+              ]
+            : []
+        ),
+        ...(message.metadata !== undefined ? { metadata: message.metadata } : {})
+      };
+    })
+  };
+}
+
+export function formatExportValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  try {
+    return JSON.stringify(value, null, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/** A code fence longer than any backtick run in `content`, so tool output cannot close it. */
+function fence(content: string, language = ""): string {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(Math.max(3, longestRun + 1));
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+/** Links come from tool output and uploads; only web and app-relative URLs are kept. */
+export function toSafeExportUrl(url: string | undefined): string | undefined {
+  return url && /^(https?:\/\/|\/(?!\/))/i.test(url) ? url : undefined;
+}
+
+export function describeToolCallStatus(call: ExportedToolCall): string {
+  return call.approval ? `${call.state}, approval ${call.approval.status}` : call.state;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  user: "User",
+  assistant: "Assistant",
+  system: "System"
+};
+
+export function getRoleLabel(role: string): string {
+  return ROLE_LABELS[role] ?? role;
+}
+
+export function renderMarkdownExport(doc: ConversationExport): string {
+  const lines = [
+    `# ${doc.title}`,
+    "",
+    `_Session \`${doc.sessionId}\`, exported ${doc.exportedAt}_`
+  ];
+  for (const message of doc.messages) {
+    lines.push("", "---", "", `## ${getRoleLabel(message.role)}`);
+    if (message.createdAt) lines.push("", `_${message.createdAt}_`);
+    for (const attachment of message.attachments) {
+      lines.push(
+        "",
+        `- Attachment: [${attachment.filename ?? attachment.mediaType}](${attachment.url})`
+      );
+    }
+    if (message.reasoning) {
+      lines.push("", ...message.reasoning.split("\n").map((line) => `> ${line}`.trimEnd()));
+    }
+    for (const call of message.toolCalls) {
+      lines.push("", `### Tool \`${call.toolName}\` (${describeToolCallStatus(call)})`);
+      if (call.approval?.reason) lines.push("", `Approval reason: ${call.approval.reason}`);
+      if (call.input !== undefined)
+        lines.push("", "Input:", "", fence(formatExportValue(call.input), "json"));
+      if (call.output !== undefined) {
+        lines.push("", "Output:", "", fence(formatExportValue(call.output), "json"));
+      }
+      if (call.errorText) lines.push("", "Error:", "", fence(call.errorText));
+    }
+    if (message.text) lines.push("", message.text);
+    if (message.citations.length > 0) {
+      lines.push("", "**Sources**", "");
+      message.citations.forEach((citation, index) => {
+        const url = toSafeExportUrl(citation.url);
+        const label = url ? `[${citation.title}](${url})` : citation.title;
+        const excerpt = citation.excerpts[0] ? ` - ${citation.excerpts[0]}` : "";
+        lines.push(`${index + 1}. ${label}${excerpt}`);
+      });
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+export function renderJsonExport(doc: ConversationExport): string {
+  return `${JSON.stringify(doc, null, 2)}\n`;
+}
+
+export function buildExportFilename(title: string, format: ExportFormat, now = Date.now()): string {
+  const slug =
+    title
+      .normalize("NFKD")
+      .toLowerCase()
+      .replace(/[^\p{Letter}\p{Number}]+/gu, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "conversation";
+  return `${slug}-${new Date(now).toISOString().slice(0, 10)}.${format}`;
+}
+
+/** `Content-Disposition` with an ASCII fallback for titles in other scripts. */
+export function buildContentDisposition(filename: string): string {
+  const ascii = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
@@ -0,0 +1,224 @@
+import type { McpServerConfig, McpTransportType } from "../../mcp-config";
+
+export type CustomMcpAuth =
+  | { type: "none" }
+  | { type: "headers"; headers: Record<string, string> }
+  | { type: "oauth" };
+
+/** Stored form of a user-defined server, including secrets. Never leaves the agent. */
+export interface CustomMcpServerRecord {
+  name: string;
+  url: string;
+  description: string;
+  transport: McpTransportType;
+  auth: CustomMcpAuth;
+  active: boolean;
+}
+
+/** Header values may be omitted when editing to keep the stored secret. */
+export interface CustomMcpServerInput {
+  name: string;
+  url: string;
+  description?: string;
+  transport: McpTransportType;
+  auth:
+    | { type: "none" }
+    | { type: "headers"; headers: Array<{ name: string; value?: string }> }
+    | { type: "oauth" };
+  active?: boolean;
+}
+
+export interface McpServerUrlPolicy {
+  /** Accept plain http on `localhost`, for MCP servers running next to a dev server. */
+  allowLocalhost: boolean;
+}
+
+export type CustomMcpServerResolution =
+  | { ok: true; record: CustomMcpServerRecord }
+  | { ok: false; error: string };
+
+const FORBIDDEN_HEADERS = new Set([
+  "host",
+  "connection",
+  "content-length",
+  "content-type",
+  "transfer-encoding",
+  "upgrade",
+  "cookie",
+  "accept",
+  "mcp-session-id",
+  "mcp-protocol-version"
+]);
+
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9!#$%&'*+.^_`|~-]+$/;
+
+function parseIpv4(hostname: string): number[] | null {
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/.exec(hostname);
+  return match ? match.slice(1).map(Number) : null;
+}
+
+function isPrivateIpv4([a, b]: number[]): boolean {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 100 && b >= 64 && b <= 127)
+  );
+}
+
+/**
+ * The eight 16-bit groups of a bracketed IPv6 hostname. URL already serializes embedded
+ * IPv4 in hex (`[::ffff:a00:1]`), so only hex groups and one `::` need handling.
+ */
+function parseIpv6(hostname: string): number[] | null {
+  if (!hostname.startsWith("[") || !hostname.endsWith("]")) return null;
+  const [head, tail, ...rest] = hostname.slice(1, -1).split("::");
+  if (rest.length > 0) return null;
+  const toGroups = (part: string | undefined) =>
+    part ? part.split(":").map((group) => Number.parseInt(group, 16)) : [];
+  const leading = toGroups(head);
+  const trailing = toGroups(tail);
+  const missing = 8 - leading.length - trailing.length;
+  if (missing < 0 || (tail === undefined && missing > 0)) return null;
+  const groups = [...leading, ...new Array<number>(missing).fill(0), ...trailing];
+  return groups.every((group) => Number.isInteger(group) && group >= 0 && group <= 0xffff)
+    ? groups
+    : null;
+}
+
+function isPrivateIpv6(groups: number[]): boolean {
+  const [first] = groups;
+  const prefixIsZero = (length: number) => groups.slice(0, length).every((group) => group === 0);
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d) addresses.
+  if (prefixIsZero(5) && (groups[5] === 0xffff || groups[5] === 0)) {
+    // Covers :: and ::1 too, as 0.0.0.0 and 0.0.0.1.
+    return isPrivateIpv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+  }
+  return (
+    // Unique local fc00::/7, link-local fe80::/10 and site-local fec0::/10.
+    (first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xffc0) === 0xfec0
+  );
+}
+
+function isPrivateHost(hostname: string): boolean {
+  if (hostname === "localhost") return true;
+  if ([".internal", ".local", ".localhost"].some((suffix) => hostname.endsWith(suffix))) {
+    return true;
+  }
+  const ipv4 = parseIpv4(hostname);
+  if (ipv4) return isPrivateIpv4(ipv4);
+  const ipv6 = parseIpv6(hostname);
+  // Unparseable bracketed hosts are refused rather than guessed at.
+  if (hostname.startsWith("[")) return !ipv6 || isPrivateIpv6(ipv6);
+  return false;
+}
+
+/**
+ * Accept https endpoints, plus plain http on `localhost` when the policy allows it.
+ * Embedded credentials and private, loopback and link-local addresses are rejected.
+ */
+export function validateMcpServerUrl(
+  raw: string,
+  policy: McpServerUrlPolicy = { allowLocalhost: false }
+): { ok: true; url: string } | { ok: false; error: string } {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return { ok: false, error: "URL is not valid" };
+  }
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, "");
+  // Address literals such as 127.0.0.1 still go through the range checks.
+  const localhost = policy.allowLocalhost && hostname === "localhost";
+  if (url.protocol !== "https:" && !(url.protocol === "http:" && localhost)) {
+    return {
+      ok: false,
+      error: policy.allowLocalhost
+        ? "URL must use https (http is only allowed for localhost)"
+        : "URL must use https"
+    };
+  }
+  if (url.username || url.password) {
+    return { ok: false, error: "URL must not contain credentials; use auth headers instead" };
+  }
+  if (!localhost && isPrivateHost(hostname)) {
+    return { ok: false, error: "Private network addresses are not allowed" };
+  }
+  url.hash = "";
+  return { ok: true, url: url.toString() };
+}
+
+/**
+ * Turn form input into a storable record. Blank header values fall back to the
+ * value already stored under the same header name, so editing never needs the secret.
+ */
+export function resolveCustomServerInput(
+  input: CustomMcpServerInput,
+  previous?: CustomMcpServerRecord,
+  policy?: McpServerUrlPolicy
+): CustomMcpServerResolution {
+  const url = validateMcpServerUrl(input.url, policy);
+  if (!url.ok) return url;
+
+  let auth: CustomMcpAuth = input.auth.type === "oauth" ? { type: "oauth" } : { type: "none" };
+  if (input.auth.type === "headers") {
+    const previousHeaders = previous?.auth.type === "headers" ? previous.auth.headers : {};
+    const headers: Record<string, string> = {};
+    for (const header of input.auth.headers) {
+      const name = header.name.trim();
+      if (!name) continue;
+      if (!HEADER_NAME_PATTERN.test(name) || FORBIDDEN_HEADERS.has(name.toLowerCase())) {
+        return { ok: false, error: `Header "${name}" is not allowed` };
+      }
+      const value = header.value?.trim() || previousHeaders[name];
+      if (!value) {
+        return { ok: false, error: `Header "${name}" needs a value` };
+      }
+      headers[name] = value;
+    }
+    if (Object.keys(headers).length === 0) {
+      return { ok: false, error: "At least one auth header is required" };
+    }
+    auth = { type: "headers", headers };
+  }
+
+  return {
+    ok: true,
+    record: {
+      name: input.name.trim(),
+      url: url.url,
+      description: input.description?.trim() ?? previous?.description ?? "",
+      transport: input.transport,
+      auth,
+      active: input.active ?? previous?.active ?? true
+    }
+  };
+}
+
+/** Public view of a custom server: header names only, never their values. */
+export function toCustomServerConfig(record: CustomMcpServerRecord): McpServerConfig {
+  return {
+    name: record.name,
+    url: record.url,
+    description: record.description,
+    active: record.active,
+    transport: record.transport,
+    custom: {
+      auth: record.auth.type,
+      headerNames: record.auth.type === "headers" ? Object.keys(record.auth.headers) : []
+    }
+  };
+}
+
+export function buildCustomServerTransport(record: CustomMcpServerRecord): {
+  type: McpTransportType;
+  headers?: Record<string, string>;
+} {
+  return {
+    type: record.transport,
+    ...(record.auth.type === "headers" ? { headers: { ...record.auth.headers } } : {})
+  };
+}
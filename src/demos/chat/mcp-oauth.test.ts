@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { MCP_OAUTH_MESSAGE_TYPE, isAuthorizationError, renderOAuthCallbackPage } from "./mcp-oauth";
+
+describe("renderOAuthCallbackPage", () => {
+  it("posts the completion to the opener and closes on success", () => {
+    const page = renderOAuthCallbackPage({ success: true, serverName: "docs" });
+    expect(page).toContain(MCP_OAUTH_MESSAGE_TYPE);
+    expect(page).toContain("window.close();");
+  });
+
+  it("escapes provider error text", () => {
+    const page = renderOAuthCallbackPage({
+      success: false,
+      error: "</script><img src=x onerror=alert(1)>"
+    });
+    expect(page).not.toContain("</script><img");
+    expect(page).toContain("&lt;/script&gt;");
+    expect(page).not.toContain("window.close();");
+  });
+});
+
+describe("isAuthorizationError", () => {
+  it("detects rejected tokens", () => {
+    expect(isAuthorizationError(new Error("HTTP 401 Unauthorized"))).toBe(true);
+    expect(isAuthorizationError("invalid_token")).toBe(true);
+    expect(isAuthorizationError(new Error("Tool timeout after 30000ms"))).toBe(false);
+  });
+});
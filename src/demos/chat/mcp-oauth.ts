@@ -0,0 +1,60 @@
+/** `postMessage` type the OAuth popup sends back to the window that opened it. */
+export const MCP_OAUTH_MESSAGE_TYPE = "mcp-oauth-complete";
+
+export interface McpOAuthCompletion {
+  type: typeof MCP_OAUTH_MESSAGE_TYPE;
+  success: boolean;
+  serverName?: string;
+  error?: string;
+}
+
+const AUTH_ERROR_TOKENS = [
+  "401",
+  "unauthorized",
+  "invalid_token",
+  "invalid_grant",
+  "token expired",
+  "expired token"
+];
+
+/** True when an MCP error means the stored OAuth token is no longer accepted. */
+export function isAuthorizationError(error: unknown): boolean {
+  const message = (error instanceof Error ? error.message : String(error)).toLowerCase();
+  return AUTH_ERROR_TOKENS.some((token) => message.includes(token));
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Page served on the OAuth callback. It notifies the opener and closes itself;
+ * the provider error text is untrusted, so it is escaped for both HTML and script.
+ */
+export function renderOAuthCallbackPage(completion: Omit<McpOAuthCompletion, "type">): string {
+  const payload = JSON.stringify({ type: MCP_OAUTH_MESSAGE_TYPE, ...completion }).replace(
+    /</g,
+    "\\u003c"
+  );
+  const text = completion.success
+    ? "Authorization complete. You can close this window."
+    : `Authorization failed: ${escapeHtml(completion.error ?? "Unknown error")}`;
+  return `<!doctype html>
+<html>
+  <body>
+    <p>${text}</p>
+    <script>
+      try {
+        if (window.opener) window.opener.postMessage(${payload}, "*");
+      } finally {
+        ${completion.success ? "window.close();" : ""}
+      }
+    </script>
+  </body>
+</html>`;
+}
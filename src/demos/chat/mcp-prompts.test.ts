@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { findMissingPromptArguments, renderPromptMessages } from "./mcp-prompts";
+
+describe("findMissingPromptArguments", () => {
+  it("reports required arguments that are absent or blank", () => {
+    expect(
+      findMissingPromptArguments(
+        [{ name: "topic", required: true }, { name: "tone", required: true }, { name: "length" }],
+        { topic: "agents", tone: "  " }
+      )
+    ).toEqual(["tone"]);
+    expect(findMissingPromptArguments(undefined, {})).toEqual([]);
+  });
+});
+
+describe("renderPromptMessages", () => {
+  it("merges same-role messages and renders non-text content", () => {
+    const result = renderPromptMessages([
+      { role: "user", content: { type: "text", text: "Review this file:" } },
+      {
+        role: "user",
+        content: { type: "resource", resource: { uri: "file:///a.ts", text: "const a = 1;" } }
+      },
+      { role: "assistant", content: { type: "image", mimeType: "image/png" } },
+      { role: "user", content: { type: "resource_link", uri: "docs://guide", name: "Guide" } }
+    ]);
+
+    expect(result).toEqual([
+      { role: "user", text: "Review this file:\n\nconst a = 1;" },
+      { role: "assistant", text: "[image content omitted: image/png]" },
+      { role: "user", text: "[Guide](docs://guide)" }
+    ]);
+  });
+
+  it("drops empty messages", () => {
+    expect(renderPromptMessages([{ role: "user", content: { type: "text", text: "  " } }])).toEqual(
+      []
+    );
+  });
+});
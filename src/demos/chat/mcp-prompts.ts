@@ -0,0 +1,67 @@
+import { MAX_RESOURCE_TEXT_CHARS } from "./mcp-resources";
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface RenderedPromptMessage {
+  role: "user" | "assistant";
+  text: string;
+}
+
+type RawPromptContent =
+  | { type: "text"; text: string }
+  | { type: "image" | "audio"; mimeType: string }
+  | { type: "resource"; resource: { uri: string; text?: string; blob?: string } }
+  | { type: "resource_link"; uri: string; name: string };
+
+export interface RawPromptMessage {
+  role: "user" | "assistant";
+  content: RawPromptContent;
+}
+
+/** Names of required arguments that are missing or blank. */
+export function findMissingPromptArguments(
+  definitions: McpPromptArgument[] | undefined,
+  values: Record<string, string>
+): string[] {
+  return (definitions ?? [])
+    .filter((definition) => definition.required && !values[definition.name]?.trim())
+    .map((definition) => definition.name);
+}
+
+function renderContent(content: RawPromptContent): string {
+  switch (content.type) {
+    case "text":
+      return content.text;
+    case "resource":
+      return typeof content.resource.text === "string"
+        ? content.resource.text.slice(0, MAX_RESOURCE_TEXT_CHARS)
+        : `[binary resource omitted: ${content.resource.uri}]`;
+    case "resource_link":
+      return `[${content.name}](${content.uri})`;
+    default:
+      return `[${content.type} content omitted: ${content.mimeType}]`;
+  }
+}
+
+/**
+ * Flatten `prompts/get` messages into text chat turns. Consecutive messages with
+ * the same role are merged, since each MCP message carries a single content block.
+ */
+export function renderPromptMessages(messages: RawPromptMessage[]): RenderedPromptMessage[] {
+  const rendered: RenderedPromptMessage[] = [];
+  for (const message of messages) {
+    const text = renderContent(message.content).trim();
+    if (!text) continue;
+    const previous = rendered[rendered.length - 1];
+    if (previous?.role === message.role) {
+      previous.text = `${previous.text}\n\n${text}`;
+    } else {
+      rendered.push({ role: message.role, text });
+    }
+  }
+  return rendered;
+}
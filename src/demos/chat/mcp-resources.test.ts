@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  convertResourceDataPart,
+  formatResourceForModel,
+  isResourcePart,
+  summarizeResourceContents
+} from "./mcp-resources";
+
+describe("summarizeResourceContents", () => {
+  it("shares the character budget across text entries", () => {
+    const result = summarizeResourceContents(
+      [
+        { uri: "a", text: "12345" },
+        { uri: "b", text: "67890" }
+      ],
+      7
+    );
+
+    expect(result.map((item) => [item.text, item.truncated])).toEqual([
+      ["12345", false],
+      ["67", true]
+    ]);
+  });
+
+  it("replaces blobs with a size note", () => {
+    const [content] = summarizeResourceContents([
+      { uri: "img", mimeType: "image/png", blob: "AAAA" }
+    ]);
+
+    expect(content).toMatchObject({ binary: true, truncated: false, mimeType: "image/png" });
+    expect(content.text).toContain("3 bytes");
+  });
+});
+
+describe("resource parts", () => {
+  const attachment = {
+    serverId: "srv-1",
+    serverName: "docs",
+    uri: "docs://guide",
+    name: "Guide",
+    mimeType: "text/markdown",
+    text: "# Guide",
+    truncated: true
+  };
+
+  it("recognizes only well-formed resource parts", () => {
+    expect(isResourcePart({ type: "data-resource", data: attachment })).toBe(true);
+    expect(isResourcePart({ type: "data-resource", data: { uri: "x" } })).toBe(false);
+    expect(isResourcePart({ type: "text", text: "hi" })).toBe(false);
+  });
+
+  it("formats the resource with its origin and truncation note", () => {
+    const text = formatResourceForModel(attachment);
+
+    expect(text).toContain('"Guide" (docs://guide, text/markdown) from MCP server docs');
+    expect(text).toContain("<resource>\n# Guide\n</resource>");
+    expect(text).toContain("truncated");
+  });
+
+  it("converts resource data parts and drops other data parts", () => {
+    expect(convertResourceDataPart({ type: "data-resource", data: attachment })?.type).toBe("text");
+    expect(convertResourceDataPart({ type: "data-progress", data: {} })).toBeUndefined();
+  });
+});
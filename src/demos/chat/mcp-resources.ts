@@ -0,0 +1,92 @@
+/** UI message part type carrying an MCP resource the user attached to a message. */
+export const RESOURCE_PART_TYPE = "data-resource";
+
+/** Per-read budget for resource text; keeps attachments from crowding out the conversation. */
+export const MAX_RESOURCE_TEXT_CHARS = 20_000;
+
+export interface RawResourceContent {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+export interface McpResourceContent {
+  uri: string;
+  mimeType?: string;
+  text: string;
+  truncated: boolean;
+  /** Binary bodies are not forwarded; only their size is reported. */
+  binary?: boolean;
+}
+
+export interface ResourceAttachment {
+  serverId: string;
+  serverName?: string;
+  uri: string;
+  name: string;
+  mimeType?: string;
+  text: string;
+  truncated?: boolean;
+}
+
+/**
+ * Normalize `resources/read` contents for previews and attachments. Text shares a
+ * single character budget across all entries; blobs are replaced by a size note.
+ */
+export function summarizeResourceContents(
+  contents: RawResourceContent[],
+  maxChars = MAX_RESOURCE_TEXT_CHARS
+): McpResourceContent[] {
+  let remaining = maxChars;
+  return contents.map((content) => {
+    if (typeof content.text !== "string") {
+      const bytes = Math.floor(((content.blob ?? "").length * 3) / 4);
+      return {
+        uri: content.uri,
+        mimeType: content.mimeType,
+        text: `[binary content omitted, ~${bytes} bytes]`,
+        truncated: false,
+        binary: true
+      };
+    }
+    const text = content.text.slice(0, Math.max(remaining, 0));
+    remaining -= text.length;
+    return {
+      uri: content.uri,
+      mimeType: content.mimeType,
+      text,
+      truncated: text.length < content.text.length
+    };
+  });
+}
+
+export function isResourcePart(
+  part: unknown
+): part is { type: typeof RESOURCE_PART_TYPE; data: ResourceAttachment } {
+  if (!part || typeof part !== "object") return false;
+  const candidate = part as { type?: unknown; data?: unknown };
+  if (candidate.type !== RESOURCE_PART_TYPE || !candidate.data) return false;
+  const data = candidate.data as Partial<ResourceAttachment>;
+  return typeof data.uri === "string" && typeof data.text === "string";
+}
+
+/** Text the model sees for an attached resource. */
+export function formatResourceForModel(resource: ResourceAttachment): string {
+  const details = [resource.uri, resource.mimeType].filter(Boolean).join(", ");
+  const source = resource.serverName ?? resource.serverId;
+  return [
+    `Attached resource "${resource.name || resource.uri}" (${details}) from MCP server ${source}:`,
+    "<resource>",
+    resource.text,
+    "</resource>",
+    ...(resource.truncated ? ["(Resource content was truncated.)"] : [])
+  ].join("\n");
+}
+
+/** `convertDataPart` hook for `convertToModelMessages`; other data parts are dropped. */
+export function convertResourceDataPart(part: unknown): { type: "text"; text: string } | undefined {
+  return isResourcePart(part)
+    ? { type: "text", text: formatResourceForModel(part.data) }
+    : undefined;
+}
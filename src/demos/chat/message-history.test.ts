@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildHistoryEtag,
+  decodeHistoryCursor,
+  encodeHistoryCursor,
+  normalizeHistoryLimit,
+  paginateHistory,
+  toIsoTimestamp,
+  type ArchiveReader,
+  type HistoryMessage
+} from "./message-history";
+
+function message(id: string, archived = false): HistoryMessage {
+  return {
+    id,
+    role: "user",
+    parts: [{ type: "text", text: id }],
+    createdAt: "2026-01-01T00:00:00.000Z",
+    archived
+  };
+}
+
+function archiveOf(ids: string[]): ArchiveReader {
+  const rows = ids.map((id, index) => ({ seq: index + 1, message: message(id, true) }));
+  return {
+    findSeq: (id) => rows.find((row) => row.message.id === id)?.seq ?? null,
+    readBefore: (beforeSeq, count) =>
+      rows
+        .filter((row) => beforeSeq === null || row.seq < beforeSeq)
+        .slice(-count)
+        .map((row) => row.message)
+  };
+}
+
+const ids = (page: { messages: HistoryMessage[] } | null) => page?.messages.map((item) => item.id);
+
+describe("history cursor", () => {
+  it("round-trips a message id and rejects malformed cursors", () => {
+    expect(decodeHistoryCursor(encodeHistoryCursor("msg_1"))).toBe("msg_1");
+    expect(decodeHistoryCursor(undefined)).toBeNull();
+    expect(decodeHistoryCursor("not-base64!")).toBeNull();
+    expect(decodeHistoryCursor(btoa(JSON.stringify({ id: "x" })))).toBeNull();
+  });
+
+  it("clamps page sizes", () => {
+    expect(normalizeHistoryLimit(undefined)).toBe(50);
+    expect(normalizeHistoryLimit(0)).toBe(1);
+    expect(normalizeHistoryLimit(1_000)).toBe(200);
+  });
+});
+
+describe("paginateHistory", () => {
+  const live = ["l1", "l2", "l3"].map((id) => message(id));
+  const archive = archiveOf(["a1", "a2", "a3", "a4"]);
+
+  it("walks from the newest live message back through the archive", () => {
+    const first = paginateHistory({ live, archive, cursor: null, limit: 2 });
+    expect(ids(first)).toEqual(["l2", "l3"]);
+
+    const second = paginateHistory({
+      live,
+      archive,
+      cursor: decodeHistoryCursor(first?.nextCursor ?? undefined),
+      limit: 2
+    });
+    expect(ids(second)).toEqual(["a4", "l1"]);
+
+    const third = paginateHistory({
+      live,
+      archive,
+      cursor: decodeHistoryCursor(second?.nextCursor ?? undefined),
+      limit: 3
+    });
+    expect(ids(third)).toEqual(["a1", "a2", "a3"]);
+    expect(third?.nextCursor).toBeNull();
+  });
+
+  it("keeps working when the cursor message has since been archived", () => {
+    const page = paginateHistory({ live: [], archive, cursor: "a3", limit: 5 });
+    expect(ids(page)).toEqual(["a1", "a2"]);
+    expect(page?.nextCursor).toBeNull();
+  });
+
+  it("returns null for a cursor that matches no message", () => {
+    expect(paginateHistory({ live, archive, cursor: "gone", limit: 2 })).toBeNull();
+  });
+});
+
+describe("history helpers", () => {
+  it("normalizes SQLite timestamps to ISO strings", () => {
+    expect(toIsoTimestamp("2026-03-04 05:06:07")).toBe("2026-03-04T05:06:07.000Z");
+    expect(toIsoTimestamp("2026-03-04T05:06:07.000Z")).toBe("2026-03-04T05:06:07.000Z");
+    expect(toIsoTimestamp(null)).toBe("1970-01-01T00:00:00.000Z");
+  });
+
+  it("changes the ETag when the state version or the page changes", () => {
+    const page = { messages: [message("l1")], nextCursor: null };
+    const etag = buildHistoryEtag(3, page);
+    expect(etag).toMatch(/^W\/"3-[0-9a-z]+"$/);
+    expect(buildHistoryEtag(3, page)).toBe(etag);
+    expect(buildHistoryEtag(4, page)).not.toBe(etag);
+    expect(buildHistoryEtag(3, { ...page, messages: [message("l2")] })).not.toBe(etag);
+  });
+});
@@ -0,0 +1,119 @@
+export const HISTORY_PAGE_DEFAULT_LIMIT = 50;
+export const HISTORY_PAGE_MAX_LIMIT = 200;
+
+/** One message of the session timeline, archived or live, as served by the history API. */
+export interface HistoryMessage {
+  id: string;
+  role: string;
+  parts: unknown[];
+  metadata?: unknown;
+  createdAt: string;
+  /** Moved out of the live history; the model only sees it through the summary. */
+  archived: boolean;
+}
+
+export interface HistoryPage {
+  /** Oldest first. */
+  messages: HistoryMessage[];
+  /** Pass back to fetch the page before this one; null at the start of the session. */
+  nextCursor: string | null;
+}
+
+/** Opaque cursor: the id of the oldest message on the previous page. */
+export function encodeHistoryCursor(messageId: string): string {
+  return btoa(JSON.stringify([messageId]));
+}
+
+export function decodeHistoryCursor(cursor: string | undefined): string | null {
+  if (!cursor) return null;
+  try {
+    const parsed = JSON.parse(atob(cursor)) as unknown;
+    return Array.isArray(parsed) && parsed.length === 1 && typeof parsed[0] === "string"
+      ? parsed[0]
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function normalizeHistoryLimit(limit: number | undefined): number {
+  return Math.min(
+    Math.max(1, Math.floor(limit ?? HISTORY_PAGE_DEFAULT_LIMIT)),
+    HISTORY_PAGE_MAX_LIMIT
+  );
+}
+
+/** SQLite `current_timestamp` values are UTC without a zone marker. */
+export function toIsoTimestamp(value: string | null | undefined): string {
+  if (!value) return new Date(0).toISOString();
+  const normalized = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value)
+    ? `${value.replace(" ", "T")}Z`
+    : value;
+  const date = new Date(normalized);
+  return Number.isNaN(date.getTime()) ? new Date(0).toISOString() : date.toISOString();
+}
+
+export interface ArchiveReader {
+  /** Archive position of a message, or null when it is not archived. */
+  findSeq: (messageId: string) => number | null;
+  /** Up to `count` archived messages before `beforeSeq` (or the newest ones), oldest first. */
+  readBefore: (beforeSeq: number | null, count: number) => HistoryMessage[];
+}
+
+/**
+ * Page backwards through the archive followed by the live history. Returns null when the
+ * cursor names a message that no longer exists in either.
+ */
+export function paginateHistory(params: {
+  live: HistoryMessage[];
+  archive: ArchiveReader;
+  cursor: string | null;
+  limit: number;
+}): HistoryPage | null {
+  const { live, archive, cursor, limit } = params;
+  let liveEnd = live.length;
+  let archiveBefore: number | null = null;
+
+  if (cursor) {
+    const liveIndex = live.findIndex((message) => message.id === cursor);
+    if (liveIndex >= 0) {
+      liveEnd = liveIndex;
+    } else {
+      const seq = archive.findSeq(cursor);
+      if (seq === null) return null;
+      liveEnd = 0;
+      archiveBefore = seq;
+    }
+  }
+
+  const liveStart = Math.max(0, liveEnd - limit);
+  const fromLive = live.slice(liveStart, liveEnd);
+  let messages = fromLive;
+  let hasMore = liveStart > 0;
+
+  if (!hasMore && fromLive.length < limit) {
+    const remaining = limit - fromLive.length;
+    // Read one extra row to know whether another page exists.
+    const fromArchive = archive.readBefore(archiveBefore, remaining + 1);
+    hasMore = fromArchive.length > remaining;
+    messages = [...fromArchive.slice(fromArchive.length - remaining), ...fromLive];
+  }
+
+  const oldest = messages[0];
+  return {
+    messages,
+    nextCursor: hasMore && oldest ? encodeHistoryCursor(oldest.id) : null
+  };
+}
+
+/** Weak validator: changes with the agent's state version and with the page contents. */
+export function buildHistoryEtag(stateVersion: number, page: HistoryPage): string {
+  const body = JSON.stringify(page);
+  // FNV-1a keeps this dependency-free and synchronous.
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < body.length; index += 1) {
+    hash ^= body.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `W/"${stateVersion}-${(hash >>> 0).toString(36)}"`;
+}
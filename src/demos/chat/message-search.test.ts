@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildFtsMatchQuery,
+  buildSearchSnippet,
+  compareSearchHits,
+  extractSearchText,
+  toLikePattern,
+  tokenizeSearchQuery,
+  type MessageSearchHit
+} from "./message-search";
+
+function highlighted(result: ReturnType<typeof buildSearchSnippet>): string[] {
+  return result.highlights.map(([start, end]) => result.snippet.slice(start, end));
+}
+
+describe("message search", () => {
+  it("indexes text parts only", () => {
+    expect(
+      extractSearchText([
+        { type: "reasoning", text: "thinking" },
+        { type: "text", text: " Deploy plan " },
+        { type: "tool-search", input: { query: "secret" } },
+        { type: "text", text: "Step two" }
+      ])
+    ).toBe("Deploy plan\nStep two");
+    expect(extractSearchText(undefined)).toBe("");
+  });
+
+  it("turns user input into quoted FTS terms without operators", () => {
+    const terms = tokenizeSearchQuery('Deploy "plan" OR deploy v2*');
+    expect(terms).toEqual(["deploy", "plan", "or", "v2*"]);
+    expect(buildFtsMatchQuery(terms)).toBe('"deploy" AND "plan" AND "v2*"');
+    expect(buildFtsMatchQuery(tokenizeSearchQuery("季度"))).toBeNull();
+    expect(toLikePattern("50%_off!")).toBe("%50!%!_off!!%");
+  });
+
+  it("builds a snippet around the first match with every match highlighted", () => {
+    const content = `${"intro ".repeat(30)}the Deploy plan\n\nmoves the deploy date`;
+    const result = buildSearchSnippet(content, ["deploy", "plan"], 20);
+    expect(result.snippet.startsWith("…")).toBe(true);
+    expect(result.snippet).toContain("the Deploy plan moves the deploy");
+    expect(highlighted(result)).toEqual(["Deploy", "plan", "deploy"]);
+  });
+
+  it("highlights text without spaces", () => {
+    const result = buildSearchSnippet("我们讨论了季度结果和预算", ["季度", "预算"]);
+    expect(result.snippet).toBe("我们讨论了季度结果和预算");
+    expect(highlighted(result)).toEqual(["季度", "预算"]);
+  });
+
+  it("orders hits by score, then newest first", () => {
+    const hit = (messageId: string, rank: number, createdAt: string): MessageSearchHit => ({
+      messageId,
+      role: "user",
+      createdAt,
+      snippet: "",
+      highlights: [],
+      rank
+    });
+    const hits = [
+      hit("a", -1, "2026-01-01T00:00:00Z"),
+      hit("b", -3, "2026-01-01T00:00:00Z"),
+      hit("c", -1, "2026-01-05T00:00:00Z")
+    ];
+    expect(hits.sort(compareSearchHits).map((item) => item.messageId)).toEqual(["b", "c", "a"]);
+  });
+});
@@ -0,0 +1,120 @@
+/** Longest query accepted by the search routes; longer input is cut, not rejected. */
+export const SEARCH_QUERY_MAX_LENGTH = 200;
+export const SEARCH_DEFAULT_LIMIT = 20;
+export const SEARCH_MAX_LIMIT = 50;
+
+/** The trigram tokenizer only indexes terms of at least three characters. */
+const MIN_INDEXED_TERM_LENGTH = 3;
+const MAX_SEARCH_TERMS = 8;
+const SNIPPET_RADIUS = 60;
+
+export interface MessageSearchHit {
+  messageId: string;
+  role: string;
+  createdAt: string;
+  snippet: string;
+  /** `[start, end)` offsets into `snippet` of each matched term. */
+  highlights: Array<[number, number]>;
+  /** FTS5 `bm25()` score; lower is a better match. */
+  rank: number;
+}
+
+export interface SessionSearchHit extends MessageSearchHit {
+  sessionId: string;
+  sessionTitle: string;
+}
+
+interface TextPartLike {
+  type?: unknown;
+  text?: unknown;
+}
+
+/** The text a message is found by: its text parts, without reasoning or tool payloads. */
+export function extractSearchText(parts: unknown): string {
+  if (!Array.isArray(parts)) return "";
+  return parts
+    .filter(
+      (part): part is TextPartLike =>
+        Boolean(part) && typeof part === "object" && (part as TextPartLike).type === "text"
+    )
+    .map((part) => (typeof part.text === "string" ? part.text.trim() : ""))
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** Lowercased, de-duplicated terms; quotes are dropped so input cannot form FTS syntax. */
+export function tokenizeSearchQuery(query: string): string[] {
+  const terms = query
+    .slice(0, SEARCH_QUERY_MAX_LENGTH)
+    .toLowerCase()
+    .replace(/"/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+  return [...new Set(terms)].slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * An FTS5 `MATCH` expression requiring every term that the index can look up, or null
+ * when all terms are too short and the caller has to fall back to `LIKE`.
+ */
+export function buildFtsMatchQuery(terms: string[]): string | null {
+  const indexed = terms.filter((term) => term.length >= MIN_INDEXED_TERM_LENGTH);
+  if (indexed.length === 0) return null;
+  return indexed.map((term) => `"${term}"`).join(" AND ");
+}
+
+export function matchesAllTerms(content: string, terms: string[]): boolean {
+  const lower = content.toLowerCase();
+  return terms.every((term) => lower.includes(term));
+}
+
+/** A substring pattern for `LIKE ... ESCAPE '!'`. */
+export function toLikePattern(term: string): string {
+  return `%${term.replace(/[!%_]/g, (char) => `!${char}`)}%`;
+}
+
+/** A window of `content` around the first matched term, with the offsets of every match. */
+export function buildSearchSnippet(
+  content: string,
+  terms: string[],
+  radius = SNIPPET_RADIUS
+): Pick<MessageSearchHit, "snippet" | "highlights"> {
+  const lower = content.toLowerCase();
+  const positions = terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - radius);
+  const end = Math.min(content.length, first + radius * 2);
+  const prefix = start > 0 ? "…" : "";
+  const window = content.slice(start, end).replace(/\s+/g, " ");
+  // Whitespace runs collapse, so offsets are taken from the collapsed window.
+  const lowerWindow = window.toLowerCase();
+
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    let from = lowerWindow.indexOf(term);
+    while (from >= 0) {
+      ranges.push([from + prefix.length, from + prefix.length + term.length]);
+      from = lowerWindow.indexOf(term, from + term.length);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  const highlights: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = highlights[highlights.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      highlights.push([range[0], range[1]]);
+    }
+  }
+
+  return {
+    snippet: `${prefix}${window}${end < content.length ? "…" : ""}`,
+    highlights
+  };
+}
+
+/** Best matches first, newest first among equal scores. */
+export function compareSearchHits(a: MessageSearchHit, b: MessageSearchHit): number {
+  return a.rank - b.rank || b.createdAt.localeCompare(a.createdAt);
+}
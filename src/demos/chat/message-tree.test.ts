@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  collectPathBranches,
+  descendActiveBranch,
+  findRegeneratedMessageId,
+  planBranchSwitch,
+  type MessageTreeNode
+} from "./message-tree";
+
+let seq = 0;
+function node(id: string, parentId: string | null, selectedSeq = 1): MessageTreeNode {
+  seq += 1;
+  return { id, parentId, seq, selectedSeq };
+}
+
+// u1 ─ a1 ─ u2 ─ a2
+//    │    └ u2' ─ a2'        (edit of u2, selected later)
+//    └ a1'                   (regeneration of a1)
+const nodes = [
+  node("u1", null),
+  node("a1", "u1"),
+  node("u2", "a1"),
+  node("a2", "u2"),
+  node("a1b", "u1"),
+  node("u2b", "a1", 3),
+  node("a2b", "u2b", 3)
+];
+
+describe("message tree", () => {
+  it("lists sibling versions along the active path in creation order", () => {
+    expect(collectPathBranches(nodes, ["u1", "a1", "u2b", "a2b"])).toEqual([
+      { parentId: "u1", messageIds: ["a1", "a1b"] },
+      { parentId: "a1", messageIds: ["u2", "u2b"] }
+    ]);
+    expect(collectPathBranches(nodes, ["u1", "a1b"])).toEqual([
+      { parentId: "u1", messageIds: ["a1", "a1b"] }
+    ]);
+  });
+
+  it("follows the most recently selected child below a message", () => {
+    expect(descendActiveBranch(nodes, "a1")).toEqual(["a1", "u2b", "a2b"]);
+    expect(descendActiveBranch(nodes, "u2")).toEqual(["u2", "a2"]);
+    expect(descendActiveBranch(nodes, "a1b")).toEqual(["a1b"]);
+  });
+
+  it("keeps live history up to the fork point and appends the chosen branch", () => {
+    expect(
+      planBranchSwitch({
+        nodes,
+        liveIds: ["u1", "a1", "u2b", "a2b"],
+        lastArchivedId: null,
+        targetId: "u2"
+      })
+    ).toEqual({ ok: true, keepCount: 2, branchIds: ["u2", "a2"] });
+  });
+
+  it("switches at the first live message but not inside the archive", () => {
+    const live = { nodes, liveIds: ["a1", "u2", "a2"], lastArchivedId: "u1" };
+    expect(planBranchSwitch({ ...live, targetId: "a1b" })).toEqual({
+      ok: true,
+      keepCount: 0,
+      branchIds: ["a1b"]
+    });
+    expect(
+      planBranchSwitch({ nodes, liveIds: ["u2", "a2"], lastArchivedId: "a1", targetId: "a1b" })
+    ).toEqual({ ok: false, error: "Archived messages cannot switch branches" });
+    expect(planBranchSwitch({ ...live, targetId: "missing" }).ok).toBe(false);
+  });
+
+  it("recognizes requests that end with an answered user message as regenerations", () => {
+    const liveIds = ["u1", "a1", "u2", "a2"];
+    const history = [
+      { id: "u1", role: "user" },
+      { id: "a1", role: "assistant" },
+      { id: "u2", role: "user" }
+    ];
+    expect(findRegeneratedMessageId(history, liveIds)).toBe("u2");
+    expect(findRegeneratedMessageId(history.slice(0, 1), liveIds)).toBe("u1");
+    expect(
+      findRegeneratedMessageId([...history, { id: "a2", role: "assistant" }], liveIds)
+    ).toBeNull();
+    expect(findRegeneratedMessageId([...history, { id: "u3", role: "user" }], liveIds)).toBeNull();
+    expect(findRegeneratedMessageId(history, ["u1", "a1", "u2"])).toBeNull();
+    expect(findRegeneratedMessageId([], liveIds)).toBeNull();
+  });
+});
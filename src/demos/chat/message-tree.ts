@@ -0,0 +1,100 @@
+/** A stored message version. Siblings share a parent; `seq` orders them by creation. */
+export interface MessageTreeNode {
+  id: string;
+  parentId: string | null;
+  seq: number;
+  /** Raised whenever the node joins the active path; picks the child to follow. */
+  selectedSeq: number;
+}
+
+/** Alternative versions of one message on the active path, oldest first. */
+export interface MessageBranch {
+  parentId: string | null;
+  messageIds: string[];
+}
+
+export type BranchSwitchPlan =
+  | { ok: true; keepCount: number; branchIds: string[] }
+  | { ok: false; error: string };
+
+function groupChildren(nodes: MessageTreeNode[]): Map<string | null, MessageTreeNode[]> {
+  const children = new Map<string | null, MessageTreeNode[]>();
+  for (const node of [...nodes].sort((a, b) => a.seq - b.seq)) {
+    const siblings = children.get(node.parentId) ?? [];
+    siblings.push(node);
+    children.set(node.parentId, siblings);
+  }
+  return children;
+}
+
+/** The sibling groups, with more than one version, of the messages in `pathIds`. */
+export function collectPathBranches(nodes: MessageTreeNode[], pathIds: string[]): MessageBranch[] {
+  const children = groupChildren(nodes);
+  const byId = new Map(nodes.map((node) => [node.id, node]));
+  return pathIds.flatMap((id) => {
+    const node = byId.get(id);
+    const siblings = node ? (children.get(node.parentId) ?? []) : [];
+    return siblings.length > 1
+      ? [{ parentId: node?.parentId ?? null, messageIds: siblings.map((sibling) => sibling.id) }]
+      : [];
+  });
+}
+
+/** `startId` followed by the most recently selected child at every level below it. */
+export function descendActiveBranch(nodes: MessageTreeNode[], startId: string): string[] {
+  const children = groupChildren(nodes);
+  const path = [startId];
+  const seen = new Set(path);
+  let current = startId;
+  for (;;) {
+    const next = (children.get(current) ?? []).reduce<MessageTreeNode | null>(
+      (best, child) => (!best || child.selectedSeq > best.selectedSeq ? child : best),
+      null
+    );
+    if (!next || seen.has(next.id)) return path;
+    path.push(next.id);
+    seen.add(next.id);
+    current = next.id;
+  }
+}
+
+/**
+ * How to make `targetId` part of the active path: keep the live messages up to its parent
+ * and follow its branch down. Branches that fork inside the archive cannot be switched to,
+ * since archived messages are already folded into the context summary.
+ */
+export function planBranchSwitch(params: {
+  nodes: MessageTreeNode[];
+  liveIds: string[];
+  lastArchivedId: string | null;
+  targetId: string;
+}): BranchSwitchPlan {
+  const target = params.nodes.find((node) => node.id === params.targetId);
+  if (!target) return { ok: false, error: "Message not found" };
+  const parentIndex =
+    target.parentId === null ? -1 : params.liveIds.findIndex((id) => id === target.parentId);
+  const forksAtLiveStart = target.parentId === params.lastArchivedId;
+  if (parentIndex < 0 && !forksAtLiveStart) {
+    return { ok: false, error: "Archived messages cannot switch branches" };
+  }
+  return {
+    ok: true,
+    keepCount: parentIndex + 1,
+    branchIds: descendActiveBranch(params.nodes, target.id)
+  };
+}
+
+/**
+ * The user message a chat request regenerates the reply to, or null. Clients regenerate by
+ * re-sending the history up to a user message that already has replies. New turns end with
+ * a new message and tool continuations with a reply, so neither matches.
+ */
+export function findRegeneratedMessageId(
+  requestMessages: ReadonlyArray<{ id?: unknown; role?: unknown }>,
+  liveIds: string[]
+): string | null {
+  const last = requestMessages[requestMessages.length - 1];
+  if (last?.role !== "user" || typeof last.id !== "string") return null;
+  const index = liveIds.indexOf(last.id);
+  return index >= 0 && index < liveIds.length - 1 ? last.id : null;
+}
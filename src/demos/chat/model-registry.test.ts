@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildProviderOptions,
+  getDefaultModelRef,
+  listModelOptions,
+  parseCustomProviders,
+  resolveModel
+} from "./model-registry";
+
+const localProviders = JSON.stringify([
+  {
+    id: "local",
+    label: "Local mock",
+    baseURL: "http://127.0.0.1:8787/v1/",
+    models: [{ id: "mock-1", capabilities: { vision: true } }]
+  }
+]);
+
+describe("parseCustomProviders", () => {
+  it("parses OpenAI-compatible providers with defaults", () => {
+    const [provider] = parseCustomProviders(localProviders);
+    expect(provider).toMatchObject({
+      id: "local",
+      baseURL: "http://127.0.0.1:8787/v1",
+      optionStyle: "none",
+      models: [
+        {
+          id: "mock-1",
+          label: "mock-1",
+          capabilities: { tools: true, thinking: false, vision: true }
+        }
+      ]
+    });
+  });
+
+  it("ignores malformed config", () => {
+    expect(parseCustomProviders("{not json")).toEqual([]);
+    expect(parseCustomProviders(JSON.stringify([{ id: "x", baseURL: "nope" }]))).toEqual([]);
+  });
+});
+
+describe("resolveModel", () => {
+  it("keeps CHAT_MODEL_ID as the GLM default", () => {
+    expect(getDefaultModelRef({ CHAT_MODEL_ID: "GLM-4.5-Air" })).toBe("glm:GLM-4.5-Air");
+    const resolved = resolveModel({ BIGMODEL_API_KEY: "k" }, undefined);
+    expect(resolved?.ref).toBe("glm:GLM-4.7");
+    expect(resolved?.apiKey).toBe("k");
+  });
+
+  it("resolves keyless custom providers and reports availability", () => {
+    const env = { CHAT_MODEL_PROVIDERS: localProviders };
+    expect(resolveModel(env, "local:mock-1")?.provider.baseURL).toBe("http://127.0.0.1:8787/v1");
+    expect(resolveModel(env, "missing:model")).toBeNull();
+
+    const options = listModelOptions(env);
+    expect(options.find((item) => item.ref === "local:mock-1")?.available).toBe(true);
+    expect(options.find((item) => item.ref === "openai:o4-mini")?.available).toBe(false);
+  });
+});
+
+describe("buildProviderOptions", () => {
+  it("maps thinking per provider style", () => {
+    const glm = resolveModel({}, "glm:GLM-4.7");
+    const openai = resolveModel({}, "openai:gpt-4.1-mini");
+    expect(glm && buildProviderOptions(glm, { thinking: "enabled" })).toEqual({
+      glm: { thinking: { type: "enabled" } }
+    });
+    // gpt-4.1-mini has no thinking capability, so nothing is sent.
+    expect(openai && buildProviderOptions(openai, { thinking: "enabled" })).toEqual({});
+  });
+});
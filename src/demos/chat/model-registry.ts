@@ -0,0 +1,252 @@
+import { z } from "zod";
+
+export interface ModelCapabilities {
+  tools: boolean;
+  thinking: boolean;
+  vision: boolean;
+}
+
+/**
+ * How chat options map onto a provider's `providerOptions`.
+ * - `glm`: `{ thinking: { type: "enabled" | "disabled" } }`
+ * - `openai-reasoning`: `{ reasoningEffort }` when thinking is on
+ * - `none`: no provider-specific options
+ */
+export type ProviderOptionStyle = "glm" | "openai-reasoning" | "none";
+
+export interface ModelDefinition {
+  id: string;
+  label: string;
+  capabilities: ModelCapabilities;
+}
+
+export interface ModelProviderConfig {
+  id: string;
+  label: string;
+  baseURL: string;
+  /** Env var holding the API key; omit for keyless endpoints such as a local mock server. */
+  apiKeyEnv?: string;
+  optionStyle: ProviderOptionStyle;
+  models: ModelDefinition[];
+}
+
+export interface ModelOption {
+  /** `${providerId}:${modelId}` */
+  ref: string;
+  providerId: string;
+  providerLabel: string;
+  modelId: string;
+  label: string;
+  capabilities: ModelCapabilities;
+  available: boolean;
+}
+
+export interface ResolvedModel {
+  provider: ModelProviderConfig;
+  model: ModelDefinition;
+  ref: string;
+  apiKey?: string;
+}
+
+/** Worker env or any plain record of vars (tests). */
+type EnvLike = object;
+
+function readEnvString(env: EnvLike, key: string): string | undefined {
+  const value = (env as Record<string, unknown>)[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+const DEFAULT_PROVIDER_ID = "glm";
+const DEFAULT_MODEL_ID = "GLM-4.7";
+
+const TEXT_ONLY: ModelCapabilities = { tools: true, thinking: false, vision: false };
+
+export const BUILTIN_MODEL_PROVIDERS: ModelProviderConfig[] = [
+  {
+    id: "glm",
+    label: "Zhipu GLM",
+    baseURL: "https://open.bigmodel.cn/api/coding/paas/v4",
+    apiKeyEnv: "BIGMODEL_API_KEY",
+    optionStyle: "glm",
+    models: [
+      {
+        id: "GLM-4.7",
+        label: "GLM-4.7",
+        capabilities: { tools: true, thinking: true, vision: false }
+      },
+      {
+        id: "GLM-4.5-Air",
+        label: "GLM-4.5 Air",
+        capabilities: { tools: true, thinking: true, vision: false }
+      },
+      {
+        id: "GLM-4.5V",
+        label: "GLM-4.5V",
+        capabilities: { tools: true, thinking: true, vision: true }
+      }
+    ]
+  },
+  {
+    id: "openai",
+    label: "OpenAI",
+    baseURL: "https://api.openai.com/v1",
+    apiKeyEnv: "OPENAI_API_KEY",
+    optionStyle: "openai-reasoning",
+    models: [
+      {
+        id: "gpt-4.1-mini",
+        label: "GPT-4.1 mini",
+        capabilities: { tools: true, thinking: false, vision: true }
+      },
+      {
+        id: "o4-mini",
+        label: "o4-mini",
+        capabilities: { tools: true, thinking: true, vision: true }
+      }
+    ]
+  }
+];
+
+const capabilitiesSchema = z
+  .object({
+    tools: z.boolean().optional(),
+    thinking: z.boolean().optional(),
+    vision: z.boolean().optional()
+  })
+  .optional();
+
+const customProvidersSchema = z.array(
+  z.object({
+    id: z
+      .string()
+      .trim()
+      .regex(/^[a-zA-Z0-9_-]{1,40}$/),
+    label: z.string().trim().min(1).max(80).optional(),
+    baseURL: z.string().trim().url(),
+    apiKeyEnv: z.string().trim().min(1).max(80).optional(),
+    optionStyle: z.enum(["glm", "openai-reasoning", "none"]).optional(),
+    models: z
+      .array(
+        z.object({
+          id: z.string().trim().min(1).max(120),
+          label: z.string().trim().min(1).max(120).optional(),
+          capabilities: capabilitiesSchema
+        })
+      )
+      .min(1)
+  })
+);
+
+/**
+ * Parse `CHAT_MODEL_PROVIDERS`, a JSON array of extra OpenAI-compatible providers.
+ * Invalid JSON is ignored so a bad var never takes the built-in providers down with it.
+ */
+export function parseCustomProviders(raw: string | undefined): ModelProviderConfig[] {
+  if (!raw?.trim()) return [];
+  try {
+    const parsed = customProvidersSchema.safeParse(JSON.parse(raw));
+    if (!parsed.success) return [];
+    return parsed.data.map((provider) => ({
+      id: provider.id,
+      label: provider.label ?? provider.id,
+      baseURL: provider.baseURL.replace(/\/+$/, ""),
+      apiKeyEnv: provider.apiKeyEnv,
+      optionStyle: provider.optionStyle ?? "none",
+      models: provider.models.map((model) => ({
+        id: model.id,
+        label: model.label ?? model.id,
+        capabilities: { ...TEXT_ONLY, ...model.capabilities }
+      }))
+    }));
+  } catch {
+    return [];
+  }
+}
+
+export function getModelProviders(env: EnvLike): ModelProviderConfig[] {
+  const custom = parseCustomProviders(readEnvString(env, "CHAT_MODEL_PROVIDERS"));
+  const customIds = new Set(custom.map((provider) => provider.id));
+  return [...BUILTIN_MODEL_PROVIDERS.filter((provider) => !customIds.has(provider.id)), ...custom];
+}
+
+function readApiKey(env: EnvLike, provider: ModelProviderConfig): string | undefined {
+  return provider.apiKeyEnv ? readEnvString(env, provider.apiKeyEnv) : undefined;
+}
+
+function isProviderAvailable(env: EnvLike, provider: ModelProviderConfig): boolean {
+  return !provider.apiKeyEnv || readApiKey(env, provider) !== undefined;
+}
+
+export function toModelRef(providerId: string, modelId: string): string {
+  return `${providerId}:${modelId}`;
+}
+
+export function listModelOptions(env: EnvLike): ModelOption[] {
+  return getModelProviders(env).flatMap((provider) =>
+    provider.models.map((model) => ({
+      ref: toModelRef(provider.id, model.id),
+      providerId: provider.id,
+      providerLabel: provider.label,
+      modelId: model.id,
+      label: model.label,
+      capabilities: model.capabilities,
+      available: isProviderAvailable(env, provider)
+    }))
+  );
+}
+
+/**
+ * Default model ref from `CHAT_MODEL_PROVIDER` + `CHAT_MODEL_ID`.
+ * `CHAT_MODEL_ID` alone keeps working for existing GLM deployments.
+ */
+export function getDefaultModelRef(env: EnvLike): string {
+  return toModelRef(
+    readEnvString(env, "CHAT_MODEL_PROVIDER") ?? DEFAULT_PROVIDER_ID,
+    readEnvString(env, "CHAT_MODEL_ID") ?? DEFAULT_MODEL_ID
+  );
+}
+
+function splitModelRef(ref: string): { providerId: string; modelId: string } | null {
+  const index = ref.indexOf(":");
+  if (index <= 0 || index === ref.length - 1) return null;
+  return { providerId: ref.slice(0, index), modelId: ref.slice(index + 1) };
+}
+
+/**
+ * Resolve a model ref against the registry. Unknown model ids on a known provider are
+ * accepted as text + tools models so new releases work without a registry update.
+ */
+export function resolveModel(env: EnvLike, ref: string | undefined): ResolvedModel | null {
+  const parts = splitModelRef(ref?.trim() || getDefaultModelRef(env));
+  if (!parts) return null;
+  const provider = getModelProviders(env).find((item) => item.id === parts.providerId);
+  if (!provider) return null;
+  const model = provider.models.find((item) => item.id === parts.modelId) ?? {
+    id: parts.modelId,
+    label: parts.modelId,
+    capabilities: TEXT_ONLY
+  };
+  return {
+    provider,
+    model,
+    ref: toModelRef(provider.id, model.id),
+    apiKey: readApiKey(env, provider)
+  };
+}
+
+export function buildProviderOptions(
+  resolved: ResolvedModel,
+  options: { thinking: "enabled" | "disabled" }
+): Record<string, Record<string, string | Record<string, string>>> {
+  const thinking = resolved.model.capabilities.thinking ? options.thinking : "disabled";
+  switch (resolved.provider.optionStyle) {
+    case "glm":
+      return { [resolved.provider.id]: { thinking: { type: thinking } } };
+    case "openai-reasoning":
+      return thinking === "enabled"
+        ? { [resolved.provider.id]: { reasoningEffort: "medium" } }
+        : {};
+    default:
+      return {};
+  }
+}
@@ -51,4 +51,45 @@ describe("toFallbackModelMessages", () => {
       }
     ]);
   });
+
+  it("keeps attached MCP resources as text ahead of the prompt", () => {
+    const result = toFallbackModelMessages([
+      {
+        role: "user",
+        parts: [
+          {
+            type: "data-resource",
+            data: { serverId: "srv", uri: "file:///notes.md", name: "notes", text: "remember" }
+          },
+          { type: "text", text: "summarize" }
+        ]
+      }
+    ]);
+
+    expect(result).toHaveLength(1);
+    const [content] = result[0].content as Array<{ type: "text"; text: string }>;
+    expect(content.text).toContain("<resource>\nremember\n</resource>");
+    expect(content.text.endsWith("summarize")).toBe(true);
+  });
+
+  it("keeps inline images for vision models and describes them otherwise", () => {
+    const messages = [
+      {
+        role: "user",
+        parts: [
+          { type: "file", mediaType: "image/png", filename: "cat.png", url: "data:image/png;base64,AA==" },
+          { type: "text", text: "what is this?" }
+        ]
+      }
+    ];
+
+    expect(toFallbackModelMessages(messages, { vision: true })[0].content).toEqual([
+      { type: "file", data: "data:image/png;base64,AA==", mediaType: "image/png" },
+      { type: "text", text: "what is this?" }
+    ]);
+
+    const [textOnly] = toFallbackModelMessages(messages)[0].content as Array<{ text: string }>;
+    expect(textOnly.text).toContain('Attached file "cat.png" (image/png) omitted');
+    expect(textOnly.text.endsWith("what is this?")).toBe(true);
+  });
 });
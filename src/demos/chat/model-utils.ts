@@ -1,8 +1,14 @@
 import type { ModelMessage } from "ai";
+import { classifyAttachment, describeOmittedAttachment, isFilePart } from "./attachments";
+import { formatResourceForModel, isResourcePart } from "./mcp-resources";
 
 export interface MessagePartLike {
   type: string;
   text?: string;
+  data?: unknown;
+  url?: string;
+  mediaType?: string;
+  filename?: string;
 }
 
 export interface ChatMessageLike {
@@ -46,11 +52,53 @@ export function getMessageText(parts: MessagePartLike[]): string {
     .join("\n");
 }
 
-export function toFallbackModelMessages(messages: ChatMessageLike[]): ModelMessage[] {
+/** Inline image a vision model can receive directly from the fallback history. */
+function isInlineImagePart(part: MessagePartLike): boolean {
+  return (
+    isFilePart(part) &&
+    part.url.startsWith("data:") &&
+    classifyAttachment(part.mediaType) === "image"
+  );
+}
+
+/** Text parts plus attached MCP resources and file notes, in part order. */
+function getModelContextText(parts: MessagePartLike[], skipInlineImages = false): string {
+  return parts
+    .map((part) =>
+      isResourcePart(part)
+        ? formatResourceForModel(part.data)
+        : isFilePart(part)
+          ? skipInlineImages && isInlineImagePart(part)
+            ? null
+            : describeOmittedAttachment(part, "unsupported")
+          : part.type === "text" && typeof part.text === "string"
+            ? part.text
+            : null
+    )
+    .filter((text): text is string => text !== null)
+    .join("\n");
+}
+
+/**
+ * Text-only rebuild of the history for when `convertToModelMessages` rejects it. User
+ * images survive only when `vision` is set; every other file becomes a short note.
+ */
+export function toFallbackModelMessages(
+  messages: ChatMessageLike[],
+  options: { vision?: boolean } = {}
+): ModelMessage[] {
   const result: ModelMessage[] = [];
   for (const message of messages) {
-    const contentText = getMessageText(message.parts).trim();
-    if (!contentText) continue;
+    const keepImages = Boolean(options.vision) && message.role === "user";
+    const images = keepImages
+      ? message.parts.filter(isInlineImagePart).map((part) => ({
+          type: "file" as const,
+          data: part.url as string,
+          mediaType: part.mediaType as string
+        }))
+      : [];
+    const contentText = getModelContextText(message.parts, keepImages).trim();
+    if (!contentText && images.length === 0) continue;
     if (message.role === "system") {
       result.push({
         role: "system",
@@ -67,7 +115,7 @@ export function toFallbackModelMessages(messages: ChatMessageLike[]): ModelMessa
     }
     result.push({
       role: "user",
-      content: [{ type: "text" as const, text: contentText }]
+      content: [...images, ...(contentText ? [{ type: "text" as const, text: contentText }] : [])]
     });
   }
   return result;
@@ -0,0 +1,128 @@
+import { Agent, getAgentByName } from "agents";
+import {
+  QUOTA_WINDOW_SECONDS,
+  buildQuotaKey,
+  describeQuotaBudget,
+  getQuotaLimit,
+  getQuotaWindowStart,
+  isWithinQuota,
+  type QuotaBudget,
+  type QuotaCheck,
+  type QuotaKind,
+  type QuotaLimits,
+  type QuotaSnapshot
+} from "./usage-quota";
+
+interface QuotaCounterRow {
+  key: string;
+  used: number;
+}
+
+/** Counters older than the longest window are never read again. */
+const RETENTION_MS = 2 * QUOTA_WINDOW_SECONDS.tokens * 1000;
+
+/**
+ * Usage counters for one quota subject (a user, or an unowned session).
+ *
+ * Each subject gets its own instance, so checks and increments for a subject are
+ * serialized and cannot race past a limit.
+ */
+export class QuotaCounter extends Agent<Env> {
+  onStart() {
+    this.sql`
+      create table if not exists quota_counters (
+        key text not null,
+        window_start integer not null,
+        used integer not null default 0,
+        primary key (key, window_start)
+      )
+    `;
+  }
+
+  private readUsed(key: string, windowStart: number): number {
+    const rows = this.sql<{ used: number }>`
+      select used from quota_counters where key = ${key} and window_start = ${windowStart}
+    `;
+    return Number(rows[0]?.used) || 0;
+  }
+
+  private add(key: string, windowStart: number, amount: number): number {
+    this.sql`
+      insert into quota_counters (key, window_start, used)
+      values (${key}, ${windowStart}, ${amount})
+      on conflict(key, window_start) do update set used = used + ${amount}
+    `;
+    this.sql`delete from quota_counters where window_start < ${Date.now() - RETENTION_MS}`;
+    return this.readUsed(key, windowStart);
+  }
+
+  /** Take `amount` from the budget if it fits; nothing is counted when it does not. */
+  consume(input: {
+    kind: QuotaKind;
+    limit: number;
+    amount?: number;
+    toolName?: string;
+  }): QuotaCheck {
+    const now = Date.now();
+    const amount = Math.max(0, Math.floor(input.amount ?? 1));
+    const key = buildQuotaKey(input.kind, input.toolName);
+    const windowStart = getQuotaWindowStart(input.kind, now);
+    let used = this.readUsed(key, windowStart);
+    const allowed = isWithinQuota(used, input.limit, amount);
+    if (allowed && amount > 0) {
+      used = this.add(key, windowStart, amount);
+    }
+    return {
+      allowed,
+      ...describeQuotaBudget({ ...input, used, now })
+    };
+  }
+
+  /** Count usage whose size was only known afterwards, such as model tokens. */
+  record(input: { kind: QuotaKind; amount: number; toolName?: string }): void {
+    const amount = Math.max(0, Math.floor(input.amount));
+    if (amount === 0) return;
+    this.add(buildQuotaKey(input.kind, input.toolName), getQuotaWindowStart(input.kind), amount);
+  }
+
+  getSnapshot(limits: QuotaLimits): Omit<QuotaSnapshot, "subject"> {
+    const now = Date.now();
+    const budget = (kind: QuotaKind): QuotaBudget | null => {
+      const limit = getQuotaLimit(limits, kind);
+      if (limit === null) return null;
+      const used = this.readUsed(buildQuotaKey(kind), getQuotaWindowStart(kind, now));
+      return describeQuotaBudget({ kind, limit, used, now });
+    };
+
+    const toolLimit = limits.toolCallsPerHour;
+    const toolPrefix = buildQuotaKey("toolCalls");
+    const toolRows =
+      toolLimit === null
+        ? []
+        : this.sql<QuotaCounterRow>`
+            select key, used from quota_counters
+            where window_start = ${getQuotaWindowStart("toolCalls", now)}
+              and substr(key, 1, ${toolPrefix.length}) = ${toolPrefix}
+            order by used desc, key
+          `;
+
+    return {
+      messages: budget("messages"),
+      tokens: budget("tokens"),
+      toolCalls: toolRows.map((row) =>
+        describeQuotaBudget({
+          kind: "toolCalls",
+          toolName: row.key.slice(toolPrefix.length),
+          limit: toolLimit ?? 0,
+          used: Number(row.used) || 0,
+          now
+        })
+      ),
+      toolCallsPerHour: toolLimit
+    };
+  }
+}
+
+export async function getQuotaCounter(env: Env, subject: string) {
+  return await getAgentByName(env.QuotaCounter, subject);
+}
@@ -1,3 +1,6 @@
+import { parseModelPrices, type ModelPriceTable } from "./usage-accounting";
+import type { QuotaLimits } from "./usage-quota";
+
 export function parseBooleanEnv(raw: string | undefined, defaultValue: boolean): boolean {
   if (!raw) return defaultValue;
   const normalized = raw.toLowerCase();
@@ -22,10 +25,6 @@ export function getThinkingType(env: Env): "enabled" | "disabled" {
   return getThinkingEnabled(env) ? "enabled" : "disabled";
 }
 
-export function getModelId(env: Env): string {
-  return env.CHAT_MODEL_ID || "GLM-4.7";
-}
-
 export function getMaxOutputTokens(env: Env): number | undefined {
   const raw = env.CHAT_MODEL_MAX_TOKENS;
   if (!raw) return undefined;
@@ -33,6 +32,11 @@ export function getMaxOutputTokens(env: Env): number | undefined {
   return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
 }
 
+/** Plain http MCP servers on localhost; only for local development. */
+export function getLocalMcpServersAllowed(env: Env): boolean {
+  return parseBooleanEnv(env.MCP_ALLOW_LOCALHOST, false);
+}
+
 export function getToolTimeoutMs(env: Env): number {
   const raw = env.CHAT_TOOL_TIMEOUT_MS;
   if (!raw) return 25000;
@@ -46,3 +50,30 @@ export function getToolMaxAttempts(env: Env): number {
   const parsed = Number.parseInt(raw, 10);
   return Number.isFinite(parsed) && parsed > 0 ? parsed : 2;
 }
+
+/** Prompt budget for the system prompt, tools and verbatim history; older turns are summarized. */
+export function getContextTokenBudget(env: Env): number {
+  const raw = env.CHAT_CONTEXT_TOKEN_BUDGET;
+  if (!raw) return 32000;
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isFinite(parsed) && parsed >= 4000 ? parsed : 32000;
+}
+
+function parseQuotaLimit(raw: string | undefined): number | null {
+  if (!raw) return null;
+  const parsed = Number.parseInt(raw, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/** Unset, zero or invalid limits are not enforced. */
+export function getQuotaLimits(env: Env): QuotaLimits {
+  return {
+    messagesPerMinute: parseQuotaLimit(env.QUOTA_MESSAGES_PER_MINUTE),
+    tokensPerDay: parseQuotaLimit(env.QUOTA_TOKENS_PER_DAY),
+    toolCallsPerHour: parseQuotaLimit(env.QUOTA_TOOL_CALLS_PER_HOUR)
+  };
+}
+
+export function getModelPrices(env: Env): ModelPriceTable {
+  return parseModelPrices(env.CHAT_MODEL_PRICES);
+}
@@ -0,0 +1,176 @@
+import { Agent, getAgentByName } from "agents";
+import {
+  SESSION_INDEX_DEFAULT_LIMIT,
+  SESSION_INDEX_MAX_LIMIT,
+  decodeSessionCursor,
+  encodeSessionCursor,
+  type SessionIndexEntry,
+  type SessionIndexPage,
+  type SessionIndexUpdate
+} from "./session-index";
+
+interface SessionIndexRow {
+  session_id: string;
+  title: string;
+  last_message: string;
+  message_count: number;
+  parent_session_id: string | null;
+  fork_message_id: string | null;
+  owner_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const SESSION_DIRECTORY_NAME = "global";
+
+function toEntry(row: SessionIndexRow): SessionIndexEntry {
+  return {
+    sessionId: row.session_id,
+    title: row.title,
+    lastMessage: row.last_message,
+    messageCount: Number(row.message_count) || 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    ...(row.parent_session_id ? { parentSessionId: row.parent_session_id } : {}),
+    ...(row.fork_message_id ? { forkMessageId: row.fork_message_id } : {}),
+    ...(row.owner_id ? { ownerId: row.owner_id } : {})
+  };
+}
+
+/**
+ * Durable registry of chat sessions.
+ *
+ * Every ChatAgentV2 reports its title, last activity, message count and fork parent
+ * here so session lists no longer depend on browser storage. With authentication
+ * enabled it also records which user owns each session.
+ */
+export class SessionDirectory extends Agent<Env> {
+  onStart() {
+    this.sql`
+      create table if not exists chat_sessions (
+        session_id text primary key,
+        title text not null default 'New Chat',
+        last_message text not null default '',
+        message_count integer not null default 0,
+        parent_session_id text,
+        fork_message_id text,
+        owner_id text,
+        created_at text not null,
+        updated_at text not null
+      )
+    `;
+    // Directories created before ownership existed lack the column.
+    const columns = this.sql<{ name: string }>`select name from pragma_table_info('chat_sessions')`;
+    if (!columns.some((column) => column.name === "owner_id")) {
+      this.sql`alter table chat_sessions add column owner_id text`;
+    }
+    this.sql`
+      create index if not exists chat_sessions_updated_idx
+      on chat_sessions (updated_at desc, session_id desc)
+    `;
+    this.sql`
+      create index if not exists chat_sessions_owner_idx
+      on chat_sessions (owner_id, updated_at desc, session_id desc)
+    `;
+  }
+
+  upsertSession(update: SessionIndexUpdate): SessionIndexEntry | null {
+    const now = new Date().toISOString();
+    this.sql`
+      insert into chat_sessions (
+        session_id, title, last_message, message_count,
+        parent_session_id, fork_message_id, owner_id, created_at, updated_at
+      )
+      values (
+        ${update.sessionId},
+        ${update.title ?? "New Chat"},
+        ${update.lastMessage ?? ""},
+        ${update.messageCount ?? 0},
+        ${update.parentSessionId ?? null},
+        ${update.forkMessageId ?? null},
+        ${update.ownerId ?? null},
+        ${now},
+        ${update.updatedAt ?? now}
+      )
+      on conflict(session_id) do update set
+        title = coalesce(${update.title ?? null}, title),
+        last_message = coalesce(${update.lastMessage ?? null}, last_message),
+        message_count = coalesce(${update.messageCount ?? null}, message_count),
+        parent_session_id = coalesce(${update.parentSessionId ?? null}, parent_session_id),
+        fork_message_id = coalesce(${update.forkMessageId ?? null}, fork_message_id),
+        owner_id = coalesce(owner_id, ${update.ownerId ?? null}),
+        updated_at = coalesce(${update.updatedAt ?? null}, updated_at)
+    `;
+    return this.getSession(update.sessionId);
+  }
+
+  /**
+   * Make `ownerId` the owner of a session the directory has never seen and return the
+   * session's owner. Known sessions keep theirs, and those recorded without one stay
+   * unowned, so only creating a session claims it.
+   */
+  claimSession(sessionId: string, ownerId: string): string | null {
+    const existing = this.getSession(sessionId);
+    if (existing) return existing.ownerId ?? null;
+    return this.upsertSession({ sessionId, ownerId })?.ownerId ?? null;
+  }
+
+  removeSession(sessionId: string): boolean {
+    const existing = this.getSession(sessionId);
+    this.sql`delete from chat_sessions where session_id = ${sessionId}`;
+    return existing !== null;
+  }
+
+  getSession(sessionId: string): SessionIndexEntry | null {
+    const rows = this.sql<SessionIndexRow>`
+      select * from chat_sessions where session_id = ${sessionId}
+    `;
+    return rows[0] ? toEntry(rows[0]) : null;
+  }
+
+  getSessions(sessionIds: string[]): SessionIndexEntry[] {
+    return sessionIds
+      .map((sessionId) => this.getSession(sessionId))
+      .filter((entry): entry is SessionIndexEntry => entry !== null);
+  }
+
+  listSessions(
+    options: { cursor?: string; limit?: number; ownerId?: string } = {}
+  ): SessionIndexPage {
+    const limit = Math.min(
+      Math.max(1, Math.floor(options.limit ?? SESSION_INDEX_DEFAULT_LIMIT)),
+      SESSION_INDEX_MAX_LIMIT
+    );
+    const after = decodeSessionCursor(options.cursor);
+    const ownerId = options.ownerId ?? null;
+    // Fetch one extra row to know whether another page exists.
+    const rows = after
+      ? this.sql<SessionIndexRow>`
+          select * from chat_sessions
+          where (${ownerId} is null or owner_id = ${ownerId})
+            and (
+              updated_at < ${after.updatedAt}
+              or (updated_at = ${after.updatedAt} and session_id < ${after.sessionId})
+            )
+          order by updated_at desc, session_id desc
+          limit ${limit + 1}
+        `
+      : this.sql<SessionIndexRow>`
+          select * from chat_sessions
+          where ${ownerId} is null or owner_id = ${ownerId}
+          order by updated_at desc, session_id desc
+          limit ${limit + 1}
+        `;
+
+    const sessions = rows.slice(0, limit).map(toEntry);
+    const last = sessions[sessions.length - 1];
+    return {
+      sessions,
+      ...(rows.length > limit && last ? { nextCursor: encodeSessionCursor(last) } : {})
+    };
+  }
+}
+
+export async function getSessionDirectory(env: Env) {
+  return await getAgentByName(env.SessionDirectory, SESSION_DIRECTORY_NAME);
+}
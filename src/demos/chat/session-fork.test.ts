@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import type { UIMessage } from "ai";
+import type { ContextSummary } from "./context-window";
+import { planForkHistory, rebaseForkAttachments } from "./session-fork";
+
+function message(id: string, role: "user" | "assistant" = "user"): UIMessage {
+  return { id, role, parts: [{ type: "text", text: id }] };
+}
+
+const summary: ContextSummary = {
+  text: "Earlier turns",
+  boundaryMessageId: "u2",
+  coveredThroughMessageId: "a1",
+  summarizedCount: 2,
+  updatedAt: "2026-01-01T00:00:00.000Z"
+};
+const archived = [message("u1"), message("a1", "assistant")];
+const live = [message("u2"), message("a2", "assistant"), message("u3")];
+
+describe("session fork", () => {
+  it("keeps the archive and its summary when forking after it", () => {
+    const plan = planForkHistory({ archived, live, contextSummary: summary, forkMessageId: "a2" });
+    expect(plan?.messages.map((item) => item.id)).toEqual(["u1", "a1", "u2", "a2"]);
+    expect(plan?.archivedCount).toBe(2);
+    expect(plan?.contextSummary).toBe(summary);
+  });
+
+  it("makes archived turns live again when forking inside the archive", () => {
+    const plan = planForkHistory({ archived, live, contextSummary: summary, forkMessageId: "u1" });
+    expect(plan).toEqual({ messages: [archived[0]], archivedCount: 0, contextSummary: null });
+    expect(
+      planForkHistory({ archived, live, contextSummary: summary, forkMessageId: "missing" })
+    ).toBeNull();
+  });
+
+  it("moves the parent's attachments to the fork and leaves other files alone", () => {
+    const withFiles: UIMessage = {
+      id: "u1",
+      role: "user",
+      parts: [
+        { type: "file", mediaType: "image/png", url: "/api/chat/attachments/img?sessionId=parent" },
+        { type: "file", mediaType: "image/png", url: "/api/chat/attachments/old?sessionId=other" },
+        { type: "file", mediaType: "image/png", url: "https://example.com/cat.png" },
+        { type: "text", text: "look" }
+      ]
+    };
+    const result = rebaseForkAttachments([withFiles, live[1]], "parent", "fork");
+    expect(result.attachmentIds).toEqual(["img"]);
+    expect(result.messages[0].parts.map((part) => ("url" in part ? part.url : part.type))).toEqual([
+      "/api/chat/attachments/img?sessionId=fork",
+      "/api/chat/attachments/old?sessionId=other",
+      "https://example.com/cat.png",
+      "text"
+    ]);
+    expect(result.messages[1]).toBe(live[1]);
+  });
+});
@@ -0,0 +1,84 @@
+import type { UIMessage } from "ai";
+import { buildAttachmentUrl, isFilePart, parseAttachmentUrl } from "./attachments";
+import type { ContextSummary } from "./context-window";
+import type { CustomMcpServerRecord } from "./custom-mcp-servers";
+import type { ChatSessionSettings } from "./session-settings";
+
+/** Where a forked session came from. */
+export interface SessionLineage {
+  parentSessionId: string;
+  /** Last message the fork shares with its parent. */
+  forkMessageId: string;
+  forkedAt: string;
+}
+
+/**
+ * Everything a fork inherits from its parent. Custom server records carry their secrets,
+ * so the snapshot only travels between agents over worker RPC.
+ */
+export interface SessionForkSnapshot {
+  lineage: SessionLineage;
+  /** Owner of the parent session, who owns the fork too; null while the parent is unowned. */
+  ownerId: string | null;
+  /** History through the fork point, archived turns first, with every part and its metadata. */
+  messages: UIMessage[];
+  /** Leading messages that stay archived behind `contextSummary` in the fork. */
+  archivedCount: number;
+  contextSummary: ContextSummary | null;
+  settings: ChatSessionSettings;
+  customServers: CustomMcpServerRecord[];
+  /** Servers connected in the parent when it was forked. */
+  activeServers: string[];
+}
+
+export type ForkHistory = Pick<
+  SessionForkSnapshot,
+  "messages" | "archivedCount" | "contextSummary"
+>;
+
+/**
+ * The history a fork at `forkMessageId` starts with, or null when the message is unknown.
+ * Forking after the archive keeps it archived under the same summary; forking inside it
+ * makes the copied turns live again, since the summary covers turns the fork drops.
+ */
+export function planForkHistory(params: {
+  archived: UIMessage[];
+  live: UIMessage[];
+  contextSummary: ContextSummary | null;
+  forkMessageId: string;
+}): ForkHistory | null {
+  const history = [...params.archived, ...params.live];
+  const index = history.findIndex((message) => message.id === params.forkMessageId);
+  if (index < 0) return null;
+  const forkedInArchive = index < params.archived.length;
+  return {
+    messages: history.slice(0, index + 1),
+    archivedCount: forkedInArchive ? 0 : params.archived.length,
+    contextSummary: forkedInArchive ? null : params.contextSummary
+  };
+}
+
+/**
+ * Point file parts stored under `fromSessionId` at copies under `toSessionId`, so the fork
+ * keeps its attachments when the parent is deleted. Returns the attachment ids to copy.
+ */
+export function rebaseForkAttachments(
+  messages: UIMessage[],
+  fromSessionId: string,
+  toSessionId: string
+): { messages: UIMessage[]; attachmentIds: string[] } {
+  const attachmentIds = new Set<string>();
+  const rebased = messages.map((message) => {
+    let changed = false;
+    const parts = message.parts.map((part) => {
+      if (!isFilePart(part)) return part;
+      const ref = parseAttachmentUrl(part.url);
+      if (!ref || ref.sessionId !== fromSessionId) return part;
+      attachmentIds.add(ref.id);
+      changed = true;
+      return { ...part, url: buildAttachmentUrl(toSessionId, ref.id) };
+    });
+    return changed ? { ...message, parts } : message;
+  });
+  return { messages: rebased, attachmentIds: [...attachmentIds] };
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { decodeSessionCursor, encodeSessionCursor } from "./session-index";
+
+describe("session index cursor", () => {
+  it("round-trips the last row of a page", () => {
+    const cursor = encodeSessionCursor({
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      sessionId: "abc_123"
+    });
+    expect(decodeSessionCursor(cursor)).toEqual({
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      sessionId: "abc_123"
+    });
+  });
+
+  it("rejects missing or malformed cursors", () => {
+    expect(decodeSessionCursor(undefined)).toBeNull();
+    expect(decodeSessionCursor("not-base64!")).toBeNull();
+    expect(decodeSessionCursor(btoa(JSON.stringify({ updatedAt: "x" })))).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+export interface SessionIndexEntry {
+  sessionId: string;
+  title: string;
+  lastMessage: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+  parentSessionId?: string;
+  forkMessageId?: string;
+  /** User id of the session's owner; unset until someone claims it with auth enabled. */
+  ownerId?: string;
+}
+
+export type SessionIndexUpdate = Pick<SessionIndexEntry, "sessionId"> &
+  Partial<Omit<SessionIndexEntry, "sessionId" | "createdAt">>;
+
+export interface SessionIndexPage {
+  sessions: SessionIndexEntry[];
+  nextCursor?: string;
+}
+
+export const SESSION_INDEX_DEFAULT_LIMIT = 50;
+export const SESSION_INDEX_MAX_LIMIT = 200;
+
+/**
+ * Opaque keyset cursor: the (updatedAt, sessionId) of the last row on the previous page.
+ */
+export function encodeSessionCursor(
+  entry: Pick<SessionIndexEntry, "updatedAt" | "sessionId">
+): string {
+  return btoa(JSON.stringify([entry.updatedAt, entry.sessionId]));
+}
+
+export function decodeSessionCursor(
+  cursor: string | undefined
+): { updatedAt: string; sessionId: string } | null {
+  if (!cursor) return null;
+  try {
+    const parsed = JSON.parse(atob(cursor)) as unknown;
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 2 &&
+      typeof parsed[0] === "string" &&
+      typeof parsed[1] === "string"
+    ) {
+      return { updatedAt: parsed[0], sessionId: parsed[1] };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { applySettingsPatch, resolveSessionSettings } from "./session-settings";
+
+describe("applySettingsPatch", () => {
+  it("sets values and clears overrides with null or blank strings", () => {
+    const next = applySettingsPatch(
+      { model: "glm:GLM-4.7", temperature: 0.3, systemPromptAddendum: "Be brief" },
+      { temperature: null, maxSteps: 4, systemPromptAddendum: "  " }
+    );
+    expect(next).toEqual({ model: "glm:GLM-4.7", maxSteps: 4 });
+  });
+});
+
+describe("resolveSessionSettings", () => {
+  it("falls back to deployment defaults", () => {
+    expect(
+      resolveSessionSettings(undefined, { model: "glm:GLM-4.7", thinking: "disabled" })
+    ).toEqual({
+      model: "glm:GLM-4.7",
+      temperature: 0.7,
+      maxSteps: 6,
+      thinking: "disabled",
+      systemPromptAddendum: ""
+    });
+  });
+
+  it("prefers session overrides", () => {
+    const effective = resolveSessionSettings(
+      { model: "openai:o4-mini", thinking: "enabled", maxOutputTokens: 512 },
+      { model: "glm:GLM-4.7", thinking: "disabled", maxOutputTokens: 4096 }
+    );
+    expect(effective.model).toBe("openai:o4-mini");
+    expect(effective.thinking).toBe("enabled");
+    expect(effective.maxOutputTokens).toBe(512);
+  });
+});
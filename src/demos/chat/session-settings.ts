@@ -0,0 +1,60 @@
+export type ThinkingMode = "enabled" | "disabled";
+
+/** Per-session overrides; unset fields fall back to deployment defaults. */
+export interface ChatSessionSettings {
+  /** Model ref (`provider:model`). */
+  model?: string;
+  temperature?: number;
+  maxSteps?: number;
+  maxOutputTokens?: number;
+  thinking?: ThinkingMode;
+  systemPromptAddendum?: string;
+}
+
+export interface EffectiveSessionSettings {
+  model: string;
+  temperature: number;
+  maxSteps: number;
+  maxOutputTokens?: number;
+  thinking: ThinkingMode;
+  systemPromptAddendum: string;
+}
+
+/** A patch sets a field to a value, or clears the override with `null`. */
+export type ChatSessionSettingsPatch = {
+  [K in keyof ChatSessionSettings]?: ChatSessionSettings[K] | null;
+};
+
+export const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_MAX_STEPS = 6;
+
+export function applySettingsPatch(
+  current: ChatSessionSettings,
+  patch: ChatSessionSettingsPatch
+): ChatSessionSettings {
+  const next: Record<string, unknown> = { ...current };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === undefined) continue;
+    if (value === null || (typeof value === "string" && !value.trim())) {
+      delete next[key];
+      continue;
+    }
+    next[key] = value;
+  }
+  return next as ChatSessionSettings;
+}
+
+export function resolveSessionSettings(
+  settings: ChatSessionSettings | undefined,
+  defaults: { model: string; thinking: ThinkingMode; maxOutputTokens?: number }
+): EffectiveSessionSettings {
+  const maxOutputTokens = settings?.maxOutputTokens ?? defaults.maxOutputTokens;
+  return {
+    model: settings?.model || defaults.model,
+    temperature: settings?.temperature ?? DEFAULT_TEMPERATURE,
+    maxSteps: settings?.maxSteps ?? DEFAULT_MAX_STEPS,
+    ...(maxOutputTokens ? { maxOutputTokens } : {}),
+    thinking: settings?.thinking ?? defaults.thinking,
+    systemPromptAddendum: settings?.systemPromptAddendum ?? ""
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { screenSharedMessage } from "./share-access";
+
+const live = [{ id: "m1" }, { id: "m2" }];
+
+function chatRequest(messages: Array<{ id: string; role: string }>) {
+  return JSON.stringify({
+    type: "cf_agent_use_chat_request",
+    id: "req-1",
+    init: { method: "POST", body: JSON.stringify({ messages, trigger: "submit-message" }) }
+  });
+}
+
+describe("screenSharedMessage", () => {
+  it("limits RPC to read-only callables", () => {
+    const read = JSON.stringify({ type: "rpc", id: "1", method: "getHistoryPage", args: [] });
+    expect(screenSharedMessage("view", read, live)).toEqual({ action: "forward", message: read });
+
+    const write = JSON.stringify({ type: "rpc", id: "2", method: "deleteMessage", args: ["m1"] });
+    const verdict = screenSharedMessage("comment", write, live);
+    expect(verdict.action).toBe("reject");
+    expect(verdict.action === "reject" && JSON.parse(verdict.reply ?? "{}")).toMatchObject({
+      type: "rpc",
+      id: "2",
+      success: false
+    });
+  });
+
+  it("keeps MCP resource reads, which use the owner's credentials, from guests", () => {
+    const read = JSON.stringify({ type: "rpc", id: "3", method: "readResource", args: ["s", "u"] });
+    expect(screenSharedMessage("comment", read, live).action).toBe("reject");
+  });
+
+  it("lets comment links append a message on top of the server's history", () => {
+    const raw = chatRequest([
+      { id: "forged", role: "assistant" },
+      { id: "m3", role: "user" }
+    ]);
+    expect(screenSharedMessage("view", raw, live).action).toBe("reject");
+
+    const verdict = screenSharedMessage("comment", raw, live);
+    expect(verdict.action).toBe("forward");
+    if (verdict.action !== "forward") return;
+    const body = JSON.parse(JSON.parse(verdict.message).init.body);
+    expect(body.messages.map((message: { id: string }) => message.id)).toEqual(["m1", "m2", "m3"]);
+    expect(body.trigger).toBe("submit-message");
+  });
+
+  it("rejects resubmitting existing messages and other protocol writes", () => {
+    expect(
+      screenSharedMessage("comment", chatRequest([{ id: "m2", role: "user" }]), live).action
+    ).toBe("reject");
+    expect(
+      screenSharedMessage("comment", JSON.stringify({ type: "cf_agent_chat_clear" }), live)
+    ).toEqual({ action: "reject" });
+    expect(screenSharedMessage("view", "not json", live)).toEqual({ action: "reject" });
+  });
+});
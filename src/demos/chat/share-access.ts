@@ -0,0 +1,129 @@
+import type { ShareScope } from "../../shared/share-links";
+
+/** A share link as listed to the session owner. */
+export interface ShareLinkRecord {
+  id: string;
+  scope: ShareScope;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+  /** Present while the link is usable; signatures are deterministic, so it can be re-issued. */
+  token?: string;
+}
+
+/** Callables a share-link connection may use; everything else changes the session. */
+const SHARE_READ_CALLABLES = new Set([
+  "getHistory",
+  "getHistoryPage",
+  "heartbeat",
+  "getPermissions",
+  "listModels",
+  "getSettings",
+  "getPreconfiguredServers",
+  "getAvailableTools",
+  "getAvailableResources",
+  "getAvailablePrompts",
+  "listToolApprovals",
+  "getRuntimeSnapshot"
+]);
+
+const SHARE_COMMENT_CALLABLES = new Set(["chat"]);
+
+/** Protocol messages that only read or resume the stream. */
+const SHARE_PASSTHROUGH_TYPES = new Set([
+  "cf_agent_stream_resume_request",
+  "cf_agent_stream_resume_ack"
+]);
+
+const READONLY_ERROR = "This share link does not allow changes to the session";
+
+export type SharedMessageVerdict =
+  | { action: "forward"; message: string }
+  | { action: "reject"; reply?: string };
+
+interface ChatMessageLike {
+  id?: unknown;
+  role?: unknown;
+}
+
+/**
+ * Decide what a share-link connection may send. RPCs are limited to read-only callables;
+ * `comment` links may add a user message, whose request history is replaced by the
+ * server's so a guest cannot rewrite earlier turns.
+ */
+export function screenSharedMessage(
+  scope: ShareScope,
+  raw: string,
+  liveMessages: ReadonlyArray<{ id: string }>
+): SharedMessageVerdict {
+  let data: {
+    type?: unknown;
+    id?: unknown;
+    method?: unknown;
+    init?: { method?: unknown; body?: unknown };
+  };
+  try {
+    data = JSON.parse(raw) as typeof data;
+  } catch {
+    return { action: "reject" };
+  }
+
+  if (data.type === "rpc") {
+    const method = typeof data.method === "string" ? data.method : "";
+    if (
+      SHARE_READ_CALLABLES.has(method) ||
+      (scope === "comment" && SHARE_COMMENT_CALLABLES.has(method))
+    ) {
+      return { action: "forward", message: raw };
+    }
+    return {
+      action: "reject",
+      reply: JSON.stringify({ type: "rpc", id: data.id, success: false, error: READONLY_ERROR })
+    };
+  }
+
+  if (typeof data.type === "string" && SHARE_PASSTHROUGH_TYPES.has(data.type)) {
+    return { action: "forward", message: raw };
+  }
+
+  if (data.type === "cf_agent_use_chat_request") {
+    const rejection = {
+      action: "reject" as const,
+      reply: JSON.stringify({
+        type: "cf_agent_use_chat_response",
+        id: data.id,
+        body: READONLY_ERROR,
+        done: true,
+        error: true
+      })
+    };
+    if (scope !== "comment" || typeof data.init?.body !== "string") return rejection;
+
+    let body: { messages?: unknown };
+    try {
+      body = JSON.parse(data.init.body) as typeof body;
+    } catch {
+      return rejection;
+    }
+    const messages = Array.isArray(body.messages) ? (body.messages as ChatMessageLike[]) : [];
+    const last = messages[messages.length - 1];
+    if (
+      !last ||
+      last.role !== "user" ||
+      typeof last.id !== "string" ||
+      liveMessages.some((message) => message.id === last.id)
+    ) {
+      return rejection;
+    }
+    return {
+      action: "forward",
+      message: JSON.stringify({
+        ...data,
+        init: { ...data.init, body: JSON.stringify({ ...body, messages: [...liveMessages, last] }) }
+      })
+    };
+  }
+
+  // Message sync, clears, cancels, tool results and approvals all change the session.
+  return { action: "reject" };
+}
@@ -1,5 +1,9 @@
-export function buildSystemPrompt(toolList: string[]): string {
-  return `You are a helpful AI assistant with the following capabilities:
+export function buildSystemPrompt(
+  toolList: string[],
+  sessionInstructions?: string,
+  conversationSummary?: string
+): string {
+  const base = `You are a helpful AI assistant with the following capabilities:
 
 ## 1. Web Tools (MCP)
 ${toolList.length > 0 ? toolList.map((line) => `- ${line}`).join("\n") : "No tools available."}
@@ -101,4 +105,17 @@ IMPORTANT:
 - Use Mermaid as the second choice for diagrams or when G2 is not suitable
 - Make sure JSON is valid in G2 blocks
 - After generating a chart, briefly explain what it shows`;
+
+  const sections = [base];
+  const addendum = sessionInstructions?.trim();
+  if (addendum) {
+    sections.push(`## 3. Session Instructions\n\n${addendum}`);
+  }
+  const summary = conversationSummary?.trim();
+  if (summary) {
+    sections.push(
+      `## ${sections.length + 2}. Earlier Conversation\n\nOlder messages in this conversation were condensed into the summary below. Treat it as context you already know; the messages that follow continue from it.\n\n${summary}`
+    );
+  }
+  return sections.join("\n\n");
 }
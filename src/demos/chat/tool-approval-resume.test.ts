@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { UIMessage } from "ai";
+import { applyToolApprovalDecision, createReplyTracker } from "./tool-approval-resume";
+
+function suspended(toolCallId: string): UIMessage {
+  return {
+    id: `a-${toolCallId}`,
+    role: "assistant",
+    parts: [
+      { type: "text", text: "Deleting it." },
+      {
+        type: "tool-delete_file",
+        toolCallId,
+        state: "approval-requested",
+        input: { path: "a.txt" },
+        approval: { id: toolCallId }
+      }
+    ]
+  } as UIMessage;
+}
+
+const history: UIMessage[] = [
+  { id: "u1", role: "user", parts: [{ type: "text", text: "delete a.txt" }] },
+  suspended("call-1")
+];
+
+function toolPart(messages: UIMessage[] | null) {
+  return messages?.[1]?.parts[1] as { state?: string; approval?: Record<string, unknown> };
+}
+
+describe("applyToolApprovalDecision", () => {
+  it("marks approved calls as responded", () => {
+    const updated = applyToolApprovalDecision(history, "call-1", { approved: true });
+    expect(toolPart(updated)).toMatchObject({
+      state: "approval-responded",
+      approval: { id: "call-1", approved: true }
+    });
+    expect(updated?.[0]).toBe(history[0]);
+  });
+
+  it("denies rejected calls with the reason", () => {
+    const updated = applyToolApprovalDecision(history, "call-1", {
+      approved: false,
+      reason: "Not now"
+    });
+    expect(toolPart(updated)).toMatchObject({
+      state: "output-denied",
+      approval: { approved: false, reason: "Not now" }
+    });
+  });
+
+  it("ignores unknown and already decided calls", () => {
+    expect(applyToolApprovalDecision(history, "call-2", { approved: true })).toBeNull();
+    const decided = applyToolApprovalDecision(history, "call-1", { approved: true });
+    expect(applyToolApprovalDecision(decided ?? [], "call-1", { approved: false })).toBeNull();
+  });
+});
+
+describe("createReplyTracker", () => {
+  const encoder = new TextEncoder();
+
+  it("waits for replies that are still streaming", async () => {
+    const replies = createReplyTracker();
+    let push: ReadableStreamDefaultController<Uint8Array> | undefined;
+    const reply = replies.track(
+      new Response(
+        new ReadableStream<Uint8Array>({
+          start(controller) {
+            push = controller;
+          }
+        })
+      )
+    );
+
+    let idle = false;
+    const waiting = replies.idle().then(() => {
+      idle = true;
+    });
+    push?.enqueue(encoder.encode("partial"));
+    const reader = reply.body!.getReader();
+    await reader.read();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(idle).toBe(false);
+
+    push?.close();
+    expect((await reader.read()).done).toBe(true);
+    await waiting;
+    expect(idle).toBe(true);
+  });
+
+  it("counts cancelled replies as finished", async () => {
+    const replies = createReplyTracker();
+    const reply = replies.track(new Response(new ReadableStream<Uint8Array>()));
+    await reply.body!.cancel();
+    await expect(replies.idle()).resolves.toBeUndefined();
+  });
+
+  it("is idle without replies and leaves bodiless responses alone", async () => {
+    const replies = createReplyTracker();
+    const empty = new Response(null, { status: 204 });
+    expect(replies.track(empty)).toBe(empty);
+    await expect(replies.idle()).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+import type { UIMessage } from "ai";
+
+export interface ToolApprovalDecision {
+  approved: boolean;
+  reason?: string;
+}
+
+interface ApprovalToolPart {
+  toolCallId?: string;
+  state?: string;
+  approval?: { id: string };
+}
+
+/**
+ * The history with the suspended call `toolCallId` resolved, or null when no message
+ * waits on it. Rejections become `output-denied` so the model still gets a tool result.
+ */
+export function applyToolApprovalDecision(
+  messages: UIMessage[],
+  toolCallId: string,
+  decision: ToolApprovalDecision
+): UIMessage[] | null {
+  let found = false;
+  const updated = messages.map((message) => {
+    if (message.role !== "assistant") return message;
+    let changed = false;
+    const parts = message.parts.map((part) => {
+      const toolPart = part as ApprovalToolPart;
+      if (toolPart.toolCallId !== toolCallId || toolPart.state !== "approval-requested") {
+        return part;
+      }
+      changed = true;
+      return {
+        ...part,
+        state: decision.approved ? "approval-responded" : "output-denied",
+        approval: { ...toolPart.approval, approved: decision.approved, reason: decision.reason }
+      } as typeof part;
+    });
+    if (!changed) return message;
+    found = true;
+    return { ...message, parts };
+  });
+  return found ? updated : null;
+}
+
+export interface ReplyTracker {
+  /** The same response, with a body that reports when it has been read to the end or dropped. */
+  track(response: Response): Response;
+  /** Resolves once every reply tracked so far has finished streaming. */
+  idle(): Promise<void>;
+}
+
+/**
+ * Follow reply streams from start to end, so work that must not overlap a running reply,
+ * like continuing a turn after a tool approval, can wait for it.
+ */
+export function createReplyTracker(): ReplyTracker {
+  const active = new Set<Promise<void>>();
+
+  return {
+    track(response) {
+      if (!response.body) return response;
+      const reader = response.body.getReader();
+      let settle = () => {};
+      const finished = new Promise<void>((resolve) => {
+        settle = resolve;
+      });
+      active.add(finished);
+      void finished.then(() => active.delete(finished));
+
+      const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          try {
+            const { done, value } = await reader.read();
+            if (done) {
+              controller.close();
+              settle();
+              return;
+            }
+            controller.enqueue(value);
+          } catch (error) {
+            controller.error(error);
+            settle();
+          }
+        },
+        async cancel(reason) {
+          settle();
+          await reader.cancel(reason);
+        }
+      });
+      return new Response(body, { status: response.status, headers: response.headers });
+    },
+
+    async idle() {
+      while (active.size > 0) {
+        await Promise.all(active);
+      }
+    }
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { normalizeMcpInputSchema, validateToolArguments } from "./tool-schema";
+
+describe("normalizeMcpInputSchema", () => {
+  it("falls back to a permissive object schema", () => {
+    expect(normalizeMcpInputSchema(undefined)).toEqual({
+      type: "object",
+      properties: {},
+      additionalProperties: true
+    });
+  });
+
+  it("keeps advertised properties and forces object type", () => {
+    const result = normalizeMcpInputSchema({
+      properties: { url: { type: "string" } },
+      required: ["url"]
+    });
+    expect(result).toEqual({
+      type: "object",
+      properties: { url: { type: "string" } },
+      required: ["url"]
+    });
+  });
+});
+
+describe("validateToolArguments", () => {
+  const schema = normalizeMcpInputSchema({
+    type: "object",
+    properties: {
+      search_query: { type: "string", minLength: 1 },
+      count: { type: "integer", minimum: 1, maximum: 50 },
+      recency: { type: "string", enum: ["day", "week"] },
+      domains: { type: "array", items: { type: "string" } }
+    },
+    required: ["search_query"],
+    additionalProperties: false
+  });
+
+  it("accepts arguments matching the schema", () => {
+    expect(
+      validateToolArguments(schema, { search_query: "agents", count: 5, domains: ["a.com"] })
+    ).toEqual({ valid: true });
+  });
+
+  it("reports structured issues for invalid arguments", () => {
+    const result = validateToolArguments(schema, {
+      query: "agents",
+      count: 2.5,
+      recency: "year",
+      domains: ["a.com", 3]
+    });
+    expect(result.valid).toBe(false);
+    if (result.valid) return;
+    expect(result.issues).toEqual([
+      { path: "search_query", message: "Required argument is missing." },
+      { path: "query", message: "Unknown argument." },
+      { path: "count", message: "Expected integer, received number." },
+      { path: "recency", message: 'Expected one of "day", "week".' },
+      { path: "domains[1]", message: "Expected string, received integer." }
+    ]);
+  });
+});
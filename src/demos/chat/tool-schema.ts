@@ -0,0 +1,168 @@
+import type { JSONSchema7 } from "ai";
+
+export interface ToolArgumentIssue {
+  path: string;
+  message: string;
+}
+
+export type ToolArgumentValidation =
+  | { valid: true }
+  | { valid: false; issues: ToolArgumentIssue[] };
+
+type SchemaNode = JSONSchema7 | boolean | undefined;
+
+const MAX_ISSUES = 20;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Coerce the `inputSchema` advertised by an MCP server into an object schema the
+ * model provider accepts. Servers that omit or mangle the schema fall back to a
+ * permissive object so the tool stays callable.
+ */
+export function normalizeMcpInputSchema(schema: unknown): JSONSchema7 {
+  if (!isPlainObject(schema)) {
+    return { type: "object", properties: {}, additionalProperties: true };
+  }
+  const normalized = { ...schema } as JSONSchema7;
+  if (normalized.type === undefined || normalized.type !== "object") {
+    normalized.type = "object";
+  }
+  if (!isPlainObject(normalized.properties)) {
+    normalized.properties = {};
+  }
+  return normalized;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "object":
+      return isPlainObject(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "null":
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === "number") return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function validateNode(
+  schema: SchemaNode,
+  value: unknown,
+  path: string,
+  issues: ToolArgumentIssue[]
+): void {
+  if (issues.length >= MAX_ISSUES || schema === undefined || schema === true) return;
+  const label = path || "(root)";
+  if (schema === false) {
+    issues.push({ path: label, message: "Value is not allowed." });
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({
+        path: label,
+        message: `Expected ${types.join(" | ")}, received ${describeType(value)}.`
+      });
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option) => option === value)) {
+    issues.push({
+      path: label,
+      message: `Expected one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}.`
+    });
+  }
+  if (schema.const !== undefined && schema.const !== value) {
+    issues.push({ path: label, message: `Expected ${JSON.stringify(schema.const)}.` });
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path: label, message: `Must be at least ${schema.minLength} characters.` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path: label, message: `Must be at most ${schema.maxLength} characters.` });
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path: label, message: `Must be >= ${schema.minimum}.` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path: label, message: `Must be <= ${schema.maximum}.` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path: label, message: `Must contain at least ${schema.minItems} items.` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path: label, message: `Must contain at most ${schema.maxItems} items.` });
+    }
+    if (schema.items !== undefined && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => {
+        validateNode(schema.items as SchemaNode, item, joinPath(path, index), issues);
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        issues.push({ path: joinPath(path, key), message: "Required argument is missing." });
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (propertySchema !== undefined) {
+        validateNode(propertySchema, propertyValue, joinPath(path, key), issues);
+        continue;
+      }
+      if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, key), message: "Unknown argument." });
+      } else if (isPlainObject(schema.additionalProperties)) {
+        validateNode(schema.additionalProperties, propertyValue, joinPath(path, key), issues);
+      }
+    }
+  }
+}
+
+/**
+ * Validate tool arguments against the subset of JSON Schema that MCP servers commonly
+ * advertise (type, required, properties, enum, items and simple bounds). Composition
+ * keywords and `$ref` are not evaluated; the MCP server remains the final authority.
+ */
+export function validateToolArguments(
+  schema: JSONSchema7,
+  args: Record<string, unknown>
+): ToolArgumentValidation {
+  const issues: ToolArgumentIssue[] = [];
+  validateNode(schema, args, "", issues);
+  return issues.length === 0 ? { valid: true } : { valid: false, issues };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMessageUsage,
+  computeUsageCost,
+  parseModelPrices,
+  readMessageUsage,
+  summarizeUsage,
+  type UsageRecord
+} from "./usage-accounting";
+
+const NOW = Date.UTC(2026, 0, 1, 12);
+const PRICES = parseModelPrices(
+  JSON.stringify({
+    "glm:GLM-4.7": { input: 0.6, output: 2.2 },
+    "openai:o3": { input: 2, output: 8, reasoning: 4 }
+  })
+);
+
+function record(messageId: string, modelRef: string, totalTokens: number, costUsd: number | null) {
+  return {
+    messageId,
+    modelRef,
+    inputTokens: totalTokens,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    totalTokens,
+    latencyMs: 100,
+    finishReason: "stop",
+    costUsd,
+    completedAt: new Date(NOW).toISOString()
+  } satisfies UsageRecord;
+}
+
+describe("usage accounting", () => {
+  it("parses the price table and ignores invalid configuration", () => {
+    expect(PRICES["glm:GLM-4.7"]).toEqual({ input: 0.6, output: 2.2 });
+    expect(parseModelPrices("not json")).toEqual({});
+    expect(parseModelPrices(JSON.stringify({ "glm:GLM-4.7": { input: -1, output: 1 } }))).toEqual(
+      {}
+    );
+  });
+
+  it("prices reasoning tokens separately when configured", () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 500_000, reasoningTokens: 200_000 };
+    expect(computeUsageCost(usage, PRICES["openai:o3"])).toBeCloseTo(2 + 0.3 * 8 + 0.2 * 4);
+    expect(computeUsageCost(usage, PRICES["glm:GLM-4.7"])).toBeCloseTo(0.6 + 0.5 * 2.2);
+    expect(computeUsageCost(usage, undefined)).toBeNull();
+  });
+
+  it("builds message usage from SDK usage, falling back for missing fields", () => {
+    const usage = buildMessageUsage({
+      modelRef: "openai:o3",
+      usage: { inputTokens: 1200, outputTokens: 300, outputTokenDetails: { reasoningTokens: 100 } },
+      finishReason: "stop",
+      latencyMs: 842.4,
+      prices: PRICES,
+      now: NOW
+    });
+    expect(usage).toMatchObject({
+      inputTokens: 1200,
+      outputTokens: 300,
+      reasoningTokens: 100,
+      totalTokens: 1500,
+      latencyMs: 842,
+      finishReason: "stop",
+      completedAt: "2026-01-01T12:00:00.000Z"
+    });
+    expect(usage.costUsd).toBeCloseTo((1200 * 2 + 200 * 8 + 100 * 4) / 1_000_000);
+
+    const unknown = buildMessageUsage({
+      modelRef: "local:mock",
+      usage: undefined,
+      finishReason: undefined,
+      latencyMs: 5,
+      prices: PRICES
+    });
+    expect(unknown).toMatchObject({ totalTokens: 0, finishReason: "unknown", costUsd: null });
+  });
+
+  it("reads usage from message metadata only when it is well formed", () => {
+    const usage = record("m1", "glm:GLM-4.7", 10, 0.1);
+    expect(readMessageUsage({ usage })).toBe(usage);
+    expect(readMessageUsage({ usage: { totalTokens: "10" } })).toBeNull();
+    expect(readMessageUsage(undefined)).toBeNull();
+  });
+
+  it("totals usage per session and per model, counting unpriced messages", () => {
+    const report = summarizeUsage([
+      record("m1", "glm:GLM-4.7", 100, 0.25),
+      record("m2", "openai:o3", 300, 0.5),
+      record("m3", "glm:GLM-4.7", 50, null)
+    ]);
+    expect(report.totals).toMatchObject({
+      messages: 3,
+      totalTokens: 450,
+      costUsd: 0.75,
+      unpricedMessages: 1
+    });
+    expect(report.byModel.map((model) => [model.modelRef, model.totalTokens])).toEqual([
+      ["openai:o3", 300],
+      ["glm:GLM-4.7", 150]
+    ]);
+  });
+});
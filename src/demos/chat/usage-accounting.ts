@@ -0,0 +1,173 @@
+import { z } from "zod";
+
+/** USD per million tokens. Reasoning tokens are billed at the output price unless set. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  reasoning?: number;
+}
+
+export type ModelPriceTable = Record<string, ModelPrice>;
+
+/** Token usage of the model calls that produced one assistant message. */
+export interface MessageUsage {
+  modelRef: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Included in `outputTokens`, as providers report it. */
+  reasoningTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  finishReason: string;
+  /** Null when the model has no entry in the price table. */
+  costUsd: number | null;
+  completedAt: string;
+}
+
+/** The subset of the AI SDK's `LanguageModelUsage` that accounting reads. */
+export interface ModelUsageLike {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+  outputTokenDetails?: { reasoningTokens?: number };
+  reasoningTokens?: number;
+}
+
+export interface UsageTotals {
+  messages: number;
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** Messages left out of `costUsd` because their model has no price. */
+  unpricedMessages: number;
+}
+
+export interface UsageRecord extends MessageUsage {
+  messageId: string;
+}
+
+export interface UsageReport {
+  records: UsageRecord[];
+  totals: UsageTotals;
+  byModel: Array<UsageTotals & { modelRef: string }>;
+}
+
+const priceSchema = z.object({
+  input: z.number().nonnegative(),
+  output: z.number().nonnegative(),
+  reasoning: z.number().nonnegative().optional()
+});
+
+const priceTableSchema = z.record(z.string().trim().min(1), priceSchema);
+
+/**
+ * Parse `CHAT_MODEL_PRICES`, a JSON object of model ref to `{ input, output, reasoning? }`.
+ * Invalid JSON prices nothing rather than failing chat.
+ */
+export function parseModelPrices(raw: string | undefined): ModelPriceTable {
+  if (!raw?.trim()) return {};
+  try {
+    const parsed = priceTableSchema.safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+function toCount(value: number | undefined): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.round(value) : 0;
+}
+
+export function computeUsageCost(
+  usage: Pick<MessageUsage, "inputTokens" | "outputTokens" | "reasoningTokens">,
+  price: ModelPrice | undefined
+): number | null {
+  if (!price) return null;
+  const reasoningTokens = Math.min(usage.reasoningTokens, usage.outputTokens);
+  const cost =
+    usage.inputTokens * price.input +
+    (usage.outputTokens - reasoningTokens) * price.output +
+    reasoningTokens * (price.reasoning ?? price.output);
+  return cost / 1_000_000;
+}
+
+export function buildMessageUsage(params: {
+  modelRef: string;
+  usage: ModelUsageLike | undefined;
+  finishReason: string | undefined;
+  latencyMs: number;
+  prices: ModelPriceTable;
+  now?: number;
+}): MessageUsage {
+  const inputTokens = toCount(params.usage?.inputTokens);
+  const outputTokens = toCount(params.usage?.outputTokens);
+  const reasoningTokens = toCount(
+    params.usage?.outputTokenDetails?.reasoningTokens ?? params.usage?.reasoningTokens
+  );
+  const counts = { inputTokens, outputTokens, reasoningTokens };
+  return {
+    modelRef: params.modelRef,
+    ...counts,
+    totalTokens: toCount(params.usage?.totalTokens) || inputTokens + outputTokens,
+    latencyMs: toCount(params.latencyMs),
+    finishReason: params.finishReason ?? "unknown",
+    costUsd: computeUsageCost(counts, params.prices[params.modelRef]),
+    completedAt: new Date(params.now ?? Date.now()).toISOString()
+  };
+}
+
+/** Usage stored in a message's metadata, if it has any. */
+export function readMessageUsage(metadata: unknown): MessageUsage | null {
+  if (!metadata || typeof metadata !== "object") return null;
+  const usage = (metadata as { usage?: unknown }).usage;
+  if (!usage || typeof usage !== "object") return null;
+  const candidate = usage as Partial<MessageUsage>;
+  return typeof candidate.modelRef === "string" && typeof candidate.totalTokens === "number"
+    ? (usage as MessageUsage)
+    : null;
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    messages: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    totalTokens: 0,
+    costUsd: 0,
+    unpricedMessages: 0
+  };
+}
+
+function addToTotals(totals: UsageTotals, usage: MessageUsage): void {
+  totals.messages += 1;
+  totals.inputTokens += usage.inputTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.reasoningTokens += usage.reasoningTokens;
+  totals.totalTokens += usage.totalTokens;
+  if (usage.costUsd === null) {
+    totals.unpricedMessages += 1;
+  } else {
+    totals.costUsd += usage.costUsd;
+  }
+}
+
+export function summarizeUsage(records: UsageRecord[]): UsageReport {
+  const totals = emptyTotals();
+  const byModel = new Map<string, UsageTotals>();
+  for (const record of records) {
+    addToTotals(totals, record);
+    const modelTotals = byModel.get(record.modelRef) ?? emptyTotals();
+    addToTotals(modelTotals, record);
+    byModel.set(record.modelRef, modelTotals);
+  }
+  return {
+    records,
+    totals,
+    byModel: [...byModel.entries()]
+      .map(([modelRef, modelTotals]) => ({ modelRef, ...modelTotals }))
+      .sort((a, b) => b.totalTokens - a.totalTokens || a.modelRef.localeCompare(b.modelRef))
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { getQuotaLimits } from "./runtime-config";
+import {
+  buildQuotaKey,
+  describeQuotaBudget,
+  getQuotaWindowStart,
+  isWithinQuota,
+  resolveQuotaSubject,
+  toQuotaViolation
+} from "./usage-quota";
+
+const NOW = Date.UTC(2026, 0, 1, 10, 30, 15);
+
+describe("usage quotas", () => {
+  it("reads limits from the environment, leaving bad values unenforced", () => {
+    expect(
+      getQuotaLimits({
+        QUOTA_MESSAGES_PER_MINUTE: "20",
+        QUOTA_TOKENS_PER_DAY: "0",
+        QUOTA_TOOL_CALLS_PER_HOUR: "many"
+      } as Env)
+    ).toEqual({ messagesPerMinute: 20, tokensPerDay: null, toolCallsPerHour: null });
+  });
+
+  it("counts in fixed windows per kind", () => {
+    expect(getQuotaWindowStart("messages", NOW)).toBe(Date.UTC(2026, 0, 1, 10, 30));
+    expect(getQuotaWindowStart("toolCalls", NOW)).toBe(Date.UTC(2026, 0, 1, 10));
+    expect(getQuotaWindowStart("tokens", NOW)).toBe(Date.UTC(2026, 0, 1));
+    expect(buildQuotaKey("toolCalls", "search")).toBe("toolCalls:search");
+    expect(buildQuotaKey("messages")).toBe("messages");
+  });
+
+  it("charges users across sessions and leaves unowned sessions unlimited", () => {
+    expect(resolveQuotaSubject("ada")).toBe("user:ada");
+    expect(resolveQuotaSubject(null)).toBeNull();
+  });
+
+  it("lets zero-cost checks pass while any budget is left", () => {
+    expect(isWithinQuota(19, 20, 1)).toBe(true);
+    expect(isWithinQuota(20, 20, 1)).toBe(false);
+    expect(isWithinQuota(19_999, 20_000, 0)).toBe(true);
+    expect(isWithinQuota(20_500, 20_000, 0)).toBe(false);
+  });
+
+  it("describes violations with a retry delay until the window resets", () => {
+    const budget = describeQuotaBudget({ kind: "messages", limit: 20, used: 20, now: NOW });
+    expect(budget).toMatchObject({ remaining: 0, resetAt: "2026-01-01T10:31:00.000Z" });
+
+    const violation = toQuotaViolation(budget, NOW);
+    expect(violation.code).toBe("RATE_LIMITED");
+    expect(violation.retryAfterSeconds).toBe(45);
+    expect(
+      toQuotaViolation(
+        describeQuotaBudget({ kind: "toolCalls", toolName: "search", limit: 5, used: 5, now: NOW }),
+        NOW
+      ).message
+    ).toContain('tool "search"');
+  });
+});
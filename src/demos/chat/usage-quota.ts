@@ -0,0 +1,119 @@
+export type QuotaKind = "messages" | "tokens" | "toolCalls";
+
+/** A null limit means the quota is not enforced. */
+export interface QuotaLimits {
+  messagesPerMinute: number | null;
+  tokensPerDay: number | null;
+  toolCallsPerHour: number | null;
+}
+
+/** Quotas are counted in fixed windows aligned to the epoch, e.g. whole UTC minutes. */
+export const QUOTA_WINDOW_SECONDS: Record<QuotaKind, number> = {
+  messages: 60,
+  tokens: 24 * 60 * 60,
+  toolCalls: 60 * 60
+};
+
+const QUOTA_ERROR_CODES: Record<QuotaKind, string> = {
+  messages: "RATE_LIMITED",
+  tokens: "TOKEN_QUOTA_EXCEEDED",
+  toolCalls: "TOOL_QUOTA_EXCEEDED"
+};
+
+export interface QuotaBudget {
+  kind: QuotaKind;
+  /** Set for per-tool call budgets. */
+  toolName?: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: string;
+}
+
+export interface QuotaCheck extends QuotaBudget {
+  allowed: boolean;
+}
+
+export interface QuotaViolation {
+  code: string;
+  message: string;
+  retryAfterSeconds: number;
+  budget: QuotaBudget;
+}
+
+/** Remaining budget for one quota subject, as reported by the runtime snapshot. */
+export interface QuotaSnapshot {
+  subject: string;
+  messages: QuotaBudget | null;
+  tokens: QuotaBudget | null;
+  /** Budgets of tools called in the current window; unlisted tools have the full limit. */
+  toolCalls: QuotaBudget[];
+  toolCallsPerHour: number | null;
+}
+
+export function getQuotaLimit(limits: QuotaLimits, kind: QuotaKind): number | null {
+  if (kind === "messages") return limits.messagesPerMinute;
+  if (kind === "tokens") return limits.tokensPerDay;
+  return limits.toolCallsPerHour;
+}
+
+export function getQuotaWindowStart(kind: QuotaKind, now = Date.now()): number {
+  const windowMs = QUOTA_WINDOW_SECONDS[kind] * 1000;
+  return Math.floor(now / windowMs) * windowMs;
+}
+
+export function buildQuotaKey(kind: QuotaKind, toolName?: string): string {
+  return kind === "toolCalls" ? `${kind}:${toolName ?? ""}` : kind;
+}
+
+/**
+ * Users share one budget across all of their sessions. Sessions nobody owns, which is
+ * every session while authentication is disabled, have no subject and are not limited:
+ * any budget keyed on something the client picks, like the session id, is one new
+ * session away from a fresh one.
+ */
+export function resolveQuotaSubject(ownerId?: string | null): string | null {
+  return ownerId ? `user:${ownerId}` : null;
+}
+
+export function describeQuotaBudget(params: {
+  kind: QuotaKind;
+  toolName?: string;
+  limit: number;
+  used: number;
+  now?: number;
+}): QuotaBudget {
+  const windowStart = getQuotaWindowStart(params.kind, params.now);
+  return {
+    kind: params.kind,
+    ...(params.toolName ? { toolName: params.toolName } : {}),
+    limit: params.limit,
+    used: params.used,
+    remaining: Math.max(0, params.limit - params.used),
+    resetAt: new Date(windowStart + QUOTA_WINDOW_SECONDS[params.kind] * 1000).toISOString()
+  };
+}
+
+/**
+ * Whether `amount` more units fit the budget. An amount of zero only asks whether any
+ * budget is left, which is how token quotas are checked before the cost is known.
+ */
+export function isWithinQuota(used: number, limit: number, amount: number): boolean {
+  return amount > 0 ? used + amount <= limit : used < limit;
+}
+
+export function toQuotaViolation(budget: QuotaBudget, now = Date.now()): QuotaViolation {
+  const retryAfterSeconds = Math.max(1, Math.ceil((Date.parse(budget.resetAt) - now) / 1000));
+  const message =
+    budget.kind === "messages"
+      ? `Message rate limit of ${budget.limit} per minute reached.`
+      : budget.kind === "tokens"
+        ? `Daily model token quota of ${budget.limit} reached.`
+        : `Hourly call quota of ${budget.limit} reached for tool "${budget.toolName ?? ""}".`;
+  return {
+    code: QUOTA_ERROR_CODES[budget.kind],
+    message: `${message} Try again after ${budget.resetAt}.`,
+    retryAfterSeconds,
+    budget
+  };
+}
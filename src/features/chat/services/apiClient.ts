@@ -11,6 +11,28 @@ interface ApiSuccessPayload<T> {
   requestId?: string;
 }
 
+const SHARE_TOKEN_HEADER = "x-share-token";
+
+let shareToken: string | null = null;
+
+/** Share-link visitors send their token with every API request instead of a login cookie. */
+export function setApiShareToken(token: string | null): void {
+  shareToken = token;
+}
+
+/** Links and `<img>` sources cannot send headers, so API URLs carry the token in the query. */
+export function withShareTokenUrl(url: string): string {
+  if (!shareToken || !url.startsWith("/api/")) return url;
+  return `${url}${url.includes("?") ? "&" : "?"}share=${encodeURIComponent(shareToken)}`;
+}
+
+function withShareToken(init?: RequestInit): RequestInit | undefined {
+  if (!shareToken) return init;
+  const headers = new Headers(init?.headers);
+  headers.set(SHARE_TOKEN_HEADER, shareToken);
+  return { ...init, headers };
+}
+
 function toErrorMessage(payload: unknown, fallback: string): string {
   if (!payload || typeof payload !== "object") {
     return fallback;
@@ -23,7 +45,55 @@ export async function callApi<T>(
   input: RequestInfo | URL,
   init?: RequestInit
 ): Promise<ApiSuccessPayload<T> & T> {
-  const response = await fetch(input, init);
+  return await readApiResponse<T>(await fetch(input, withShareToken(init)));
+}
+
+/** GET with `If-None-Match`; resolves to null when the server answers 304 Not Modified. */
+export async function callApiConditional<T>(
+  input: RequestInfo | URL,
+  etag?: string
+): Promise<{ payload: ApiSuccessPayload<T> & T; etag: string | null } | null> {
+  const response = await fetch(
+    input,
+    withShareToken(etag ? { headers: { "if-none-match": etag } } : undefined)
+  );
+  if (response.status === 304) {
+    return null;
+  }
+  const payload = await readApiResponse<T>(response);
+  return { payload, etag: response.headers.get("etag") };
+}
+
+/** GET a file-like response, e.g. an export, with the filename from `Content-Disposition`. */
+export async function fetchApiText(
+  input: RequestInfo | URL
+): Promise<{ text: string; contentType: string; filename: string | null }> {
+  const response = await fetch(input, withShareToken());
+  if (!response.ok) {
+    const payload = (await response.json().catch(() => null)) as unknown;
+    throw new Error(toErrorMessage(payload, `HTTP ${response.status}`));
+  }
+  return {
+    text: await response.text(),
+    contentType: response.headers.get("content-type") ?? "text/plain",
+    filename: readDispositionFilename(response.headers.get("content-disposition"))
+  };
+}
+
+function readDispositionFilename(header: string | null): string | null {
+  if (!header) return null;
+  const encoded = /filename\*=UTF-8''([^;]+)/i.exec(header)?.[1];
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded.trim());
+    } catch {
+      // Fall back to the plain filename below.
+    }
+  }
+  return /filename="([^"]*)"/i.exec(header)?.[1] ?? null;
+}
+
+async function readApiResponse<T>(response: Response): Promise<ApiSuccessPayload<T> & T> {
   const payload = (await response.json()) as unknown;
 
   if (!response.ok) {
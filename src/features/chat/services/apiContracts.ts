@@ -2,6 +2,15 @@ export interface ToggleServerResult {
   success: boolean;
   active?: boolean;
   error?: string;
+  /** Present when the server needs OAuth consent before it can connect. */
+  authUrl?: string;
+  stateVersion?: number;
+}
+
+export interface ReauthorizeServerResult {
+  success: boolean;
+  error?: string;
+  authUrl?: string;
   stateVersion?: number;
 }
 
@@ -14,15 +23,23 @@ export interface DeleteMessageResult {
 export interface EditMessageResult {
   success: boolean;
   updated: boolean;
+  /** Id of the new version; edits are kept as a sibling branch of the original. */
+  messageId?: string;
   error?: string;
 }
 
-export interface RegenerateMessageResult {
+export interface SwitchBranchResult {
   success: boolean;
-  response?: string;
+  switched: boolean;
   error?: string;
 }
 
+/** Alternative versions of one message on the active path, oldest first. */
+export interface MessageBranch {
+  parentId: string | null;
+  messageIds: string[];
+}
+
 export interface ForkSessionResult {
   success: boolean;
   newSessionId?: string;
@@ -36,6 +53,286 @@ export interface DeleteSessionResult {
   error?: string;
 }
 
+export type McpTransportType = "streamable-http" | "sse";
+
+/** Form payload for a user-defined MCP server; leave a header value empty to keep the saved one. */
+export interface CustomMcpServerInput {
+  name: string;
+  url: string;
+  description?: string;
+  transport: McpTransportType;
+  auth:
+    | { type: "none" }
+    | { type: "headers"; headers: Array<{ name: string; value?: string }> }
+    | { type: "oauth" };
+  active?: boolean;
+}
+
+export interface SaveCustomServerResult {
+  success: boolean;
+  error?: string;
+  active?: boolean;
+  activationError?: string;
+  authUrl?: string;
+  stateVersion?: number;
+}
+
+export interface RemoveCustomServerResult {
+  success: boolean;
+  error?: string;
+  stateVersion?: number;
+}
+
+export interface TestCustomServerResult {
+  success: boolean;
+  error?: string;
+  toolCount?: number;
+  requiresAuth?: boolean;
+}
+
+export interface McpResourceSummary {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+  serverId: string;
+  serverName?: string;
+}
+
+export interface McpResourceContent {
+  uri: string;
+  mimeType?: string;
+  text: string;
+  truncated: boolean;
+  binary?: boolean;
+}
+
+export interface ReadResourceResult {
+  success: boolean;
+  error?: string;
+  contents: McpResourceContent[];
+}
+
+/** Payload of a `data-resource` message part; the text is what the model receives. */
+export interface ResourceAttachment {
+  serverId: string;
+  serverName?: string;
+  uri: string;
+  name: string;
+  mimeType?: string;
+  text: string;
+  truncated?: boolean;
+}
+
+/** Uploaded file; `url` is what the user message's file part points at. */
+/** One message from `GET /api/chat/messages`, with its full parts. */
+export interface ChatHistoryMessage {
+  id: string;
+  role: "user" | "assistant" | "system";
+  parts: unknown[];
+  metadata?: unknown;
+  createdAt: string;
+  /** Folded into the context summary and no longer part of the live history. */
+  archived: boolean;
+}
+
+export interface ChatHistoryPage {
+  /** Oldest first. */
+  messages: ChatHistoryMessage[];
+  /** Cursor for the page before this one; null once the start of the session is reached. */
+  nextCursor: string | null;
+  stateVersion: number;
+  etag?: string;
+}
+
+export interface ChatAttachment {
+  id: string;
+  url: string;
+  filename: string;
+  mediaType: string;
+  size: number;
+}
+
+export interface PromptMessage {
+  role: "user" | "assistant";
+  text: string;
+}
+
+export interface GetPromptResult {
+  success: boolean;
+  error?: string;
+  messages: PromptMessage[];
+  description?: string;
+}
+
+export type ThinkingMode = "enabled" | "disabled";
+
+/** Per-session overrides; a missing field means the deployment default applies. */
+export interface SessionSettings {
+  model?: string;
+  temperature?: number;
+  maxSteps?: number;
+  maxOutputTokens?: number;
+  thinking?: ThinkingMode;
+  systemPromptAddendum?: string;
+}
+
+export interface EffectiveSessionSettings {
+  model: string;
+  temperature: number;
+  maxSteps: number;
+  maxOutputTokens?: number;
+  thinking: ThinkingMode;
+  systemPromptAddendum: string;
+}
+
+/** `null` clears an override. */
+export type SessionSettingsPatch = {
+  [K in keyof SessionSettings]?: SessionSettings[K] | null;
+};
+
+export interface SessionSettingsResult {
+  success: boolean;
+  error?: string;
+  settings: SessionSettings;
+  effective: EffectiveSessionSettings;
+  stateVersion?: number;
+}
+
+export type SessionLifecycleMode = "persistent" | "ephemeral";
+
+/** Lifecycle policy as stored in agent state. */
+export interface SessionLifecycle {
+  mode: SessionLifecycleMode;
+  idleTimeoutSeconds?: number;
+  idleTimeoutAt?: string;
+  hibernatedAt?: string;
+}
+
+export interface SessionLifecycleSnapshot {
+  mode: SessionLifecycleMode;
+  idleTimeoutSeconds: number;
+  hibernated: boolean;
+  hibernatesAt: string | null;
+  expiresAt: string | null;
+}
+
+export interface UpdateLifecycleResult {
+  success: boolean;
+  error?: string;
+  lifecycle: SessionLifecycleSnapshot;
+  stateVersion?: number;
+}
+
+/** Rolling summary of turns that no longer fit the model's context budget. */
+export interface ContextSummary {
+  text: string;
+  /** First message the model still receives verbatim. */
+  boundaryMessageId: string;
+  coveredThroughMessageId: string;
+  summarizedCount: number;
+  updatedAt: string;
+}
+
+export interface ModelOption {
+  ref: string;
+  providerId: string;
+  providerLabel: string;
+  modelId: string;
+  label: string;
+  capabilities: { tools: boolean; thinking: boolean; vision: boolean };
+  available: boolean;
+}
+
+export interface ModelListResult {
+  models: ModelOption[];
+  selected: string;
+}
+
+export interface AuthUser {
+  userId: string;
+  provider: string;
+}
+
+export interface AuthStatus {
+  /** False when the deployment has no identity provider configured. */
+  enabled: boolean;
+  user: AuthUser | null;
+}
+
+export type LoginCredentials = { username: string; password: string } | { apiKey: string };
+
+export type QuotaKind = "messages" | "tokens" | "toolCalls";
+
+export interface QuotaBudget {
+  kind: QuotaKind;
+  toolName?: string;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetAt: string;
+}
+
+/** Remaining usage budget; null budgets are not enforced. */
+export interface QuotaSnapshot {
+  subject: string;
+  messages: QuotaBudget | null;
+  tokens: QuotaBudget | null;
+  /** Only tools called in the current hour are listed. */
+  toolCalls: QuotaBudget[];
+  toolCallsPerHour: number | null;
+}
+
+/** Model usage recorded in an assistant message's `metadata.usage`. */
+export interface MessageUsage {
+  modelRef: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Included in `outputTokens`. */
+  reasoningTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  finishReason: string;
+  /** Null when no price is configured for the model. */
+  costUsd: number | null;
+  completedAt: string;
+}
+
+/** A message matched by `GET /api/chat/search`. */
+export interface MessageSearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string;
+  role: string;
+  createdAt: string;
+  snippet: string;
+  /** `[start, end)` offsets into `snippet` of each matched term. */
+  highlights: Array<[number, number]>;
+  rank: number;
+}
+
+export interface MessageSearchResponse {
+  results: MessageSearchResult[];
+  searchedSessions: number;
+  failedSessionIds: string[];
+  /** More sessions exist than one search covers; only the most recent ones were searched. */
+  truncated: boolean;
+}
+
+/** `view` links are read-only; `comment` links may also post new messages. */
+export type ShareScope = "view" | "comment";
+
+export interface ShareLink {
+  id: string;
+  scope: ShareScope;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+  /** Only present while the link is active. */
+  token?: string;
+  url?: string;
+}
+
 export function isToggleServerResult(value: unknown): value is ToggleServerResult {
   if (!value || typeof value !== "object") {
     return false;
@@ -44,12 +341,14 @@ export function isToggleServerResult(value: unknown): value is ToggleServerResul
     success?: unknown;
     active?: unknown;
     error?: unknown;
+    authUrl?: unknown;
     stateVersion?: unknown;
   };
   return (
     typeof candidate.success === "boolean" &&
     (candidate.active === undefined || typeof candidate.active === "boolean") &&
     (candidate.error === undefined || typeof candidate.error === "string") &&
+    (candidate.authUrl === undefined || typeof candidate.authUrl === "string") &&
     (candidate.stateVersion === undefined || typeof candidate.stateVersion === "number")
   );
 }
@@ -82,18 +381,6 @@ export function isEditMessageResult(value: unknown): value is EditMessageResult
   );
 }
 
-export function isRegenerateMessageResult(value: unknown): value is RegenerateMessageResult {
-  if (!value || typeof value !== "object") {
-    return false;
-  }
-  const candidate = value as { success?: unknown; response?: unknown; error?: unknown };
-  return (
-    typeof candidate.success === "boolean" &&
-    (candidate.response === undefined || typeof candidate.response === "string") &&
-    (candidate.error === undefined || typeof candidate.error === "string")
-  );
-}
-
 export function isForkSessionResult(value: unknown): value is ForkSessionResult {
   if (!value || typeof value !== "object") {
     return false;
@@ -123,3 +410,25 @@ export function isDeleteSessionResult(value: unknown): value is DeleteSessionRes
     (candidate.error === undefined || typeof candidate.error === "string")
   );
 }
+
+export function isSessionSettingsResult(value: unknown): value is SessionSettingsResult {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const candidate = value as {
+    success?: unknown;
+    error?: unknown;
+    settings?: unknown;
+    effective?: unknown;
+  };
+  const effective = candidate.effective as { model?: unknown } | null | undefined;
+  return (
+    typeof candidate.success === "boolean" &&
+    (candidate.error === undefined || typeof candidate.error === "string") &&
+    !!candidate.settings &&
+    typeof candidate.settings === "object" &&
+    !!effective &&
+    typeof effective === "object" &&
+    typeof effective.model === "string"
+  );
+}
@@ -0,0 +1,21 @@
+import { callApi } from "./apiClient";
+import type { AuthStatus, AuthUser, LoginCredentials } from "./apiContracts";
+
+export async function fetchAuthStatus(): Promise<AuthStatus> {
+  const response = await callApi<AuthStatus>("/api/auth/me");
+  return { enabled: Boolean(response.enabled), user: response.user ?? null };
+}
+
+/** Exchange credentials for the session cookie that authenticates later requests. */
+export async function signIn(credentials: LoginCredentials): Promise<AuthUser> {
+  const response = await callApi<{ user: AuthUser }>("/api/auth/login", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(credentials)
+  });
+  return response.user;
+}
+
+export async function signOut(): Promise<void> {
+  await callApi<{ signedOut: boolean }>("/api/auth/logout", { method: "POST" });
+}
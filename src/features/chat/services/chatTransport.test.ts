@@ -6,38 +6,168 @@ describe("createChatTransport", () => {
     vi.restoreAllMocks();
   });
 
-  it("deduplicates concurrent history requests", async () => {
+  it("deduplicates concurrent history page requests", async () => {
     const agent = {
       call: vi.fn(async () => {
         throw new Error("agent unavailable");
       })
     };
 
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          success: true,
+          messages: [
+            {
+              id: "m1",
+              role: "assistant",
+              parts: [{ type: "text", text: "hello" }],
+              createdAt: "2026-01-01T00:00:00.000Z",
+              archived: false
+            }
+          ],
+          nextCursor: null,
+          stateVersion: 3
+        }),
+        {
+          status: 200,
+          headers: { "content-type": "application/json", etag: 'W/"3-abc"' }
+        }
+      )
+    );
+
+    const transport = createChatTransport({
+      agent,
+      sessionId: "s1"
+    });
+
+    const [a, b] = await Promise.all([transport.getHistoryPage(), transport.getHistoryPage()]);
+    expect(a.messages).toHaveLength(1);
+    expect(b).toBe(a);
+    expect(a.etag).toBe('W/"3-abc"');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(String(fetchMock.mock.calls[0][0])).toBe("/api/chat/messages?sessionId=s1");
+  });
+
+  it("revalidates history pages with If-None-Match", async () => {
+    vi.useFakeTimers();
+    const agent = {
+      call: vi.fn(async () => {
+        throw new Error("agent unavailable");
+      })
+    };
     const fetchMock = vi
       .spyOn(globalThis, "fetch")
-      .mockResolvedValue(
+      .mockResolvedValueOnce(
         new Response(
-          JSON.stringify({
-            success: true,
-            history: [{ role: "assistant", content: "hello", id: "m1" }]
-          }),
-          {
-            status: 200,
-            headers: { "content-type": "application/json" }
-          }
+          JSON.stringify({ success: true, messages: [], nextCursor: "older", stateVersion: 1 }),
+          { status: 200, headers: { etag: 'W/"1-x"' } }
         )
-      );
+      )
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    const transport = createChatTransport({ agent, sessionId: "s1" });
+    const first = await transport.getHistoryPage(null, 20);
+    vi.advanceTimersByTime(2_500);
+    const second = await transport.getHistoryPage(null, 20);
+    vi.useRealTimers();
+
+    expect(second).toBe(first);
+    expect(first.nextCursor).toBe("older");
+    expect(fetchMock.mock.calls[1][1]).toEqual({ headers: { "if-none-match": 'W/"1-x"' } });
+  });
+
+  it("lists indexed sessions with pagination params", async () => {
+    const agent = { call: vi.fn() };
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          success: true,
+          sessions: [
+            {
+              sessionId: "s2",
+              title: "Hello",
+              lastMessage: "world",
+              messageCount: 2,
+              updatedAt: "2026-01-01T00:00:00.000Z",
+              health: "healthy"
+            }
+          ],
+          nextCursor: "next-page"
+        }),
+        {
+          status: 200,
+          headers: { "content-type": "application/json" }
+        }
+      )
+    );
 
     const transport = createChatTransport({
       agent,
-      sessionId: "s1",
-      readonlyMode: false
+      sessionId: "s1"
     });
 
-    const [a, b] = await Promise.all([transport.getHistory(), transport.getHistory()]);
-    expect(a).toHaveLength(1);
-    expect(b).toHaveLength(1);
-    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const page = await transport.listSessions("cursor-1", 20);
+    expect(page.sessions.map((item) => item.sessionId)).toEqual(["s2"]);
+    expect(page.nextCursor).toBe("next-page");
+    expect(String(fetchMock.mock.calls[0]?.[0])).toBe("/api/chat/sessions?cursor=cursor-1&limit=20");
   });
-});
 
+  it("falls back to REST when reading an mcp resource", async () => {
+    const agent = {
+      call: vi.fn(async () => {
+        throw new Error("agent unavailable");
+      })
+    };
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          success: true,
+          contents: [{ uri: "docs://a b", text: "hello", truncated: false }]
+        }),
+        { status: 200, headers: { "content-type": "application/json" } }
+      )
+    );
+
+    const transport = createChatTransport({ agent, sessionId: "s1" });
+    const result = await transport.readResource("srv", "docs://a b");
+
+    expect(result).toEqual({
+      success: true,
+      contents: [{ uri: "docs://a b", text: "hello", truncated: false }]
+    });
+    expect(String(fetchMock.mock.calls[0][0])).toContain(
+      "/api/mcp/resource?sessionId=s1&serverId=srv&uri=docs%3A%2F%2Fa%20b"
+    );
+  });
+
+  it("uploads attachments as multipart form data", async () => {
+    const agent = { call: vi.fn() };
+    const attachment = {
+      id: "a1",
+      url: "/api/chat/attachments/a1?sessionId=s1",
+      filename: "notes.md",
+      mediaType: "text/markdown",
+      size: 7
+    };
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(JSON.stringify({ success: true, attachment }), {
+        status: 200,
+        headers: { "content-type": "application/json" }
+      })
+    );
+
+    const transport = createChatTransport({ agent, sessionId: "s1" });
+    const result = await transport.uploadAttachment(
+      new File(["# Notes"], "notes.md", { type: "text/markdown" })
+    );
+
+    expect(result).toEqual(attachment);
+    expect(agent.call).not.toHaveBeenCalled();
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("/api/chat/attachments");
+    const body = init?.body as FormData;
+    expect(body.get("sessionId")).toBe("s1");
+    expect((body.get("file") as File).name).toBe("notes.md");
+  });
+});
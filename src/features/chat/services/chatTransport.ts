@@ -1,11 +1,31 @@
-import { callApi } from "./apiClient";
+import { callApi, callApiConditional, fetchApiText } from "./apiClient";
+import type { ExportFormat } from "./conversationExport";
 import type {
+  ChatAttachment,
+  ChatHistoryPage,
+  CustomMcpServerInput,
   DeleteSessionResult,
   DeleteMessageResult,
   EditMessageResult,
   ForkSessionResult,
-  RegenerateMessageResult,
-  ToggleServerResult
+  GetPromptResult,
+  McpTransportType,
+  MessageSearchResponse,
+  ModelListResult,
+  QuotaSnapshot,
+  ReadResourceResult,
+  ReauthorizeServerResult,
+  RemoveCustomServerResult,
+  SaveCustomServerResult,
+  SessionLifecycleMode,
+  SessionSettingsPatch,
+  SessionSettingsResult,
+  ShareLink,
+  ShareScope,
+  SwitchBranchResult,
+  TestCustomServerResult,
+  ToggleServerResult,
+  UpdateLifecycleResult
 } from "./apiContracts";
 
 export interface TransportAgentCaller {
@@ -17,21 +37,25 @@ export interface PreconfiguredServer {
     name: string;
     url: string;
     description: string;
+    transport?: McpTransportType;
+    custom?: {
+      auth: "none" | "headers" | "oauth";
+      headerNames: string[];
+    };
   };
   serverId?: string;
   connected: boolean;
   error?: string;
+  authUrl?: string;
+  authExpired?: boolean;
 }
 
 export interface ConnectionPermissions {
   canEdit: boolean;
   readonly: boolean;
-}
-
-export interface ChatHistoryItem {
-  role: string;
-  content: string;
-  id?: string;
+  /** Whether new messages may be posted; true for owners and `comment` share links. */
+  canComment: boolean;
+  shareScope?: ShareScope;
 }
 
 export interface ChatSessionSummary {
@@ -39,21 +63,60 @@ export interface ChatSessionSummary {
   title: string;
   lastMessage: string;
   messageCount: number;
+  createdAt?: string;
   updatedAt: string;
+  parentSessionId?: string;
+  forkMessageId?: string;
   health: "healthy" | "stale" | "orphaned";
 }
 
+export interface ChatSessionPage {
+  sessions: ChatSessionSummary[];
+  nextCursor: string | null;
+}
+
 export interface ChatTransport {
   getPermissions: () => Promise<ConnectionPermissions>;
-  getHistory: () => Promise<ChatHistoryItem[]>;
+  /** Newest page when `cursor` is omitted; pass `nextCursor` back to walk further back. */
+  getHistoryPage: (cursor?: string | null, limit?: number) => Promise<ChatHistoryPage>;
   getSessions: (sessionIds: string[]) => Promise<ChatSessionSummary[]>;
+  listSessions: (cursor?: string | null, limit?: number) => Promise<ChatSessionPage>;
+  /** Full-text search across every session of the current user. */
+  searchMessages: (query: string, limit?: number) => Promise<MessageSearchResponse>;
   getPreconfiguredServers: () => Promise<Record<string, PreconfiguredServer>>;
   deleteSession: (targetSessionId: string) => Promise<DeleteSessionResult>;
   deleteMessage: (messageId: string) => Promise<DeleteMessageResult>;
   editMessage: (messageId: string, content: string) => Promise<EditMessageResult>;
-  regenerateMessage: (messageId: string) => Promise<RegenerateMessageResult>;
+  switchBranch: (messageId: string) => Promise<SwitchBranchResult>;
   forkSession: (messageId: string) => Promise<ForkSessionResult>;
   toggleServer: (name: string) => Promise<ToggleServerResult>;
+  reauthorizeServer: (name: string) => Promise<ReauthorizeServerResult>;
+  saveCustomServer: (input: CustomMcpServerInput) => Promise<SaveCustomServerResult>;
+  removeCustomServer: (name: string) => Promise<RemoveCustomServerResult>;
+  testCustomServer: (input: CustomMcpServerInput) => Promise<TestCustomServerResult>;
+  readResource: (serverId: string, uri: string) => Promise<ReadResourceResult>;
+  uploadAttachment: (file: File) => Promise<ChatAttachment>;
+  getPrompt: (
+    serverId: string,
+    name: string,
+    args: Record<string, string>
+  ) => Promise<GetPromptResult>;
+  listModels: () => Promise<ModelListResult>;
+  getSettings: () => Promise<SessionSettingsResult>;
+  updateSettings: (patch: SessionSettingsPatch) => Promise<SessionSettingsResult>;
+  updateLifecycle: (patch: {
+    mode?: SessionLifecycleMode;
+    idleTimeoutSeconds?: number | null;
+  }) => Promise<UpdateLifecycleResult>;
+  createShareLink: (scope: ShareScope, expiresInSeconds?: number) => Promise<ShareLink>;
+  listShareLinks: () => Promise<ShareLink[]>;
+  revokeShareLink: (shareId: string) => Promise<boolean>;
+  exportSession: (
+    targetSessionId: string,
+    format: ExportFormat
+  ) => Promise<{ content: string; contentType: string; filename: string }>;
+  /** Null when no quota is configured. */
+  getQuotas: () => Promise<QuotaSnapshot | null>;
   listApprovals: () => Promise<unknown[]>;
   decideApproval: (approvalId: string, decision: "approve" | "reject", reason?: string) => Promise<boolean>;
 }
@@ -61,7 +124,6 @@ export interface ChatTransport {
 interface ChatTransportParams {
   agent: TransportAgentCaller;
   sessionId: string;
-  readonlyMode: boolean;
 }
 
 async function withAgentFallback<T>(
@@ -77,12 +139,58 @@ async function withAgentFallback<T>(
 
 export function createChatTransport({
   agent,
-  sessionId,
-  readonlyMode
+  sessionId
 }: ChatTransportParams): ChatTransport {
   const encodedSessionId = encodeURIComponent(sessionId);
-  let historyInFlight: Promise<ChatHistoryItem[]> | null = null;
-  let historyCache: { at: number; value: ChatHistoryItem[] } | null = null;
+  const historyInFlight = new Map<string, Promise<ChatHistoryPage>>();
+  const historyCache = new Map<string, { at: number; value: ChatHistoryPage }>();
+
+  const fetchHistoryPage = async (
+    cursor: string | null,
+    limit: number | undefined,
+    cached: ChatHistoryPage | undefined
+  ): Promise<ChatHistoryPage> => {
+    const options = { ...(cursor ? { cursor } : {}), ...(limit ? { limit } : {}) };
+    const page = await withAgentFallback(
+      async () => {
+        const result = (await agent.call("getHistoryPage", [options])) as {
+          success?: boolean;
+          error?: string;
+          page?: Pick<ChatHistoryPage, "messages" | "nextCursor">;
+          etag?: string;
+          stateVersion?: number;
+        };
+        if (!result?.success || !result.page) {
+          throw new Error(result?.error || "History page unavailable");
+        }
+        return {
+          ...result.page,
+          stateVersion: result.stateVersion ?? 0,
+          etag: result.etag
+        };
+      },
+      async () => {
+        const params = new URLSearchParams({ sessionId });
+        if (cursor) params.set("cursor", cursor);
+        if (limit) params.set("limit", String(limit));
+        const response = await callApiConditional<Omit<ChatHistoryPage, "etag">>(
+          `/api/chat/messages?${params.toString()}`,
+          cached?.etag
+        );
+        if (!response && cached) return cached;
+        if (!response) throw new Error("History page unavailable");
+        return {
+          messages: Array.isArray(response.payload.messages) ? response.payload.messages : [],
+          nextCursor:
+            typeof response.payload.nextCursor === "string" ? response.payload.nextCursor : null,
+          stateVersion: Number(response.payload.stateVersion) || 0,
+          etag: response.etag ?? undefined
+        };
+      }
+    );
+    // Keep the cached object when nothing changed so callers can skip re-rendering.
+    return cached && page.etag && cached.etag === page.etag ? cached : page;
+  };
 
   return {
     async getPermissions() {
@@ -90,41 +198,36 @@ export function createChatTransport({
         async () => (await agent.call("getPermissions", [])) as ConnectionPermissions,
         async () => {
           const response = await callApi<ConnectionPermissions>(
-            `/api/chat/permissions?sessionId=${encodedSessionId}${readonlyMode ? "&mode=view" : ""}`
+            `/api/chat/permissions?sessionId=${encodedSessionId}`
           );
           return {
             canEdit: Boolean(response.canEdit),
-            readonly: Boolean(response.readonly)
+            readonly: Boolean(response.readonly),
+            canComment: Boolean(response.canComment),
+            ...(response.shareScope ? { shareScope: response.shareScope } : {})
           };
         }
       );
     },
 
-    async getHistory() {
-      if (historyCache && Date.now() - historyCache.at < 2000) {
-        return historyCache.value;
+    async getHistoryPage(cursor?: string | null, limit?: number) {
+      const key = `${cursor ?? ""}|${limit ?? ""}`;
+      const cached = historyCache.get(key);
+      if (cached && Date.now() - cached.at < 2000) {
+        return cached.value;
       }
-      if (historyInFlight) {
-        return await historyInFlight;
+      const pending = historyInFlight.get(key);
+      if (pending) {
+        return await pending;
       }
-      historyInFlight = withAgentFallback(
-        async () => (await agent.call("getHistory", [])) as ChatHistoryItem[],
-        async () => {
-          const response = await callApi<{ history: ChatHistoryItem[] }>(
-            `/api/chat/history?sessionId=${encodedSessionId}`
-          );
-          return Array.isArray(response.history) ? response.history : [];
-        }
-      );
+      const request = fetchHistoryPage(cursor ?? null, limit, cached?.value);
+      historyInFlight.set(key, request);
       try {
-        const history = await historyInFlight;
-        historyCache = {
-          at: Date.now(),
-          value: history
-        };
-        return history;
+        const page = await request;
+        historyCache.set(key, { at: Date.now(), value: page });
+        return page;
       } finally {
-        historyInFlight = null;
+        historyInFlight.delete(key);
       }
     },
 
@@ -137,6 +240,33 @@ export function createChatTransport({
       return Array.isArray(response.sessions) ? response.sessions : [];
     },
 
+    async listSessions(cursor?: string | null, limit?: number) {
+      const params = new URLSearchParams();
+      if (cursor) params.set("cursor", cursor);
+      if (limit) params.set("limit", String(limit));
+      const query = params.toString();
+      const response = await callApi<{
+        sessions: ChatSessionSummary[];
+        nextCursor?: string | null;
+      }>(`/api/chat/sessions${query ? `?${query}` : ""}`);
+      return {
+        sessions: Array.isArray(response.sessions) ? response.sessions : [],
+        nextCursor: typeof response.nextCursor === "string" ? response.nextCursor : null
+      };
+    },
+
+    async searchMessages(query: string, limit?: number) {
+      const params = new URLSearchParams({ q: query.trim() });
+      if (limit) params.set("limit", String(limit));
+      const response = await callApi<Partial<MessageSearchResponse>>(`/api/chat/search?${params}`);
+      return {
+        results: Array.isArray(response.results) ? response.results : [],
+        searchedSessions: Number(response.searchedSessions) || 0,
+        failedSessionIds: Array.isArray(response.failedSessionIds) ? response.failedSessionIds : [],
+        truncated: response.truncated === true
+      };
+    },
+
     async getPreconfiguredServers() {
       return await withAgentFallback(
         async () =>
@@ -207,17 +337,18 @@ export function createChatTransport({
           return {
             success: response.success,
             updated: response.updated,
+            messageId: response.messageId,
             error: response.error
           } as EditMessageResult;
         }
       );
     },
 
-    async regenerateMessage(messageId: string) {
+    async switchBranch(messageId: string) {
       return await withAgentFallback(
-        async () => (await agent.call("regenerateFrom", [messageId])) as RegenerateMessageResult,
+        async () => (await agent.call("switchBranch", [messageId])) as SwitchBranchResult,
         async () => {
-          const response = await callApi<RegenerateMessageResult>("/api/chat/regenerate", {
+          const response = await callApi<SwitchBranchResult>("/api/chat/branch", {
             method: "POST",
             headers: { "content-type": "application/json" },
             body: JSON.stringify({
@@ -227,9 +358,9 @@ export function createChatTransport({
           });
           return {
             success: response.success,
-            response: response.response,
+            switched: response.switched,
             error: response.error
-          } as RegenerateMessageResult;
+          } as SwitchBranchResult;
         }
       );
     },
@@ -271,12 +402,296 @@ export function createChatTransport({
             success: response.success,
             active: response.active,
             error: response.error,
+            authUrl: response.authUrl,
             stateVersion: response.stateVersion
           } as ToggleServerResult;
         }
       );
     },
 
+    async reauthorizeServer(name: string) {
+      return await withAgentFallback(
+        async () => (await agent.call("reauthorizeServer", [name])) as ReauthorizeServerResult,
+        async () => {
+          const response = await callApi<{ authUrl?: string; stateVersion: number }>(
+            "/api/mcp/reauthorize",
+            {
+              method: "POST",
+              headers: { "content-type": "application/json" },
+              body: JSON.stringify({
+                sessionId,
+                name
+              })
+            }
+          );
+          return {
+            success: true,
+            authUrl: response.authUrl,
+            stateVersion: response.stateVersion
+          } as ReauthorizeServerResult;
+        }
+      );
+    },
+
+    async saveCustomServer(input: CustomMcpServerInput) {
+      return await withAgentFallback(
+        async () => (await agent.call("addCustomServer", [input])) as SaveCustomServerResult,
+        async () => {
+          const response = await callApi<Omit<SaveCustomServerResult, "success">>(
+            "/api/mcp/custom",
+            {
+              method: "POST",
+              headers: { "content-type": "application/json" },
+              body: JSON.stringify({
+                sessionId,
+                server: input
+              })
+            }
+          );
+          return {
+            success: true,
+            active: response.active,
+            activationError: response.activationError,
+            authUrl: response.authUrl,
+            stateVersion: response.stateVersion
+          } as SaveCustomServerResult;
+        }
+      );
+    },
+
+    async removeCustomServer(name: string) {
+      return await withAgentFallback(
+        async () => (await agent.call("removeCustomServer", [name])) as RemoveCustomServerResult,
+        async () => {
+          const response = await callApi<{ stateVersion: number }>(
+            `/api/mcp/custom?sessionId=${encodedSessionId}&name=${encodeURIComponent(name)}`,
+            {
+              method: "DELETE"
+            }
+          );
+          return {
+            success: true,
+            stateVersion: response.stateVersion
+          } as RemoveCustomServerResult;
+        }
+      );
+    },
+
+    async testCustomServer(input: CustomMcpServerInput) {
+      return await withAgentFallback(
+        async () => (await agent.call("testCustomServer", [input])) as TestCustomServerResult,
+        async () => {
+          const response = await callApi<{
+            reachable: boolean;
+            toolCount?: number;
+            requiresAuth?: boolean;
+            reason?: string;
+          }>("/api/mcp/custom/test", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({
+              sessionId,
+              server: input
+            })
+          });
+          return {
+            success: response.reachable,
+            toolCount: response.toolCount,
+            requiresAuth: response.requiresAuth,
+            error: response.reason
+          } as TestCustomServerResult;
+        }
+      );
+    },
+
+    async readResource(serverId: string, uri: string) {
+      return await withAgentFallback(
+        async () => (await agent.call("readResource", [serverId, uri])) as ReadResourceResult,
+        async () => {
+          const response = await callApi<{ contents?: ReadResourceResult["contents"] }>(
+            `/api/mcp/resource?sessionId=${encodedSessionId}&serverId=${encodeURIComponent(
+              serverId
+            )}&uri=${encodeURIComponent(uri)}`
+          );
+          return {
+            success: true,
+            contents: Array.isArray(response.contents) ? response.contents : []
+          };
+        }
+      );
+    },
+
+    async uploadAttachment(file: File) {
+      // Binary uploads always go over REST; the agent socket only carries JSON.
+      const form = new FormData();
+      form.append("sessionId", sessionId);
+      form.append("file", file, file.name);
+      const response = await callApi<{ attachment: ChatAttachment }>("/api/chat/attachments", {
+        method: "POST",
+        body: form
+      });
+      return response.attachment;
+    },
+
+    async getPrompt(serverId: string, name: string, args: Record<string, string>) {
+      return await withAgentFallback(
+        async () => (await agent.call("getPrompt", [serverId, name, args])) as GetPromptResult,
+        async () => {
+          const response = await callApi<Omit<GetPromptResult, "success">>("/api/mcp/prompt", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({
+              sessionId,
+              serverId,
+              name,
+              arguments: args
+            })
+          });
+          return {
+            success: true,
+            messages: Array.isArray(response.messages) ? response.messages : [],
+            description: response.description
+          };
+        }
+      );
+    },
+
+    async listModels() {
+      return await withAgentFallback(
+        async () => (await agent.call("listModels", [])) as ModelListResult,
+        async () => {
+          const response = await callApi<ModelListResult>(
+            `/api/models?sessionId=${encodedSessionId}`
+          );
+          return {
+            models: Array.isArray(response.models) ? response.models : [],
+            selected: response.selected
+          };
+        }
+      );
+    },
+
+    async getSettings() {
+      return await withAgentFallback(
+        async () => {
+          const result = (await agent.call("getSettings", [])) as Omit<
+            SessionSettingsResult,
+            "success"
+          >;
+          return { success: true, ...result } as SessionSettingsResult;
+        },
+        async () => {
+          const response = await callApi<Omit<SessionSettingsResult, "success">>(
+            `/api/chat/settings?sessionId=${encodedSessionId}`
+          );
+          return {
+            success: true,
+            settings: response.settings,
+            effective: response.effective,
+            stateVersion: response.stateVersion
+          } as SessionSettingsResult;
+        }
+      );
+    },
+
+    async updateSettings(patch: SessionSettingsPatch) {
+      return await withAgentFallback(
+        async () => (await agent.call("updateSettings", [patch])) as SessionSettingsResult,
+        async () => {
+          const response = await callApi<Omit<SessionSettingsResult, "success">>(
+            "/api/chat/settings",
+            {
+              method: "POST",
+              headers: { "content-type": "application/json" },
+              body: JSON.stringify({
+                sessionId,
+                settings: patch
+              })
+            }
+          );
+          return {
+            success: true,
+            settings: response.settings,
+            effective: response.effective,
+            stateVersion: response.stateVersion
+          } as SessionSettingsResult;
+        }
+      );
+    },
+
+    async updateLifecycle(patch) {
+      return await withAgentFallback(
+        async () => (await agent.call("updateLifecycle", [patch])) as UpdateLifecycleResult,
+        async () => {
+          const response = await callApi<Omit<UpdateLifecycleResult, "success">>(
+            "/api/chat/lifecycle",
+            {
+              method: "POST",
+              headers: { "content-type": "application/json" },
+              body: JSON.stringify({
+                sessionId,
+                lifecycle: patch
+              })
+            }
+          );
+          return {
+            success: true,
+            lifecycle: response.lifecycle,
+            stateVersion: response.stateVersion
+          } as UpdateLifecycleResult;
+        }
+      );
+    },
+
+    async getQuotas() {
+      return await withAgentFallback(
+        async () =>
+          ((await agent.call("getRuntimeSnapshot", [])) as { quotas?: QuotaSnapshot | null })
+            .quotas ?? null,
+        async () => {
+          const response = await callApi<{ quotas?: QuotaSnapshot | null }>(
+            `/api/runtime/snapshot?sessionId=${encodedSessionId}`
+          );
+          return response.quotas ?? null;
+        }
+      );
+    },
+
+    // Share links are managed over REST so the server can build their absolute URLs.
+    async createShareLink(scope: ShareScope, expiresInSeconds?: number) {
+      const response = await callApi<{ link: ShareLink }>("/api/chat/share", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ sessionId, scope, expiresInSeconds })
+      });
+      return response.link;
+    },
+
+    async listShareLinks() {
+      const response = await callApi<{ links: ShareLink[] }>(
+        `/api/chat/share?sessionId=${encodedSessionId}`
+      );
+      return Array.isArray(response.links) ? response.links : [];
+    },
+
+    async revokeShareLink(shareId: string) {
+      const response = await callApi<{ revoked: boolean }>(
+        `/api/chat/share?sessionId=${encodedSessionId}&shareId=${encodeURIComponent(shareId)}`,
+        { method: "DELETE" }
+      );
+      return Boolean(response.revoked);
+    },
+
+    async exportSession(targetSessionId: string, format: ExportFormat) {
+      const params = new URLSearchParams({ sessionId: targetSessionId.trim(), format });
+      const { text, contentType, filename } = await fetchApiText(`/api/chat/export?${params}`);
+      return {
+        content: text,
+        contentType,
+        filename: filename ?? `conversation.${format}`
+      };
+    },
+
     async listApprovals() {
       return await withAgentFallback(
         async () => (await agent.call("listToolApprovals", [])) as unknown[],
@@ -7,13 +7,26 @@ interface ToolLike {
   serverId?: string;
 }
 
+interface PromptLike {
+  name: string;
+  description?: string;
+  serverId: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
 interface BuildSuggestionsParams {
   tools: ToolLike[];
   sessions: SessionMeta[];
+  prompts?: PromptLike[];
   t: (key: UiMessageKey, vars?: Record<string, string>) => string;
 }
 
-export function buildCommandSuggestions({ tools, sessions, t }: BuildSuggestionsParams): CommandSuggestionItem[] {
+export function buildCommandSuggestions({
+  tools,
+  sessions,
+  prompts = [],
+  t
+}: BuildSuggestionsParams): CommandSuggestionItem[] {
   const toolItems = tools.slice(0, 20).map((tool) => ({
     id: `tool-${tool.serverId}-${tool.name}`,
     trigger: "@" as const,
@@ -63,5 +76,23 @@ export function buildCommandSuggestions({ tools, sessions, t }: BuildSuggestions
     }
   ];
 
-  return [...toolItems, ...sessionItems, ...actionItems];
+  const promptItems = prompts.slice(0, 20).map((prompt) => ({
+    id: `prompt-${prompt.serverId}-${prompt.name}`,
+    trigger: "/" as const,
+    label: prompt.name,
+    description: prompt.description || prompt.serverId,
+    value: prompt.name,
+    section: "prompts" as const,
+    group: "prompts",
+    priority: 70,
+    keywords: [prompt.name, prompt.description ?? ""],
+    prompt: {
+      serverId: prompt.serverId,
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments ?? []
+    }
+  }));
+
+  return [...toolItems, ...sessionItems, ...actionItems, ...promptItems];
 }
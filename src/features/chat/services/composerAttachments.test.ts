@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_ATTACHMENT_BYTES,
+  getAttachmentRejection,
+  resolveAttachmentMediaType,
+  toFileParts
+} from "./composerAttachments";
+
+describe("getAttachmentRejection", () => {
+  it("accepts images and text documents within the size limit", () => {
+    expect(getAttachmentRejection({ name: "cat.png", type: "image/png", size: 10 })).toBeNull();
+    expect(getAttachmentRejection({ name: "notes.md", type: "", size: 10 })).toBeNull();
+  });
+
+  it("rejects unsupported types before oversized files", () => {
+    expect(getAttachmentRejection({ name: "a.pdf", type: "application/pdf", size: 1 })).toBe(
+      "unsupported"
+    );
+    expect(
+      getAttachmentRejection({
+        name: "big.txt",
+        type: "text/plain",
+        size: MAX_ATTACHMENT_BYTES + 1
+      })
+    ).toBe("too_large");
+  });
+});
+
+describe("resolveAttachmentMediaType", () => {
+  it("falls back to the file extension", () => {
+    expect(resolveAttachmentMediaType({ name: "config.YML", type: "" })).toBe("application/yaml");
+    expect(resolveAttachmentMediaType({ name: "blob", type: "" })).toBe("");
+  });
+});
+
+describe("toFileParts", () => {
+  it("only includes uploaded attachments", () => {
+    const attachment = {
+      id: "a1",
+      url: "/api/chat/attachments/a1?sessionId=s1",
+      filename: "cat.png",
+      mediaType: "image/png",
+      size: 10
+    };
+    expect(
+      toFileParts([
+        {
+          localId: "1",
+          filename: "cat.png",
+          mediaType: "image/png",
+          size: 10,
+          status: "ready",
+          attachment
+        },
+        { localId: "2", filename: "dog.png", mediaType: "image/png", size: 10, status: "uploading" }
+      ])
+    ).toEqual([{ type: "file", mediaType: "image/png", filename: "cat.png", url: attachment.url }]);
+  });
+});
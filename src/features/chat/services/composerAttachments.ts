@@ -0,0 +1,77 @@
+import type { ChatAttachment } from "./apiContracts";
+
+/** Mirrors the upload limit enforced by `POST /api/chat/attachments`. */
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 8;
+
+const IMAGE_MEDIA_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+/** Browsers often leave `File.type` empty for these, so the extension decides. */
+const EXTENSION_MEDIA_TYPES: Record<string, string> = {
+  txt: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  csv: "text/csv",
+  log: "text/plain",
+  json: "application/json",
+  xml: "application/xml",
+  yaml: "application/yaml",
+  yml: "application/yaml"
+};
+
+export const ATTACHMENT_ACCEPT = [
+  ...IMAGE_MEDIA_TYPES,
+  "text/*",
+  ...Object.keys(EXTENSION_MEDIA_TYPES).map((extension) => `.${extension}`)
+].join(",");
+
+export interface ComposerAttachment {
+  localId: string;
+  filename: string;
+  mediaType: string;
+  size: number;
+  /** Object URL for image thumbnails; revoke when the attachment is dropped. */
+  previewUrl?: string;
+  status: "uploading" | "ready" | "error";
+  error?: string;
+  attachment?: ChatAttachment;
+}
+
+export function isImageMediaType(mediaType: string): boolean {
+  return IMAGE_MEDIA_TYPES.includes(mediaType);
+}
+
+export function resolveAttachmentMediaType(file: Pick<File, "name" | "type">): string {
+  if (file.type) return file.type;
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_MEDIA_TYPES[extension] ?? "";
+}
+
+export function getAttachmentRejection(
+  file: Pick<File, "name" | "type" | "size">
+): "too_large" | "unsupported" | null {
+  const mediaType = resolveAttachmentMediaType(file);
+  const supported =
+    isImageMediaType(mediaType) ||
+    mediaType.startsWith("text/") ||
+    Object.values(EXTENSION_MEDIA_TYPES).includes(mediaType);
+  if (!supported) return "unsupported";
+  if (file.size > MAX_ATTACHMENT_BYTES) return "too_large";
+  return null;
+}
+
+/** File parts for the uploaded attachments, in the order they were added. */
+export function toFileParts(attachments: ComposerAttachment[]) {
+  return attachments.flatMap((item) =>
+    item.status === "ready" && item.attachment
+      ? [
+          {
+            type: "file" as const,
+            mediaType: item.attachment.mediaType,
+            filename: item.attachment.filename,
+            url: item.attachment.url
+          }
+        ]
+      : []
+  );
+}
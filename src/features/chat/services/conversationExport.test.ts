@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { inlineExportCharts } from "./conversationExport";
+
+const page = `<!doctype html>
+<html><head><title>Export</title></head><body>
+<figure class="chart" data-chart="mermaid"><pre><code>graph TD; A--&gt;B</code></pre></figure>
+<figure class="chart" data-chart="g2"><pre><code>not a spec</code></pre></figure>
+<pre><code class="language-ts">const a = 1;</code></pre>
+</body></html>`;
+
+describe("inlineExportCharts", () => {
+  it("swaps chart sources for SVG and keeps sources that fail to render", async () => {
+    const sources: string[] = [];
+    const result = await inlineExportCharts(page, {
+      mermaid: async (code) => {
+        sources.push(code);
+        return '<svg xmlns="http://www.w3.org/2000/svg"><text>A to B</text><script>x()</script></svg>';
+      },
+      g2: async () => {
+        throw new Error("Invalid G2 spec");
+      }
+    });
+
+    expect(sources).toEqual(["graph TD; A-->B"]);
+    expect(result).toMatchObject({ rendered: 1, failed: 1 });
+    expect(result.html.startsWith("<!doctype html>")).toBe(true);
+    expect(result.html).toContain('<figure class="chart"><svg');
+    expect(result.html).not.toContain("<script");
+    expect(result.html).toContain('data-chart="g2"><pre><code>not a spec</code>');
+    expect(result.html).toContain('<code class="language-ts">const a = 1;</code>');
+  });
+});
@@ -0,0 +1,65 @@
+export type ExportFormat = "md" | "json" | "html";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["md", "json", "html"];
+
+/** Set by the server on chart sources in HTML exports; see `conversation-export-html`. */
+const CHART_ATTRIBUTE = "data-chart";
+
+export interface ChartSvgRenderers {
+  mermaid: (code: string) => Promise<string>;
+  g2: (code: string) => Promise<string>;
+}
+
+/**
+ * Replace the chart sources in an exported HTML page with rendered SVG, so the file reads
+ * well offline. Charts that fail to render keep their source code.
+ */
+export async function inlineExportCharts(
+  html: string,
+  renderers: ChartSvgRenderers
+): Promise<{ html: string; rendered: number; failed: number }> {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const figures = Array.from(doc.querySelectorAll<HTMLElement>(`figure[${CHART_ATTRIBUTE}]`));
+  let rendered = 0;
+  let failed = 0;
+  for (const figure of figures) {
+    const kind = figure.getAttribute(CHART_ATTRIBUTE);
+    const code = figure.querySelector("code")?.textContent ?? "";
+    const render = kind === "mermaid" ? renderers.mermaid : kind === "g2" ? renderers.g2 : null;
+    if (!render || !code.trim()) continue;
+    try {
+      // Parsed as HTML: Mermaid labels are HTML inside `foreignObject`, not strict XML.
+      const template = doc.createElement("template");
+      template.innerHTML = await render(code);
+      const svg = template.content.querySelector("svg");
+      if (!svg) {
+        throw new Error("Renderer did not return SVG");
+      }
+      template.content.querySelectorAll("script").forEach((script) => script.remove());
+      figure.replaceChildren(svg);
+      figure.removeAttribute(CHART_ATTRIBUTE);
+      rendered += 1;
+    } catch (error) {
+      console.warn(`Failed to inline ${kind} chart in export:`, error);
+      failed += 1;
+    }
+  }
+  return {
+    html: `<!doctype html>\n${doc.documentElement.outerHTML}\n`,
+    rendered,
+    failed
+  };
+}
+
+/** Save text as a file through a temporary object URL. */
+export function downloadTextFile(filename: string, content: string, contentType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: contentType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.rel = "noopener";
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
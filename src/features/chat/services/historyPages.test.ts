@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import type { ChatHistoryMessage, ChatHistoryPage } from "./apiContracts";
+import { prependHistoryPage, splitLatestHistoryPage } from "./historyPages";
+
+function entry(id: string, archived = false): ChatHistoryMessage {
+  return {
+    id,
+    role: "user",
+    parts: [{ type: "text", text: id }],
+    createdAt: "2026-01-01T00:00:00.000Z",
+    archived
+  };
+}
+
+function page(messages: ChatHistoryMessage[]): ChatHistoryPage {
+  return { messages, nextCursor: null, stateVersion: 1 };
+}
+
+describe("history pages", () => {
+  it("keeps archived messages out of the live history", () => {
+    const { live, archived } = splitLatestHistoryPage(
+      page([entry("a1", true), entry("a2", true), entry("l1"), entry("l2")])
+    );
+    expect(live.map((message) => message.id)).toEqual(["l1", "l2"]);
+    expect(archived.map((message) => message.id)).toEqual(["a1", "a2"]);
+    expect(live[0].parts).toEqual([{ type: "text", text: "l1" }]);
+  });
+
+  it("prepends older pages without duplicating messages already shown", () => {
+    const older = prependHistoryPage([], page([entry("m3"), entry("m4")]), new Set(["m4"]));
+    expect(older.map((message) => message.id)).toEqual(["m3"]);
+
+    const next = prependHistoryPage(
+      older,
+      page([entry("m1"), entry("m2"), entry("m3")]),
+      new Set()
+    );
+    expect(next.map((message) => message.id)).toEqual(["m1", "m2", "m3"]);
+    expect(prependHistoryPage(next, page([entry("m2")]), new Set())).toBe(next);
+  });
+});
@@ -0,0 +1,39 @@
+import type { UIMessage } from "ai";
+import type { ChatHistoryMessage, ChatHistoryPage } from "./apiContracts";
+
+export const HISTORY_PAGE_SIZE = 50;
+
+export function toUIMessage(message: ChatHistoryMessage): UIMessage {
+  return {
+    id: message.id,
+    role: message.role,
+    parts: message.parts,
+    ...(message.metadata !== undefined ? { metadata: message.metadata } : {})
+  } as UIMessage;
+}
+
+/**
+ * Split the newest page into the live history owned by the chat hook and the archived
+ * messages shown above it. Archived messages must stay out of the hook's state, because
+ * it sends its whole history back to the agent with every request.
+ */
+export function splitLatestHistoryPage(page: ChatHistoryPage): {
+  live: UIMessage[];
+  archived: UIMessage[];
+} {
+  return {
+    live: page.messages.filter((message) => !message.archived).map(toUIMessage),
+    archived: page.messages.filter((message) => message.archived).map(toUIMessage)
+  };
+}
+
+/** Prepend an older page, dropping anything already shown. */
+export function prependHistoryPage(
+  older: UIMessage[],
+  page: ChatHistoryPage,
+  shownIds: ReadonlySet<string>
+): UIMessage[] {
+  const known = new Set([...shownIds, ...older.map((message) => message.id)]);
+  const fresh = page.messages.filter((message) => !known.has(message.id)).map(toUIMessage);
+  return fresh.length > 0 ? [...fresh, ...older] : older;
+}
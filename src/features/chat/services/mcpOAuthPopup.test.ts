@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MCP_OAUTH_MESSAGE_TYPE, openMcpOAuthPopup } from "./mcpOAuthPopup";
+
+function createTarget(popup: { closed: boolean } | null) {
+  const events = new EventTarget();
+  return {
+    open: vi.fn(() => popup as unknown as Window | null),
+    addEventListener: events.addEventListener.bind(events),
+    removeEventListener: events.removeEventListener.bind(events),
+    dispatch: (data: unknown, source: unknown) => {
+      const event = new MessageEvent("message", { data });
+      Object.defineProperty(event, "source", { value: source });
+      events.dispatchEvent(event);
+    }
+  };
+}
+
+describe("openMcpOAuthPopup", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("reports blocked popups", async () => {
+    const target = createTarget(null);
+    await expect(openMcpOAuthPopup("https://auth.example.com", { target })).resolves.toEqual({
+      status: "blocked"
+    });
+  });
+
+  it("resolves with the callback page result from the popup only", async () => {
+    const popup = { closed: false };
+    const target = createTarget(popup);
+    const pending = openMcpOAuthPopup("https://auth.example.com", { target });
+
+    target.dispatch({ type: MCP_OAUTH_MESSAGE_TYPE, success: true }, {});
+    target.dispatch({ type: MCP_OAUTH_MESSAGE_TYPE, success: false, error: "denied" }, popup);
+
+    await expect(pending).resolves.toEqual({ status: "error", error: "denied" });
+  });
+
+  it("resolves as closed when the user closes the popup", async () => {
+    vi.useFakeTimers();
+    const popup = { closed: false };
+    const target = createTarget(popup);
+    const pending = openMcpOAuthPopup("https://auth.example.com", { target, pollIntervalMs: 100 });
+
+    popup.closed = true;
+    vi.advanceTimersByTime(100);
+
+    await expect(pending).resolves.toEqual({ status: "closed" });
+  });
+});
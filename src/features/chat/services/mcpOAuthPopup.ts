@@ -0,0 +1,64 @@
+/** Must match the message type posted by the agent's OAuth callback page. */
+export const MCP_OAUTH_MESSAGE_TYPE = "mcp-oauth-complete";
+
+export type McpOAuthOutcome =
+  | { status: "success" }
+  | { status: "error"; error: string }
+  | { status: "closed" }
+  | { status: "blocked" };
+
+interface McpOAuthPopupOptions {
+  /** Window to open the popup from; injectable for tests. */
+  target?: Pick<Window, "open" | "addEventListener" | "removeEventListener">;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Open the server's authorization URL in a popup and resolve once the callback page
+ * reports back, or the user closes the popup. Callers refresh server state either way.
+ */
+export function openMcpOAuthPopup(
+  authUrl: string,
+  { target = window, pollIntervalMs = 500, timeoutMs = 5 * 60_000 }: McpOAuthPopupOptions = {}
+): Promise<McpOAuthOutcome> {
+  const popup = target.open(authUrl, "mcp-oauth", "popup,width=600,height=720");
+  if (!popup) {
+    return Promise.resolve({ status: "blocked" });
+  }
+
+  return new Promise((resolve) => {
+    const startedAt = Date.now();
+    let settled = false;
+
+    const finish = (outcome: McpOAuthOutcome) => {
+      if (settled) return;
+      settled = true;
+      window.clearInterval(poll);
+      target.removeEventListener("message", onMessage);
+      resolve(outcome);
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== popup) return;
+      const data = event.data as { type?: unknown; success?: unknown; error?: unknown } | null;
+      if (!data || data.type !== MCP_OAUTH_MESSAGE_TYPE) return;
+      finish(
+        data.success === true
+          ? { status: "success" }
+          : {
+              status: "error",
+              error: typeof data.error === "string" ? data.error : "Unknown error"
+            }
+      );
+    };
+
+    const poll = window.setInterval(() => {
+      if (popup.closed || Date.now() - startedAt > timeoutMs) {
+        finish({ status: "closed" });
+      }
+    }, pollIntervalMs);
+
+    target.addEventListener("message", onMessage as EventListener);
+  });
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { buildPromptConversation } from "./mcpPrompts";
+
+function idFactory() {
+  let next = 0;
+  return () => `m${++next}`;
+}
+
+describe("buildPromptConversation", () => {
+  it("sends the trailing user message and inserts the rest", () => {
+    const result = buildPromptConversation(
+      [
+        { role: "user", text: "You are a reviewer." },
+        { role: "assistant", text: "Understood." },
+        { role: "user", text: "Review the diff." }
+      ],
+      idFactory()
+    );
+
+    expect(result.history.map((message) => [message.id, message.role])).toEqual([
+      ["m1", "user"],
+      ["m2", "assistant"]
+    ]);
+    expect(result.followUp).toEqual({
+      id: "m3",
+      role: "user",
+      parts: [{ type: "text", text: "Review the diff." }]
+    });
+  });
+
+  it("only inserts history when the prompt ends with an assistant turn", () => {
+    const result = buildPromptConversation(
+      [
+        { role: "user", text: "Hi" },
+        { role: "assistant", text: "Hello" }
+      ],
+      idFactory()
+    );
+
+    expect(result.history).toHaveLength(2);
+    expect(result.followUp).toBeNull();
+  });
+});
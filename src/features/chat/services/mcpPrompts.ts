@@ -0,0 +1,26 @@
+import type { UIMessage } from "ai";
+import type { PromptMessage } from "./apiContracts";
+
+export interface PromptConversation {
+  /** Messages inserted into history as-is. */
+  history: UIMessage[];
+  /** Trailing user turn, sent normally so the model answers it. */
+  followUp: UIMessage | null;
+}
+
+/** Split rendered prompt messages into history to insert and the turn to send. */
+export function buildPromptConversation(
+  messages: PromptMessage[],
+  createId: () => string
+): PromptConversation {
+  const uiMessages: UIMessage[] = messages.map((message) => ({
+    id: createId(),
+    role: message.role,
+    parts: [{ type: "text", text: message.text }]
+  }));
+  const last = uiMessages[uiMessages.length - 1];
+  if (last?.role !== "user") {
+    return { history: uiMessages, followUp: null };
+  }
+  return { history: uiMessages.slice(0, -1), followUp: last };
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { buildBranchPositions, readMessageBranchesFromState } from "./messageBranches";
+
+describe("message branches", () => {
+  it("reads branch groups from agent state", () => {
+    expect(readMessageBranchesFromState({ contextSummary: null })).toBeUndefined();
+    expect(readMessageBranchesFromState({ branches: null })).toEqual([]);
+    expect(
+      readMessageBranchesFromState({
+        branches: [{ parentId: "u1", messageIds: ["a1", "a2"] }, { messageIds: [1] }, null]
+      })
+    ).toEqual([{ parentId: "u1", messageIds: ["a1", "a2"] }]);
+  });
+
+  it("numbers each version and links its neighbours", () => {
+    const positions = buildBranchPositions([{ parentId: "u1", messageIds: ["a1", "a2", "a3"] }]);
+    expect(positions.get("a1")).toEqual({ index: 1, count: 3, nextId: "a2" });
+    expect(positions.get("a2")).toEqual({ index: 2, count: 3, previousId: "a1", nextId: "a3" });
+    expect(positions.get("a3")).toEqual({ index: 3, count: 3, previousId: "a2" });
+    expect(positions.has("u1")).toBe(false);
+  });
+});
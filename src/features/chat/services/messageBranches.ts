@@ -0,0 +1,38 @@
+import type { MessageBranch } from "./apiContracts";
+
+/** Where a message sits among its versions, with the neighbours to switch to. */
+export interface BranchPosition {
+  index: number;
+  count: number;
+  previousId?: string;
+  nextId?: string;
+}
+
+/** Undefined when the state carries no branch field, e.g. from an agent that predates it. */
+export function readMessageBranchesFromState(state: unknown): MessageBranch[] | undefined {
+  if (!state || typeof state !== "object" || !("branches" in state)) return undefined;
+  const branches = (state as { branches?: unknown }).branches;
+  if (!Array.isArray(branches)) return [];
+  return branches.filter(
+    (branch): branch is MessageBranch =>
+      Boolean(branch) &&
+      typeof branch === "object" &&
+      Array.isArray((branch as MessageBranch).messageIds) &&
+      (branch as MessageBranch).messageIds.every((id) => typeof id === "string")
+  );
+}
+
+export function buildBranchPositions(branches: MessageBranch[]): Map<string, BranchPosition> {
+  const positions = new Map<string, BranchPosition>();
+  for (const { messageIds } of branches) {
+    messageIds.forEach((id, index) => {
+      positions.set(id, {
+        index: index + 1,
+        count: messageIds.length,
+        ...(index > 0 ? { previousId: messageIds[index - 1] } : {}),
+        ...(index < messageIds.length - 1 ? { nextId: messageIds[index + 1] } : {})
+      });
+    });
+  }
+  return positions;
+}
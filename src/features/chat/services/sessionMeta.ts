@@ -8,6 +8,8 @@ export interface SessionMeta {
   mismatchCount?: number;
   lastSyncedAt?: string;
   source?: "server" | "local-fallback";
+  parentSessionId?: string;
+  forkMessageId?: string;
 }
 
 const SESSIONS_KEY = "chatwithme_sessions";
@@ -84,6 +86,12 @@ export function updateSessionMeta(sessionId: string, updates: Partial<SessionMet
   saveSessions(sessions);
 }
 
+/** Forget the locally known sessions, e.g. when another user signs in on this browser. */
+export function clearSessionMeta(): void {
+  localStorage.removeItem(SESSIONS_KEY);
+  localStorage.removeItem(CURRENT_SESSION_KEY);
+}
+
 export function deleteSessionMeta(sessionId: string): void {
   const sessions = loadSessions().filter((session) => session.id !== sessionId);
   saveSessions(sessions);
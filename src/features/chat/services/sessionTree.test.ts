@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { buildSessionTree } from "./sessionTree";
+
+describe("session tree", () => {
+  it("lists forks below their parent and keeps sibling order", () => {
+    const rows = buildSessionTree([
+      { id: "fork-b", parentSessionId: "root" },
+      { id: "other" },
+      { id: "nested", parentSessionId: "fork-a" },
+      { id: "root" },
+      { id: "fork-a", parentSessionId: "root" }
+    ]);
+    expect(rows.map((row) => [row.session.id, row.depth, row.parent?.id])).toEqual([
+      ["other", 0, undefined],
+      ["root", 0, undefined],
+      ["fork-b", 1, "root"],
+      ["fork-a", 1, "root"],
+      ["nested", 2, "fork-a"]
+    ]);
+  });
+
+  it("treats forks of unlisted sessions as roots and survives cycles", () => {
+    const rows = buildSessionTree([
+      { id: "orphan", parentSessionId: "deleted" },
+      { id: "a", parentSessionId: "b" },
+      { id: "b", parentSessionId: "a" }
+    ]);
+    expect(rows.map((row) => [row.session.id, row.depth])).toEqual([
+      ["orphan", 0],
+      ["a", 0],
+      ["b", 1]
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+interface SessionTreeInput {
+  id: string;
+  parentSessionId?: string;
+}
+
+export interface SessionTreeRow<T extends SessionTreeInput> {
+  session: T;
+  depth: number;
+  /** The parent session when it is in the list; forks of deleted sessions have none. */
+  parent?: T;
+}
+
+/**
+ * Order sessions as a fork tree: every fork directly below its parent, one level deeper.
+ * Siblings and roots keep their order in `sessions`; forks whose parent is not listed
+ * become roots.
+ */
+export function buildSessionTree<T extends SessionTreeInput>(sessions: T[]): SessionTreeRow<T>[] {
+  const byId = new Map(sessions.map((session) => [session.id, session]));
+  const children = new Map<string, T[]>();
+  const roots: T[] = [];
+  for (const session of sessions) {
+    const parentId = session.parentSessionId;
+    if (parentId && parentId !== session.id && byId.has(parentId)) {
+      children.set(parentId, [...(children.get(parentId) ?? []), session]);
+    } else {
+      roots.push(session);
+    }
+  }
+
+  const rows: SessionTreeRow<T>[] = [];
+  const visited = new Set<string>();
+  const visit = (session: T, depth: number) => {
+    if (visited.has(session.id)) return;
+    visited.add(session.id);
+    const parent = session.parentSessionId ? byId.get(session.parentSessionId) : undefined;
+    rows.push({ session, depth, ...(parent && depth > 0 ? { parent } : {}) });
+    for (const child of children.get(session.id) ?? []) visit(child, depth + 1);
+  };
+  for (const root of roots) visit(root, 0);
+  // Sessions in a parent cycle are unreachable from any root; list them flat.
+  for (const session of sessions) visit(session, 0);
+  return rows;
+}
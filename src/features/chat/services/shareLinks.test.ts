@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { readShareLinkFromSearch } from "./shareLinks";
+
+function encodePayload(claims: Record<string, unknown>): string {
+  return btoa(JSON.stringify(claims)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+describe("readShareLinkFromSearch", () => {
+  it("opens the session named by the token", () => {
+    const token = `${encodePayload({ jti: "l1", sid: "session-1", scp: "comment", exp: 1 })}.sig`;
+    expect(readShareLinkFromSearch(`?share=${token}&tab=chat`)).toEqual({
+      token,
+      sessionId: "session-1",
+      scope: "comment"
+    });
+  });
+
+  it("ignores missing or malformed tokens", () => {
+    expect(readShareLinkFromSearch("")).toBeNull();
+    expect(readShareLinkFromSearch("?mode=view")).toBeNull();
+    expect(readShareLinkFromSearch("?share=not-base64!.sig")).toBeNull();
+    expect(
+      readShareLinkFromSearch(`?share=${encodePayload({ sid: "session-1", scp: "admin" })}.sig`)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import type { ShareScope } from "./apiContracts";
+
+export const SHARE_LINK_QUERY_PARAM = "share";
+
+/** The share link this page was opened with, as claimed by its token. */
+export interface ActiveShareLink {
+  token: string;
+  sessionId: string;
+  scope: ShareScope;
+}
+
+function decodeBase64Url(value: string): string | null {
+  try {
+    const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+    const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="));
+    return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the share token from a page URL's query string. The payload is decoded without
+ * checking the signature; it only tells the client which session to open, and the
+ * server verifies the token on every request and connection.
+ */
+export function readShareLinkFromSearch(search: string): ActiveShareLink | null {
+  const token = new URLSearchParams(search).get(SHARE_LINK_QUERY_PARAM)?.trim();
+  if (!token) return null;
+  const [payload] = token.split(".");
+  const json = payload ? decodeBase64Url(payload) : null;
+  if (!json) return null;
+  try {
+    const claims = JSON.parse(json) as { sid?: unknown; scp?: unknown };
+    if (typeof claims.sid !== "string" || !claims.sid) return null;
+    if (claims.scp !== "view" && claims.scp !== "comment") return null;
+    return { token, sessionId: claims.sid, scope: claims.scp };
+  } catch {
+    return null;
+  }
+}
@@ -8,6 +8,7 @@ export type ChatEventName =
   | "message_regenerate"
   | "scroll_back_bottom"
   | "mcp_toggle"
+  | "mcp_custom_save"
   | "connection_open"
   | "connection_close"
   | "connection_error"
@@ -2,6 +2,7 @@ import { useMemo, useState } from "react";
 import {
   applyCommandSuggestion,
   parseCommandToken,
+  removeCommandToken,
   type CommandSuggestionItem,
   type ParsedCommandToken
 } from "../types/command";
@@ -67,6 +68,13 @@ export function useCommandInput({ input, caretIndex, suggestions }: UseCommandIn
     return applyCommandSuggestion(input, token, suggestion);
   };
 
+  const removeToken = () => {
+    if (!token) {
+      return null;
+    }
+    return removeCommandToken(input, token);
+  };
+
   return {
     token,
     filteredSuggestions,
@@ -75,6 +83,7 @@ export function useCommandInput({ input, caretIndex, suggestions }: UseCommandIn
     moveSelection,
     getActiveSuggestion,
     applySuggestion,
+    removeToken,
     hasOpenMenu: !!token && filteredSuggestions.length > 0
   };
 }
@@ -18,12 +18,91 @@ export const uiMessages = {
     theme_group: "Theme mode",
     theme_toggle: "Toggle theme",
 
+    auth_title: "Sign in",
+    auth_subtitle: "Sign in to reach your chat sessions.",
+    auth_mode_label: "Sign-in method",
+    auth_mode_password: "Password",
+    auth_mode_api_key: "API key",
+    auth_username: "Username",
+    auth_password: "Password",
+    auth_api_key: "API key",
+    auth_submit: "Sign in",
+    auth_submitting: "Signing in...",
+    auth_failed: "Sign-in failed: {reason}",
+    auth_sign_out: "Sign out",
+    auth_sign_out_failed: "Sign out failed: {reason}",
+    auth_signed_in_as: "Signed in as {user}",
+    share_title: "Share links",
+    share_desc: "Anyone with an active link can open this session until it expires or is revoked.",
+    share_scope_label: "Access",
+    share_scope_view: "View only",
+    share_scope_comment: "Can comment",
+    share_expiry_label: "Expires after",
+    share_expiry_day: "1 day",
+    share_expiry_week: "7 days",
+    share_expiry_month: "30 days",
+    share_create: "Create link",
+    share_empty: "No active share links.",
+    share_link_meta: "{scope} · expires {time}",
+    share_copy: "Copy link",
+    share_revoke: "Revoke",
+    share_created: "Share link created and copied",
+    share_create_failed: "Failed to create share link: {reason}",
+    share_copied: "Share link copied",
+    share_revoked: "Share link revoked",
+    share_revoke_failed: "Failed to revoke share link: {reason}",
+    share_badge_comment: "Shared · can comment",
+    quota_label: "Usage quota",
+    quota_messages: "{remaining}/{limit} messages/min",
+    quota_tokens: "{remaining} tokens left today",
+    quota_tool_calls: "{tool}: {remaining}/{limit} calls/h",
+    quota_resets_at: "Resets at {time}",
+    usage_label: "Model usage",
+    usage_tokens: "{input} in · {output} out",
+    usage_reasoning: "{reasoning} reasoning",
+    usage_latency: "{seconds}s",
+    usage_detail: "{model} · finished: {reason}",
+
     lang_en: "EN",
     lang_zh: "中",
     lang_group: "Language",
     settings_section_advanced: "Advanced",
     settings_section_advanced_desc: "Debug and observability panels",
     settings_panel_observability: "Workspace Observability",
+    chat_load_older: "Load earlier messages",
+    chat_loading_older: "Loading earlier messages...",
+    history_load_older_failed: "Failed to load earlier messages: {reason}",
+    context_summary_divider: "{count} earlier messages summarized for the model",
+    context_summary_title: "Summary the model sees instead",
+    session_lifecycle_title: "Ephemeral session",
+    session_lifecycle_ephemeral_toggle: "Delete this session when idle",
+    session_lifecycle_persistent_desc:
+      "Idle sessions hibernate and keep their history; reconnecting resumes them",
+    session_lifecycle_ephemeral_desc:
+      "This session and its history are deleted after the idle timeout",
+    session_lifecycle_hibernates_at: "Hibernates when idle at {time}",
+    session_lifecycle_expires_at: "Expires when idle at {time}",
+    session_lifecycle_hibernated: "Hibernated at {time}",
+    session_lifecycle_saved: "Session lifecycle updated",
+    session_lifecycle_save_failed: "Failed to update session lifecycle: {reason}",
+    session_settings_title: "Session Model",
+    session_settings_desc: "Applies to this session only; empty fields use the defaults",
+    session_settings_model: "Model",
+    session_settings_model_unavailable: "{name} (not configured)",
+    session_settings_default_option: "Default ({value})",
+    session_settings_temperature: "Temperature",
+    session_settings_max_steps: "Max steps",
+    session_settings_max_output_tokens: "Max tokens",
+    session_settings_thinking: "Thinking",
+    session_settings_thinking_enabled: "On",
+    session_settings_thinking_disabled: "Off",
+    session_settings_addendum: "Extra instructions",
+    session_settings_addendum_placeholder: "Appended to the system prompt for this session",
+    session_settings_save: "Save",
+    session_settings_saving: "Saving...",
+    session_settings_reset: "Reset",
+    session_settings_saved: "Session settings saved",
+    session_settings_save_failed: "Failed to save settings: {reason}",
 
     sidebar_sessions: "Sessions",
     sidebar_workspace: "Workspace",
@@ -41,6 +120,19 @@ export const uiMessages = {
     session_empty: "No conversations yet",
     session_no_messages: "No messages",
     session_delete: "Delete session",
+    session_export: "Export conversation",
+    session_export_md: "Markdown",
+    session_export_json: "JSON",
+    session_export_html: "HTML",
+    session_exported: "Conversation exported",
+    session_export_charts_failed: "Exported; {count} chart(s) kept as source code",
+    session_export_failed: "Export failed: {reason}",
+    search_placeholder: "Search all messages",
+    search_clear: "Clear search",
+    search_no_results: "No messages match \"{query}\"",
+    search_failed: "Search failed: {reason}",
+    search_partial: "Searched the {count} most recent sessions only",
+    search_message_missing: "That message is no longer in the conversation",
     session_deleted: "Session deleted",
     session_delete_pending_destroy: "Session will be destroyed after active connections close.",
     session_delete_failed: "Failed to delete session: {reason}",
@@ -83,6 +175,61 @@ export const uiMessages = {
     mcp_toggle_server: "Toggle server {name}",
     mcp_server: "Server",
     mcp_raw_payload: "Raw payload",
+    mcp_custom_add: "Add server",
+    mcp_oauth_required: "Authorization required",
+    mcp_oauth_expired: "Authorization expired",
+    mcp_oauth_authorize: "Authorize",
+    mcp_oauth_reauthorize: "Re-authorize",
+    mcp_oauth_success: "Server {name} authorized",
+    mcp_oauth_failed: "Authorization for {name} failed: {reason}",
+    mcp_oauth_cancelled: "Authorization for {name} was not completed",
+    mcp_oauth_popup_blocked: "Allow popups for this site to authorize {name}",
+    resources_empty: "No resources yet. Connect an MCP server that exposes resources.",
+    resources_preview: "Preview",
+    resources_hide_preview: "Hide preview",
+    resources_attach: "Attach",
+    resources_attached: "Attached",
+    resources_loading: "Loading…",
+    resources_preview_failed: "Could not read resource: {reason}",
+    resources_truncated: "Content truncated",
+    resources_attach_success: "{name} will be sent with your next message",
+    resources_attach_failed: "Could not attach {name}: {reason}",
+    resources_attachments_label: "Attached resources",
+    resources_attachment_remove: "Remove {name}",
+    mcp_custom_add_title: "Add MCP server",
+    mcp_custom_edit_title: "Edit {name}",
+    mcp_custom_badge: "Custom",
+    mcp_custom_edit: "Edit server {name}",
+    mcp_custom_remove: "Remove server {name}",
+    mcp_custom_remove_confirm_title: "Remove server",
+    mcp_custom_remove_confirm_message: "Remove {name} and its saved credentials from this session?",
+    mcp_custom_remove_confirm_ok: "Remove",
+    mcp_custom_name: "Name",
+    mcp_custom_url: "Server URL",
+    mcp_custom_description: "Description",
+    mcp_custom_transport: "Transport",
+    mcp_custom_auth: "Authentication",
+    mcp_custom_auth_none: "None",
+    mcp_custom_auth_headers: "Custom headers",
+    mcp_custom_auth_oauth: "OAuth",
+    mcp_custom_header_name: "Header name",
+    mcp_custom_header_value: "Header value",
+    mcp_custom_header_saved: "Saved - leave blank to keep",
+    mcp_custom_header_add: "Add header",
+    mcp_custom_header_remove: "Remove header",
+    mcp_custom_test: "Test",
+    mcp_custom_testing: "Testing...",
+    mcp_custom_test_ok: "Connected, {count} tools available",
+    mcp_custom_test_requires_auth: "Reachable; the server requires OAuth authorization",
+    mcp_custom_test_failed: "Connection failed: {reason}",
+    mcp_custom_save: "Save",
+    mcp_custom_saving: "Saving...",
+    mcp_custom_cancel: "Cancel",
+    mcp_custom_saved: "Server {name} saved",
+    mcp_custom_saved_inactive: "Server {name} saved but not connected: {reason}",
+    mcp_custom_save_failed: "Failed to save server: {reason}",
+    mcp_custom_removed: "Server {name} removed",
+    mcp_custom_remove_failed: "Failed to remove server: {reason}",
 
     message_delete_success: "Message deleted",
     message_already_deleted: "Message already deleted",
@@ -107,6 +254,24 @@ export const uiMessages = {
     chat_input_section_tools: "Tools",
     chat_input_section_sessions: "Sessions",
     chat_input_section_actions: "Actions",
+    chat_input_section_prompts: "Prompts",
+    chat_input_attach: "Attach files",
+    chat_input_attachments: "Attached files",
+    chat_input_drop_files: "Drop files to attach",
+    chat_input_attachment_uploading: "Uploading...",
+    chat_input_attachment_failed: "Upload failed",
+    chat_input_attachment_remove: "Remove {name}",
+    chat_input_vision_unsupported:
+      "The current model cannot see images; they will be described to it as text",
+    attachment_rejected_type: "{name} is not a supported file type",
+    attachment_rejected_size: "{name} is larger than {limit} MB",
+    attachment_limit_reached: "Up to {count} files can be attached to one message",
+    attachment_upload_failed: "Failed to upload {name}: {reason}",
+    prompt_dialog_title: "Run prompt /{name}",
+    prompt_dialog_run: "Run",
+    prompt_dialog_running: "Running…",
+    prompt_dialog_cancel: "Cancel",
+    prompt_run_failed: "Prompt {name} failed: {reason}",
     chat_sources_title: "Sources",
     chat_sources_empty: "No snippets available",
 
@@ -123,15 +288,23 @@ export const uiMessages = {
     message_actions_fork: "Fork",
     message_actions_fork_message: "Fork session from message",
     message_actions_save: "Save",
+    message_actions_save_resend: "Save & resend",
     message_actions_cancel: "Cancel",
     message_edit_success: "Message updated",
     message_edit_noop: "No changes to save",
     message_edit_failed: "Failed to edit message: {reason}",
-    message_regenerate_success: "Response regenerated",
     message_regenerate_failed: "Failed to regenerate: {reason}",
+    branch_label: "Message versions",
+    branch_previous: "Previous version",
+    branch_next: "Next version",
+    branch_position: "{index}/{count}",
+    branch_switch_failed: "Failed to switch version: {reason}",
     message_fork_success: "Session forked",
     message_fork_failed: "Failed to fork session: {reason}",
     session_fork_title: "Forked Chat",
+    session_fork_tree: "Show fork tree",
+    session_forked: "Forked session",
+    session_forked_from: "Forked from {title}",
     chat_back_to_bottom: "Back to bottom",
     chat_message_variant_bubble: "Bubble",
     chat_message_variant_docs: "Docs",
@@ -172,12 +345,89 @@ export const uiMessages = {
     theme_group: "主题模式",
     theme_toggle: "切换主题",
 
+    auth_title: "登录",
+    auth_subtitle: "登录后即可访问你的聊天会话。",
+    auth_mode_label: "登录方式",
+    auth_mode_password: "密码",
+    auth_mode_api_key: "API 密钥",
+    auth_username: "用户名",
+    auth_password: "密码",
+    auth_api_key: "API 密钥",
+    auth_submit: "登录",
+    auth_submitting: "正在登录...",
+    auth_failed: "登录失败：{reason}",
+    auth_sign_out: "退出登录",
+    auth_sign_out_failed: "退出登录失败：{reason}",
+    auth_signed_in_as: "当前用户：{user}",
+    share_title: "分享链接",
+    share_desc: "持有有效链接的任何人都可以打开此会话，直到链接过期或被撤销。",
+    share_scope_label: "权限",
+    share_scope_view: "仅查看",
+    share_scope_comment: "可评论",
+    share_expiry_label: "有效期",
+    share_expiry_day: "1 天",
+    share_expiry_week: "7 天",
+    share_expiry_month: "30 天",
+    share_create: "创建链接",
+    share_empty: "暂无有效的分享链接。",
+    share_link_meta: "{scope} · {time} 过期",
+    share_copy: "复制链接",
+    share_revoke: "撤销",
+    share_created: "分享链接已创建并复制",
+    share_create_failed: "创建分享链接失败：{reason}",
+    share_copied: "分享链接已复制",
+    share_revoked: "分享链接已撤销",
+    share_revoke_failed: "撤销分享链接失败：{reason}",
+    share_badge_comment: "共享 · 可评论",
+    quota_label: "用量配额",
+    quota_messages: "每分钟消息 {remaining}/{limit}",
+    quota_tokens: "今日剩余 {remaining} tokens",
+    quota_tool_calls: "{tool}：每小时 {remaining}/{limit} 次",
+    quota_resets_at: "{time} 重置",
+    usage_label: "模型用量",
+    usage_tokens: "输入 {input} · 输出 {output}",
+    usage_reasoning: "推理 {reasoning}",
+    usage_latency: "{seconds} 秒",
+    usage_detail: "{model} · 结束原因：{reason}",
+
     lang_en: "EN",
     lang_zh: "中",
     lang_group: "语言",
     settings_section_advanced: "高级",
     settings_section_advanced_desc: "调试与可观测面板",
     settings_panel_observability: "工作台观测",
+    chat_load_older: "加载更早的消息",
+    chat_loading_older: "正在加载更早的消息...",
+    history_load_older_failed: "加载更早的消息失败：{reason}",
+    context_summary_divider: "已为模型摘要 {count} 条较早消息",
+    context_summary_title: "模型看到的摘要",
+    session_lifecycle_title: "临时会话",
+    session_lifecycle_ephemeral_toggle: "空闲时删除此会话",
+    session_lifecycle_persistent_desc: "空闲会话将休眠并保留历史，重新连接即可恢复",
+    session_lifecycle_ephemeral_desc: "空闲超时后将删除此会话及其历史",
+    session_lifecycle_hibernates_at: "将于 {time} 空闲休眠",
+    session_lifecycle_expires_at: "将于 {time} 空闲过期",
+    session_lifecycle_hibernated: "已于 {time} 休眠",
+    session_lifecycle_saved: "会话生命周期已更新",
+    session_lifecycle_save_failed: "更新会话生命周期失败：{reason}",
+    session_settings_title: "会话模型",
+    session_settings_desc: "仅作用于当前会话，留空则使用默认值",
+    session_settings_model: "模型",
+    session_settings_model_unavailable: "{name}（未配置）",
+    session_settings_default_option: "默认（{value}）",
+    session_settings_temperature: "温度",
+    session_settings_max_steps: "最大步数",
+    session_settings_max_output_tokens: "最大 Token",
+    session_settings_thinking: "深度思考",
+    session_settings_thinking_enabled: "开启",
+    session_settings_thinking_disabled: "关闭",
+    session_settings_addendum: "附加指令",
+    session_settings_addendum_placeholder: "追加到本会话的系统提示词",
+    session_settings_save: "保存",
+    session_settings_saving: "保存中...",
+    session_settings_reset: "重置",
+    session_settings_saved: "会话设置已保存",
+    session_settings_save_failed: "保存设置失败：{reason}",
 
     sidebar_sessions: "会话",
     sidebar_workspace: "工作台",
@@ -195,6 +445,19 @@ export const uiMessages = {
     session_empty: "暂无会话",
     session_no_messages: "暂无消息",
     session_delete: "删除会话",
+    session_export: "导出对话",
+    session_export_md: "Markdown",
+    session_export_json: "JSON",
+    session_export_html: "HTML",
+    session_exported: "对话已导出",
+    session_export_charts_failed: "已导出；{count} 个图表保留为源码",
+    session_export_failed: "导出失败：{reason}",
+    search_placeholder: "搜索全部消息",
+    search_clear: "清除搜索",
+    search_no_results: "没有消息匹配“{query}”",
+    search_failed: "搜索失败：{reason}",
+    search_partial: "仅搜索了最近的 {count} 个会话",
+    search_message_missing: "该消息已不在对话中",
     session_deleted: "会话已删除",
     session_delete_pending_destroy: "会话将在活跃连接关闭后销毁。",
     session_delete_failed: "删除会话失败：{reason}",
@@ -235,6 +498,61 @@ export const uiMessages = {
     mcp_toggle_server: "切换服务 {name}",
     mcp_server: "服务",
     mcp_raw_payload: "原始载荷",
+    mcp_custom_add: "添加服务器",
+    mcp_oauth_required: "需要授权",
+    mcp_oauth_expired: "授权已过期",
+    mcp_oauth_authorize: "授权",
+    mcp_oauth_reauthorize: "重新授权",
+    mcp_oauth_success: "服务器 {name} 授权成功",
+    mcp_oauth_failed: "服务器 {name} 授权失败：{reason}",
+    mcp_oauth_cancelled: "服务器 {name} 的授权未完成",
+    mcp_oauth_popup_blocked: "请允许本站弹出窗口以授权 {name}",
+    resources_empty: "暂无资源。请连接提供资源的 MCP 服务器。",
+    resources_preview: "预览",
+    resources_hide_preview: "收起预览",
+    resources_attach: "附加",
+    resources_attached: "已附加",
+    resources_loading: "加载中…",
+    resources_preview_failed: "无法读取资源：{reason}",
+    resources_truncated: "内容已截断",
+    resources_attach_success: "{name} 将随下一条消息发送",
+    resources_attach_failed: "无法附加 {name}：{reason}",
+    resources_attachments_label: "已附加的资源",
+    resources_attachment_remove: "移除 {name}",
+    mcp_custom_add_title: "添加 MCP 服务器",
+    mcp_custom_edit_title: "编辑 {name}",
+    mcp_custom_badge: "自定义",
+    mcp_custom_edit: "编辑服务器 {name}",
+    mcp_custom_remove: "移除服务器 {name}",
+    mcp_custom_remove_confirm_title: "移除服务器",
+    mcp_custom_remove_confirm_message: "从当前会话移除 {name} 及其已保存的凭据？",
+    mcp_custom_remove_confirm_ok: "移除",
+    mcp_custom_name: "名称",
+    mcp_custom_url: "服务器地址",
+    mcp_custom_description: "描述",
+    mcp_custom_transport: "传输方式",
+    mcp_custom_auth: "认证方式",
+    mcp_custom_auth_none: "无",
+    mcp_custom_auth_headers: "自定义请求头",
+    mcp_custom_auth_oauth: "OAuth",
+    mcp_custom_header_name: "请求头名称",
+    mcp_custom_header_value: "请求头值",
+    mcp_custom_header_saved: "已保存，留空则保持不变",
+    mcp_custom_header_add: "添加请求头",
+    mcp_custom_header_remove: "删除请求头",
+    mcp_custom_test: "测试",
+    mcp_custom_testing: "测试中...",
+    mcp_custom_test_ok: "连接成功，可用工具 {count} 个",
+    mcp_custom_test_requires_auth: "服务器可达，需要 OAuth 授权",
+    mcp_custom_test_failed: "连接失败：{reason}",
+    mcp_custom_save: "保存",
+    mcp_custom_saving: "保存中...",
+    mcp_custom_cancel: "取消",
+    mcp_custom_saved: "服务器 {name} 已保存",
+    mcp_custom_saved_inactive: "服务器 {name} 已保存但未连接：{reason}",
+    mcp_custom_save_failed: "保存服务器失败：{reason}",
+    mcp_custom_removed: "服务器 {name} 已移除",
+    mcp_custom_remove_failed: "移除服务器失败：{reason}",
 
     message_delete_success: "消息已删除",
     message_already_deleted: "消息已是删除状态",
@@ -259,6 +577,23 @@ export const uiMessages = {
     chat_input_section_tools: "工具",
     chat_input_section_sessions: "会话",
     chat_input_section_actions: "操作",
+    chat_input_section_prompts: "提示词",
+    chat_input_attach: "添加附件",
+    chat_input_attachments: "已添加的附件",
+    chat_input_drop_files: "拖放文件以添加附件",
+    chat_input_attachment_uploading: "上传中...",
+    chat_input_attachment_failed: "上传失败",
+    chat_input_attachment_remove: "移除 {name}",
+    chat_input_vision_unsupported: "当前模型无法识别图片，图片将以文字说明的形式提供",
+    attachment_rejected_type: "不支持 {name} 的文件类型",
+    attachment_rejected_size: "{name} 超过 {limit} MB",
+    attachment_limit_reached: "每条消息最多添加 {count} 个文件",
+    attachment_upload_failed: "上传 {name} 失败：{reason}",
+    prompt_dialog_title: "运行提示词 /{name}",
+    prompt_dialog_run: "运行",
+    prompt_dialog_running: "运行中…",
+    prompt_dialog_cancel: "取消",
+    prompt_run_failed: "提示词 {name} 运行失败：{reason}",
     chat_sources_title: "引用来源",
     chat_sources_empty: "暂无可展示片段",
 
@@ -275,15 +610,23 @@ export const uiMessages = {
     message_actions_fork: "分叉",
     message_actions_fork_message: "从此消息分叉会话",
     message_actions_save: "保存",
+    message_actions_save_resend: "保存并重新发送",
     message_actions_cancel: "取消",
     message_edit_success: "消息已更新",
     message_edit_noop: "没有可保存的更改",
     message_edit_failed: "编辑消息失败：{reason}",
-    message_regenerate_success: "已重新生成回复",
     message_regenerate_failed: "重新生成失败：{reason}",
+    branch_label: "消息版本",
+    branch_previous: "上一个版本",
+    branch_next: "下一个版本",
+    branch_position: "{index}/{count}",
+    branch_switch_failed: "切换版本失败：{reason}",
     message_fork_success: "会话已分叉",
     message_fork_failed: "分叉会话失败：{reason}",
     session_fork_title: "分叉会话",
+    session_fork_tree: "显示分叉树",
+    session_forked: "分叉会话",
+    session_forked_from: "分叉自 {title}",
     chat_back_to_bottom: "回到底部",
     chat_message_variant_bubble: "气泡",
     chat_message_variant_docs: "文档",
@@ -12,8 +12,17 @@ export interface McpServerConfig {
   envKey?: string; // Environment variable name for API key
   description: string;
   active: boolean;
+  /** Defaults to streamable-http. */
+  transport?: McpTransportType;
+  /** Set for servers added at runtime; their secrets live in agent storage, never in config. */
+  custom?: {
+    auth: "none" | "headers" | "oauth";
+    headerNames: string[];
+  };
 }
 
+export type McpTransportType = "streamable-http" | "sse";
+
 export const MCP_SERVERS: McpServerConfig[] = [
   {
     name: "web-search-prime",
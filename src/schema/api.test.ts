@@ -1,17 +1,61 @@
 import { describe, expect, it } from "vitest";
 import {
   chatBodySchema,
+  chatHistoryPageQuerySchema,
+  chatSearchQuerySchema,
   chatSessionsQuerySchema,
+  createShareLinkBodySchema,
+  customMcpServerBodySchema,
   deleteSessionQuerySchema,
   deleteMessageQuerySchema,
   editBodySchema,
-  mcpServerBodySchema
+  exportQuerySchema,
+  loginBodySchema,
+  mcpPromptBodySchema,
+  mcpServerBodySchema,
+  modelSelectionBodySchema,
+  readMcpResourceQuerySchema,
+  updateLifecycleBodySchema,
+  updateSettingsBodySchema,
+  usageQuerySchema
 } from "./api";
 
 describe("api schemas", () => {
   it("validates chat body", () => {
     const parsed = chatBodySchema.parse({ sessionId: "session_1", message: "hello" });
     expect(parsed.message).toBe("hello");
+    expect(parsed.attachmentIds).toEqual([]);
+  });
+
+  it("accepts attachment-only chat bodies but not empty ones", () => {
+    const attachmentId = "1b4e28ba-2fa1-41d2-883f-0016d3cca427";
+    expect(
+      chatBodySchema.safeParse({ sessionId: "s1", attachmentIds: [attachmentId] }).success
+    ).toBe(true);
+    expect(chatBodySchema.safeParse({ sessionId: "s1", message: "  " }).success).toBe(false);
+    expect(
+      chatBodySchema.safeParse({ sessionId: "s1", message: "hi", attachmentIds: ["nope"] }).success
+    ).toBe(false);
+  });
+
+  it("requires a username and password or an API key to log in", () => {
+    expect(loginBodySchema.safeParse({ username: "ada", password: "pw" }).success).toBe(true);
+    expect(loginBodySchema.safeParse({ apiKey: "key-1" }).success).toBe(true);
+    expect(loginBodySchema.safeParse({ username: "ada" }).success).toBe(false);
+    expect(loginBodySchema.safeParse({}).success).toBe(false);
+  });
+
+  it("validates share link scope and lifetime", () => {
+    expect(
+      createShareLinkBodySchema.safeParse({ sessionId: "s1", scope: "comment" }).success
+    ).toBe(true);
+    expect(createShareLinkBodySchema.safeParse({ sessionId: "s1", scope: "edit" }).success).toBe(
+      false
+    );
+    expect(
+      createShareLinkBodySchema.safeParse({ sessionId: "s1", scope: "view", expiresInSeconds: 60 })
+        .success
+    ).toBe(false);
   });
 
   it("rejects empty edit content", () => {
@@ -38,4 +82,137 @@ describe("api schemas", () => {
     const parsed = chatSessionsQuerySchema.parse({ sessionIds: "s1,s2,s3" });
     expect(parsed.sessionIds).toBe("s1,s2,s3");
   });
+
+  it("coerces sessions pagination params", () => {
+    const parsed = chatSessionsQuerySchema.parse({ limit: "20", cursor: "abc" });
+    expect(parsed.limit).toBe(20);
+    expect(parsed.cursor).toBe("abc");
+    expect(chatSessionsQuerySchema.safeParse({ limit: "0" }).success).toBe(false);
+  });
+
+  it("coerces history page params", () => {
+    const parsed = chatHistoryPageQuerySchema.parse({ sessionId: "s1", limit: "30", cursor: "abc" });
+    expect(parsed.limit).toBe(30);
+    expect(parsed.cursor).toBe("abc");
+    expect(chatHistoryPageQuerySchema.safeParse({ sessionId: "s1", limit: "500" }).success).toBe(
+      false
+    );
+  });
+
+  it("defaults export format to markdown and rejects unknown formats", () => {
+    expect(exportQuerySchema.parse({ sessionId: "s1" }).format).toBe("md");
+    expect(exportQuerySchema.parse({ sessionId: "s1", format: "html" }).format).toBe("html");
+    expect(exportQuerySchema.safeParse({ sessionId: "s1", format: "pdf" }).success).toBe(false);
+  });
+
+  it("validates usage filters", () => {
+    const parsed = usageQuerySchema.parse({
+      sessionId: "s1",
+      model: "glm:GLM-4.7",
+      from: "2026-01-01T00:00:00Z",
+      limit: "50"
+    });
+    expect(parsed.limit).toBe(50);
+    expect(usageQuerySchema.safeParse({ sessionId: "s1", from: "yesterday" }).success).toBe(false);
+    expect(
+      usageQuerySchema.safeParse({
+        sessionId: "s1",
+        from: "2026-01-02T00:00:00Z",
+        to: "2026-01-01T00:00:00Z"
+      }).success
+    ).toBe(false);
+  });
+
+  it("validates search queries", () => {
+    expect(chatSearchQuerySchema.parse({ q: "  deploy plan ", limit: "10" })).toEqual({
+      q: "deploy plan",
+      limit: 10
+    });
+    expect(chatSearchQuerySchema.safeParse({ q: "   " }).success).toBe(false);
+    expect(chatSearchQuerySchema.safeParse({ q: "x", limit: "500" }).success).toBe(false);
+  });
+
+  it("validates model selection body", () => {
+    const parsed = modelSelectionBodySchema.parse({ sessionId: "s1", model: "glm:GLM-4.7" });
+    expect(parsed.model).toBe("glm:GLM-4.7");
+    expect(modelSelectionBodySchema.safeParse({ sessionId: "s1", model: "GLM-4.7" }).success).toBe(
+      false
+    );
+  });
+
+  it("validates settings patches with nullable clears", () => {
+    const parsed = updateSettingsBodySchema.parse({
+      sessionId: "s1",
+      settings: { temperature: 0.2, thinking: null }
+    });
+    expect(parsed.settings).toEqual({ temperature: 0.2, thinking: null });
+    expect(
+      updateSettingsBodySchema.safeParse({ sessionId: "s1", settings: { maxSteps: 50 } }).success
+    ).toBe(false);
+    expect(
+      updateSettingsBodySchema.safeParse({ sessionId: "s1", settings: { unknown: 1 } }).success
+    ).toBe(false);
+  });
+
+  it("validates custom mcp server bodies", () => {
+    const parsed = customMcpServerBodySchema.parse({
+      sessionId: "s1",
+      server: { name: "docs", url: "https://mcp.example.com/mcp" }
+    });
+    expect(parsed.server.transport).toBe("streamable-http");
+    expect(parsed.server.auth).toEqual({ type: "none" });
+    expect(
+      customMcpServerBodySchema.safeParse({
+        sessionId: "s1",
+        server: { name: "bad name", url: "https://mcp.example.com/mcp" }
+      }).success
+    ).toBe(false);
+    expect(
+      customMcpServerBodySchema.safeParse({
+        sessionId: "s1",
+        server: { name: "docs", url: "https://x.dev", auth: { type: "headers", headers: [] } }
+      }).success
+    ).toBe(false);
+  });
+
+  it("requires server and uri when reading an mcp resource", () => {
+    const parsed = readMcpResourceQuerySchema.parse({
+      sessionId: "s1",
+      serverId: " srv ",
+      uri: "docs://guide"
+    });
+    expect(parsed.serverId).toBe("srv");
+    expect(readMcpResourceQuerySchema.safeParse({ sessionId: "s1", serverId: "srv" }).success).toBe(
+      false
+    );
+  });
+
+  it("defaults mcp prompt arguments to an empty record", () => {
+    const parsed = mcpPromptBodySchema.parse({ sessionId: "s1", serverId: "srv", name: "review" });
+    expect(parsed.arguments).toEqual({});
+    expect(
+      mcpPromptBodySchema.safeParse({
+        sessionId: "s1",
+        serverId: "srv",
+        name: "review",
+        arguments: { topic: 1 }
+      }).success
+    ).toBe(false);
+  });
+
+  it("validates lifecycle updates", () => {
+    const parsed = updateLifecycleBodySchema.parse({
+      sessionId: "s1",
+      lifecycle: { mode: "ephemeral", idleTimeoutSeconds: 600 }
+    });
+    expect(parsed.lifecycle).toEqual({ mode: "ephemeral", idleTimeoutSeconds: 600 });
+    expect(
+      updateLifecycleBodySchema.safeParse({ sessionId: "s1", lifecycle: { mode: "forever" } })
+        .success
+    ).toBe(false);
+    expect(
+      updateLifecycleBodySchema.safeParse({ sessionId: "s1", lifecycle: { idleTimeoutSeconds: 5 } })
+        .success
+    ).toBe(false);
+  });
 });
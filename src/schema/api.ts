@@ -11,9 +11,17 @@ export const requiredSessionBodySchema = z.object({
   sessionId: sessionIdSchema
 });
 
-export const chatBodySchema = requiredSessionBodySchema.extend({
-  message: z.string().trim().min(1, "message is required")
-});
+export const attachmentIdSchema = z.string().uuid("attachment id must be a UUID");
+
+export const chatBodySchema = requiredSessionBodySchema
+  .extend({
+    message: z.string().trim().default(""),
+    attachmentIds: z.array(attachmentIdSchema).max(8, "at most 8 attachments").default([])
+  })
+  .refine((body) => body.message.length > 0 || body.attachmentIds.length > 0, {
+    message: "message is required",
+    path: ["message"]
+  });
 
 export const editBodySchema = requiredSessionBodySchema.extend({
   messageId: z.string().trim().min(1, "messageId is required"),
@@ -24,6 +32,18 @@ export const regenerateBodySchema = requiredSessionBodySchema.extend({
   messageId: z.string().trim().min(1, "messageId is required")
 });
 
+export const switchBranchBodySchema = regenerateBodySchema;
+
+export const loginBodySchema = z
+  .object({
+    username: z.string().trim().min(1).max(128).optional(),
+    password: z.string().min(1).max(1024).optional(),
+    apiKey: z.string().trim().min(1).max(1024).optional()
+  })
+  .refine((body) => Boolean(body.apiKey || (body.username && body.password)), {
+    message: "Provide a username and password, or an API key"
+  });
+
 export const forkBodySchema = requiredSessionBodySchema.extend({
   messageId: z.string().trim().min(1, "messageId is required")
 });
@@ -32,6 +52,111 @@ export const mcpServerBodySchema = requiredSessionBodySchema.extend({
   name: z.string().trim().min(1, "name is required")
 });
 
+export const customMcpServerSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .regex(/^[a-zA-Z0-9_-]{1,40}$/, "name must be 1-40 chars of a-z, A-Z, 0-9, _, -"),
+    url: z.string().trim().min(1, "url is required").max(2048, "url too long"),
+    description: z.string().trim().max(200, "description too long").optional(),
+    transport: z.enum(["streamable-http", "sse"]).default("streamable-http"),
+    auth: z
+      .discriminatedUnion("type", [
+        z.object({ type: z.literal("none") }),
+        z.object({
+          type: z.literal("headers"),
+          headers: z
+            .array(
+              z.object({
+                name: z.string().trim().min(1, "header name is required").max(100),
+                value: z.string().max(4096, "header value too long").optional()
+              })
+            )
+            .min(1, "at least one header is required")
+            .max(10, "too many headers")
+        }),
+        z.object({ type: z.literal("oauth") })
+      ])
+      .default({ type: "none" }),
+    active: z.boolean().optional()
+  })
+  .strict();
+
+export const customMcpServerBodySchema = requiredSessionBodySchema.extend({
+  server: customMcpServerSchema
+});
+
+export const modelRefSchema = z
+  .string()
+  .trim()
+  .min(3, "model is required")
+  .max(200, "model too long")
+  .regex(/^[a-zA-Z0-9_-]+:\S+$/, "model must look like provider:model");
+
+export const modelSelectionBodySchema = requiredSessionBodySchema.extend({
+  model: modelRefSchema
+});
+
+export const sessionSettingsPatchSchema = z
+  .object({
+    model: modelRefSchema.nullable().optional(),
+    temperature: z
+      .number()
+      .min(0, "temperature must be >= 0")
+      .max(2, "temperature must be <= 2")
+      .nullable()
+      .optional(),
+    maxSteps: z
+      .number()
+      .int()
+      .min(1, "maxSteps must be >= 1")
+      .max(20, "maxSteps must be <= 20")
+      .nullable()
+      .optional(),
+    maxOutputTokens: z
+      .number()
+      .int()
+      .min(1, "maxOutputTokens must be >= 1")
+      .max(200000, "maxOutputTokens too large")
+      .nullable()
+      .optional(),
+    thinking: z.enum(["enabled", "disabled"]).nullable().optional(),
+    systemPromptAddendum: z
+      .string()
+      .max(4000, "systemPromptAddendum too long")
+      .nullable()
+      .optional()
+  })
+  .strict();
+
+export const updateSettingsBodySchema = requiredSessionBodySchema.extend({
+  settings: sessionSettingsPatchSchema
+});
+
+export const mcpPromptBodySchema = requiredSessionBodySchema.extend({
+  serverId: z.string().trim().min(1, "serverId is required"),
+  name: z.string().trim().min(1, "name is required"),
+  arguments: z.record(z.string(), z.string().max(4000, "argument too long")).default({})
+});
+
+export const sessionLifecyclePatchSchema = z
+  .object({
+    mode: z.enum(["persistent", "ephemeral"]).optional(),
+    idleTimeoutSeconds: z
+      .number()
+      .int()
+      .min(60, "idleTimeoutSeconds must be >= 60")
+      .max(30 * 24 * 60 * 60, "idleTimeoutSeconds too large")
+      .nullable()
+      .optional()
+  })
+  .strict();
+
+export const updateLifecycleBodySchema = requiredSessionBodySchema.extend({
+  lifecycle: sessionLifecyclePatchSchema
+});
+
 export const toolApprovalDecisionBodySchema = requiredSessionBodySchema.extend({
   approvalId: z.string().trim().min(1, "approvalId is required"),
   decision: z.enum(["approve", "reject"]),
@@ -42,27 +167,94 @@ export const chatHistoryQuerySchema = z.object({
   sessionId: sessionIdSchema
 });
 
+export const chatHistoryPageQuerySchema = chatHistoryQuerySchema.extend({
+  cursor: z.string().trim().max(512, "cursor too long").optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional()
+});
+
 export const chatSessionsQuerySchema = z.object({
   sessionIds: z
     .string()
     .trim()
     .max(4000, "sessionIds too long")
-    .optional()
+    .optional(),
+  cursor: z.string().trim().max(512, "cursor too long").optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional()
 });
 
 export const deleteSessionQuerySchema = chatHistoryQuerySchema;
 
+export const removeCustomMcpServerQuerySchema = chatHistoryQuerySchema.extend({
+  name: z.string().trim().min(1, "name is required")
+});
+
+export const readMcpResourceQuerySchema = chatHistoryQuerySchema.extend({
+  serverId: z.string().trim().min(1, "serverId is required"),
+  uri: z.string().trim().min(1, "uri is required").max(2048, "uri too long")
+});
+
+export const attachmentQuerySchema = chatHistoryQuerySchema;
+
 export const deleteMessageQuerySchema = chatHistoryQuerySchema.extend({
   messageId: z.string().trim().min(1, "messageId is required")
 });
 
+export const createShareLinkBodySchema = requiredSessionBodySchema.extend({
+  scope: z.enum(["view", "comment"]),
+  expiresInSeconds: z
+    .number()
+    .int()
+    .min(300, "share links last at least 5 minutes")
+    .max(90 * 24 * 60 * 60, "share links last at most 90 days")
+    .optional()
+});
+
+export const revokeShareLinkQuerySchema = chatHistoryQuerySchema.extend({
+  shareId: z.string().uuid("shareId must be a UUID")
+});
+
+export const exportQuerySchema = chatHistoryQuerySchema.extend({
+  format: z.enum(["md", "json", "html"]).default("md")
+});
+
+export const usageQuerySchema = chatHistoryQuerySchema
+  .extend({
+    model: z.string().trim().min(1).max(200).optional(),
+    from: z.string().datetime({ offset: true, message: "from must be an ISO timestamp" }).optional(),
+    to: z.string().datetime({ offset: true, message: "to must be an ISO timestamp" }).optional(),
+    limit: z.coerce.number().int().min(1).max(500).optional()
+  })
+  .refine((query) => !query.from || !query.to || Date.parse(query.from) <= Date.parse(query.to), {
+    message: "from must not be after to",
+    path: ["from"]
+  });
+
+export const chatSearchQuerySchema = z.object({
+  q: z.string().trim().min(1, "q is required").max(200, "q too long"),
+  limit: z.coerce.number().int().min(1).max(50).optional()
+});
+
 export type ChatBody = z.infer<typeof chatBodySchema>;
 export type EditBody = z.infer<typeof editBodySchema>;
 export type RegenerateBody = z.infer<typeof regenerateBodySchema>;
+export type SwitchBranchBody = z.infer<typeof switchBranchBodySchema>;
 export type ForkBody = z.infer<typeof forkBodySchema>;
 export type McpServerBody = z.infer<typeof mcpServerBodySchema>;
+export type CustomMcpServerBody = z.infer<typeof customMcpServerBodySchema>;
+export type RemoveCustomMcpServerQuery = z.infer<typeof removeCustomMcpServerQuerySchema>;
+export type ModelSelectionBody = z.infer<typeof modelSelectionBodySchema>;
+export type SessionSettingsPatch = z.infer<typeof sessionSettingsPatchSchema>;
+export type UpdateSettingsBody = z.infer<typeof updateSettingsBodySchema>;
 export type ChatHistoryQuery = z.infer<typeof chatHistoryQuerySchema>;
 export type ChatSessionsQuery = z.infer<typeof chatSessionsQuerySchema>;
 export type DeleteSessionQuery = z.infer<typeof deleteSessionQuerySchema>;
+export type ReadMcpResourceQuery = z.infer<typeof readMcpResourceQuerySchema>;
+export type AttachmentQuery = z.infer<typeof attachmentQuerySchema>;
 export type DeleteMessageQuery = z.infer<typeof deleteMessageQuerySchema>;
+export type McpPromptBody = z.infer<typeof mcpPromptBodySchema>;
+export type SessionLifecyclePatch = z.infer<typeof sessionLifecyclePatchSchema>;
+export type UpdateLifecycleBody = z.infer<typeof updateLifecycleBodySchema>;
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+export type UsageQuery = z.infer<typeof usageQuerySchema>;
+export type ChatSearchQuery = z.infer<typeof chatSearchQuerySchema>;
 export type ToolApprovalDecisionBody = z.infer<typeof toolApprovalDecisionBodySchema>;
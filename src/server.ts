@@ -1,28 +1,88 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { cors } from "hono/cors";
+import { deleteCookie, setCookie } from "hono/cookie";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { routeAgentRequest, getAgentByName } from "agents";
 import {
+  attachmentQuerySchema,
   chatBodySchema,
+  chatHistoryPageQuerySchema,
   chatHistoryQuerySchema,
+  chatSearchQuerySchema,
   chatSessionsQuerySchema,
+  createShareLinkBodySchema,
+  customMcpServerBodySchema,
   deleteSessionQuerySchema,
   deleteMessageQuerySchema,
   editBodySchema,
+  exportQuerySchema,
   forkBodySchema,
+  loginBodySchema,
+  mcpPromptBodySchema,
   mcpServerBodySchema,
+  modelSelectionBodySchema,
   regenerateBodySchema,
-  toolApprovalDecisionBodySchema
+  removeCustomMcpServerQuerySchema,
+  revokeShareLinkQuerySchema,
+  readMcpResourceQuerySchema,
+  toolApprovalDecisionBodySchema,
+  updateLifecycleBodySchema,
+  updateSettingsBodySchema,
+  usageQuerySchema,
+  sessionIdSchema,
+  switchBranchBodySchema
 } from "./schema/api";
 import { errorJson, successJson, unknownErrorMessage } from "./server/http";
+import {
+  authorizeSessionRequest,
+  requireAgentOwner,
+  requireIdentity,
+  screenShareRequests,
+  type AuthVariables
+} from "./server/auth";
+import {
+  AUTH_COOKIE_NAME,
+  canAccessSession,
+  createAuthenticatorFromEnv,
+  issueSessionToken,
+  resolveSessionTtlSeconds
+} from "./shared/auth";
 import { ChatAgentV2 } from "./demos/chat/chat-agent";
+import {
+  MAX_ATTACHMENT_BYTES,
+  buildAttachmentKey,
+  buildAttachmentUrl,
+  classifyAttachment
+} from "./demos/chat/attachments";
+import { SessionDirectory, getSessionDirectory } from "./demos/chat/session-directory";
+import { QuotaCounter } from "./demos/chat/quota-counter";
+import {
+  EXPORT_CONTENT_TYPES,
+  buildContentDisposition,
+  buildConversationExport,
+  buildExportFilename,
+  renderJsonExport,
+  renderMarkdownExport
+} from "./demos/chat/conversation-export";
+import { renderHtmlExport } from "./demos/chat/conversation-export-html";
+import {
+  SEARCH_DEFAULT_LIMIT,
+  compareSearchHits,
+  type SessionSearchHit
+} from "./demos/chat/message-search";
+import type { QuotaViolation } from "./demos/chat/usage-quota";
+import {
+  SESSION_INDEX_MAX_LIMIT,
+  type SessionIndexEntry,
+  type SessionIndexPage
+} from "./demos/chat/session-index";
+import type { ShareLinkRecord } from "./demos/chat/share-access";
+import { SHARE_TOKEN_QUERY, readShareToken } from "./shared/share-links";
 
-export { ChatAgentV2 };
+export { ChatAgentV2, QuotaCounter, SessionDirectory };
 
-type ServerVariables = {
-  requestId: string;
-};
+type ServerVariables = AuthVariables;
 
 const app = new Hono<{ Bindings: Env; Variables: ServerVariables }>();
 
@@ -33,6 +93,8 @@ app.use("*", async (c, next) => {
   await next();
   c.header("x-request-id", requestId);
 });
+app.use("/api/*", requireIdentity, screenShareRequests);
+app.use("/agents/*", requireIdentity, requireAgentOwner);
 
 function resolveSessionId(input: { sessionId: string }): string {
   return input.sessionId.trim();
@@ -48,27 +110,117 @@ function parseSessionIds(raw: string | undefined): string[] {
   return ids.filter((id) => /^[a-zA-Z0-9_-]{1,128}$/.test(id));
 }
 
+function toSessionSummary(entry: SessionIndexEntry) {
+  return {
+    sessionId: entry.sessionId,
+    title: entry.title,
+    lastMessage: entry.lastMessage,
+    messageCount: entry.messageCount,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+    parentSessionId: entry.parentSessionId,
+    forkMessageId: entry.forkMessageId,
+    health: entry.messageCount > 0 ? ("healthy" as const) : ("stale" as const)
+  };
+}
+
+function toShareLinkResponse(requestUrl: string, link: ShareLinkRecord) {
+  const url = new URL("/", requestUrl);
+  if (link.token) url.searchParams.set(SHARE_TOKEN_QUERY, link.token);
+  return { ...link, ...(link.token ? { url: url.toString() } : {}) };
+}
+
+/** 429 in the usual error shape, with `Retry-After` for clients that honour it. */
+function quotaErrorJson(c: Context, violation: QuotaViolation) {
+  c.header("retry-after", String(violation.retryAfterSeconds));
+  return errorJson(c, 429, violation.code, violation.message);
+}
+
+/**
+ * Authorize the session a validated request acts on. Share tokens are only good for one
+ * session, so requests that name none are refused for them.
+ */
+async function authorizeValidatedSession(c: Context, data: unknown) {
+  const sessionId = (data as { sessionId?: unknown } | null)?.sessionId;
+  if (typeof sessionId === "string") {
+    return (await authorizeSessionRequest(c, sessionId)) ?? undefined;
+  }
+  if (readShareToken(c.req.raw)) {
+    return errorJson(c, 403, "SHARE_LINK_FORBIDDEN", "This share link does not allow this action");
+  }
+}
+
 const validateJson = (schema: z.ZodTypeAny) =>
-  zValidator("json", schema, (result, c) => {
-    if (result.success) return;
-    return errorJson(c, 400, "VALIDATION_ERROR", result.error.message);
+  zValidator("json", schema, async (result, c) => {
+    if (!result.success) {
+      return errorJson(c, 400, "VALIDATION_ERROR", result.error.message);
+    }
+    return await authorizeValidatedSession(c, result.data);
   });
 
 const validateQuery = (schema: z.ZodTypeAny) =>
-  zValidator("query", schema, (result, c) => {
-    if (result.success) return;
-    return errorJson(c, 400, "VALIDATION_ERROR", result.error.message);
+  zValidator("query", schema, async (result, c) => {
+    if (!result.success) {
+      return errorJson(c, 400, "VALIDATION_ERROR", result.error.message);
+    }
+    return await authorizeValidatedSession(c, result.data);
+  });
+
+app.get("/api/auth/me", (c) => {
+  const identity = c.get("identity");
+  return successJson(c, {
+    enabled: createAuthenticatorFromEnv(c.env).enabled,
+    user: identity ? { userId: identity.userId, provider: identity.provider } : null
   });
+});
+
+app.post("/api/auth/login", validateJson(loginBodySchema), async (c) => {
+  try {
+    const body = c.req.valid("json") as z.infer<typeof loginBodySchema>;
+    const authenticator = createAuthenticatorFromEnv(c.env);
+    if (!authenticator.enabled) {
+      return errorJson(c, 400, "AUTH_DISABLED", "Authentication is not enabled");
+    }
+    const identity = await authenticator.login(body);
+    if (!identity) {
+      return errorJson(c, 401, "AUTH_INVALID_CREDENTIALS", "Invalid credentials");
+    }
+
+    const ttlSeconds = resolveSessionTtlSeconds(c.env);
+    // createAuthenticatorFromEnv refuses to enable auth without a secret.
+    const token = await issueSessionToken(c.env.AUTH_SECRET as string, identity, { ttlSeconds });
+    setCookie(c, AUTH_COOKIE_NAME, token, {
+      httpOnly: true,
+      secure: new URL(c.req.url).protocol === "https:",
+      sameSite: "Lax",
+      path: "/",
+      maxAge: ttlSeconds
+    });
+    return successJson(c, {
+      user: { userId: identity.userId, provider: identity.provider }
+    });
+  } catch (error) {
+    return errorJson(c, 500, "AUTH_LOGIN_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.post("/api/auth/logout", (c) => {
+  deleteCookie(c, AUTH_COOKIE_NAME, { path: "/" });
+  return successJson(c, { signedOut: true });
+});
 
 app.post("/api/chat", validateJson(chatBodySchema), async (c) => {
   try {
     const body = c.req.valid("json") as z.infer<typeof chatBodySchema>;
     const sessionId = resolveSessionId(body);
     const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
-    const response = await agent.chat(body.message);
+    const result = await agent.chatWithinQuota(body.message, body.attachmentIds);
+    if (!result.success) {
+      return quotaErrorJson(c, result.quota);
+    }
 
     return successJson(c, {
-      response,
+      response: result.response,
       sessionId,
       traceId: c.get("requestId")
     });
@@ -77,6 +229,104 @@ app.post("/api/chat", validateJson(chatBodySchema), async (c) => {
   }
 });
 
+app.post("/api/chat/attachments", async (c) => {
+  const bucket = c.env.ATTACHMENTS;
+  if (!bucket) {
+    return errorJson(
+      c,
+      503,
+      "ATTACHMENT_STORAGE_UNAVAILABLE",
+      "Attachment storage is not configured"
+    );
+  }
+  try {
+    const form = await c.req.parseBody();
+    const session = sessionIdSchema.safeParse(form.sessionId);
+    if (!session.success) {
+      return errorJson(c, 400, "VALIDATION_ERROR", session.error.message);
+    }
+    const denied = await authorizeSessionRequest(c, session.data);
+    if (denied) return denied;
+    const file = form.file;
+    if (!(file instanceof File)) {
+      return errorJson(c, 400, "VALIDATION_ERROR", "file is required");
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      return errorJson(
+        c,
+        413,
+        "ATTACHMENT_TOO_LARGE",
+        `Attachments are limited to ${MAX_ATTACHMENT_BYTES} bytes`
+      );
+    }
+    const mediaType = file.type || "application/octet-stream";
+    if (!classifyAttachment(mediaType)) {
+      return errorJson(
+        c,
+        415,
+        "ATTACHMENT_UNSUPPORTED_TYPE",
+        `Unsupported attachment type "${mediaType}"`
+      );
+    }
+
+    const sessionId = session.data;
+    const id = crypto.randomUUID();
+    const filename = file.name || id;
+    await bucket.put(buildAttachmentKey(sessionId, id), await file.arrayBuffer(), {
+      httpMetadata: { contentType: mediaType },
+      customMetadata: { filename, sessionId }
+    });
+
+    return successJson(c, {
+      attachment: {
+        id,
+        url: buildAttachmentUrl(sessionId, id),
+        filename,
+        mediaType,
+        size: file.size
+      },
+      sessionId
+    });
+  } catch (error) {
+    return errorJson(c, 500, "ATTACHMENT_UPLOAD_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.get("/api/chat/attachments/:id", validateQuery(attachmentQuerySchema), async (c) => {
+  const bucket = c.env.ATTACHMENTS;
+  if (!bucket) {
+    return errorJson(
+      c,
+      503,
+      "ATTACHMENT_STORAGE_UNAVAILABLE",
+      "Attachment storage is not configured"
+    );
+  }
+  try {
+    const query = c.req.valid("query") as z.infer<typeof attachmentQuerySchema>;
+    const key = buildAttachmentKey(resolveSessionId(query), c.req.param("id"));
+    const object = await bucket.get(key);
+    if (!object) {
+      return errorJson(c, 404, "ATTACHMENT_NOT_FOUND", "Attachment not found");
+    }
+    const mediaType = object.httpMetadata?.contentType ?? "application/octet-stream";
+    const filename = encodeURIComponent(object.customMetadata?.filename ?? "attachment");
+    // Only images render inline; documents download so stored HTML never runs on this origin.
+    const disposition = classifyAttachment(mediaType) === "image" ? "inline" : "attachment";
+    return new Response(object.body, {
+      headers: {
+        "content-type": mediaType,
+        "content-disposition": `${disposition}; filename*=UTF-8''${filename}`,
+        "cache-control": "private, max-age=31536000, immutable",
+        "x-content-type-options": "nosniff",
+        "x-request-id": c.get("requestId")
+      }
+    });
+  } catch (error) {
+    return errorJson(c, 500, "ATTACHMENT_READ_FAILED", unknownErrorMessage(error));
+  }
+});
+
 app.get("/api/chat/history", validateQuery(chatHistoryQuerySchema), async (c) => {
   const start = Date.now();
   try {
@@ -97,14 +347,161 @@ app.get("/api/chat/history", validateQuery(chatHistoryQuerySchema), async (c) =>
   }
 });
 
+app.get("/api/chat/export", validateQuery(exportQuerySchema), async (c) => {
+  try {
+    const query = c.req.valid("query") as z.infer<typeof exportQuerySchema>;
+    const sessionId = resolveSessionId(query);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const transcript = await agent.getTranscript();
+    let title = "Conversation";
+    try {
+      const directory = await getSessionDirectory(c.env);
+      title = (await directory.getSession(sessionId))?.title || title;
+    } catch (error) {
+      console.error("Error reading session title for export:", error);
+    }
+
+    const now = Date.now();
+    const doc = buildConversationExport({
+      sessionId,
+      title,
+      messages: transcript.messages,
+      approvals: transcript.approvals,
+      now
+    });
+    const body =
+      query.format === "json"
+        ? renderJsonExport(doc)
+        : query.format === "html"
+          ? renderHtmlExport(doc)
+          : renderMarkdownExport(doc);
+    return c.body(body, 200, {
+      "content-type": EXPORT_CONTENT_TYPES[query.format],
+      "content-disposition": buildContentDisposition(buildExportFilename(title, query.format, now)),
+      "cache-control": "no-store"
+    });
+  } catch (error) {
+    return errorJson(c, 500, "CHAT_EXPORT_FAILED", unknownErrorMessage(error));
+  }
+});
+
+/** Sessions searched concurrently; each one wakes its own Durable Object. */
+const SEARCH_FAN_OUT_CONCURRENCY = 8;
+
+app.get("/api/chat/search", validateQuery(chatSearchQuerySchema), async (c) => {
+  const start = Date.now();
+  try {
+    const query = c.req.valid("query") as z.infer<typeof chatSearchQuerySchema>;
+    if (c.get("share")) {
+      return errorJson(c, 403, "SHARE_LINK_FORBIDDEN", "Share links cannot search sessions");
+    }
+    const limit = query.limit ?? SEARCH_DEFAULT_LIMIT;
+    const directory = await getSessionDirectory(c.env);
+    // The most recently active sessions of the caller; older ones are reported as skipped.
+    const page: SessionIndexPage = await directory.listSessions({
+      limit: SESSION_INDEX_MAX_LIMIT,
+      ownerId: c.get("identity")?.userId
+    });
+    const sessions = page.sessions.filter((session) => session.messageCount > 0);
+
+    const results: SessionSearchHit[] = [];
+    const failedSessionIds: string[] = [];
+    for (let index = 0; index < sessions.length; index += SEARCH_FAN_OUT_CONCURRENCY) {
+      const batch = sessions.slice(index, index + SEARCH_FAN_OUT_CONCURRENCY);
+      await Promise.all(
+        batch.map(async (session) => {
+          try {
+            const agent = await getAgentByName(c.env.ChatAgentV2, session.sessionId);
+            const hits = await agent.searchMessages(query.q, limit);
+            for (const hit of hits) {
+              results.push({ ...hit, sessionId: session.sessionId, sessionTitle: session.title });
+            }
+          } catch (error) {
+            console.error(`Error searching session ${session.sessionId}:`, error);
+            failedSessionIds.push(session.sessionId);
+          }
+        })
+      );
+    }
+
+    return successJson(c, {
+      query: query.q,
+      results: results.sort(compareSearchHits).slice(0, limit),
+      searchedSessions: sessions.length - failedSessionIds.length,
+      failedSessionIds,
+      truncated: Boolean(page.nextCursor),
+      traceId: c.get("requestId"),
+      tookMs: Date.now() - start
+    });
+  } catch (error) {
+    return errorJson(c, 500, "CHAT_SEARCH_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.get("/api/chat/messages", validateQuery(chatHistoryPageQuerySchema), async (c) => {
+  const start = Date.now();
+  try {
+    const query = c.req.valid("query") as z.infer<typeof chatHistoryPageQuerySchema>;
+    const sessionId = resolveSessionId(query);
+
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.getHistoryPage({ cursor: query.cursor, limit: query.limit });
+    if (!result?.success || !result.page || !result.etag) {
+      return errorJson(c, 400, "CHAT_HISTORY_CURSOR_INVALID", result?.error || "Invalid cursor");
+    }
+
+    c.header("etag", result.etag);
+    c.header("cache-control", "private, no-cache");
+    if (c.req.header("if-none-match") === result.etag) {
+      return c.body(null, 304);
+    }
+    return successJson(c, {
+      messages: result.page.messages,
+      nextCursor: result.page.nextCursor,
+      stateVersion: result.stateVersion,
+      sessionId,
+      traceId: c.get("requestId"),
+      tookMs: Date.now() - start
+    });
+  } catch (error) {
+    return errorJson(c, 500, "CHAT_HISTORY_FAILED", unknownErrorMessage(error));
+  }
+});
+
 app.get("/api/chat/sessions", validateQuery(chatSessionsQuerySchema), async (c) => {
   const start = Date.now();
   try {
     const query = c.req.valid("query") as z.infer<typeof chatSessionsQuerySchema>;
     const requestedSessionIds = parseSessionIds(query.sessionIds);
+    const identity = c.get("identity");
+    const directory = await getSessionDirectory(c.env);
+
+    if (requestedSessionIds.length === 0) {
+      const page = await directory.listSessions({
+        cursor: query.cursor,
+        limit: query.limit,
+        ownerId: identity?.userId
+      });
+      return successJson(c, {
+        sessions: page.sessions.map(toSessionSummary),
+        nextCursor: page.nextCursor ?? null,
+        traceId: c.get("requestId"),
+        tookMs: Date.now() - start
+      });
+    }
 
+    const indexedEntries: SessionIndexEntry[] = await directory.getSessions(requestedSessionIds);
+    const indexed = new Map(indexedEntries.map((entry) => [entry.sessionId, entry]));
+    const visibleSessionIds = requestedSessionIds.filter((sessionId) =>
+      canAccessSession(indexed.get(sessionId)?.ownerId, identity)
+    );
     const sessions = await Promise.all(
-      requestedSessionIds.map(async (sessionId) => {
+      visibleSessionIds.map(async (sessionId) => {
+        const entry = indexed.get(sessionId);
+        if (entry) {
+          return toSessionSummary(entry);
+        }
+        // Sessions created before the directory existed are probed directly.
         try {
           const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
           const history = await agent.getHistory();
@@ -148,12 +545,13 @@ app.get("/api/chat/permissions", validateQuery(chatHistoryQuerySchema), async (c
   try {
     const query = c.req.valid("query") as z.infer<typeof chatHistoryQuerySchema>;
     const sessionId = resolveSessionId(query);
-    const mode = c.req.query("mode");
-    const readonly = mode === "view";
+    const share = c.get("share");
 
     return successJson(c, {
-      canEdit: !readonly,
-      readonly,
+      canEdit: !share,
+      readonly: Boolean(share),
+      canComment: !share || share.scope === "comment",
+      ...(share ? { shareScope: share.scope } : {}),
       sessionId
     });
   } catch (error) {
@@ -235,6 +633,7 @@ app.post("/api/chat/edit", validateJson(editBodySchema), async (c) => {
 
     return successJson(c, {
       updated: result.updated,
+      messageId: result.messageId,
       sessionId
     });
   } catch (error) {
@@ -242,6 +641,26 @@ app.post("/api/chat/edit", validateJson(editBodySchema), async (c) => {
   }
 });
 
+app.post("/api/chat/branch", validateJson(switchBranchBodySchema), async (c) => {
+  try {
+    const body = c.req.valid("json") as z.infer<typeof switchBranchBodySchema>;
+    const sessionId = resolveSessionId(body);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.switchBranch(body.messageId);
+
+    if (!result.success) {
+      return errorJson(c, 400, "CHAT_SWITCH_BRANCH_FAILED", result.error || "Switch branch failed");
+    }
+
+    return successJson(c, {
+      switched: result.switched,
+      sessionId
+    });
+  } catch (error) {
+    return errorJson(c, 500, "CHAT_SWITCH_BRANCH_FAILED", unknownErrorMessage(error));
+  }
+});
+
 app.post("/api/chat/regenerate", validateJson(regenerateBodySchema), async (c) => {
   try {
     const body = c.req.valid("json") as z.infer<typeof regenerateBodySchema>;
@@ -249,6 +668,9 @@ app.post("/api/chat/regenerate", validateJson(regenerateBodySchema), async (c) =
     const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
     const result = await agent.regenerateFrom(body.messageId);
 
+    if (result.quota) {
+      return quotaErrorJson(c, result.quota);
+    }
     if (!result.success) {
       return errorJson(c, 400, "CHAT_REGENERATE_FAILED", result.error || "Regenerate failed");
     }
@@ -262,6 +684,34 @@ app.post("/api/chat/regenerate", validateJson(regenerateBodySchema), async (c) =
   }
 });
 
+/** `/api/chat/regenerate` as a UI message stream (SSE), with progress events and tool parts. */
+app.post("/api/chat/regenerate/stream", validateJson(regenerateBodySchema), async (c) => {
+  try {
+    const body = c.req.valid("json") as z.infer<typeof regenerateBodySchema>;
+    const sessionId = resolveSessionId(body);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.streamRegeneration(body.messageId);
+
+    if (!result.success) {
+      if (result.quota) {
+        return quotaErrorJson(c, result.quota);
+      }
+      return errorJson(c, 400, "CHAT_REGENERATE_FAILED", result.error || "Regenerate failed");
+    }
+
+    return new Response(result.stream, {
+      headers: {
+        "content-type": "text/event-stream",
+        "cache-control": "no-cache",
+        "x-vercel-ai-ui-message-stream": "v1",
+        "x-request-id": c.get("requestId")
+      }
+    });
+  } catch (error) {
+    return errorJson(c, 500, "CHAT_REGENERATE_FAILED", unknownErrorMessage(error));
+  }
+});
+
 app.post("/api/chat/fork", validateJson(forkBodySchema), async (c) => {
   try {
     const body = c.req.valid("json") as z.infer<typeof forkBodySchema>;
@@ -282,6 +732,165 @@ app.post("/api/chat/fork", validateJson(forkBodySchema), async (c) => {
   }
 });
 
+app.post("/api/chat/share", validateJson(createShareLinkBodySchema), async (c) => {
+  try {
+    const body = c.req.valid("json") as z.infer<typeof createShareLinkBodySchema>;
+    const sessionId = resolveSessionId(body);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.createShareLink({
+      scope: body.scope,
+      expiresInSeconds: body.expiresInSeconds
+    });
+
+    if (!result.success || !result.link) {
+      return errorJson(c, 400, "SHARE_LINK_CREATE_FAILED", result.error || "Create failed");
+    }
+
+    return successJson(c, {
+      link: toShareLinkResponse(c.req.url, result.link),
+      sessionId
+    });
+  } catch (error) {
+    return errorJson(c, 500, "SHARE_LINK_CREATE_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.get("/api/chat/share", validateQuery(chatHistoryQuerySchema), async (c) => {
+  try {
+    const query = c.req.valid("query") as z.infer<typeof chatHistoryQuerySchema>;
+    const sessionId = resolveSessionId(query);
+    if (c.get("share")) {
+      return errorJson(c, 403, "SHARE_LINK_FORBIDDEN", "Share links cannot list share links");
+    }
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const links: ShareLinkRecord[] = await agent.listShareLinks();
+
+    return successJson(c, {
+      links: links.map((link) => toShareLinkResponse(c.req.url, link)),
+      sessionId
+    });
+  } catch (error) {
+    return errorJson(c, 500, "SHARE_LINK_LIST_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.delete("/api/chat/share", validateQuery(revokeShareLinkQuerySchema), async (c) => {
+  try {
+    const query = c.req.valid("query") as z.infer<typeof revokeShareLinkQuerySchema>;
+    const sessionId = resolveSessionId(query);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.revokeShareLink(query.shareId);
+
+    if (!result.success) {
+      return errorJson(c, 404, "SHARE_LINK_REVOKE_FAILED", result.error || "Revoke failed");
+    }
+
+    return successJson(c, {
+      revoked: result.revoked,
+      sessionId
+    });
+  } catch (error) {
+    return errorJson(c, 500, "SHARE_LINK_REVOKE_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.get("/api/models", validateQuery(chatHistoryQuerySchema), async (c) => {
+  try {
+    const query = c.req.valid("query") as z.infer<typeof chatHistoryQuerySchema>;
+    const sessionId = resolveSessionId(query);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.listModels();
+
+    return successJson(c, {
+      sessionId,
+      models: result.models,
+      selected: result.selected
+    });
+  } catch (error) {
+    return errorJson(c, 500, "MODEL_LIST_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.post("/api/chat/model", validateJson(modelSelectionBodySchema), async (c) => {
+  try {
+    const body = c.req.valid("json") as z.infer<typeof modelSelectionBodySchema>;
+    const sessionId = resolveSessionId(body);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.setModel(body.model);
+
+    if (!result.success) {
+      return errorJson(c, 400, "MODEL_SELECT_FAILED", result.error || "Model selection failed");
+    }
+
+    return successJson(c, {
+      sessionId,
+      model: result.model,
+      stateVersion: result.stateVersion
+    });
+  } catch (error) {
+    return errorJson(c, 500, "MODEL_SELECT_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.get("/api/chat/settings", validateQuery(chatHistoryQuerySchema), async (c) => {
+  try {
+    const query = c.req.valid("query") as z.infer<typeof chatHistoryQuerySchema>;
+    const sessionId = resolveSessionId(query);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.getSettings();
+
+    return successJson(c, {
+      sessionId,
+      ...result
+    });
+  } catch (error) {
+    return errorJson(c, 500, "SETTINGS_FETCH_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.post("/api/chat/settings", validateJson(updateSettingsBodySchema), async (c) => {
+  try {
+    const body = c.req.valid("json") as z.infer<typeof updateSettingsBodySchema>;
+    const sessionId = resolveSessionId(body);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.updateSettings(body.settings);
+
+    if (!result.success) {
+      return errorJson(c, 400, "SETTINGS_UPDATE_FAILED", result.error || "Settings update failed");
+    }
+
+    return successJson(c, {
+      sessionId,
+      settings: result.settings,
+      effective: result.effective,
+      stateVersion: result.stateVersion
+    });
+  } catch (error) {
+    return errorJson(c, 500, "SETTINGS_UPDATE_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.post("/api/chat/lifecycle", validateJson(updateLifecycleBodySchema), async (c) => {
+  try {
+    const body = c.req.valid("json") as z.infer<typeof updateLifecycleBodySchema>;
+    const sessionId = resolveSessionId(body);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.updateLifecycle(body.lifecycle);
+
+    if (!result.success) {
+      return errorJson(c, 400, "LIFECYCLE_UPDATE_FAILED", result.error || "Lifecycle update failed");
+    }
+
+    return successJson(c, {
+      sessionId,
+      lifecycle: result.lifecycle,
+      stateVersion: result.stateVersion
+    });
+  } catch (error) {
+    return errorJson(c, 500, "LIFECYCLE_UPDATE_FAILED", unknownErrorMessage(error));
+  }
+});
+
 app.get("/api/mcp/servers", validateQuery(chatHistoryQuerySchema), async (c) => {
   try {
     const query = c.req.valid("query") as z.infer<typeof chatHistoryQuerySchema>;
@@ -312,6 +921,7 @@ app.post("/api/mcp/toggle", validateJson(mcpServerBodySchema), async (c) => {
 
     return successJson(c, {
       active: result.active,
+      authUrl: result.authUrl,
       sessionId,
       stateVersion: result.stateVersion
     });
@@ -333,6 +943,7 @@ app.post("/api/mcp/activate", validateJson(mcpServerBodySchema), async (c) => {
 
     return successJson(c, {
       sessionId,
+      authUrl: result.authUrl,
       stateVersion: result.stateVersion
     });
   } catch (error) {
@@ -340,6 +951,27 @@ app.post("/api/mcp/activate", validateJson(mcpServerBodySchema), async (c) => {
   }
 });
 
+app.post("/api/mcp/reauthorize", validateJson(mcpServerBodySchema), async (c) => {
+  try {
+    const body = c.req.valid("json") as z.infer<typeof mcpServerBodySchema>;
+    const sessionId = resolveSessionId(body);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.reauthorizeServer(body.name);
+
+    if (!result.success) {
+      return errorJson(c, 400, "MCP_SERVER_REAUTH_FAILED", result.error || "Re-authorization failed");
+    }
+
+    return successJson(c, {
+      sessionId,
+      authUrl: result.authUrl,
+      stateVersion: result.stateVersion
+    });
+  } catch (error) {
+    return errorJson(c, 500, "MCP_SERVER_REAUTH_FAILED", unknownErrorMessage(error));
+  }
+});
+
 app.post("/api/mcp/deactivate", validateJson(mcpServerBodySchema), async (c) => {
   try {
     const body = c.req.valid("json") as z.infer<typeof mcpServerBodySchema>;
@@ -360,6 +992,69 @@ app.post("/api/mcp/deactivate", validateJson(mcpServerBodySchema), async (c) =>
   }
 });
 
+app.post("/api/mcp/custom", validateJson(customMcpServerBodySchema), async (c) => {
+  try {
+    const body = c.req.valid("json") as z.infer<typeof customMcpServerBodySchema>;
+    const sessionId = resolveSessionId(body);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.addCustomServer(body.server);
+
+    if (!result.success) {
+      return errorJson(c, 400, "MCP_CUSTOM_SERVER_SAVE_FAILED", result.error || "Save failed");
+    }
+
+    return successJson(c, {
+      sessionId,
+      server: result.server,
+      active: result.active,
+      activationError: result.activationError,
+      authUrl: result.authUrl,
+      stateVersion: result.stateVersion
+    });
+  } catch (error) {
+    return errorJson(c, 500, "MCP_CUSTOM_SERVER_SAVE_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.delete("/api/mcp/custom", validateQuery(removeCustomMcpServerQuerySchema), async (c) => {
+  try {
+    const query = c.req.valid("query") as z.infer<typeof removeCustomMcpServerQuerySchema>;
+    const sessionId = resolveSessionId(query);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.removeCustomServer(query.name);
+
+    if (!result.success) {
+      return errorJson(c, 404, "MCP_CUSTOM_SERVER_REMOVE_FAILED", result.error || "Remove failed");
+    }
+
+    return successJson(c, {
+      sessionId,
+      stateVersion: result.stateVersion
+    });
+  } catch (error) {
+    return errorJson(c, 500, "MCP_CUSTOM_SERVER_REMOVE_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.post("/api/mcp/custom/test", validateJson(customMcpServerBodySchema), async (c) => {
+  try {
+    const body = c.req.valid("json") as z.infer<typeof customMcpServerBodySchema>;
+    const sessionId = resolveSessionId(body);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.testCustomServer(body.server);
+
+    return successJson(c, {
+      sessionId,
+      reachable: result.success,
+      toolCount: result.toolCount,
+      requiresAuth: result.requiresAuth,
+      reason: result.error
+    });
+  } catch (error) {
+    return errorJson(c, 500, "MCP_CUSTOM_SERVER_TEST_FAILED", unknownErrorMessage(error));
+  }
+});
+
 app.get("/api/tools", validateQuery(chatHistoryQuerySchema), async (c) => {
   try {
     const query = c.req.valid("query") as z.infer<typeof chatHistoryQuerySchema>;
@@ -377,6 +1072,79 @@ app.get("/api/tools", validateQuery(chatHistoryQuerySchema), async (c) => {
   }
 });
 
+app.get("/api/mcp/resources", validateQuery(chatHistoryQuerySchema), async (c) => {
+  try {
+    const query = c.req.valid("query") as z.infer<typeof chatHistoryQuerySchema>;
+    const sessionId = resolveSessionId(query);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const resources = await agent.getAvailableResources();
+
+    return successJson(c, {
+      resources,
+      count: resources.length,
+      sessionId
+    });
+  } catch (error) {
+    return errorJson(c, 500, "MCP_RESOURCES_LIST_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.get("/api/mcp/resource", validateQuery(readMcpResourceQuerySchema), async (c) => {
+  try {
+    const query = c.req.valid("query") as z.infer<typeof readMcpResourceQuerySchema>;
+    const sessionId = resolveSessionId(query);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.readResource(query.serverId, query.uri);
+    if (!result.success) {
+      return errorJson(c, 400, "MCP_RESOURCE_READ_FAILED", result.error || "Read failed");
+    }
+
+    return successJson(c, {
+      contents: result.contents,
+      sessionId
+    });
+  } catch (error) {
+    return errorJson(c, 500, "MCP_RESOURCE_READ_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.get("/api/mcp/prompts", validateQuery(chatHistoryQuerySchema), async (c) => {
+  try {
+    const query = c.req.valid("query") as z.infer<typeof chatHistoryQuerySchema>;
+    const sessionId = resolveSessionId(query);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const prompts = await agent.getAvailablePrompts();
+
+    return successJson(c, {
+      prompts,
+      count: prompts.length,
+      sessionId
+    });
+  } catch (error) {
+    return errorJson(c, 500, "MCP_PROMPTS_LIST_FAILED", unknownErrorMessage(error));
+  }
+});
+
+app.post("/api/mcp/prompt", validateJson(mcpPromptBodySchema), async (c) => {
+  try {
+    const body = c.req.valid("json") as z.infer<typeof mcpPromptBodySchema>;
+    const sessionId = resolveSessionId(body);
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const result = await agent.getPrompt(body.serverId, body.name, body.arguments);
+    if (!result.success) {
+      return errorJson(c, 400, "MCP_PROMPT_GET_FAILED", result.error || "Prompt failed");
+    }
+
+    return successJson(c, {
+      messages: result.messages,
+      description: result.description,
+      sessionId
+    });
+  } catch (error) {
+    return errorJson(c, 500, "MCP_PROMPT_GET_FAILED", unknownErrorMessage(error));
+  }
+});
+
 app.get("/api/runtime/snapshot", validateQuery(chatHistoryQuerySchema), async (c) => {
   try {
     const query = c.req.valid("query") as z.infer<typeof chatHistoryQuerySchema>;
@@ -431,6 +1199,7 @@ app.post("/api/runtime/approvals/decision", validateJson(toolApprovalDecisionBod
 
     return successJson(c, {
       sessionId,
+      resumed: Boolean(result.resumed),
       stateVersion: result.stateVersion
     });
   } catch (error) {
@@ -438,6 +1207,30 @@ app.post("/api/runtime/approvals/decision", validateJson(toolApprovalDecisionBod
   }
 });
 
+app.get("/api/usage", validateQuery(usageQuerySchema), async (c) => {
+  try {
+    const query = c.req.valid("query") as z.infer<typeof usageQuerySchema>;
+    const sessionId = resolveSessionId(query);
+    if (c.get("share")) {
+      return errorJson(c, 403, "SHARE_LINK_FORBIDDEN", "Share links cannot read usage");
+    }
+    const agent = await getAgentByName(c.env.ChatAgentV2, sessionId);
+    const report = await agent.getUsage({
+      model: query.model,
+      from: query.from,
+      to: query.to,
+      limit: query.limit
+    });
+
+    return successJson(c, {
+      ...report,
+      sessionId
+    });
+  } catch (error) {
+    return errorJson(c, 500, "USAGE_FETCH_FAILED", unknownErrorMessage(error));
+  }
+});
+
 app.get("/api/health", (c) => {
   return successJson(c, {
     status: "healthy",
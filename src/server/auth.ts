@@ -0,0 +1,142 @@
+import type { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { getAgentByName } from "agents";
+import { getSessionDirectory } from "../demos/chat/session-directory";
+import { canAccessSession, createAuthenticatorFromEnv, type AuthIdentity } from "../shared/auth";
+import {
+  isShareRequestAllowed,
+  isShareableRequest,
+  readShareToken,
+  type ShareAccess
+} from "../shared/share-links";
+import { errorJson } from "./http";
+
+export type AuthVariables = {
+  requestId: string;
+  /** Null when authentication is disabled or the caller came in through a share link. */
+  identity: AuthIdentity | null;
+  /** Set when the request carries a valid share token. */
+  share: ShareAccess | null;
+};
+
+type AuthEnv = { Bindings: Env; Variables: AuthVariables };
+
+const PUBLIC_API_PATHS = new Set([
+  "/api/health",
+  "/api/auth/login",
+  "/api/auth/logout",
+  "/api/auth/me"
+]);
+
+/**
+ * Resolve the caller for every API and agent request. With authentication enabled,
+ * requests no provider vouches for are rejected before reaching a route, unless they
+ * carry a share token for the ownership checks below to verify.
+ */
+export const requireIdentity = createMiddleware<AuthEnv>(async (c, next) => {
+  c.set("share", null);
+  const authenticator = createAuthenticatorFromEnv(c.env);
+  if (!authenticator.enabled) {
+    c.set("identity", null);
+    return await next();
+  }
+
+  const identity = await authenticator.authenticate(c.req.raw);
+  c.set("identity", identity);
+  if (!identity && !PUBLIC_API_PATHS.has(c.req.path) && !readShareToken(c.req.raw)) {
+    return errorJson(c, 401, "UNAUTHENTICATED", "Authentication required");
+  }
+  await next();
+});
+
+/**
+ * Claim sessions the directory has never seen for the caller; returns false when the
+ * session belongs to someone else or was recorded without an owner.
+ */
+export async function authorizeSession(
+  env: Env,
+  identity: AuthIdentity | null,
+  sessionId: string
+): Promise<boolean> {
+  if (!identity) return true;
+  const directory = await getSessionDirectory(env);
+  const ownerId = await directory.claimSession(sessionId, identity.userId);
+  return canAccessSession(ownerId, identity);
+}
+
+async function resolveShareAccess(
+  env: Env,
+  sessionId: string,
+  token: string
+): Promise<ShareAccess | null> {
+  const agent = await getAgentByName(env.ChatAgentV2, sessionId);
+  return await agent.resolveShareToken(token);
+}
+
+/**
+ * Share tokens only get as far as the routes some share scope allows. The session they
+ * were issued for is checked once the route has validated its input.
+ */
+export const screenShareRequests = createMiddleware<AuthEnv>(async (c, next) => {
+  if (readShareToken(c.req.raw) && !isShareableRequest(c.req.method, c.req.path)) {
+    return errorJson(c, 403, "SHARE_LINK_FORBIDDEN", "This share link does not allow this action");
+  }
+  await next();
+});
+
+/**
+ * Enforce access to `sessionId`, which must be the validated value the route acts on:
+ * share tokens are verified by that session and limited to what their scope allows,
+ * everyone else must own it. Returns the error response to send, if any.
+ */
+export async function authorizeSessionRequest(
+  c: Context<AuthEnv>,
+  sessionId: string
+): Promise<Response | null> {
+  const shareToken = readShareToken(c.req.raw);
+  if (shareToken) {
+    const share = await resolveShareAccess(c.env, sessionId, shareToken);
+    if (!share) {
+      return errorJson(c, 403, "SHARE_LINK_INVALID", "This share link is invalid, expired or revoked");
+    }
+    if (!isShareRequestAllowed(share.scope, c.req.method, c.req.path)) {
+      return errorJson(c, 403, "SHARE_LINK_FORBIDDEN", "This share link does not allow this action");
+    }
+    c.set("share", share);
+    return null;
+  }
+
+  if (!(await authorizeSession(c.env, c.get("identity"), sessionId))) {
+    return errorJson(c, 403, "SESSION_FORBIDDEN", "This session belongs to another user");
+  }
+  return null;
+}
+
+/**
+ * Agent routes look like `/agents/<agent>/<name>/...`. Chat agents are named after their
+ * session; the session directory is internal and never reachable once auth is enabled.
+ */
+export const requireAgentOwner = createMiddleware<AuthEnv>(async (c, next) => {
+  const [, , agent, rawName] = c.req.path.split("/");
+  const name = rawName ? decodeURIComponent(rawName) : "";
+  const shareToken = readShareToken(c.req.raw);
+  if (shareToken) {
+    const share =
+      agent === "chat-agent-v2" && name ? await resolveShareAccess(c.env, name, shareToken) : null;
+    if (!share || !isShareRequestAllowed(share.scope, c.req.method, c.req.path)) {
+      return errorJson(c, 403, "SHARE_LINK_INVALID", "This share link is invalid, expired or revoked");
+    }
+    c.set("share", share);
+    return await next();
+  }
+
+  const identity = c.get("identity");
+  if (!identity) return await next();
+  if (agent === "chat-agent-v2" && name) {
+    if (!(await authorizeSession(c.env, identity, name))) {
+      return errorJson(c, 403, "SESSION_FORBIDDEN", "This session belongs to another user");
+    }
+    return await next();
+  }
+  return errorJson(c, 403, "AGENT_FORBIDDEN", "This agent is not available");
+});
@@ -1,9 +1,10 @@
 import { describe, expect, it, vi } from "vitest";
 import {
   cancelIdleSchedules,
+  describeLifecycle,
   destroyIfIdle,
   resolveIdleTimeoutSeconds,
-  scheduleIdleDestroy
+  scheduleIdleTimeout
 } from "./agent-lifecycle";
 
 function createAgent(overrides: Partial<{
@@ -29,16 +30,34 @@ describe("agent lifecycle helpers", () => {
     expect(agent.cancelSchedule).toHaveBeenCalledWith("1");
   });
 
-  it("schedules idle destroy only when no active connections", () => {
+  it("schedules the idle timeout only when no active connections", () => {
     const idleAgent = createAgent({ connections: [] });
-    scheduleIdleDestroy(idleAgent, { idleTimeoutSeconds: 33 });
+    const firesAt = scheduleIdleTimeout(idleAgent, { idleTimeoutSeconds: 33, now: 0 });
     expect(idleAgent.schedule).toHaveBeenCalledWith(33, "onIdleTimeout", {});
+    expect(firesAt?.toISOString()).toBe("1970-01-01T00:00:33.000Z");
 
     const activeAgent = createAgent({ connections: [{}] });
-    scheduleIdleDestroy(activeAgent, { idleTimeoutSeconds: 33 });
+    expect(scheduleIdleTimeout(activeAgent, { idleTimeoutSeconds: 33 })).toBeNull();
     expect(activeAgent.schedule).not.toHaveBeenCalled();
   });
 
+  it("reports expiry only for ephemeral sessions", () => {
+    const idleTimeoutAt = "2026-01-01T00:15:00.000Z";
+    expect(describeLifecycle(undefined, 900)).toEqual({
+      mode: "persistent",
+      idleTimeoutSeconds: 900,
+      hibernated: false,
+      hibernatesAt: null,
+      expiresAt: null
+    });
+    expect(describeLifecycle({ mode: "persistent", idleTimeoutAt }, 900).hibernatesAt).toBe(
+      idleTimeoutAt
+    );
+    expect(
+      describeLifecycle({ mode: "ephemeral", idleTimeoutSeconds: 60, idleTimeoutAt }, 900)
+    ).toMatchObject({ idleTimeoutSeconds: 60, expiresAt: idleTimeoutAt, hibernatesAt: null });
+  });
+
   it("destroys only when idle", async () => {
     const idleAgent = createAgent({ connections: [] });
     const idleResult = await destroyIfIdle(idleAgent);
@@ -11,8 +11,35 @@ interface SchedulableAgent {
 
 export interface LifecycleConfig {
   idleTimeoutSeconds?: number;
+  now?: number;
 }
 
+/**
+ * Persistent sessions keep their history and only release in-memory resources when
+ * idle; ephemeral sessions are destroyed once their idle timeout elapses.
+ */
+export type SessionLifecycleMode = "persistent" | "ephemeral";
+
+export interface SessionLifecycleState {
+  mode: SessionLifecycleMode;
+  /** Idle timeout override; falls back to `AGENT_IDLE_TIMEOUT_SECONDS`. */
+  idleTimeoutSeconds?: number;
+  /** When the pending idle callback fires; unset while a client is connected. */
+  idleTimeoutAt?: string;
+  /** Set once a persistent session has released its resources. */
+  hibernatedAt?: string;
+}
+
+export interface SessionLifecycleSnapshot {
+  mode: SessionLifecycleMode;
+  idleTimeoutSeconds: number;
+  hibernated: boolean;
+  hibernatesAt: string | null;
+  expiresAt: string | null;
+}
+
+export const DEFAULT_SESSION_LIFECYCLE: SessionLifecycleState = { mode: "persistent" };
+
 export function cancelIdleSchedules(
   agent: SchedulableAgent,
   callbackName = IDLE_CALLBACK
@@ -24,17 +51,34 @@ export function cancelIdleSchedules(
   }
 }
 
-export function scheduleIdleDestroy(
+/** Schedule the idle callback when nobody is connected; returns when it will fire. */
+export function scheduleIdleTimeout(
   agent: SchedulableAgent,
   config: LifecycleConfig = {}
-): void {
+): Date | null {
   const remaining = [...agent.getConnections()].length;
   if (remaining > 0) {
-    return;
+    return null;
   }
 
   const timeoutSeconds = config.idleTimeoutSeconds ?? DEFAULT_IDLE_TIMEOUT_SECONDS;
   agent.schedule(timeoutSeconds, IDLE_CALLBACK as never, {});
+  return new Date((config.now ?? Date.now()) + timeoutSeconds * 1000);
+}
+
+export function describeLifecycle(
+  lifecycle: SessionLifecycleState | undefined,
+  defaultIdleTimeoutSeconds: number
+): SessionLifecycleSnapshot {
+  const current = lifecycle ?? DEFAULT_SESSION_LIFECYCLE;
+  const pendingAt = current.idleTimeoutAt ?? null;
+  return {
+    mode: current.mode,
+    idleTimeoutSeconds: current.idleTimeoutSeconds ?? defaultIdleTimeoutSeconds,
+    hibernated: Boolean(current.hibernatedAt),
+    hibernatesAt: current.mode === "persistent" && !current.hibernatedAt ? pendingAt : null,
+    expiresAt: current.mode === "ephemeral" ? pendingAt : null
+  };
 }
 
 export async function destroyIfIdle(agent: SchedulableAgent): Promise<boolean> {
@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  AUTH_COOKIE_NAME,
+  canAccessSession,
+  createApiKeyProvider,
+  createAuthenticator,
+  createAuthenticatorFromEnv,
+  createPasswordProvider,
+  hashPassword,
+  issueSessionToken,
+  parseCredentialList,
+  verifyPassword,
+  verifySessionToken,
+  type AuthProvider
+} from "./auth";
+
+const SECRET = "test-secret";
+
+function request(headers: Record<string, string> = {}) {
+  return new Request("https://chat.example/api/chat/sessions", { headers });
+}
+
+// Stands in for an external identity provider: trusts a fixed header.
+const headerProvider: AuthProvider = {
+  id: "stub",
+  authenticate: async (req) => {
+    const user = req.headers.get("x-test-user");
+    return user ? { userId: user, provider: "stub" } : null;
+  }
+};
+
+describe("session tokens", () => {
+  it("round-trips an identity until it expires", async () => {
+    const now = Date.UTC(2026, 0, 1);
+    const token = await issueSessionToken(
+      SECRET,
+      { userId: "ada", provider: "password" },
+      { ttlSeconds: 60, now }
+    );
+    expect(await verifySessionToken(SECRET, token, now)).toEqual({
+      userId: "ada",
+      provider: "password"
+    });
+    expect(await verifySessionToken(SECRET, token, now + 61_000)).toBeNull();
+  });
+
+  it("rejects tampered tokens and other secrets", async () => {
+    const token = await issueSessionToken(SECRET, { userId: "ada", provider: "password" });
+    const [, signature] = token.split(".");
+    const forged = `${btoa(JSON.stringify({ sub: "eve", exp: 9_999_999_999 }))}.${signature}`;
+    expect(await verifySessionToken(SECRET, forged)).toBeNull();
+    expect(await verifySessionToken("other-secret", token)).toBeNull();
+    expect(await verifySessionToken(SECRET, "garbage")).toBeNull();
+  });
+});
+
+describe("providers", () => {
+  it("verifies PBKDF2 password hashes", async () => {
+    const encoded = await hashPassword("correct horse", { iterations: 1_000 });
+    expect(encoded).toMatch(/^pbkdf2\$1000\$/);
+    expect(await verifyPassword("correct horse", encoded)).toBe(true);
+    expect(await verifyPassword("wrong", encoded)).toBe(false);
+    expect(await verifyPassword("correct horse", "plain-text")).toBe(false);
+
+    const provider = createPasswordProvider([{ userId: "ada", secret: encoded }]);
+    expect(await provider.login?.({ username: "ada", password: "correct horse" })).toEqual({
+      userId: "ada",
+      provider: "password"
+    });
+    expect(await provider.login?.({ username: "bob", password: "correct horse" })).toBeNull();
+  });
+
+  it("accepts API keys as bearer tokens, headers, or login credentials", async () => {
+    const provider = createApiKeyProvider(parseCredentialList("ada:key-a, bob:key-b, broken"));
+    expect(await provider.authenticate?.(request({ authorization: "Bearer key-b" }))).toEqual({
+      userId: "bob",
+      provider: "api-key"
+    });
+    expect((await provider.authenticate?.(request({ "x-api-key": "key-a" })))?.userId).toBe("ada");
+    expect(await provider.authenticate?.(request({ authorization: "Bearer nope" }))).toBeNull();
+    expect((await provider.login?.({ apiKey: "key-a" }))?.userId).toBe("ada");
+  });
+
+  it("tries providers in order", async () => {
+    const authenticator = createAuthenticator([
+      headerProvider,
+      createApiKeyProvider([{ userId: "ada", secret: "key-a" }])
+    ]);
+    expect(authenticator.enabled).toBe(true);
+    expect(
+      (await authenticator.authenticate(request({ "x-test-user": "eve", "x-api-key": "key-a" })))
+        ?.userId
+    ).toBe("eve");
+    expect((await authenticator.authenticate(request({ "x-api-key": "key-a" })))?.userId).toBe(
+      "ada"
+    );
+    expect(await authenticator.authenticate(request())).toBeNull();
+  });
+});
+
+describe("createAuthenticatorFromEnv", () => {
+  it("stays disabled until a provider is configured", () => {
+    expect(createAuthenticatorFromEnv({}).enabled).toBe(false);
+    expect(() => createAuthenticatorFromEnv({ AUTH_API_KEYS: "ada:key-a" })).toThrow(/AUTH_SECRET/);
+  });
+
+  it("reads the session cookie issued at login", async () => {
+    const authenticator = createAuthenticatorFromEnv({
+      AUTH_SECRET: SECRET,
+      AUTH_API_KEYS: "ada:key-a"
+    });
+    const identity = await authenticator.login({ apiKey: "key-a" });
+    expect(identity?.userId).toBe("ada");
+
+    const token = await issueSessionToken(SECRET, identity!);
+    const cookie = `theme=dark; ${AUTH_COOKIE_NAME}=${token}`;
+    expect((await authenticator.authenticate(request({ cookie })))?.userId).toBe("ada");
+  });
+});
+
+describe("canAccessSession", () => {
+  it("lets owners in and keeps everyone else out of owned and unowned sessions", () => {
+    const ada = { userId: "ada", provider: "password" };
+    expect(canAccessSession("ada", ada)).toBe(true);
+    expect(canAccessSession(undefined, ada)).toBe(false);
+    expect(canAccessSession(null, ada)).toBe(false);
+    expect(canAccessSession("bob", ada)).toBe(false);
+    expect(canAccessSession("bob", null)).toBe(true);
+  });
+});
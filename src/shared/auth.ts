@@ -0,0 +1,324 @@
+export const AUTH_COOKIE_NAME = "chat_auth";
+
+const DEFAULT_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Workers rejects PBKDF2 above 100k iterations.
+const DEFAULT_PBKDF2_ITERATIONS = 100_000;
+
+export interface AuthIdentity {
+  userId: string;
+  /** Id of the provider that vouched for this identity. */
+  provider: string;
+}
+
+export interface AuthCredentials {
+  username?: string;
+  password?: string;
+  apiKey?: string;
+}
+
+/**
+ * A source of identities. `authenticate` reads credentials sent with every request
+ * (bearer keys, cookies); `login` verifies credentials exchanged once for a session cookie.
+ * An OIDC provider fits the same shape: its callback is `login`, its ID token `authenticate`.
+ */
+export interface AuthProvider {
+  id: string;
+  authenticate?: (request: Request) => Promise<AuthIdentity | null>;
+  login?: (credentials: AuthCredentials) => Promise<AuthIdentity | null>;
+}
+
+export interface AuthEnvironment {
+  AUTH_SECRET?: string;
+  AUTH_API_KEYS?: string;
+  AUTH_USERS?: string;
+  AUTH_SESSION_TTL_SECONDS?: string;
+}
+
+export interface Authenticator {
+  /** False when no provider is configured; every caller is then anonymous and unrestricted. */
+  enabled: boolean;
+  authenticate: (request: Request) => Promise<AuthIdentity | null>;
+  login: (credentials: AuthCredentials) => Promise<AuthIdentity | null>;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+  try {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+function constantTimeEqual(left: Uint8Array, right: Uint8Array): boolean {
+  if (left.length !== right.length) return false;
+  let diff = 0;
+  for (let index = 0; index < left.length; index += 1) diff |= left[index] ^ right[index];
+  return diff === 0;
+}
+
+async function sha256(value: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(value)));
+}
+
+async function hmac(secret: string, value: string): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(value)));
+}
+
+async function pbkdf2(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number) {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, [
+    "deriveBits"
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    key,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+/** Encode a password as `pbkdf2$<iterations>$<salt>$<hash>` for `AUTH_USERS`. */
+export async function hashPassword(
+  password: string,
+  options: { salt?: Uint8Array<ArrayBuffer>; iterations?: number } = {}
+): Promise<string> {
+  const salt = options.salt ?? crypto.getRandomValues(new Uint8Array(16));
+  const iterations = options.iterations ?? DEFAULT_PBKDF2_ITERATIONS;
+  const hash = await pbkdf2(password, salt, iterations);
+  return `pbkdf2$${iterations}$${toBase64Url(salt)}$${toBase64Url(hash)}`;
+}
+
+export async function verifyPassword(password: string, encoded: string): Promise<boolean> {
+  const [scheme, rawIterations, rawSalt, rawHash] = encoded.split("$");
+  const iterations = Number(rawIterations);
+  const salt = rawSalt ? fromBase64Url(rawSalt) : null;
+  const expected = rawHash ? fromBase64Url(rawHash) : null;
+  if (
+    scheme !== "pbkdf2" ||
+    !Number.isInteger(iterations) ||
+    iterations < 1 ||
+    !salt ||
+    !expected
+  ) {
+    return false;
+  }
+  return constantTimeEqual(await pbkdf2(password, salt, iterations), expected);
+}
+
+/** Parse `user:secret` pairs separated by commas. Malformed entries are skipped. */
+export function parseCredentialList(
+  raw: string | undefined
+): Array<{ userId: string; secret: string }> {
+  if (!raw) return [];
+  return raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      return separator > 0
+        ? { userId: entry.slice(0, separator).trim(), secret: entry.slice(separator + 1).trim() }
+        : null;
+    })
+    .filter((entry): entry is { userId: string; secret: string } =>
+      Boolean(entry?.userId && entry.secret)
+    );
+}
+
+/** Sign JSON claims as a `<payload>.<mac>` token. */
+export async function signClaims(secret: string, claims: Record<string, unknown>): Promise<string> {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(claims)));
+  return `${payload}.${toBase64Url(await hmac(secret, payload))}`;
+}
+
+/** Claims of a token signed with `secret`, or null when it was tampered with or is malformed. */
+export async function verifyClaims(
+  secret: string,
+  token: string
+): Promise<Record<string, unknown> | null> {
+  const [payload, signature, extra] = token.split(".");
+  const provided = signature ? fromBase64Url(signature) : null;
+  if (!payload || !provided || extra !== undefined) return null;
+  if (!constantTimeEqual(await hmac(secret, payload), provided)) return null;
+
+  const bytes = fromBase64Url(payload);
+  if (!bytes) return null;
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(bytes)) as unknown;
+    return claims && typeof claims === "object" && !Array.isArray(claims)
+      ? (claims as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Token carried in the session cookie. */
+export async function issueSessionToken(
+  secret: string,
+  identity: AuthIdentity,
+  options: { ttlSeconds?: number; now?: number } = {}
+): Promise<string> {
+  const now = options.now ?? Date.now();
+  const expiresAt = Math.floor(now / 1000) + (options.ttlSeconds ?? DEFAULT_SESSION_TTL_SECONDS);
+  return await signClaims(secret, { sub: identity.userId, prv: identity.provider, exp: expiresAt });
+}
+
+export async function verifySessionToken(
+  secret: string,
+  token: string,
+  now = Date.now()
+): Promise<AuthIdentity | null> {
+  const claims = await verifyClaims(secret, token);
+  if (!claims || typeof claims.sub !== "string" || typeof claims.exp !== "number") return null;
+  if (claims.exp * 1000 <= now) return null;
+  return {
+    userId: claims.sub,
+    provider: typeof claims.prv === "string" ? claims.prv : "session"
+  };
+}
+
+export function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get("cookie");
+  if (!header) return null;
+  for (const part of header.split(";")) {
+    const separator = part.indexOf("=");
+    if (separator < 0) continue;
+    if (part.slice(0, separator).trim() !== name) continue;
+    try {
+      return decodeURIComponent(part.slice(separator + 1).trim());
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+export function resolveSessionTtlSeconds(env: AuthEnvironment): number {
+  const parsed = Number(env.AUTH_SESSION_TTL_SECONDS);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : DEFAULT_SESSION_TTL_SECONDS;
+}
+
+/** Accepts identities from the signed session cookie issued after a login. */
+export function createSessionCookieProvider(secret: string): AuthProvider {
+  return {
+    id: "session",
+    authenticate: async (request) => {
+      const token = readCookie(request, AUTH_COOKIE_NAME);
+      return token ? await verifySessionToken(secret, token) : null;
+    }
+  };
+}
+
+/** Keys sent as `Authorization: Bearer <key>` or `x-api-key`, or exchanged at login. */
+export function createApiKeyProvider(
+  keys: Array<{ userId: string; secret: string }>
+): AuthProvider {
+  const digests = Promise.all(
+    keys.map(async (entry) => ({ userId: entry.userId, digest: await sha256(entry.secret) }))
+  );
+  const match = async (apiKey: string): Promise<AuthIdentity | null> => {
+    const presented = await sha256(apiKey);
+    // Compare against every key so timing does not reveal which one matched.
+    let userId: string | null = null;
+    for (const entry of await digests) {
+      if (constantTimeEqual(entry.digest, presented)) userId = entry.userId;
+    }
+    return userId ? { userId, provider: "api-key" } : null;
+  };
+
+  return {
+    id: "api-key",
+    authenticate: async (request) => {
+      const bearer = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+      const apiKey = bearer ?? request.headers.get("x-api-key");
+      return apiKey ? await match(apiKey.trim()) : null;
+    },
+    login: async (credentials) => (credentials.apiKey ? await match(credentials.apiKey) : null)
+  };
+}
+
+/** Local username/password store; passwords are PBKDF2 hashes from `hashPassword`. */
+export function createPasswordProvider(
+  users: Array<{ userId: string; secret: string }>
+): AuthProvider {
+  const byName = new Map(users.map((user) => [user.userId, user.secret]));
+  return {
+    id: "password",
+    login: async ({ username, password }) => {
+      if (!username || !password) return null;
+      const encoded = byName.get(username);
+      if (!encoded) return null;
+      return (await verifyPassword(password, encoded))
+        ? { userId: username, provider: "password" }
+        : null;
+    }
+  };
+}
+
+export function createAuthenticator(providers: AuthProvider[]): Authenticator {
+  return {
+    enabled: providers.length > 0,
+    authenticate: async (request) => {
+      for (const provider of providers) {
+        const identity = await provider.authenticate?.(request);
+        if (identity) return identity;
+      }
+      return null;
+    },
+    login: async (credentials) => {
+      for (const provider of providers) {
+        const identity = await provider.login?.(credentials);
+        if (identity) return identity;
+      }
+      return null;
+    }
+  };
+}
+
+/**
+ * Build the authenticator configured by `AUTH_API_KEYS` and `AUTH_USERS`. Authentication
+ * stays off while neither is set; once either is, `AUTH_SECRET` must sign session cookies.
+ */
+export function createAuthenticatorFromEnv(env: AuthEnvironment): Authenticator {
+  const apiKeys = parseCredentialList(env.AUTH_API_KEYS);
+  const users = parseCredentialList(env.AUTH_USERS);
+  if (apiKeys.length === 0 && users.length === 0) {
+    return createAuthenticator([]);
+  }
+  if (!env.AUTH_SECRET) {
+    throw new Error("AUTH_SECRET is required when AUTH_API_KEYS or AUTH_USERS is set");
+  }
+
+  return createAuthenticator([
+    createSessionCookieProvider(env.AUTH_SECRET),
+    ...(apiKeys.length > 0 ? [createApiKeyProvider(apiKeys)] : []),
+    ...(users.length > 0 ? [createPasswordProvider(users)] : [])
+  ]);
+}
+
+/**
+ * Sessions belong to their owner only; new ones are claimed when created, so a session
+ * without an owner stays closed. With authentication off there is nothing to enforce.
+ */
+export function canAccessSession(
+  ownerId: string | null | undefined,
+  identity: AuthIdentity | null
+): boolean {
+  if (!identity) return true;
+  return Boolean(ownerId) && ownerId === identity.userId;
+}
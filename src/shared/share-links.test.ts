@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  SHARE_LINK_DEFAULT_TTL_SECONDS,
+  SHARE_LINK_MAX_TTL_SECONDS,
+  SHARE_LINK_MIN_TTL_SECONDS,
+  isShareRequestAllowed,
+  isShareableRequest,
+  issueShareToken,
+  normalizeShareTtlSeconds,
+  readShareToken,
+  verifyShareToken
+} from "./share-links";
+
+const SECRET = "share-secret";
+const NOW = Date.UTC(2026, 0, 1);
+const claims = {
+  shareId: "link-1",
+  sessionId: "session-1",
+  scope: "view" as const,
+  expiresAt: NOW / 1000 + 60
+};
+
+describe("share tokens", () => {
+  it("verifies signed tokens until they expire", async () => {
+    const token = await issueShareToken(SECRET, claims);
+    expect(await verifyShareToken(SECRET, token, NOW)).toEqual(claims);
+    expect(await verifyShareToken(SECRET, token, NOW + 61_000)).toBeNull();
+    expect(await verifyShareToken("other-secret", token, NOW)).toBeNull();
+  });
+
+  it("rejects tokens whose scope was rewritten", async () => {
+    const token = await issueShareToken(SECRET, claims);
+    const [, signature] = token.split(".");
+    const payload = btoa(
+      JSON.stringify({ jti: "link-1", sid: "session-1", scp: "comment", exp: 9e9 })
+    )
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+      .replace(/=+$/, "");
+    expect(await verifyShareToken(SECRET, `${payload}.${signature}`, NOW)).toBeNull();
+  });
+
+  it("reads the token from the header before the query", () => {
+    expect(
+      readShareToken(
+        new Request("https://chat.example/api/chat/messages?share=query-token", {
+          headers: { "x-share-token": "header-token" }
+        })
+      )
+    ).toBe("header-token");
+    expect(readShareToken(new Request("https://chat.example/?share=query-token"))).toBe(
+      "query-token"
+    );
+    expect(readShareToken(new Request("https://chat.example/?mode=view"))).toBeNull();
+  });
+});
+
+describe("share link policy", () => {
+  it("clamps lifetimes", () => {
+    expect(normalizeShareTtlSeconds(undefined)).toBe(SHARE_LINK_DEFAULT_TTL_SECONDS);
+    expect(normalizeShareTtlSeconds(1)).toBe(SHARE_LINK_MIN_TTL_SECONDS);
+    expect(normalizeShareTtlSeconds(1e12)).toBe(SHARE_LINK_MAX_TTL_SECONDS);
+  });
+
+  it("only lets comment links post messages", () => {
+    expect(isShareRequestAllowed("view", "GET", "/api/chat/messages")).toBe(true);
+    expect(isShareRequestAllowed("view", "POST", "/api/chat")).toBe(false);
+    expect(isShareRequestAllowed("comment", "POST", "/api/chat")).toBe(true);
+    expect(isShareRequestAllowed("comment", "POST", "/api/chat/attachments")).toBe(true);
+    expect(isShareRequestAllowed("comment", "POST", "/api/chat/edit")).toBe(false);
+    expect(isShareRequestAllowed("comment", "DELETE", "/api/chat/session")).toBe(false);
+  });
+
+  it("only allows the listed reads", () => {
+    expect(isShareRequestAllowed("view", "GET", "/api/chat/export")).toBe(true);
+    expect(isShareRequestAllowed("view", "GET", "/api/chat/attachments/a1")).toBe(true);
+    expect(isShareRequestAllowed("view", "GET", "/agents/chat-agent-v2/s1")).toBe(true);
+    expect(isShareRequestAllowed("view", "GET", "/agents/chat-agent-v2/s1/get-messages")).toBe(
+      true
+    );
+    expect(isShareRequestAllowed("comment", "GET", "/api/mcp/resource")).toBe(false);
+    expect(isShareRequestAllowed("view", "GET", "/api/chat/share")).toBe(false);
+    expect(isShareRequestAllowed("view", "GET", "/api/chat/sessions")).toBe(false);
+    expect(isShareRequestAllowed("view", "GET", "/api/usage")).toBe(false);
+    expect(isShareRequestAllowed("view", "GET", "/agents/session-directory/global")).toBe(false);
+  });
+
+  it("treats any request some scope allows as shareable", () => {
+    expect(isShareableRequest("POST", "/api/chat")).toBe(true);
+    expect(isShareableRequest("GET", "/api/chat/search")).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+import { signClaims, verifyClaims } from "./auth";
+
+/** `view` is read-only; `comment` may also add new messages to the conversation. */
+export type ShareScope = "view" | "comment";
+
+export const SHARE_TOKEN_HEADER = "x-share-token";
+export const SHARE_TOKEN_QUERY = "share";
+
+export const SHARE_LINK_DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+export const SHARE_LINK_MIN_TTL_SECONDS = 5 * 60;
+export const SHARE_LINK_MAX_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+export interface ShareClaims {
+  shareId: string;
+  sessionId: string;
+  scope: ShareScope;
+  /** Unix seconds. */
+  expiresAt: number;
+}
+
+/** A share link as resolved for one request or connection. */
+export interface ShareAccess {
+  shareId: string;
+  scope: ShareScope;
+}
+
+export function isShareScope(value: unknown): value is ShareScope {
+  return value === "view" || value === "comment";
+}
+
+export async function issueShareToken(secret: string, claims: ShareClaims): Promise<string> {
+  return await signClaims(secret, {
+    jti: claims.shareId,
+    sid: claims.sessionId,
+    scp: claims.scope,
+    exp: claims.expiresAt
+  });
+}
+
+/** Claims of a well-signed, unexpired token. Revocation is checked by the caller. */
+export async function verifyShareToken(
+  secret: string,
+  token: string,
+  now = Date.now()
+): Promise<ShareClaims | null> {
+  const claims = await verifyClaims(secret, token);
+  if (
+    !claims ||
+    typeof claims.jti !== "string" ||
+    typeof claims.sid !== "string" ||
+    !isShareScope(claims.scp) ||
+    typeof claims.exp !== "number" ||
+    claims.exp * 1000 <= now
+  ) {
+    return null;
+  }
+  return { shareId: claims.jti, sessionId: claims.sid, scope: claims.scp, expiresAt: claims.exp };
+}
+
+/** REST clients send the token as a header; websockets and links carry it in the query. */
+export function readShareToken(request: Request): string | null {
+  const header = request.headers.get(SHARE_TOKEN_HEADER)?.trim();
+  if (header) return header;
+  return new URL(request.url).searchParams.get(SHARE_TOKEN_QUERY)?.trim() || null;
+}
+
+export function normalizeShareTtlSeconds(ttlSeconds: number | undefined): number {
+  if (ttlSeconds === undefined || !Number.isFinite(ttlSeconds)) {
+    return SHARE_LINK_DEFAULT_TTL_SECONDS;
+  }
+  return Math.min(
+    Math.max(Math.floor(ttlSeconds), SHARE_LINK_MIN_TTL_SECONDS),
+    SHARE_LINK_MAX_TTL_SECONDS
+  );
+}
+
+/**
+ * Reads a share link may make. Routes that reach beyond the conversation, like MCP
+ * resources fetched with the owner's credentials, usage or search, are left out.
+ */
+const SHARE_READ_PATHS = new Set([
+  "/api/chat/history",
+  "/api/chat/messages",
+  "/api/chat/export",
+  "/api/chat/permissions",
+  "/api/chat/settings",
+  "/api/models",
+  "/api/tools",
+  "/api/mcp/servers",
+  "/api/mcp/resources",
+  "/api/mcp/prompts",
+  "/api/runtime/snapshot",
+  "/api/runtime/approvals"
+]);
+
+/** Attachments of the conversation, the agent websocket and its initial message fetch. */
+const SHARE_READ_PATTERNS = [
+  /^\/api\/chat\/attachments\/[^/]+$/,
+  /^\/agents\/chat-agent-v2\/[^/]+(?:\/get-messages)?$/
+];
+
+const COMMENT_REQUESTS = new Set(["POST /api/chat", "POST /api/chat/attachments"]);
+
+/** Share links only make the reads listed above, except that `comment` links may post new messages. */
+export function isShareRequestAllowed(scope: ShareScope, method: string, path: string): boolean {
+  const upper = method.toUpperCase();
+  if (upper === "GET" || upper === "HEAD") {
+    return SHARE_READ_PATHS.has(path) || SHARE_READ_PATTERNS.some((pattern) => pattern.test(path));
+  }
+  return scope === "comment" && COMMENT_REQUESTS.has(`${upper} ${path}`);
+}
+
+/** Whether any scope may make this request; `comment` links may do everything `view` links can. */
+export function isShareableRequest(method: string, path: string): boolean {
+  return isShareRequestAllowed("comment", method, path);
+}
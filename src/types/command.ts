@@ -1,4 +1,4 @@
-export type CommandTrigger = "@" | "#" | "!";
+export type CommandTrigger = "@" | "#" | "!" | "/";
 
 export interface ParsedCommandToken {
   trigger: CommandTrigger;
@@ -7,16 +7,25 @@ export interface ParsedCommandToken {
   end: number;
 }
 
+/** MCP prompt behind a `/` suggestion; selecting it opens the argument form instead of inserting text. */
+export interface CommandPromptRef {
+  serverId: string;
+  name: string;
+  description?: string;
+  arguments: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
 export interface CommandSuggestionItem {
   id: string;
   trigger: CommandTrigger;
   label: string;
   description?: string;
   value: string;
-  section: "tools" | "sessions" | "actions";
+  section: "tools" | "sessions" | "actions" | "prompts";
   keywords?: string[];
   priority?: number;
   group?: string;
+  prompt?: CommandPromptRef;
 }
 
 export interface CommandExecutionIntent {
@@ -32,7 +41,7 @@ export interface CommandExecutionIntent {
 export function parseCommandToken(input: string, caretIndex: number): ParsedCommandToken | null {
   const safeCaret = Math.min(Math.max(caretIndex, 0), input.length);
   const textBeforeCaret = input.slice(0, safeCaret);
-  const match = textBeforeCaret.match(/(?:^|\s)([@#!])([^\s@#!]*)$/);
+  const match = textBeforeCaret.match(/(?:^|\s)([@#!/])([^\s@#!/]*)$/);
 
   if (!match || match.index === undefined) {
     return null;
@@ -62,6 +71,17 @@ export function applyCommandSuggestion(
   return { nextInput, nextCaret };
 }
 
+/** Drop the typed command token, e.g. when a prompt runs from the menu instead of inserting text. */
+export function removeCommandToken(
+  input: string,
+  token: ParsedCommandToken
+): { nextInput: string; nextCaret: number } {
+  return {
+    nextInput: `${input.slice(0, token.start)}${input.slice(token.end)}`,
+    nextCaret: token.start
+  };
+}
+
 export function normalizeCommandInput(
   input: string,
   selected: CommandSuggestionItem[]
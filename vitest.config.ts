@@ -1,13 +1,37 @@
 import { defineConfig } from "vitest/config";
 import react from "@vitejs/plugin-react";
+import { cloudflareTest } from "@cloudflare/vitest-pool-workers";
 
 export default defineConfig({
-  plugins: [react()],
   test: {
-    environment: "jsdom",
-    globals: true,
-    setupFiles: ["./src/test/setup.ts"],
-    include: ["src/**/*.{test,spec}.{js,mjs,cjs,ts,mts,cts,jsx,tsx}"],
+    projects: [
+      {
+        plugins: [react()],
+        test: {
+          name: "unit",
+          environment: "jsdom",
+          globals: true,
+          setupFiles: ["./src/test/setup.ts"],
+          include: ["src/**/*.{test,spec}.{js,mjs,cjs,ts,mts,cts,jsx,tsx}"],
+          exclude: ["src/**/*.worker.test.ts"]
+        }
+      },
+      {
+        // Durable Object tests run inside workerd against the worker in src/server.ts.
+        plugins: [
+          cloudflareTest({
+            main: "./src/server.ts",
+            wrangler: { configPath: "./wrangler.jsonc" },
+            // Model and MCP requests never leave the test; see mockUpstream in the tests.
+            miniflare: { bindings: { BIGMODEL_API_KEY: "test-key" } }
+          })
+        ],
+        test: {
+          name: "workers",
+          include: ["src/**/*.worker.test.ts"]
+        }
+      }
+    ],
     coverage: {
       provider: "v8",
       reporter: ["text", "json", "html"],